@@ -0,0 +1,190 @@
+// Background job queue
+// Heavy simulations run on a pool of worker threads so they never block the
+// Express event loop or the WebSocket server. Jobs wait in a bounded FIFO
+// queue until a worker is free; finished jobs are kept for a while so their
+// results can be fetched.
+
+import { EventEmitter } from 'events';
+import { Worker } from 'worker_threads';
+import { randomUUID } from 'crypto';
+import os from 'os';
+
+export const JOB_STATUSES = ['queued', 'running', 'completed', 'failed', 'cancelled'];
+
+const DEFAULT_OPTIONS = {
+  concurrency: Math.max(1, os.availableParallelism() - 1), // Worker threads
+  maxQueueLength: 50, // Jobs waiting for a worker
+  historyLimit: 100, // Finished jobs kept for status requests
+  syncRunLimit: 100 // Runs an /api/simulation analysis may take before it is queued instead
+};
+
+const WORKER_URL = new URL('./worker.js', import.meta.url);
+
+export class JobQueue extends EventEmitter {
+  constructor(options = {}) {
+    super();
+    this.jobs = new Map(); // Every known job by id, oldest first
+    this.queue = []; // Ids of queued jobs
+    this.running = new Map(); // Job id -> worker running it
+    this.idleWorkers = [];
+
+    this.options = { ...DEFAULT_OPTIONS };
+    this.configure(options);
+  }
+
+  // Override the limits; undefined values keep the current setting
+  configure(options = {}) {
+    for (const key of Object.keys(DEFAULT_OPTIONS)) {
+      if (options[key] !== undefined) {
+        this.options[key] = options[key];
+      }
+    }
+    this.dispatch();
+  }
+
+  isFull() {
+    return this.queue.length >= this.options.maxQueueLength;
+  }
+
+  submit(type, payload) {
+    const job = {
+      id: randomUUID(),
+      type,
+      status: 'queued',
+      progress: 0,
+      createdAt: new Date().toISOString(),
+      startedAt: null,
+      finishedAt: null,
+      result: null,
+      error: null,
+      payload
+    };
+
+    this.jobs.set(job.id, job);
+    this.queue.push(job.id);
+    this.dispatch();
+    return job;
+  }
+
+  get(id) {
+    return this.jobs.get(id) ?? null;
+  }
+
+  list() {
+    return [...this.jobs.values()];
+  }
+
+  // Returns the cancelled job, or null if it no longer can be cancelled
+  cancel(id) {
+    const job = this.jobs.get(id);
+    if (!job || (job.status !== 'queued' && job.status !== 'running')) {
+      return null;
+    }
+
+    if (job.status === 'queued') {
+      this.queue = this.queue.filter(queuedId => queuedId !== id);
+    } else {
+      // A running computation cannot be interrupted, so its worker is replaced
+      const worker = this.running.get(id);
+      this.running.delete(id);
+      worker.terminate();
+    }
+
+    this.finish(job, 'cancelled');
+    return job;
+  }
+
+  // Start queued jobs while workers are available
+  dispatch() {
+    while (this.queue.length > 0 && this.running.size < this.options.concurrency) {
+      const job = this.jobs.get(this.queue.shift());
+      const worker = this.idleWorkers.pop() ?? this.spawnWorker();
+
+      job.status = 'running';
+      job.startedAt = new Date().toISOString();
+      this.running.set(job.id, worker);
+      worker.postMessage({ jobId: job.id, type: job.type, payload: job.payload });
+      this.emit('started', job);
+    }
+
+    // Shrink the pool after the concurrency limit was lowered
+    while (this.idleWorkers.length + this.running.size > this.options.concurrency &&
+           this.idleWorkers.length > 0) {
+      this.idleWorkers.pop().terminate();
+    }
+  }
+
+  spawnWorker() {
+    const worker = new Worker(WORKER_URL);
+
+    worker.on('message', (message) => this.handleMessage(worker, message));
+    worker.on('error', (error) => this.handleWorkerExit(worker, error.message));
+    worker.on('exit', (code) => this.handleWorkerExit(worker, `Worker stopped with exit code ${code}`));
+
+    return worker;
+  }
+
+  handleMessage(worker, { jobId, event, progress, result, error }) {
+    const job = this.jobs.get(jobId);
+    if (!job || job.status !== 'running') return;
+
+    if (event === 'progress') {
+      job.progress = progress;
+      this.emit('progress', job);
+      return;
+    }
+
+    this.running.delete(jobId);
+    this.idleWorkers.push(worker);
+
+    if (event === 'result') {
+      job.progress = 1;
+      this.finish(job, 'completed', { result });
+    } else {
+      this.finish(job, 'failed', { error });
+    }
+  }
+
+  // Fail the job of a worker that crashed; a terminated worker has no job left
+  handleWorkerExit(worker, reason) {
+    this.idleWorkers = this.idleWorkers.filter(idle => idle !== worker);
+
+    for (const [jobId, runningWorker] of this.running) {
+      if (runningWorker === worker) {
+        this.running.delete(jobId);
+        this.finish(this.jobs.get(jobId), 'failed', { error: reason });
+      }
+    }
+  }
+
+  finish(job, status, { result = null, error = null } = {}) {
+    job.status = status;
+    job.finishedAt = new Date().toISOString();
+    job.result = result;
+    job.error = error;
+    // The payload is not needed once the job is done
+    job.payload = null;
+
+    this.emit('finished', job);
+    this.pruneHistory();
+    this.dispatch();
+  }
+
+  // Forget the oldest finished jobs beyond the history limit
+  pruneHistory() {
+    const finished = this.list().filter(job => job.finishedAt !== null);
+    for (const job of finished.slice(0, Math.max(0, finished.length - this.options.historyLimit))) {
+      this.jobs.delete(job.id);
+    }
+  }
+}
+
+// Job details without the potentially large result
+export function describeJob(job) {
+  const { result, payload, ...summary } = job;
+  return summary;
+}
+
+export const jobQueue = new JobQueue();
+
+export default jobQueue;
@@ -0,0 +1,118 @@
+// Job types the worker pool can run. Each type validates its payload on the
+// main thread and runs inside a worker, reporting progress as a fraction.
+// Analyses also estimate how many simulation runs they take, which decides
+// whether /api/simulation runs them in the request or queues them.
+
+import { createSimulator, validateRunOptions, SINGLE_RUN_MODES } from '../simulation/factory.js';
+import { runEnsemble, validateEnsembleOptions, ensembleRunCount } from '../simulation/ensemble.js';
+import { runSweep, validateSweep, sweepRunCount } from '../simulation/sweep.js';
+import { runBifurcation, validateBifurcation, bifurcationRunCount } from '../simulation/bifurcation.js';
+import { runSensitivity, validateSensitivity, sensitivityRunCount } from '../simulation/sensitivity.js';
+import { runCalibration, validateCalibration, calibrationRunCount } from '../simulation/calibration.js';
+import { calculatePhasePlane, validatePhasePlaneOptions } from '../simulation/phasePlane.js';
+import {
+  validateRequiredParameters,
+  validateParameters,
+  requireTwoSpecies
+} from '../simulation/validation.js';
+
+function runOptionsOf({ mode, seed, solver = {}, stochastic = {}, spatial = {}, agent = {} }) {
+  return { mode, seed, solver, stochastic, spatial, agent };
+}
+
+const TASKS = {
+  simulation: {
+    validate: (payload) =>
+      validateRequiredParameters(payload.parameters) ||
+      validateParameters(payload.parameters) ||
+      (SINGLE_RUN_MODES.includes(payload.mode) && requireTwoSpecies(payload.parameters)) ||
+      validateRunOptions(runOptionsOf(payload), { singleRun: true, parameters: payload.parameters }),
+    run: (payload, onProgress) =>
+      createSimulator(payload.parameters, runOptionsOf(payload)).simulate(onProgress)
+  },
+
+  ensemble: {
+    validate: (payload) =>
+      validateRequiredParameters(payload.parameters) ||
+      validateParameters(payload.parameters) ||
+      validateEnsembleOptions(payload.parameters, { mode: 'stochastic', ...payload }),
+    runCount: ensembleRunCount,
+    run: ({ parameters, ...options }, onProgress) =>
+      runEnsemble(parameters, { ...options, onProgress })
+  },
+
+  sweep: {
+    validate: (payload) =>
+      validateRequiredParameters(payload.parameters) ||
+      validateParameters(payload.parameters) ||
+      validateSweep(payload.parameters, payload.axes, runOptionsOf(payload)),
+    runCount: (payload) => sweepRunCount(payload.axes),
+    run: (payload, onProgress) =>
+      runSweep(payload.parameters, payload.axes, runOptionsOf(payload), onProgress)
+  },
+
+  bifurcation: {
+    validate: (payload) =>
+      validateRequiredParameters(payload.parameters) ||
+      validateParameters(payload.parameters) ||
+      validateBifurcation(payload.parameters, payload, runOptionsOf(payload)),
+    runCount: bifurcationRunCount,
+    run: (payload, onProgress) =>
+      runBifurcation(payload.parameters, payload, runOptionsOf(payload), onProgress)
+  },
+
+  sensitivity: {
+    validate: (payload) =>
+      validateRequiredParameters(payload.parameters) ||
+      validateParameters(payload.parameters) ||
+      validateSensitivity(payload.parameters, payload, runOptionsOf(payload)),
+    runCount: (payload) => sensitivityRunCount(payload.parameters, payload),
+    run: (payload, onProgress) =>
+      runSensitivity(payload.parameters, payload, runOptionsOf(payload), onProgress)
+  },
+
+  calibration: {
+    validate: (payload) =>
+      validateRequiredParameters(payload.parameters) ||
+      validateParameters(payload.parameters) ||
+      validateCalibration(payload.parameters, payload, runOptionsOf(payload)),
+    runCount: calibrationRunCount,
+    run: (payload, onProgress) =>
+      runCalibration(payload.parameters, payload, runOptionsOf(payload), onProgress)
+  },
+
+  phaseSpace: {
+    validate: (payload) => {
+      if (!payload.parameters) {
+        return 'Parameters required';
+      }
+      return requireTwoSpecies(payload.parameters) ||
+        validateParameters(payload.parameters) ||
+        validatePhasePlaneOptions(payload);
+    },
+    run: ({ parameters, resolution, bounds }) =>
+      calculatePhasePlane(parameters, { resolution, bounds })
+  }
+};
+
+export const JOB_TYPES = Object.keys(TASKS);
+
+// Returns an error message if the job cannot be run
+export function validateJob(type, payload) {
+  if (!TASKS[type]) {
+    return `Unknown job type: ${type}`;
+  }
+  if (!payload || typeof payload !== 'object') {
+    return 'Job payload must be an object';
+  }
+  return TASKS[type].validate(payload);
+}
+
+// Estimated simulation runs of a valid payload, 1 for types without an estimate
+export function estimateRuns(type, payload) {
+  return TASKS[type].runCount?.(payload) ?? 1;
+}
+
+export function runTask(type, payload, onProgress) {
+  return TASKS[type].run(payload, onProgress);
+}
@@ -0,0 +1,24 @@
+// Worker thread entry point: runs one job at a time for the job queue
+
+import { parentPort } from 'worker_threads';
+import { runTask } from './tasks.js';
+
+// Only post progress when it moved by at least a percent
+const PROGRESS_STEP = 0.01;
+
+parentPort.on('message', ({ jobId, type, payload }) => {
+  let reported = 0;
+  const onProgress = (fraction) => {
+    if (fraction - reported >= PROGRESS_STEP) {
+      reported = fraction;
+      parentPort.postMessage({ jobId, event: 'progress', progress: Math.min(1, fraction) });
+    }
+  };
+
+  try {
+    const result = runTask(type, payload, onProgress);
+    parentPort.postMessage({ jobId, event: 'result', result });
+  } catch (error) {
+    parentPort.postMessage({ jobId, event: 'error', error: error.message });
+  }
+});
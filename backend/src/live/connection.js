@@ -0,0 +1,94 @@
+// Handling of /api/live connections: every incoming message is checked
+// against the protocol and dispatched to the hub or the live sessions.
+// Replies go to the sender; everything else travels on channels.
+
+import { liveHub } from './hub.js';
+import { liveSessions } from './sessions.js';
+import { rooms } from './rooms.js';
+import { validateClientMessage, channelKind } from './protocol.js';
+
+// Returns an error message if the client may not join the channel
+function authorizeSubscription(channel) {
+  if (channelKind(channel) === 'room') {
+    return 'Join a room with join_room';
+  }
+  if (channelKind(channel) === 'session' && !liveSessions.has(channel.slice('session:'.length))) {
+    return `Unknown session: ${channel.slice('session:'.length)}`;
+  }
+  return null;
+}
+
+function handleMessage(ws, data) {
+  const client = liveHub.clientOf(ws);
+  if (!client) return;
+  client.alive = true;
+
+  const error = validateClientMessage(data);
+  if (error) {
+    liveHub.send(client.id, { type: 'error', error });
+    return;
+  }
+
+  switch (data.type) {
+    case 'ping':
+      liveHub.send(client.id, { type: 'pong', time: Date.now() });
+      break;
+    case 'reconnect':
+      if (!liveHub.reconnect(ws, data.clientId)) {
+        liveHub.send(client.id, { type: 'reconnect_failed', clientId: client.id });
+      }
+      break;
+    case 'subscribe': {
+      const subscriptionError = authorizeSubscription(data.channel);
+      if (subscriptionError) {
+        liveHub.send(client.id, { type: 'error', error: subscriptionError });
+      } else {
+        liveHub.subscribe(client.id, data.channel);
+        liveHub.send(client.id, { type: 'subscribed', channel: data.channel });
+      }
+      break;
+    }
+    case 'unsubscribe':
+      liveHub.unsubscribe(client.id, data.channel);
+      liveHub.send(client.id, { type: 'unsubscribed', channel: data.channel });
+      break;
+    case 'simulation_update':
+      // Relayed to the other subscribers of a channel the sender has joined
+      if (!liveHub.isSubscribed(client.id, data.channel)) {
+        liveHub.send(client.id, { type: 'error', error: `Subscribe to ${data.channel} before publishing on it` });
+      } else {
+        liveHub.publish(data.channel, { type: 'simulation_state', data: data.payload }, { except: client.id });
+      }
+      break;
+    default:
+      if (rooms.handles(data.type)) {
+        rooms.handle(client.id, data);
+      } else {
+        liveSessions.handle(client.id, data);
+      }
+  }
+}
+
+export function handleConnection(ws) {
+  liveHub.attach(ws);
+
+  ws.on('message', (message) => {
+    let data;
+    try {
+      data = JSON.parse(message);
+    } catch (error) {
+      liveHub.send(liveHub.clientOf(ws)?.id, { type: 'error', error: 'Messages must be valid JSON' });
+      return;
+    }
+
+    try {
+      handleMessage(ws, data);
+    } catch (error) {
+      console.error('WebSocket message error:', error);
+    }
+  });
+
+  ws.on('close', () => {
+    liveHub.detach(ws);
+  });
+}
@@ -0,0 +1,179 @@
+// Client and channel registry of /api/live
+// Every connection gets a client id. Messages are published on channels and
+// reach only their subscribers. A heartbeat ends connections that stop
+// answering pings, and a client that reconnects within the grace period can
+// resume under its old id, keeping its subscriptions and live sessions.
+
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { PROTOCOL_VERSION } from './protocol.js';
+
+const DEFAULT_OPTIONS = {
+  heartbeatInterval: 30000, // Milliseconds between pings
+  resumeGrace: 60000 // Milliseconds a disconnected client can resume
+};
+
+export class LiveHub extends EventEmitter {
+  constructor(options = {}) {
+    super();
+    this.clients = new Map(); // Client id -> { id, ws, channels, alive, expiry }
+    this.sockets = new Map(); // Open socket -> client
+    this.channels = new Map(); // Channel -> ids of subscribed clients
+    this.heartbeat = null;
+
+    this.options = { ...DEFAULT_OPTIONS };
+    this.configure(options);
+  }
+
+  // Override the timings; undefined values keep the current setting
+  configure(options = {}) {
+    for (const key of Object.keys(DEFAULT_OPTIONS)) {
+      if (options[key] !== undefined) {
+        this.options[key] = options[key];
+      }
+    }
+  }
+
+  // Register a new connection and tell the client its id
+  attach(ws) {
+    const client = { id: randomUUID(), ws, channels: new Set(), alive: true, expiry: null };
+    this.clients.set(client.id, client);
+    this.sockets.set(ws, client);
+    ws.on('pong', () => { client.alive = true; });
+
+    this.send(client.id, {
+      type: 'connected',
+      clientId: client.id,
+      protocolVersion: PROTOCOL_VERSION,
+      message: 'Successfully connected to simulation server'
+    });
+    return client;
+  }
+
+  clientOf(ws) {
+    return this.sockets.get(ws) ?? null;
+  }
+
+  // Move a connection back to the client it had before reconnecting.
+  // Returns the client, or null if it has expired or is still connected.
+  reconnect(ws, clientId) {
+    const current = this.sockets.get(ws);
+    const previous = this.clients.get(clientId);
+    if (!current || !previous || previous.ws || previous === current) {
+      return null;
+    }
+
+    // The fresh client made for this connection has not subscribed to anything worth keeping
+    this.drop(current.id, false);
+    clearTimeout(previous.expiry);
+    previous.expiry = null;
+    previous.ws = ws;
+    previous.alive = true;
+    ws.removeAllListeners('pong');
+    ws.on('pong', () => { previous.alive = true; });
+    this.sockets.set(ws, previous);
+
+    this.send(previous.id, {
+      type: 'reconnected',
+      clientId: previous.id,
+      channels: [...previous.channels]
+    });
+    this.emit('reconnected', previous.id);
+    return previous;
+  }
+
+  // A closed connection keeps its client for the grace period
+  detach(ws) {
+    const client = this.sockets.get(ws);
+    if (!client) return;
+
+    this.sockets.delete(ws);
+    client.ws = null;
+    client.expiry = setTimeout(() => this.drop(client.id), this.options.resumeGrace);
+    this.emit('disconnected', client.id);
+  }
+
+  // Forget a client and its subscriptions
+  drop(clientId, expired = true) {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+
+    clearTimeout(client.expiry);
+    client.channels.forEach(channel => this.unsubscribe(clientId, channel));
+    if (client.ws) this.sockets.delete(client.ws);
+    this.clients.delete(clientId);
+    if (expired) this.emit('expired', clientId);
+  }
+
+  subscribe(clientId, channel) {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+
+    client.channels.add(channel);
+    if (!this.channels.has(channel)) this.channels.set(channel, new Set());
+    this.channels.get(channel).add(clientId);
+  }
+
+  unsubscribe(clientId, channel) {
+    this.clients.get(clientId)?.channels.delete(channel);
+    const subscribers = this.channels.get(channel);
+    subscribers?.delete(clientId);
+    if (subscribers?.size === 0) this.channels.delete(channel);
+  }
+
+  // Unsubscribe everyone from a channel that has nothing more to say
+  closeChannel(channel) {
+    [...this.channels.get(channel) ?? []].forEach(clientId => this.unsubscribe(clientId, channel));
+  }
+
+  isSubscribed(clientId, channel) {
+    return this.channels.get(channel)?.has(clientId) ?? false;
+  }
+
+  // Send a message on a channel to every subscriber, optionally but one
+  publish(channel, message, { except = null } = {}) {
+    const subscribers = this.channels.get(channel);
+    if (!subscribers) return;
+
+    const data = JSON.stringify({ ...message, channel });
+    subscribers.forEach(clientId => {
+      if (clientId !== except) this.sendRaw(clientId, data);
+    });
+  }
+
+  // Send a message to one client
+  send(clientId, message) {
+    this.sendRaw(clientId, JSON.stringify(message));
+  }
+
+  sendRaw(clientId, data) {
+    const ws = this.clients.get(clientId)?.ws;
+    if (ws && ws.readyState === 1) { // WebSocket.OPEN
+      ws.send(data);
+    }
+  }
+
+  // Ping every connection; those that did not answer the previous ping are closed
+  startHeartbeat() {
+    if (this.heartbeat) return;
+    this.heartbeat = setInterval(() => {
+      this.sockets.forEach((client, ws) => {
+        if (!client.alive) {
+          ws.terminate();
+          return;
+        }
+        client.alive = false;
+        ws.ping();
+      });
+    }, this.options.heartbeatInterval);
+  }
+
+  stopHeartbeat() {
+    clearInterval(this.heartbeat);
+    this.heartbeat = null;
+  }
+}
+
+export const liveHub = new LiveHub();
+
+export default liveHub;
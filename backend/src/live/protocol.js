@@ -0,0 +1,145 @@
+// Message protocol of /api/live
+// Every message is a JSON object with a `type`. Clients receive what is
+// published on the channels they subscribe to, plus replies to their own
+// commands. The frontend mirrors these messages as `ClientMessage` and
+// `ServerMessage` in frontend/src/types; bump the version when they change.
+
+export const PROTOCOL_VERSION = 3;
+
+// Commands that create and drive live sessions
+export const SESSION_COMMANDS = [
+  'create_session',
+  'start',
+  'pause',
+  'resume',
+  'step',
+  'set_speed',
+  'update_parameters',
+  'stop'
+];
+
+// Commands that open, join and edit shared rooms
+export const ROOM_COMMANDS = [
+  'create_room',
+  'join_room',
+  'leave_room',
+  'acquire_lock',
+  'release_lock',
+  'set_role',
+  'update_room_parameters',
+  'room_session',
+  'close_room'
+];
+
+// Session commands a room member can give the room's live run
+export const ROOM_SESSION_COMMANDS = SESSION_COMMANDS.filter(command => command !== 'update_parameters');
+
+// Channel kinds and what is published on them:
+// session:<id>  updates of a live session
+// room:<code>   members, edits and the live run of a shared room
+// run:<id>      progress of a /run or /stream request that named the run
+// scenario:<id> runs of a shared scenario, and updates relayed by clients
+// job:<id>      the end of a background job; `jobs` carries every job
+export const CHANNEL_KINDS = ['session', 'room', 'run', 'scenario', 'job'];
+export const GLOBAL_CHANNELS = ['jobs'];
+
+// Kinds of channel clients may publish on themselves
+export const RELAY_CHANNEL_KINDS = ['run', 'scenario'];
+
+export const CLIENT_MESSAGE_TYPES = [
+  'ping',
+  'reconnect',
+  'subscribe',
+  'unsubscribe',
+  'simulation_update',
+  ...SESSION_COMMANDS,
+  ...ROOM_COMMANDS
+];
+
+export const SERVER_MESSAGE_TYPES = [
+  'connected',
+  'reconnected',
+  'reconnect_failed',
+  'pong',
+  'subscribed',
+  'unsubscribed',
+  'error',
+  'simulation_update',
+  'simulation_complete',
+  'simulation_state',
+  'job_complete',
+  'job_failed',
+  'job_cancelled',
+  'session_created',
+  'session_status',
+  'session_update',
+  'session_complete',
+  'session_resumed',
+  'session_error',
+  'room_joined',
+  'room_state',
+  'room_parameters',
+  'room_closed',
+  'room_error'
+];
+
+const CHANNEL_ID = /^[\w-]{1,100}$/;
+
+export function channelKind(channel) {
+  return channel.split(':')[0];
+}
+
+export function channelFor(kind, id) {
+  return `${kind}:${id}`;
+}
+
+// Returns an error message unless the channel name is well formed
+export function validateChannel(channel) {
+  if (typeof channel !== 'string') {
+    return 'Channel must be a string';
+  }
+  if (GLOBAL_CHANNELS.includes(channel)) {
+    return null;
+  }
+  const [kind, id, ...rest] = channel.split(':');
+  if (!CHANNEL_KINDS.includes(kind) || rest.length > 0 || !CHANNEL_ID.test(id ?? '')) {
+    return `Unknown channel: ${channel}. Channels are ${[...CHANNEL_KINDS.map(k => `${k}:<id>`), ...GLOBAL_CHANNELS].join(', ')}`;
+  }
+  return null;
+}
+
+function validateRoomCode(code) {
+  return typeof code === 'string' && CHANNEL_ID.test(code) ? null : 'Room commands need the room code';
+}
+
+// Returns an error message for a message the server cannot handle
+export function validateClientMessage(message) {
+  if (!message || typeof message !== 'object' || Array.isArray(message)) {
+    return 'Messages must be JSON objects';
+  }
+  if (!CLIENT_MESSAGE_TYPES.includes(message.type)) {
+    return `Unknown message type: ${message.type}`;
+  }
+
+  switch (message.type) {
+    case 'reconnect':
+      return typeof message.clientId === 'string' ? null : 'Reconnecting needs the previous clientId';
+    case 'subscribe':
+    case 'unsubscribe':
+      return validateChannel(message.channel);
+    case 'simulation_update':
+      return validateChannel(message.channel) ||
+        (RELAY_CHANNEL_KINDS.includes(channelKind(message.channel))
+          ? null
+          : `Clients can only publish on ${RELAY_CHANNEL_KINDS.map(k => `${k}:<id>`).join(' and ')} channels`);
+    case 'create_room':
+      return null;
+    case 'room_session':
+      return validateRoomCode(message.code) ||
+        (ROOM_SESSION_COMMANDS.includes(message.payload?.command)
+          ? null
+          : `Room run commands are ${ROOM_SESSION_COMMANDS.join(', ')}`);
+    default:
+      return ROOM_COMMANDS.includes(message.type) ? validateRoomCode(message.code) : null;
+  }
+}
@@ -0,0 +1,443 @@
+// Shared rooms
+// A facilitator opens a room and others join it by its code. Everyone in a
+// room sees the same parameters and the same live run. Editing needs the
+// room's edit lock, which one member holds at a time: participants can take
+// it when it is free, facilitators can always take it, and viewers only
+// watch. Rooms are saved to a file, so after a server restart they come back
+// with their parameters, members and roles; members rejoin with their token.
+
+import fs from 'fs';
+import path from 'path';
+import { randomInt, randomUUID } from 'crypto';
+import { liveHub } from './hub.js';
+import { liveSessions } from './sessions.js';
+import { ROOM_COMMANDS, channelFor } from './protocol.js';
+import { validateRunOptions, SINGLE_RUN_MODES } from '../simulation/factory.js';
+import {
+  validateRequiredParameters,
+  validateParameters,
+  requireTwoSpecies
+} from '../simulation/validation.js';
+
+export const ROOM_ROLES = ['facilitator', 'participant', 'viewer'];
+
+export const MAX_ROOMS = 100;
+export const MAX_MEMBERS = 50;
+
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No 0/O or 1/I
+const CODE_LENGTH = 6;
+const SAVE_DELAY = 500; // Milliseconds to gather changes before writing the file
+
+const isRole = (role) => ROOM_ROLES.includes(role);
+
+// Returns an error message unless the parameters and run options can drive a room's runs
+function validateRoomParameters(parameters, runOptions = {}) {
+  const { mode, seed, solver, stochastic, spatial, agent } = runOptions;
+  return validateRequiredParameters(parameters) ||
+    validateParameters(parameters) ||
+    (SINGLE_RUN_MODES.includes(mode) && requireTwoSpecies(parameters)) ||
+    validateRunOptions({ mode, seed, solver, stochastic, spatial, agent }, { singleRun: true, parameters });
+}
+
+function validateName(name, what) {
+  if (name !== undefined && (typeof name !== 'string' || name.length > 60)) {
+    return `${what} must be a string of at most 60 characters`;
+  }
+  return null;
+}
+
+export class RoomManager {
+  constructor(hub, sessions, file) {
+    this.hub = hub;
+    this.sessions = sessions;
+    this.file = file;
+    this.rooms = new Map(); // Code -> room
+    this.saveTimer = null;
+
+    // Members who lose their connection go offline and give up the lock
+    hub.on('disconnected', clientId => this.setOnline(clientId, false));
+    hub.on('reconnected', clientId => this.setOnline(clientId, true));
+    hub.on('expired', clientId => this.forget(clientId));
+  }
+
+  // Choose the file rooms are saved to, then bring back the rooms in it
+  configure({ file } = {}) {
+    if (file !== undefined) {
+      this.file = file;
+    }
+    this.load();
+  }
+
+  handles(type) {
+    return ROOM_COMMANDS.includes(type);
+  }
+
+  // Carry out a client command. Errors go back to that client only.
+  handle(clientId, { type, code, payload = {} }) {
+    const fail = (error) => this.hub.send(clientId, { type: 'room_error', code, error });
+
+    try {
+      if (type === 'create_room') {
+        return this.create(clientId, payload, fail);
+      }
+
+      const room = this.rooms.get(code);
+      if (!room) {
+        return fail(`Unknown room: ${code}`);
+      }
+      if (type === 'join_room') {
+        return this.join(clientId, room, payload, fail);
+      }
+
+      const member = this.memberOf(room, clientId);
+      if (!member) {
+        return fail(`Join room ${code} first`);
+      }
+
+      switch (type) {
+        case 'leave_room':
+          return this.leave(room, member);
+        case 'acquire_lock':
+          return this.acquireLock(room, member, fail);
+        case 'release_lock':
+          if (room.lock === member.id) {
+            room.lock = null;
+            this.publishState(room);
+          }
+          return;
+        case 'set_role':
+          return this.setRole(room, member, payload, fail);
+        case 'update_room_parameters':
+          return this.updateParameters(room, member, payload, fail);
+        case 'room_session':
+          return this.controlSession(room, member, payload, fail);
+        case 'close_room':
+          return this.close(room, member, fail);
+      }
+    } catch (error) {
+      console.error('Room error:', error);
+      fail(error.message);
+    }
+  }
+
+  create(clientId, { name, displayName, parameters, runOptions = {} }, fail) {
+    if (this.rooms.size >= MAX_ROOMS) {
+      return fail(`At most ${MAX_ROOMS} rooms can be open`);
+    }
+    const error = validateName(name, 'Room name') || validateName(displayName, 'Display name') ||
+      validateRoomParameters(parameters, runOptions);
+    if (error) {
+      return fail(error);
+    }
+
+    const now = new Date().toISOString();
+    const room = {
+      code: this.newCode(),
+      name: name || 'Shared sandbox',
+      parameters,
+      runOptions,
+      revision: 0,
+      members: [],
+      lock: null, // Id of the member holding the edit lock
+      sessionId: null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.rooms.set(room.code, room);
+
+    const member = this.addMember(room, clientId, displayName, 'facilitator');
+    room.lock = member.id;
+    this.welcome(room, member);
+    this.save();
+  }
+
+  // A returning member's token restores their role, and a client already in
+  // the room stays the same member; newcomers participate
+  join(clientId, room, { displayName, token }, fail) {
+    const error = validateName(displayName, 'Display name');
+    if (error) {
+      return fail(error);
+    }
+
+    let member = (token ? room.members.find(m => m.token === token) : null) ?? this.memberOf(room, clientId);
+    if (member) {
+      member.clientId = clientId;
+      member.online = true;
+      member.name = displayName || member.name;
+    } else {
+      if (room.members.length >= MAX_MEMBERS && !this.makeRoom(room)) {
+        return fail(`Room ${room.code} is full`);
+      }
+      member = this.addMember(room, clientId, displayName, 'participant');
+    }
+    this.welcome(room, member);
+    this.save();
+  }
+
+  // Members who leave are gone for good. The last facilitator hands the role
+  // to the longest-standing member, and a room nobody is left in closes.
+  leave(room, member) {
+    this.hub.unsubscribe(member.clientId, channelFor('room', room.code));
+    this.removeMember(room, member);
+    if (room.members.length === 0) {
+      this.sessions.get(room.sessionId)?.finish();
+      this.hub.closeChannel(channelFor('room', room.code));
+      this.rooms.delete(room.code);
+      this.save();
+      return;
+    }
+
+    if (!room.members.some(m => m.role === 'facilitator')) {
+      room.members[0].role = 'facilitator';
+    }
+    this.publishState(room);
+    this.save();
+  }
+
+  // A full room drops its first member who is neither connected nor a
+  // facilitator. Returns whether one was dropped.
+  makeRoom(room) {
+    const absent = room.members.find(m => m.clientId === null && m.role !== 'facilitator');
+    if (!absent) return false;
+    this.removeMember(room, absent);
+    return true;
+  }
+
+  removeMember(room, member) {
+    room.members = room.members.filter(m => m !== member);
+    if (room.lock === member.id) room.lock = null;
+  }
+
+  acquireLock(room, member, fail) {
+    if (member.role === 'viewer') {
+      return fail('Viewers cannot edit the room');
+    }
+    const holder = room.members.find(m => m.id === room.lock);
+    if (holder && holder !== member && member.role !== 'facilitator') {
+      return fail(`${holder.name} is editing the room`);
+    }
+    room.lock = member.id;
+    this.publishState(room);
+  }
+
+  setRole(room, member, { participantId, role }, fail) {
+    if (member.role !== 'facilitator') {
+      return fail('Only facilitators can change roles');
+    }
+    const target = room.members.find(m => m.id === participantId);
+    if (!target || !isRole(role)) {
+      return fail(`Roles are ${ROOM_ROLES.join(', ')} of a room member`);
+    }
+    if (target.role === 'facilitator' && role !== 'facilitator' &&
+        room.members.filter(m => m.role === 'facilitator').length === 1) {
+      return fail('A room needs a facilitator');
+    }
+
+    target.role = role;
+    if (role === 'viewer' && room.lock === target.id) room.lock = null;
+    this.publishState(room);
+    this.save();
+  }
+
+  // Edits by the lock holder reach every member and the room's live run.
+  // Run options only apply from the next run, so they cannot change during one.
+  updateParameters(room, member, { parameters, runOptions = room.runOptions }, fail) {
+    if (room.lock !== member.id) {
+      return fail('Take the edit lock before changing the parameters');
+    }
+    const error = validateRoomParameters(parameters, runOptions);
+    if (error) {
+      return fail(error);
+    }
+
+    const session = this.sessions.get(room.sessionId);
+    if (session && session.status !== 'finished') {
+      if (JSON.stringify(runOptions) !== JSON.stringify(room.runOptions)) {
+        return fail('Stop the room run before changing its run options');
+      }
+      let sessionError = null;
+      this.sessions.control(session, 'update_parameters', { parameters }, (message) => { sessionError = message; });
+      if (sessionError) {
+        return fail(sessionError);
+      }
+    }
+
+    room.parameters = parameters;
+    room.runOptions = runOptions;
+    room.revision++;
+    room.updatedAt = new Date().toISOString();
+    this.hub.publish(channelFor('room', room.code), {
+      type: 'room_parameters',
+      code: room.code,
+      data: { parameters, runOptions, revision: room.revision, editedBy: member.id }
+    });
+    this.save();
+  }
+
+  // The room's live run is started and steered by facilitators and the lock holder
+  controlSession(room, member, { command, speed, settings }, fail) {
+    if (member.role !== 'facilitator' && room.lock !== member.id) {
+      return fail('Only facilitators and the editor can control the room run');
+    }
+
+    if (command === 'create_session') {
+      this.sessions.get(room.sessionId)?.finish();
+      const session = this.sessions.create(channelFor('room', room.code), {
+        parameters: room.parameters,
+        ...room.runOptions,
+        settings
+      }, fail, { channel: channelFor('room', room.code) });
+      room.sessionId = session?.id ?? null;
+      this.publishState(room);
+      return;
+    }
+
+    const session = this.sessions.get(room.sessionId);
+    if (!session) {
+      return fail('The room has no live run');
+    }
+    this.sessions.control(session, command, { speed }, fail);
+    this.publishState(room);
+  }
+
+  close(room, member, fail) {
+    if (member.role !== 'facilitator') {
+      return fail('Only facilitators can close the room');
+    }
+    this.sessions.get(room.sessionId)?.finish();
+    const channel = channelFor('room', room.code);
+    this.hub.publish(channel, { type: 'room_closed', code: room.code });
+    this.hub.closeChannel(channel);
+    this.rooms.delete(room.code);
+    this.save();
+  }
+
+  addMember(room, clientId, displayName, role) {
+    const member = {
+      id: randomUUID(),
+      token: randomUUID(), // Secret that lets the member rejoin as themselves
+      name: displayName || `Guest ${room.members.length + 1}`,
+      role,
+      clientId,
+      online: true,
+      joinedAt: new Date().toISOString()
+    };
+    room.members.push(member);
+    return member;
+  }
+
+  memberOf(room, clientId) {
+    return room.members.find(m => m.clientId === clientId) ?? null;
+  }
+
+  // Subscribe a member to the room and send them everything they need
+  welcome(room, member) {
+    this.hub.subscribe(member.clientId, channelFor('room', room.code));
+    this.hub.send(member.clientId, {
+      type: 'room_joined',
+      code: room.code,
+      data: { participantId: member.id, token: member.token, room: this.describe(room) }
+    });
+    this.publishState(room);
+  }
+
+  setOnline(clientId, online) {
+    this.rooms.forEach(room => {
+      const member = this.memberOf(room, clientId);
+      if (!member) return;
+      member.online = online;
+      if (!online && room.lock === member.id) room.lock = null;
+      this.publishState(room);
+    });
+  }
+
+  forget(clientId) {
+    this.rooms.forEach(room => {
+      const member = this.memberOf(room, clientId);
+      if (member) member.clientId = null;
+    });
+  }
+
+  publishState(room) {
+    this.hub.publish(channelFor('room', room.code), { type: 'room_state', code: room.code, data: this.describe(room) });
+  }
+
+  // What members see of a room; tokens stay private
+  describe(room) {
+    const session = this.sessions.get(room.sessionId);
+    return {
+      code: room.code,
+      name: room.name,
+      parameters: room.parameters,
+      runOptions: room.runOptions,
+      revision: room.revision,
+      members: room.members.map(({ id, name, role, clientId, online }) => ({
+        id,
+        name,
+        role,
+        online: clientId !== null && online
+      })),
+      lock: room.lock,
+      session: session?.describe() ?? null,
+      createdAt: room.createdAt,
+      updatedAt: room.updatedAt
+    };
+  }
+
+  newCode() {
+    let code;
+    do {
+      code = Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join('');
+    } while (this.rooms.has(code));
+    return code;
+  }
+
+  // Rooms come back without connections, locks or runs
+  load() {
+    if (!this.file || !fs.existsSync(this.file)) return;
+    try {
+      const saved = JSON.parse(fs.readFileSync(this.file, 'utf8'));
+      saved.rooms.forEach(room => {
+        this.rooms.set(room.code, {
+          ...room,
+          members: room.members.map(m => ({ ...m, clientId: null })),
+          lock: null,
+          sessionId: null
+        });
+      });
+      console.log(`🚪 Restored ${this.rooms.size} shared room(s) from ${this.file}`);
+    } catch (error) {
+      console.error('Could not restore shared rooms:', error);
+    }
+  }
+
+  // Write the rooms soon, replacing the file in one step so a crash never leaves half of it
+  save() {
+    if (!this.file || this.saveTimer) return;
+    this.saveTimer = setTimeout(async () => {
+      this.saveTimer = null;
+      const rooms = [...this.rooms.values()].map(({ code, name, parameters, runOptions, revision, members, createdAt, updatedAt }) => ({
+        code,
+        name,
+        parameters,
+        runOptions,
+        revision,
+        members: members.map(({ id, token, name, role, joinedAt }) => ({ id, token, name, role, joinedAt })),
+        createdAt,
+        updatedAt
+      }));
+      const temporary = `${this.file}.${process.pid}.tmp`;
+      try {
+        await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+        await fs.promises.writeFile(temporary, JSON.stringify({ rooms }, null, 2));
+        await fs.promises.rename(temporary, this.file);
+      } catch (error) {
+        console.error('Could not save shared rooms:', error);
+      }
+    }, SAVE_DELAY);
+  }
+}
+
+export const rooms = new RoomManager(liveHub, liveSessions, path.join('data', 'rooms.json'));
+
+export default rooms;
@@ -0,0 +1,374 @@
+// Live simulation sessions
+// A client on /api/live creates a session and then drives it: start, pause,
+// resume, single steps, speed changes and parameter edits while the run goes
+// on. Commands only queue their change, which applies at the next step.
+// Every message names its session and goes only to the session's subscribers.
+
+import { randomUUID } from 'crypto';
+import { liveHub } from './hub.js';
+import { SESSION_COMMANDS, channelFor } from './protocol.js';
+import { createSimulator, validateRunOptions, SINGLE_RUN_MODES } from '../simulation/factory.js';
+import { buildFoodWeb } from '../simulation/foodWeb.js';
+import {
+  validateRequiredParameters,
+  validateParameters,
+  requireTwoSpecies
+} from '../simulation/validation.js';
+
+export const SESSION_STATUSES = ['idle', 'running', 'paused', 'finished'];
+
+export const MAX_SESSIONS_PER_CLIENT = 3;
+
+const DEFAULT_SETTINGS = {
+  speed: 10, // Simulation steps per update
+  updateInterval: 100, // Milliseconds between updates
+  duration: 100 // Simulated time before the run ends
+};
+
+const LIMITS = {
+  speed: [1, 1000],
+  updateInterval: [20, 5000],
+  duration: [1, 10000]
+};
+
+const RECORD_INTERVAL = 0.1; // Time between history snapshots, as in full runs
+
+// Returns an error message if the session settings are invalid
+export function validateSessionSettings(settings = {}) {
+  for (const [key, [min, max]] of Object.entries(LIMITS)) {
+    const value = settings[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+      return `${key} must be a number between ${min} and ${max}`;
+    }
+  }
+  if (settings.speed !== undefined && !Number.isInteger(settings.speed)) {
+    return 'speed must be an integer';
+  }
+  return null;
+}
+
+function validateSessionParameters(parameters, options) {
+  return validateRequiredParameters(parameters) ||
+    validateParameters(parameters) ||
+    (SINGLE_RUN_MODES.includes(options.mode) && requireTwoSpecies(parameters)) ||
+    validateRunOptions(options, { singleRun: true, parameters });
+}
+
+// The state of a running simulation as sent to clients. Spatial runs also
+// carry the density of every grid cell, agent runs the position of every agent.
+export function describeLiveState(simulator, mode) {
+  const speciesPopulations = {};
+  simulator.web.species.forEach((s, i) => {
+    speciesPopulations[s.id] = simulator.populations[i];
+  });
+
+  return {
+    time: simulator.currentTime,
+    populations: {
+      prey: simulator.preyPop,
+      predator: simulator.predatorPop
+    },
+    speciesPopulations,
+    resourceLevel: simulator.calculateResourceLevel(simulator.currentTime),
+    ...(mode === 'spatial' && { grid: simulator.getSnapshot() }),
+    ...(mode === 'agent' && { agents: simulator.getSnapshot() })
+  };
+}
+
+class LiveSession {
+  constructor(id, parameters, options, settings, send) {
+    this.id = id;
+    this.options = options;
+    this.settings = { ...DEFAULT_SETTINGS, ...settings };
+    this.send = send;
+
+    this.simulator = createSimulator(parameters, options);
+    this.simulator.maxTime = this.settings.duration;
+    this.owner = null; // Client or room that controls the session
+    this.channel = null; // Where its messages are published
+    this.status = 'idle';
+    this.updates = 0; // Updates sent so far
+    this.timer = null;
+    this.pendingParameters = null;
+    this.lastRecord = -Infinity;
+    this.unsentHistory = 0; // History entries not yet sent to the client
+  }
+
+  describe() {
+    return {
+      sessionId: this.id,
+      status: this.status,
+      mode: this.options.mode ?? 'deterministic',
+      time: this.simulator.currentTime,
+      species: this.simulator.web.species.map(({ id, name, role, color }) => ({ id, name, role, color })),
+      ...this.settings
+    };
+  }
+
+  setStatus(status) {
+    this.status = status;
+    this.send({ type: 'session_status', sessionId: this.id, data: this.describe() });
+  }
+
+  start() {
+    if (this.status === 'running' || this.status === 'finished') return;
+    this.setStatus('running');
+    this.schedule();
+  }
+
+  pause() {
+    if (this.status !== 'running') return;
+    clearTimeout(this.timer);
+    this.timer = null;
+    this.setStatus('paused');
+  }
+
+  // One solver step, then an update. A session that has not started is
+  // paused after it.
+  singleStep() {
+    if (this.status === 'running' || this.status === 'finished') return;
+    if (this.status === 'idle') this.setStatus('paused');
+    this.advance(1);
+  }
+
+  setSpeed(speed) {
+    this.settings.speed = speed;
+    this.send({ type: 'session_status', sessionId: this.id, data: this.describe() });
+  }
+
+  // The latest edit wins if several arrive between two steps
+  queueParameters(parameters) {
+    this.pendingParameters = parameters;
+  }
+
+  schedule() {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      try {
+        this.advance(this.settings.speed);
+      } catch (error) {
+        // A failing step pauses the run instead of taking the server down
+        console.error('Live session error:', error);
+        this.pause();
+        this.send({ type: 'session_error', sessionId: this.id, error: error.message });
+        return;
+      }
+      if (this.status === 'running') this.schedule();
+    }, this.settings.updateInterval);
+  }
+
+  // Take up to `steps` solver steps and send the update
+  advance(steps) {
+    const simulator = this.simulator;
+
+    for (let i = 0; i < steps; i++) {
+      if (this.pendingParameters) {
+        simulator.updateParameters(this.pendingParameters);
+        this.pendingParameters = null;
+      }
+
+      if (simulator.currentTime - this.lastRecord >= RECORD_INTERVAL) {
+        simulator.recordState();
+        this.lastRecord = simulator.currentTime;
+      }
+
+      simulator.step();
+
+      // Runs with events still to come carry on, so a reintroduction can follow an extinction
+      const extinct = simulator.checkExtinction() &&
+        !simulator.events.hasPendingAfter(simulator.currentTime, simulator.maxTime);
+      if (simulator.currentTime >= simulator.maxTime || extinct) {
+        this.finish();
+        return;
+      }
+    }
+
+    if (!simulator.equilibriumReached) simulator.checkEquilibrium();
+    this.sendUpdate();
+  }
+
+  sendUpdate() {
+    const history = this.simulator.history;
+    this.send({
+      type: 'session_update',
+      sessionId: this.id,
+      data: {
+        type: 'update',
+        step: this.updates++,
+        status: this.status,
+        ...describeLiveState(this.simulator, this.options.mode),
+        // History recorded since the previous update, so the chart can grow
+        timeSteps: history.slice(this.unsentHistory)
+      }
+    });
+    this.unsentHistory = history.length;
+  }
+
+  // End the run and send its results
+  finish() {
+    this.dispose();
+    this.simulator.recordState();
+    this.status = 'finished';
+    this.send({
+      type: 'session_complete',
+      sessionId: this.id,
+      data: { ...this.describe(), results: this.simulator.getResults() }
+    });
+  }
+
+  // Status and full history, for an owner that reconnects
+  resumeState() {
+    this.unsentHistory = this.simulator.history.length;
+    return { ...this.describe(), timeSteps: this.simulator.history };
+  }
+
+  dispose() {
+    clearTimeout(this.timer);
+    this.timer = null;
+  }
+}
+
+// Sessions of every client. Their messages are published on the session's
+// channel, which the owner joins on creation and others may join to watch;
+// only the owner can control a session. Owners are client ids, or the
+// channel of a shared room that drives its session for its members.
+export class LiveSessionManager {
+  constructor(hub) {
+    this.hub = hub;
+    this.sessions = new Map(); // Session id -> session
+    this.owners = new Map(); // Owner -> ids of its sessions
+
+    // Sessions of a lost connection pause until it reconnects, and end with it
+    hub.on('disconnected', clientId => this.sessionsOf(clientId).forEach(session => session.pause()));
+    hub.on('expired', clientId => this.sessionsOf(clientId).forEach(session => this.remove(session.id)));
+    hub.on('reconnected', clientId => this.sessionsOf(clientId).forEach(session => {
+      hub.send(clientId, { type: 'session_resumed', sessionId: session.id, data: session.resumeState() });
+    }));
+  }
+
+  handles(type) {
+    return SESSION_COMMANDS.includes(type);
+  }
+
+  has(sessionId) {
+    return this.sessions.has(sessionId);
+  }
+
+  get(sessionId) {
+    return this.sessions.get(sessionId) ?? null;
+  }
+
+  sessionsOf(owner) {
+    return [...this.owners.get(owner) ?? []].map(id => this.sessions.get(id));
+  }
+
+  // Carry out a client command. Errors go back to that client only.
+  handle(clientId, { type, sessionId, payload = {} }) {
+    const fail = (error) => this.hub.send(clientId, { type: 'session_error', sessionId, error });
+
+    if (type === 'create_session') {
+      return this.create(clientId, payload, fail);
+    }
+
+    const session = this.owners.get(clientId)?.has(sessionId) ? this.sessions.get(sessionId) : null;
+    if (!session) {
+      return fail(`Unknown session: ${sessionId}`);
+    }
+    this.control(session, type, payload, fail);
+  }
+
+  // Apply a command other than create_session to a session
+  control(session, type, payload, fail) {
+    try {
+      switch (type) {
+        case 'start':
+        case 'resume':
+          return session.start();
+        case 'pause':
+          return session.pause();
+        case 'step':
+          return session.singleStep();
+        case 'set_speed': {
+          const error = payload.speed === undefined ? 'speed is required' : validateSessionSettings({ speed: payload.speed });
+          return error ? fail(error) : session.setSpeed(payload.speed);
+        }
+        case 'update_parameters': {
+          const error = validateSessionParameters(payload.parameters, session.options) ||
+            this.validateSpecies(session, payload.parameters);
+          return error ? fail(error) : session.queueParameters(payload.parameters);
+        }
+        case 'stop':
+          return session.finish();
+      }
+    } catch (error) {
+      console.error('Live session error:', error);
+      fail(error.message);
+    }
+  }
+
+  // Create a session for an owner. Its messages go on its own channel unless
+  // another is given. Returns the session, or null after reporting why not.
+  create(owner, { parameters, mode, seed, solver = {}, stochastic = {}, spatial = {}, agent = {}, settings = {} },
+    fail, { channel = null } = {}) {
+    const owned = this.owners.get(owner) ?? new Set();
+    if (owned.size >= MAX_SESSIONS_PER_CLIENT) {
+      fail(`At most ${MAX_SESSIONS_PER_CLIENT} live sessions per client`);
+      return null;
+    }
+
+    const options = { mode, seed, solver, stochastic, spatial, agent };
+    const error = validateSessionParameters(parameters, options) || validateSessionSettings(settings);
+    if (error) {
+      fail(error);
+      return null;
+    }
+
+    let session;
+    try {
+      const id = randomUUID();
+      const sessionChannel = channel ?? channelFor('session', id);
+      session = new LiveSession(id, parameters, options, settings, (message) => {
+        this.hub.publish(sessionChannel, message);
+        if (message.type === 'session_complete') this.remove(id);
+      });
+
+      this.sessions.set(id, session);
+      this.owners.set(owner, owned.add(id));
+      session.owner = owner;
+      session.channel = sessionChannel;
+      this.hub.subscribe(owner, sessionChannel);
+      this.hub.publish(sessionChannel, { type: 'session_created', sessionId: id, data: session.describe() });
+      session.sendUpdate();
+    } catch (error) {
+      console.error('Live session error:', error);
+      fail(error.message);
+      return null;
+    }
+    return session;
+  }
+
+  // Edits may change rates but not which species take part
+  validateSpecies(session, parameters) {
+    const ids = buildFoodWeb(parameters).species.map(s => s.id).join();
+    if (ids !== session.simulator.web.species.map(s => s.id).join()) {
+      return 'Live parameter edits cannot add, remove or reorder species';
+    }
+    return null;
+  }
+
+  remove(id) {
+    const session = this.sessions.get(id);
+    if (!session) return;
+
+    session.dispose();
+    this.sessions.delete(id);
+    this.owners.get(session.owner)?.delete(id);
+    if (this.owners.get(session.owner)?.size === 0) this.owners.delete(session.owner);
+    if (session.channel === channelFor('session', id)) this.hub.closeChannel(session.channel);
+  }
+}
+
+export const liveSessions = new LiveSessionManager(liveHub);
+
+export default liveSessions;
@@ -1,4 +1,86 @@
+import crypto from 'crypto';
 import mongoose from 'mongoose';
+import { INTERACTION_MODELS } from '../simulation/interactionModels.js';
+import { EVENT_TYPES } from '../simulation/events.js';
+import { NOISE_TYPES } from '../simulation/forcing.js';
+import { MAX_DELAY_STAGES } from '../simulation/stages.js';
+import { PARAMETER_RANGES, FOOD_WEB_SPECIES_RANGES } from './parameterRanges.js';
+
+// Juvenile and adult compartments of a stage-structured species
+const stagesSchema = new mongoose.Schema({
+  maturationTime: { type: Number, min: 0 },
+  delayStages: { type: Number, min: 1, max: MAX_DELAY_STAGES },
+  initialJuveniles: { type: Number, min: 0, max: 1 },
+  juvenileMortality: { type: Number, min: 0 },
+  juvenileVulnerability: { type: Number, min: 0 },
+  juvenileFeeding: { type: Number, min: 0, max: 1 }
+}, { _id: false });
+
+const foodWebSpeciesSchema = new mongoose.Schema({
+  id: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  name: {
+    type: String,
+    trim: true
+  },
+  initialPopulation: {
+    type: Number,
+    required: true,
+    ...FOOD_WEB_SPECIES_RANGES.initialPopulation
+  },
+  growthRate: {
+    type: Number,
+    ...FOOD_WEB_SPECIES_RANGES.growthRate,
+    default: 0
+  },
+  carryingCapacity: {
+    type: Number,
+    ...FOOD_WEB_SPECIES_RANGES.carryingCapacity
+  },
+  deathRate: {
+    type: Number,
+    ...FOOD_WEB_SPECIES_RANGES.deathRate,
+    default: 0
+  },
+  conversionEfficiency: {
+    type: Number,
+    ...FOOD_WEB_SPECIES_RANGES.conversionEfficiency,
+    default: 0.5
+  },
+  color: String,
+  stages: {
+    type: stagesSchema,
+    default: undefined
+  }
+}, { _id: false });
+
+// Scheduled intervention; which fields apply depends on the type
+const eventSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    enum: Object.keys(EVENT_TYPES),
+    required: true
+  },
+  target: String,
+  label: {
+    type: String,
+    trim: true
+  },
+  // Discrete events: first time, optional repeat interval and end
+  time: { type: Number, min: 0 },
+  every: Number,
+  until: Number,
+  amount: { type: Number, min: 0 },
+  fraction: { type: Number, min: 0, max: 1 },
+  // Continuous events: window, harvest rate or resource factor
+  from: { type: Number, min: 0 },
+  to: Number,
+  rate: { type: Number, min: 0 },
+  factor: { type: Number, min: 0 }
+}, { _id: false });
 
 const scenarioSchema = new mongoose.Schema({
   name: {
@@ -16,48 +98,54 @@ const scenarioSchema = new mongoose.Schema({
       initialPopulation: {
         type: Number,
         required: true,
-        min: 0,
-        max: 10000
+        ...PARAMETER_RANGES.prey.initialPopulation
       },
       birthRate: {
         type: Number,
         required: true,
-        min: 0,
-        max: 5
+        ...PARAMETER_RANGES.prey.birthRate
       },
       carryingCapacity: {
         type: Number,
         required: true,
-        min: 100,
-        max: 50000
+        ...PARAMETER_RANGES.prey.carryingCapacity
+      },
+      stages: {
+        type: stagesSchema,
+        default: undefined
       }
     },
     predator: {
       initialPopulation: {
         type: Number,
         required: true,
-        min: 0,
-        max: 5000
+        ...PARAMETER_RANGES.predator.initialPopulation
       },
       huntingEfficiency: {
         type: Number,
         required: true,
-        min: 0,
-        max: 1
+        ...PARAMETER_RANGES.predator.huntingEfficiency
       },
       deathRate: {
         type: Number,
         required: true,
-        min: 0,
-        max: 2
+        ...PARAMETER_RANGES.predator.deathRate
+      },
+      conversionEfficiency: {
+        type: Number,
+        ...PARAMETER_RANGES.predator.conversionEfficiency,
+        default: 0.5
+      },
+      stages: {
+        type: stagesSchema,
+        default: undefined
       }
     },
     environment: {
       resourceAvailability: {
         type: Number,
         required: true,
-        min: 0,
-        max: 1,
+        ...PARAMETER_RANGES.environment.resourceAvailability,
         default: 0.5
       },
       seasonalVariation: {
@@ -66,10 +154,66 @@ const scenarioSchema = new mongoose.Schema({
       },
       seasonalAmplitude: {
         type: Number,
-        min: 0,
-        max: 1,
+        ...PARAMETER_RANGES.environment.seasonalAmplitude,
         default: 0.2
+      },
+      forcing: {
+        harmonics: {
+          type: [{
+            _id: false,
+            amplitude: Number,
+            period: { type: Number, min: 0 },
+            phase: Number
+          }],
+          default: undefined
+        },
+        // Piecewise-linear [{ time, value }] points or uploaded CSV text
+        series: mongoose.Schema.Types.Mixed,
+        repeat: Boolean,
+        trend: {
+          rate: Number,
+          from: Number,
+          to: Number
+        },
+        noise: {
+          type: {
+            type: String,
+            enum: NOISE_TYPES
+          },
+          amplitude: { type: Number, min: 0, max: 1 },
+          correlationTime: Number,
+          interval: Number,
+          seed: mongoose.Schema.Types.Mixed
+        },
+        predatorMortality: { type: Number, min: 0 }
+      }
+    },
+    model: {
+      type: {
+        type: String,
+        enum: Object.keys(INTERACTION_MODELS),
+        default: 'holling1'
+      },
+      parameters: {
+        type: Map,
+        of: Number
+      }
+    },
+    foodWeb: {
+      species: {
+        type: [foodWebSpeciesSchema],
+        default: undefined
+      },
+      // interactions[i][j] > 0: attack rate of species i on species j,
+      // interactions[i][j] < 0: competitive effect of species j on species i
+      interactions: {
+        type: [[Number]],
+        default: undefined
       }
+    },
+    events: {
+      type: [eventSchema],
+      default: undefined
     }
   },
   simulationResults: {
@@ -77,7 +221,31 @@ const scenarioSchema = new mongoose.Schema({
       time: Number,
       preyPopulation: Number,
       predatorPopulation: Number,
-      resourceLevel: Number
+      resourceLevel: Number,
+      populations: {
+        type: Map,
+        of: Number
+      },
+      // Juvenile and adult totals of stage-structured species
+      stages: {
+        type: Map,
+        of: new mongoose.Schema({ juvenile: Number, adult: Number }, { _id: false }),
+        default: undefined
+      },
+      events: {
+        type: [String],
+        default: undefined
+      }
+    }],
+    species: [{
+      _id: false,
+      id: String,
+      name: String,
+      role: {
+        type: String,
+        enum: ['basal', 'consumer']
+      },
+      color: String
     }],
     equilibriumReached: {
       type: Boolean,
@@ -86,13 +254,73 @@ const scenarioSchema = new mongoose.Schema({
     equilibriumPoint: {
       prey: Number,
       predator: Number,
-      timeToReach: Number
+      timeToReach: Number,
+      populations: {
+        type: Map,
+        of: Number
+      }
     },
     extinctionOccurred: {
       type: Boolean,
       default: false
+    },
+    events: [{
+      _id: false,
+      time: Number,
+      type: { type: String },
+      target: String,
+      label: String,
+      changes: {
+        type: Map,
+        of: Number
+      }
+    }],
+    eventPeriods: [{
+      _id: false,
+      type: { type: String },
+      target: String,
+      label: String,
+      from: Number,
+      to: Number
+    }],
+    mode: {
+      type: String,
+      enum: ['deterministic', 'stochastic'],
+      default: 'deterministic'
+    },
+    stochastic: {
+      method: String,
+      seed: mongoose.Schema.Types.Mixed,
+      tau: Number,
+      criticalPopulation: Number,
+      events: Number,
+      exactSteps: Number,
+      leaps: Number
+    },
+    solver: {
+      method: String,
+      absoluteTolerance: Number,
+      relativeTolerance: Number,
+      steps: Number,
+      rejectedSteps: Number,
+      functionEvaluations: Number,
+      estimatedError: Number,
+      maxLocalError: Number
     }
   },
+  // Identity that stays the same across sandboxes, unlike the _id
+  uid: {
+    type: String,
+    default: () => crypto.randomUUID(),
+    unique: true,
+    sparse: true
+  },
+  // Number of the latest revision (see ScenarioRevision)
+  revision: {
+    type: Number,
+    default: 1,
+    min: 1
+  },
   metadata: {
     createdBy: {
       type: String,
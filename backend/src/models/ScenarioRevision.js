@@ -0,0 +1,35 @@
+import mongoose from 'mongoose';
+
+// Immutable copy of a scenario after one of its changes
+const scenarioRevisionSchema = new mongoose.Schema({
+  scenarioId: {
+    type: String,
+    required: true
+  },
+  number: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  author: {
+    type: String,
+    default: 'anonymous',
+    maxLength: 100
+  },
+  message: {
+    type: String,
+    maxLength: 500
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  // Name, description, parameters, results, tags and visibility
+  snapshot: mongoose.Schema.Types.Mixed
+});
+
+scenarioRevisionSchema.index({ scenarioId: 1, number: -1 }, { unique: true });
+
+const ScenarioRevision = mongoose.model('ScenarioRevision', scenarioRevisionSchema);
+
+export default ScenarioRevision;
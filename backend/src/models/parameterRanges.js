@@ -0,0 +1,45 @@
+// Allowed ranges of the numeric simulation parameters. The Scenario schema
+// validates against them and the sensitivity analysis samples within them.
+
+export const PARAMETER_RANGES = {
+  prey: {
+    initialPopulation: { min: 0, max: 10000 },
+    birthRate: { min: 0, max: 5 },
+    carryingCapacity: { min: 100, max: 50000 }
+  },
+  predator: {
+    initialPopulation: { min: 0, max: 5000 },
+    huntingEfficiency: { min: 0, max: 1 },
+    deathRate: { min: 0, max: 2 },
+    conversionEfficiency: { min: 0, max: 1 }
+  },
+  environment: {
+    resourceAvailability: { min: 0, max: 1 },
+    seasonalAmplitude: { min: 0, max: 1 }
+  }
+};
+
+// Ranges for every species of a food web
+export const FOOD_WEB_SPECIES_RANGES = {
+  initialPopulation: { min: 0, max: 50000 },
+  growthRate: { min: 0, max: 5 },
+  carryingCapacity: { min: 100, max: 50000 },
+  deathRate: { min: 0, max: 2 },
+  conversionEfficiency: { min: 0, max: 1 }
+};
+
+// Range declared for a dotted parameter path, e.g. "prey.birthRate" or
+// "foodWeb.species.2.deathRate", or null if the path has none
+export function rangeFor(path) {
+  const keys = typeof path === 'string' ? path.split('.') : [];
+
+  const own = (object, key) => (object && Object.hasOwn(object, key) ? object[key] : null);
+
+  if (keys.length === 4 && keys[0] === 'foodWeb' && keys[1] === 'species' && /^\d+$/.test(keys[2])) {
+    return own(FOOD_WEB_SPECIES_RANGES, keys[3]);
+  }
+  if (keys.length === 2) {
+    return own(own(PARAMETER_RANGES, keys[0]), keys[1]);
+  }
+  return null;
+}
@@ -0,0 +1,142 @@
+// Portable scenario bundles
+// A bundle carries scenarios from one sandbox to another as JSON or YAML:
+//   { format: "ecosystem-sandbox/scenarios", version: 1, exportedAt,
+//     scenarios: [{ uid, id, name, description, parameters, metadata, simulationResults? }] }
+// The uid identifies a scenario in every sandbox; the id is only the one it had
+// where it was exported. Events, forcing and stage structure travel inside the
+// parameters. Older bundles are migrated forward one version at a time before
+// they are checked.
+
+import { load, dump } from 'js-yaml';
+import { validateScenario } from './scenarioValidation.js';
+
+export const BUNDLE_FORMAT = 'ecosystem-sandbox/scenarios';
+export const BUNDLE_VERSION = 1;
+export const BUNDLE_FORMATS = ['json', 'yaml'];
+export const MAX_BUNDLE_SCENARIOS = 100;
+
+// What to do with a scenario that matches a stored one by uid or name
+export const CONFLICT_STRATEGIES = ['skip', 'rename', 'replace'];
+
+// Bundle of stored scenarios; results only when asked for, as they are large
+export function createBundle(scenarios, { includeResults = false } = {}) {
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    scenarios: scenarios.map(scenario => {
+      const plain = typeof scenario.toObject === 'function' ? scenario.toObject({ flattenMaps: true }) : scenario;
+      return JSON.parse(JSON.stringify({
+        uid: plain.uid,
+        id: String(plain._id),
+        name: plain.name,
+        description: plain.description,
+        parameters: plain.parameters,
+        metadata: {
+          createdBy: plain.metadata?.createdBy,
+          tags: plain.metadata?.tags ?? [],
+          isPublic: plain.metadata?.isPublic ?? false
+        },
+        simulationResults: includeResults ? plain.simulationResults : undefined
+      }));
+    })
+  };
+}
+
+export function serializeBundle(bundle, format = 'json') {
+  return format === 'yaml' ? dump(bundle, { noRefs: true }) : JSON.stringify(bundle, null, 2);
+}
+
+// Read a bundle from JSON or YAML text; JSON is valid YAML, so YAML reads both
+export function parseBundle(text) {
+  try {
+    return load(text);
+  } catch (error) {
+    throw new Error(`Bundle is neither JSON nor YAML: ${error.message.split('\n')[0]}`);
+  }
+}
+
+// Migrations from each old version to the next
+const MIGRATIONS = {
+  // Version 0: scenarios as the API returns them, one or a list, before bundles existed
+  0: (data) => ({
+    format: BUNDLE_FORMAT,
+    version: 1,
+    exportedAt: null,
+    scenarios: (Array.isArray(data) ? data : [data]).map(entry => entry ?? {}).map(({ _id, id, uid, name, description, parameters, metadata, simulationResults }) => ({
+      uid,
+      id: id ?? (_id === undefined ? undefined : String(_id)),
+      name,
+      description,
+      parameters,
+      metadata: {
+        createdBy: metadata?.createdBy,
+        tags: metadata?.tags ?? [],
+        isPublic: metadata?.isPublic ?? false
+      },
+      simulationResults
+    }))
+  })
+};
+
+function versionOf(data) {
+  if (Array.isArray(data) || (data && data.format === undefined && data.parameters !== undefined)) {
+    return 0;
+  }
+  return data?.version;
+}
+
+// Bring a bundle of any known version up to the current one.
+// Returns { bundle, migratedFrom } or { error }.
+export function migrateBundle(data) {
+  if (!data || typeof data !== 'object') {
+    return { error: 'A bundle must be an object' };
+  }
+
+  const migratedFrom = versionOf(data);
+  if (!Array.isArray(data) && migratedFrom !== 0 && data.format !== BUNDLE_FORMAT) {
+    return { error: `Not a scenario bundle: format must be ${BUNDLE_FORMAT}` };
+  }
+  if (!Number.isInteger(migratedFrom) || migratedFrom < 0 || migratedFrom > BUNDLE_VERSION) {
+    return { error: `Unsupported bundle version: ${migratedFrom}. This server reads versions up to ${BUNDLE_VERSION}` };
+  }
+
+  let bundle = data;
+  for (let version = migratedFrom; version < BUNDLE_VERSION; version++) {
+    bundle = MIGRATIONS[version](bundle);
+  }
+  return { bundle, migratedFrom };
+}
+
+// Returns { error } for a malformed bundle, or { scenarios } where each
+// entry has its index and, if it is invalid, its field errors
+export function validateBundle(bundle) {
+  if (!Array.isArray(bundle.scenarios) || bundle.scenarios.length === 0) {
+    return { error: 'A bundle needs a non-empty scenarios list' };
+  }
+  if (bundle.scenarios.length > MAX_BUNDLE_SCENARIOS) {
+    return { error: `A bundle can hold at most ${MAX_BUNDLE_SCENARIOS} scenarios` };
+  }
+
+  const firstWith = { name: new Map(), uid: new Map() };
+  return {
+    scenarios: bundle.scenarios.map((entry, index) => {
+      const fields = { ...validateScenario(entry) };
+      if (entry?.id !== undefined && typeof entry.id !== 'string') {
+        fields.id = 'must be a string';
+      }
+      if (entry?.uid !== undefined && (typeof entry.uid !== 'string' || entry.uid.length === 0 || entry.uid.length > 100)) {
+        fields.uid = 'must be a string of 1 to 100 characters';
+      }
+      for (const key of ['name', 'uid']) {
+        if (typeof entry?.[key] !== 'string' || fields[key]) continue;
+        if (firstWith[key].has(entry[key])) {
+          fields[key] = `is also the ${key} of scenario ${firstWith[key].get(entry[key])} of the bundle`;
+        } else {
+          firstWith[key].set(entry[key], index);
+        }
+      }
+      return { index, entry, fields: Object.keys(fields).length > 0 ? fields : null };
+    })
+  };
+}
@@ -0,0 +1,145 @@
+// Revisions of a scenario
+// Every change to a scenario is kept as an immutable revision holding the
+// scenario as it was after the change, with who made it and why. Two
+// revisions are compared parameter by parameter and by the outcome of their
+// stored simulation results.
+
+import { mean } from '../simulation/statistics.js';
+
+// Thrown by a storage adapter when a scenario moved past the revision a
+// change was based on, so the change would skip or overwrite a revision
+export class RevisionConflictError extends Error {
+  constructor(id, revision) {
+    super(`Scenario ${id} changed since revision ${revision}; reload it and try again`);
+    this.name = 'RevisionConflictError';
+  }
+}
+
+// The parts of a scenario a revision keeps; views and likes are not history
+export function snapshotOf(scenario) {
+  const plain = typeof scenario.toObject === 'function' ? scenario.toObject({ flattenMaps: true }) : scenario;
+  return JSON.parse(JSON.stringify({
+    name: plain.name,
+    description: plain.description,
+    parameters: plain.parameters,
+    simulationResults: plain.simulationResults,
+    metadata: {
+      tags: plain.metadata?.tags ?? [],
+      isPublic: plain.metadata?.isPublic ?? false
+    }
+  }));
+}
+
+export function createRevision(scenario, number, { author, message }) {
+  return {
+    scenarioId: String(scenario._id),
+    number,
+    author: author || 'anonymous',
+    message: message || '',
+    createdAt: new Date().toISOString(),
+    snapshot: snapshotOf(scenario)
+  };
+}
+
+// A revision without its snapshot, for lists
+export function summarizeRevision({ scenarioId, number, author, message, createdAt }) {
+  return { scenarioId, number, author, message, createdAt };
+}
+
+// Returns an error message unless the author and message can go into a revision
+export function validateRevisionInput({ author, message }) {
+  if (author !== undefined && (typeof author !== 'string' || author.length > 100)) {
+    return 'Revision author must be a string of at most 100 characters';
+  }
+  if (message !== undefined && (typeof message !== 'string' || message.length > 500)) {
+    return 'Revision message must be a string of at most 500 characters';
+  }
+  return null;
+}
+
+// Leaf values of a nested object by dotted path, e.g. { "prey.birthRate": 1 }
+function flatten(value, prefix = '', paths = {}) {
+  if (value && typeof value === 'object') {
+    const entries = Array.isArray(value) ? value.map((v, i) => [i, v]) : Object.entries(value);
+    if (entries.length === 0 && prefix) {
+      paths[prefix] = value;
+    }
+    entries.forEach(([key, v]) => flatten(v, prefix ? `${prefix}.${key}` : String(key), paths));
+  } else if (value !== undefined && prefix) {
+    paths[prefix] = value;
+  }
+  return paths;
+}
+
+// Parameter-level changes between two parameter sets, sorted by path
+export function diffParameters(before = {}, after = {}) {
+  const from = flatten(before);
+  const to = flatten(after);
+  const paths = [...new Set([...Object.keys(from), ...Object.keys(to)])].sort();
+
+  return paths.flatMap(path => {
+    if (!(path in from)) return [{ path, change: 'added', to: to[path] }];
+    if (!(path in to)) return [{ path, change: 'removed', from: from[path] }];
+    if (JSON.stringify(from[path]) === JSON.stringify(to[path])) return [];
+    return [{ path, change: 'changed', from: from[path], to: to[path] }];
+  });
+}
+
+// Outcome of stored simulation results, or null if the revision has none
+export function outcomeMetrics(results) {
+  const steps = results?.timeSteps ?? [];
+  if (!results || steps.length === 0) return null;
+
+  const prey = steps.map(s => s.preyPopulation ?? 0);
+  const predator = steps.map(s => s.predatorPopulation ?? 0);
+  return {
+    equilibriumReached: Boolean(results.equilibriumReached),
+    extinctionOccurred: Boolean(results.extinctionOccurred),
+    duration: steps[steps.length - 1].time,
+    finalPrey: prey[prey.length - 1],
+    finalPredator: predator[predator.length - 1],
+    peakPrey: prey.reduce((max, v) => Math.max(max, v), 0),
+    peakPredator: predator.reduce((max, v) => Math.max(max, v), 0),
+    meanPrey: mean(prey),
+    meanPredator: mean(predator),
+    equilibriumPrey: results.equilibriumPoint?.prey ?? null,
+    equilibriumPredator: results.equilibriumPoint?.predator ?? null
+  };
+}
+
+// Metric by metric change of the outcome; numbers also report the difference
+function diffOutcome(before, after) {
+  if (!before || !after) {
+    return { from: before, to: after, changes: null };
+  }
+
+  const changes = {};
+  Object.keys(after).forEach(metric => {
+    const from = before[metric];
+    const to = after[metric];
+    if (from === to) return;
+    changes[metric] = typeof from === 'number' && typeof to === 'number'
+      ? { from, to, difference: to - from }
+      : { from, to };
+  });
+  return { from: before, to: after, changes };
+}
+
+// What changed from one revision to another
+export function diffRevisions(from, to) {
+  const fields = ['name', 'description']
+    .filter(field => from.snapshot[field] !== to.snapshot[field])
+    .map(field => ({ path: field, change: 'changed', from: from.snapshot[field], to: to.snapshot[field] }));
+
+  return {
+    from: summarizeRevision(from),
+    to: summarizeRevision(to),
+    fields: [...fields, ...diffParameters(from.snapshot.metadata, to.snapshot.metadata)
+      .map(c => ({ ...c, path: `metadata.${c.path}` }))],
+    parameters: diffParameters(from.snapshot.parameters, to.snapshot.parameters),
+    outcome: diffOutcome(
+      outcomeMetrics(from.snapshot.simulationResults),
+      outcomeMetrics(to.snapshot.simulationResults)
+    )
+  };
+}
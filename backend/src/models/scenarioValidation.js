@@ -0,0 +1,188 @@
+// Validation of scenarios before they are stored, whatever the storage
+// adapter. The fields follow the Scenario schema and take their limits from
+// the same parameter ranges, so every adapter accepts the same scenarios.
+// Errors are reported per field under its dotted path, e.g.
+// { "parameters.prey.birthRate": "must be at most 5" }.
+
+import { PARAMETER_RANGES, FOOD_WEB_SPECIES_RANGES } from './parameterRanges.js';
+import { MAX_DELAY_STAGES } from '../simulation/stages.js';
+import { validateRequiredParameters, validateParameters } from '../simulation/validation.js';
+
+const number = (range = {}, required = false) => ({ type: 'number', required, ...range });
+
+const STAGES_SCHEMA = {
+  type: 'object',
+  fields: {
+    maturationTime: number({ min: 0 }),
+    delayStages: number({ min: 1, max: MAX_DELAY_STAGES }),
+    initialJuveniles: number({ min: 0, max: 1 }),
+    juvenileMortality: number({ min: 0 }),
+    juvenileVulnerability: number({ min: 0 }),
+    juvenileFeeding: number({ min: 0, max: 1 })
+  }
+};
+
+export const PARAMETERS_SCHEMA = {
+  type: 'object',
+  required: true,
+  fields: {
+    prey: {
+      type: 'object',
+      fields: {
+        initialPopulation: number(PARAMETER_RANGES.prey.initialPopulation, true),
+        birthRate: number(PARAMETER_RANGES.prey.birthRate, true),
+        carryingCapacity: number(PARAMETER_RANGES.prey.carryingCapacity, true),
+        stages: STAGES_SCHEMA
+      }
+    },
+    predator: {
+      type: 'object',
+      fields: {
+        initialPopulation: number(PARAMETER_RANGES.predator.initialPopulation, true),
+        huntingEfficiency: number(PARAMETER_RANGES.predator.huntingEfficiency, true),
+        deathRate: number(PARAMETER_RANGES.predator.deathRate, true),
+        conversionEfficiency: number(PARAMETER_RANGES.predator.conversionEfficiency),
+        stages: STAGES_SCHEMA
+      }
+    },
+    environment: {
+      type: 'object',
+      required: true,
+      fields: {
+        resourceAvailability: number(PARAMETER_RANGES.environment.resourceAvailability),
+        seasonalVariation: { type: 'boolean' },
+        seasonalAmplitude: number(PARAMETER_RANGES.environment.seasonalAmplitude)
+      }
+    },
+    foodWeb: {
+      type: 'object',
+      fields: {
+        species: {
+          type: 'array',
+          items: {
+            type: 'object',
+            fields: {
+              id: { type: 'string', required: true },
+              name: { type: 'string' },
+              initialPopulation: number(FOOD_WEB_SPECIES_RANGES.initialPopulation, true),
+              growthRate: number(FOOD_WEB_SPECIES_RANGES.growthRate),
+              carryingCapacity: number(FOOD_WEB_SPECIES_RANGES.carryingCapacity),
+              deathRate: number(FOOD_WEB_SPECIES_RANGES.deathRate),
+              conversionEfficiency: number(FOOD_WEB_SPECIES_RANGES.conversionEfficiency),
+              stages: STAGES_SCHEMA
+            }
+          }
+        }
+      }
+    }
+  }
+};
+
+export const SCENARIO_SCHEMA = {
+  type: 'object',
+  fields: {
+    name: { type: 'string', required: true, maxLength: 100 },
+    description: { type: 'string', maxLength: 500 },
+    parameters: PARAMETERS_SCHEMA,
+    simulationResults: { type: 'object', fields: {} },
+    metadata: {
+      type: 'object',
+      fields: {
+        createdBy: { type: 'string', maxLength: 100 },
+        tags: { type: 'array', items: { type: 'string', maxLength: 50 } },
+        isPublic: { type: 'boolean' }
+      }
+    }
+  }
+};
+
+function isPresent(value) {
+  return value !== undefined && value !== null;
+}
+
+function typeError(schema, value) {
+  switch (schema.type) {
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? null : 'must be a number';
+    case 'string':
+      return typeof value === 'string' ? null : 'must be a string';
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'must be true or false';
+    case 'array':
+      return Array.isArray(value) ? null : 'must be a list';
+    default:
+      return value && typeof value === 'object' && !Array.isArray(value) ? null : 'must be an object';
+  }
+}
+
+// Add an error for every field of the value that breaks the schema.
+// Fields the schema does not name are left alone.
+function check(schema, value, path, errors) {
+  if (!isPresent(value) || (schema.type === 'string' && schema.required && value.trim?.() === '')) {
+    if (schema.required) errors[path] = 'is required';
+    return;
+  }
+
+  const error = typeError(schema, value);
+  if (error) {
+    errors[path] = error;
+    return;
+  }
+
+  if (schema.min !== undefined && value < schema.min) {
+    errors[path] = `must be at least ${schema.min}`;
+  } else if (schema.max !== undefined && value > schema.max) {
+    errors[path] = `must be at most ${schema.max}`;
+  } else if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    errors[path] = `must be at most ${schema.maxLength} characters`;
+  }
+
+  if (schema.type === 'object') {
+    Object.entries(schema.fields).forEach(([key, field]) => {
+      check(field, value[key], path ? `${path}.${key}` : key, errors);
+    });
+  } else if (schema.type === 'array' && schema.items) {
+    value.forEach((item, index) => check(schema.items, item, `${path}.${index}`, errors));
+  }
+}
+
+// Returns the field errors of a simulation's parameters, or null when they are valid.
+// Rules that span several fields (food web, events, forcing, stages and the
+// interaction model) are reported under "parameters".
+export function validateParameterFields(parameters) {
+  const errors = {};
+  check(PARAMETERS_SCHEMA, parameters, 'parameters', errors);
+
+  if (Object.keys(errors).length === 0) {
+    const error = validateRequiredParameters(parameters) || validateParameters(parameters);
+    if (error) errors.parameters = error;
+  }
+  return Object.keys(errors).length > 0 ? errors : null;
+}
+
+// Returns the field errors of a scenario, or null when it is valid.
+// A partial scenario, as sent to update one, only needs valid fields.
+export function validateScenario(scenario, { partial = false } = {}) {
+  if (!scenario || typeof scenario !== 'object' || Array.isArray(scenario)) {
+    return { scenario: 'must be an object' };
+  }
+
+  const errors = {};
+  Object.entries(SCENARIO_SCHEMA.fields).forEach(([key, field]) => {
+    if (key === 'parameters') return;
+    if (partial && !isPresent(scenario[key])) return;
+    check(field, scenario[key], key, errors);
+  });
+
+  if (!partial || isPresent(scenario.parameters)) {
+    Object.assign(errors, validateParameterFields(scenario.parameters));
+  }
+  return Object.keys(errors).length > 0 ? errors : null;
+}
+
+// One line naming the first field error, for the `error` of a response
+export function describeFieldErrors(errors) {
+  const [field, message] = Object.entries(errors)[0];
+  const more = Object.keys(errors).length - 1;
+  return `${field}: ${message}${more > 0 ? ` (and ${more} more)` : ''}`;
+}
@@ -0,0 +1,76 @@
+import express from 'express';
+import { jobQueue, describeJob } from '../jobs/jobQueue.js';
+import { JOB_TYPES, validateJob } from '../jobs/tasks.js';
+
+const router = express.Router();
+
+// GET available job types and queue limits
+router.get('/types', (req, res) => {
+  res.json({
+    types: JOB_TYPES,
+    limits: jobQueue.options
+  });
+});
+
+// GET all known jobs without their results
+router.get('/', (req, res) => {
+  const { status } = req.query;
+  const jobs = jobQueue.list()
+    .filter(job => !status || job.status === status)
+    .map(describeJob);
+
+  res.json({ jobs });
+});
+
+// POST submit a job to run in the background
+router.post('/', (req, res) => {
+  try {
+    const { type, payload } = req.body;
+
+    const jobError = validateJob(type, payload);
+    if (jobError) {
+      return res.status(400).json({ error: jobError });
+    }
+
+    if (jobQueue.isFull()) {
+      return res.status(503).json({ error: 'Job queue is full, try again later' });
+    }
+
+    const job = jobQueue.submit(type, payload);
+    res.status(202).json(describeJob(job));
+  } catch (error) {
+    console.error('Job submission error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET job status and progress, with the result once completed
+router.get('/:id', (req, res) => {
+  const job = jobQueue.get(req.params.id);
+
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+
+  res.json({
+    ...describeJob(job),
+    result: job.result
+  });
+});
+
+// POST cancel a queued or running job
+router.post('/:id/cancel', (req, res) => {
+  const job = jobQueue.get(req.params.id);
+
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+
+  if (!jobQueue.cancel(job.id)) {
+    return res.status(409).json({ error: `Job is already ${job.status}` });
+  }
+
+  res.json(describeJob(job));
+});
+
+export default router;
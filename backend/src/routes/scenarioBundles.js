@@ -0,0 +1,198 @@
+import express from 'express';
+import { storage } from '../storage/index.js';
+import { recordCreation, commitChange } from '../storage/history.js';
+import {
+  BUNDLE_VERSION,
+  BUNDLE_FORMATS,
+  MAX_BUNDLE_SCENARIOS,
+  CONFLICT_STRATEGIES,
+  createBundle,
+  serializeBundle,
+  parseBundle,
+  migrateBundle,
+  validateBundle
+} from '../models/scenarioBundle.js';
+
+// Mounted on /api/scenarios ahead of the /:id routes
+const router = express.Router();
+
+const CONTENT_TYPES = {
+  json: 'application/json',
+  yaml: 'application/yaml'
+};
+
+// Returns an error message for unusable export options
+function validateExportOptions({ format = 'json' }) {
+  if (!BUNDLE_FORMATS.includes(format)) {
+    return `Unknown format: ${format}. Use ${BUNDLE_FORMATS.join(' or ')}`;
+  }
+  return null;
+}
+
+function sendBundle(res, scenarios, { format = 'json', results }, filename) {
+  const bundle = createBundle(scenarios, { includeResults: results === 'true' });
+  res.set('Content-Type', CONTENT_TYPES[format]);
+  res.set('Content-Disposition', `attachment; filename="${filename}.${format}"`);
+  res.send(serializeBundle(bundle, format));
+}
+
+// A stored scenario the entry would collide with, matched by uid before name.
+// Ids are not compared: two sandboxes hand out the same ids to different scenarios.
+async function findConflict(entry) {
+  const byUid = entry.uid ? await storage().findByUid(entry.uid) : null;
+  if (byUid) {
+    return { by: 'uid', scenario: byUid };
+  }
+  const byName = await storage().findByName(entry.name);
+  return byName ? { by: 'name', scenario: byName } : null;
+}
+
+// First "<name> (imported)", "<name> (imported 2)", ... not yet taken
+async function freeName(name, taken) {
+  for (let n = 1; ; n++) {
+    const candidate = `${name} (imported${n > 1 ? ` ${n}` : ''})`;
+    if (!taken.has(candidate) && !(await storage().findByName(candidate))) {
+      return candidate;
+    }
+  }
+}
+
+// GET export scenarios as a bundle: ?ids=a,b (default: up to the first
+// MAX_BUNDLE_SCENARIOS), format=json|yaml, results=true to add stored results
+router.get('/export', async (req, res) => {
+  try {
+    const optionsError = validateExportOptions(req.query);
+    if (optionsError) {
+      return res.status(400).json({ error: optionsError });
+    }
+
+    let ids = req.query.ids ? String(req.query.ids).split(',').filter(Boolean) : null;
+    if (ids && ids.length > MAX_BUNDLE_SCENARIOS) {
+      return res.status(400).json({ error: `A bundle can hold at most ${MAX_BUNDLE_SCENARIOS} scenarios` });
+    }
+    if (!ids) {
+      const { scenarios } = await storage().list({ limit: MAX_BUNDLE_SCENARIOS, page: 1, order: 'asc' });
+      ids = scenarios.map(s => String(s._id));
+    }
+
+    const scenarios = await Promise.all(ids.map(id => storage().get(id)));
+    const missing = ids.filter((id, i) => !scenarios[i]);
+    if (missing.length > 0) {
+      return res.status(404).json({ error: `Scenarios not found: ${missing.join(', ')}` });
+    }
+
+    sendBundle(res, scenarios, req.query, `scenarios-${new Date().toISOString().slice(0, 10)}`);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET export one scenario as a bundle
+router.get('/:id/export', async (req, res) => {
+  try {
+    const optionsError = validateExportOptions(req.query);
+    if (optionsError) {
+      return res.status(400).json({ error: optionsError });
+    }
+
+    const scenario = await storage().get(req.params.id);
+    if (!scenario) {
+      return res.status(404).json({ error: 'Scenario not found' });
+    }
+
+    const slug = scenario.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'scenario';
+    sendBundle(res, [scenario], req.query, slug);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST import a bundle sent as JSON or YAML.
+// ?onConflict=skip|rename|replace (default skip), dryRun=true to only report,
+// author=<name> for the revisions of replaced scenarios.
+router.post('/import', async (req, res) => {
+  try {
+    const { onConflict = 'skip', dryRun, author } = req.query;
+    if (!CONFLICT_STRATEGIES.includes(onConflict)) {
+      return res.status(400).json({ error: `onConflict must be one of ${CONFLICT_STRATEGIES.join(', ')}` });
+    }
+
+    let data;
+    try {
+      data = typeof req.body === 'string' ? parseBundle(req.body) : req.body;
+    } catch (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    const { bundle, migratedFrom, error: migrationError } = migrateBundle(data);
+    if (migrationError) {
+      return res.status(400).json({ error: migrationError });
+    }
+
+    const { scenarios: entries, error: bundleError } = validateBundle(bundle);
+    if (bundleError) {
+      return res.status(400).json({ error: bundleError });
+    }
+
+    const report = {
+      version: BUNDLE_VERSION,
+      migratedFrom,
+      dryRun: dryRun === 'true',
+      onConflict,
+      results: []
+    };
+
+    // Nothing is imported unless every scenario is valid
+    const invalid = entries.filter(e => e.fields);
+    if (invalid.length > 0) {
+      report.results = invalid.map(({ index, entry, fields }) => ({ index, name: entry?.name, action: 'invalid', fields }));
+      return res.status(400).json({ error: `${invalid.length} scenario(s) in the bundle are invalid`, ...report });
+    }
+
+    // Renamed scenarios must not take a name used elsewhere in the bundle
+    const taken = new Set(entries.map(({ entry }) => entry.name));
+    for (const { index, entry } of entries) {
+      const { id, name, description, parameters, simulationResults } = entry;
+      const { createdBy, tags, isPublic } = entry.metadata ?? {};
+      const metadata = { createdBy: createdBy || author || 'anonymous', tags: tags ?? [], isPublic: isPublic ?? false };
+      const fields = { name, description, parameters, simulationResults, metadata };
+      const conflict = await findConflict(entry);
+      const result = { index, name, sourceId: id };
+      if (conflict) {
+        result.conflict = { by: conflict.by, id: String(conflict.scenario._id), name: conflict.scenario.name };
+      }
+
+      if (conflict && onConflict === 'skip') {
+        result.action = 'skipped';
+      } else if (conflict && onConflict === 'replace') {
+        result.action = 'replaced';
+        result.id = result.conflict.id;
+        if (!report.dryRun) {
+          await commitChange(conflict.scenario, fields, { author, message: 'Imported from a bundle' });
+        }
+      } else {
+        result.action = conflict ? 'renamed' : 'created';
+        if (conflict) {
+          result.name = await freeName(name, taken);
+          taken.add(result.name);
+        }
+        if (!report.dryRun) {
+          // A renamed copy is a new scenario and gets a uid of its own
+          const created = await storage().create({ ...fields, uid: conflict ? undefined : entry.uid, name: result.name });
+          await recordCreation(created, { author: author || metadata.createdBy, message: 'Imported from a bundle' });
+          result.id = String(created._id);
+        }
+      }
+      report.results.push(result);
+    }
+
+    report.summary = Object.fromEntries(
+      ['created', 'renamed', 'replaced', 'skipped'].map(action => [action, report.results.filter(r => r.action === action).length])
+    );
+    res.status(report.dryRun ? 200 : 201).json(report);
+  } catch (error) {
+    res.status(error.name === 'RevisionConflictError' ? 409 : 500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,120 @@
+import express from 'express';
+import { storage } from '../storage/index.js';
+import { ensureHistory, restoreRevision } from '../storage/history.js';
+import { diffRevisions, validateRevisionInput } from '../models/scenarioRevisions.js';
+
+// Mounted at /api/scenarios/:id/revisions
+const router = express.Router({ mergeParams: true });
+
+// Revision numbers are whole numbers from 1
+function parseRevision(value) {
+  const number = Number(value);
+  return Number.isInteger(number) && number >= 1 ? number : null;
+}
+
+// Load the scenario of the request, answering 404 if it does not exist
+async function findScenario(req, res) {
+  const scenario = await storage().get(req.params.id);
+  if (!scenario) {
+    res.status(404).json({ error: 'Scenario not found' });
+    return null;
+  }
+  await ensureHistory(scenario);
+  return scenario;
+}
+
+// GET revisions of a scenario, newest first
+router.get('/', async (req, res) => {
+  try {
+    const scenario = await findScenario(req, res);
+    if (!scenario) return;
+
+    const revisions = await storage().listRevisions(req.params.id);
+    res.json({ current: scenario.revision ?? 1, revisions });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET changes between two revisions; `to` defaults to the latest and `from` to the one before it
+router.get('/diff', async (req, res) => {
+  try {
+    const scenario = await findScenario(req, res);
+    if (!scenario) return;
+
+    const to = req.query.to === undefined ? scenario.revision ?? 1 : parseRevision(req.query.to);
+    const from = req.query.from === undefined ? Math.max(1, (to ?? 1) - 1) : parseRevision(req.query.from);
+    if (from === null || to === null) {
+      return res.status(400).json({ error: 'from and to must be revision numbers' });
+    }
+
+    const [before, after] = await Promise.all([
+      storage().getRevision(req.params.id, from),
+      storage().getRevision(req.params.id, to)
+    ]);
+    if (!before || !after) {
+      return res.status(404).json({ error: `Revision ${before ? to : from} not found` });
+    }
+
+    res.json(diffRevisions(before, after));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET one revision with its snapshot
+router.get('/:revision', async (req, res) => {
+  try {
+    const number = parseRevision(req.params.revision);
+    if (number === null) {
+      return res.status(400).json({ error: 'Revision must be a revision number' });
+    }
+
+    const scenario = await findScenario(req, res);
+    if (!scenario) return;
+
+    const revision = await storage().getRevision(req.params.id, number);
+    if (!revision) {
+      return res.status(404).json({ error: `Revision ${number} not found` });
+    }
+
+    res.json(revision);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST restore an old revision, which becomes the newest one
+router.post('/:revision/restore', async (req, res) => {
+  try {
+    const number = parseRevision(req.params.revision);
+    if (number === null) {
+      return res.status(400).json({ error: 'Revision must be a revision number' });
+    }
+
+    const { author, message } = req.body;
+    const inputError = validateRevisionInput({ author, message });
+    if (inputError) {
+      return res.status(400).json({ error: inputError });
+    }
+
+    const scenario = await findScenario(req, res);
+    if (!scenario) return;
+
+    const revision = await storage().getRevision(req.params.id, number);
+    if (!revision) {
+      return res.status(404).json({ error: `Revision ${number} not found` });
+    }
+
+    const restored = await restoreRevision(scenario, revision, { author, message });
+    if (!restored) {
+      return res.status(404).json({ error: 'Scenario not found' });
+    }
+
+    res.json(restored);
+  } catch (error) {
+    res.status(error.name === 'RevisionConflictError' ? 409 : 500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -1,46 +1,67 @@
 import express from 'express';
-import Scenario from '../models/Scenario.js';
+import { storage } from '../storage/index.js';
+import { recordCreation, commitChange } from '../storage/history.js';
+import { validateScenario, describeFieldErrors } from '../models/scenarioValidation.js';
+import { validateRevisionInput } from '../models/scenarioRevisions.js';
+import revisionRoutes from './scenarioRevisions.js';
+import bundleRoutes from './scenarioBundles.js';
+import { exportOptionsFrom, validateExportOptions, exportResults } from '../simulation/resultExport.js';
 
 const router = express.Router();
 
+router.use('/:id/revisions', revisionRoutes);
+
+// Answer 400 with the field errors of an invalid scenario; returns true if it did
+function rejectInvalid(res, scenario, options) {
+  const fields = validateScenario(scenario, options);
+  if (!fields) return false;
+
+  res.status(400).json({ error: describeFieldErrors(fields), fields });
+  return true;
+}
+
+// Metadata clients may set; views and likes are counted by the server
+function clientMetadata(metadata = {}) {
+  const { createdBy, tags, isPublic } = metadata;
+  return Object.fromEntries(
+    Object.entries({ createdBy, tags, isPublic }).filter(([, value]) => value !== undefined)
+  );
+}
+
+// The storage adapter may still refuse a scenario, e.g. the Mongo schema, or
+// a change that raced another one
+function handleError(res, error) {
+  if (error.name === 'ValidationError') {
+    return res.status(400).json({ error: error.message });
+  }
+  if (error.name === 'RevisionConflictError') {
+    return res.status(409).json({ error: error.message });
+  }
+  res.status(500).json({ error: error.message });
+}
+
 // GET all scenarios
 router.get('/', async (req, res) => {
   try {
-    const { 
-      public: isPublic, 
-      createdBy, 
-      search, 
+    const {
+      public: isPublic,
+      createdBy,
+      search,
       sortBy = 'createdAt',
       order = 'desc',
       limit = 20,
-      page = 1 
+      page = 1
     } = req.query;
 
-    const query = {};
-    
-    if (isPublic === 'true') {
-      query['metadata.isPublic'] = true;
-    }
-    
-    if (createdBy) {
-      query['metadata.createdBy'] = createdBy;
-    }
-    
-    if (search) {
-      query.$text = { $search: search };
-    }
-
-    const sortOptions = {};
-    sortOptions[sortBy] = order === 'asc' ? 1 : -1;
-
-    const scenarios = await Scenario
-      .find(query)
-      .sort(sortOptions)
-      .limit(parseInt(limit))
-      .skip((parseInt(page) - 1) * parseInt(limit))
-      .select('-simulationResults.timeSteps'); // Exclude heavy data for list view
-
-    const total = await Scenario.countDocuments(query);
+    const { scenarios, total } = await storage().list({
+      isPublic: isPublic === 'true',
+      createdBy,
+      search,
+      sortBy,
+      order,
+      limit: parseInt(limit),
+      page: parseInt(page)
+    });
 
     res.json({
       scenarios,
@@ -51,36 +72,68 @@ router.get('/', async (req, res) => {
       }
     });
   } catch (error) {
-    res.status(500).json({ error: error.message });
+    handleError(res, error);
+  }
+});
+
+// GET popular scenarios (before /:id, which would match it)
+router.get('/popular', async (req, res) => {
+  try {
+    const scenarios = await storage().popular(10);
+    res.json(scenarios);
+  } catch (error) {
+    handleError(res, error);
   }
 });
 
+// Export and import of bundles (before /:id, which would match /export)
+router.use(bundleRoutes);
+
 // GET single scenario by ID
 router.get('/:id', async (req, res) => {
   try {
-    const scenario = await Scenario.findById(req.params.id);
-    
+    // Increment view count
+    const scenario = await storage().increment(req.params.id, 'views');
+
     if (!scenario) {
       return res.status(404).json({ error: 'Scenario not found' });
     }
 
-    // Increment view count
-    scenario.metadata.views += 1;
-    await scenario.save();
-
     res.json(scenario);
   } catch (error) {
-    res.status(500).json({ error: error.message });
+    handleError(res, error);
   }
 });
 
-// GET popular scenarios
-router.get('/popular', async (req, res) => {
+// GET the saved results of a scenario as a file:
+// ?format=csv|ndjson|columnar&columns=time,populations&every=10&maxRows=500
+router.get('/:id/results', async (req, res) => {
   try {
-    const scenarios = await Scenario.getPopular(10);
-    res.json(scenarios);
+    const options = exportOptionsFrom(req.query);
+    const optionsError = validateExportOptions(options);
+    if (optionsError) {
+      return res.status(400).json({ error: optionsError });
+    }
+
+    const scenario = await storage().get(req.params.id);
+    if (!scenario) {
+      return res.status(404).json({ error: 'Scenario not found' });
+    }
+
+    const plain = typeof scenario.toObject === 'function' ? scenario.toObject({ flattenMaps: true }) : scenario;
+    if (!plain.simulationResults?.timeSteps?.length) {
+      return res.status(404).json({ error: 'Scenario has no saved results' });
+    }
+
+    const exported = exportResults(plain.simulationResults, options);
+    if (exported.error) {
+      return res.status(400).json({ error: exported.error });
+    }
+    res.set('Content-Type', exported.contentType);
+    res.set('Content-Disposition', `attachment; filename="scenario-${req.params.id}-results.${exported.extension}"`);
+    res.send(exported.content);
   } catch (error) {
-    res.status(500).json({ error: error.message });
+    handleError(res, error);
   }
 });
 
@@ -88,120 +141,118 @@ router.get('/popular', async (req, res) => {
 router.post('/', async (req, res) => {
   try {
     const { name, description, parameters, simulationResults, metadata } = req.body;
-
-    // Validate required fields
-    if (!name || !parameters) {
-      return res.status(400).json({ error: 'Name and parameters are required' });
-    }
-
-    const scenario = new Scenario({
+    const scenario = {
       name,
       description,
       parameters,
       simulationResults,
       metadata: {
-        ...metadata,
+        ...clientMetadata(metadata),
         createdBy: metadata?.createdBy || 'anonymous'
       }
-    });
+    };
+
+    if (rejectInvalid(res, scenario)) return;
 
-    const savedScenario = await scenario.save();
+    const savedScenario = await storage().create(scenario);
+    await recordCreation(savedScenario, {
+      author: scenario.metadata.createdBy,
+      message: 'Created'
+    });
     res.status(201).json(savedScenario);
   } catch (error) {
-    if (error.name === 'ValidationError') {
-      return res.status(400).json({ error: error.message });
-    }
-    res.status(500).json({ error: error.message });
+    handleError(res, error);
   }
 });
 
-// PUT update scenario
+// PUT update scenario, recorded as a new revision by `author` with `message`
 router.put('/:id', async (req, res) => {
   try {
-    const { name, description, parameters, simulationResults, metadata } = req.body;
+    const { name, description, parameters, simulationResults, metadata, author, message } = req.body;
 
-    const scenario = await Scenario.findById(req.params.id);
-    
-    if (!scenario) {
-      return res.status(404).json({ error: 'Scenario not found' });
+    // Update the fields that were given
+    const fields = Object.fromEntries(
+      Object.entries({ name, description, parameters, simulationResults }).filter(([, value]) => value !== undefined)
+    );
+    if (metadata) fields.metadata = clientMetadata(metadata);
+
+    if (rejectInvalid(res, fields, { partial: true })) return;
+
+    const revisionError = validateRevisionInput({ author, message });
+    if (revisionError) {
+      return res.status(400).json({ error: revisionError });
     }
 
-    // Update fields
-    if (name) scenario.name = name;
-    if (description) scenario.description = description;
-    if (parameters) scenario.parameters = parameters;
-    if (simulationResults) scenario.simulationResults = simulationResults;
-    if (metadata) {
-      scenario.metadata = { ...scenario.metadata.toObject(), ...metadata };
+    const current = await storage().get(req.params.id);
+    const scenario = current && await commitChange(current, fields, { author, message });
+
+    if (!scenario) {
+      return res.status(404).json({ error: 'Scenario not found' });
     }
 
-    const updatedScenario = await scenario.save();
-    res.json(updatedScenario);
+    res.json(scenario);
   } catch (error) {
-    if (error.name === 'ValidationError') {
-      return res.status(400).json({ error: error.message });
-    }
-    res.status(500).json({ error: error.message });
+    handleError(res, error);
   }
 });
 
 // DELETE scenario
 router.delete('/:id', async (req, res) => {
   try {
-    const scenario = await Scenario.findByIdAndDelete(req.params.id);
-    
-    if (!scenario) {
+    const removed = await storage().remove(req.params.id);
+
+    if (!removed) {
       return res.status(404).json({ error: 'Scenario not found' });
     }
 
     res.json({ message: 'Scenario deleted successfully', id: req.params.id });
   } catch (error) {
-    res.status(500).json({ error: error.message });
+    handleError(res, error);
   }
 });
 
 // POST like scenario
 router.post('/:id/like', async (req, res) => {
   try {
-    const scenario = await Scenario.findById(req.params.id);
-    
+    const scenario = await storage().increment(req.params.id, 'likes');
+
     if (!scenario) {
       return res.status(404).json({ error: 'Scenario not found' });
     }
 
-    scenario.metadata.likes += 1;
-    await scenario.save();
-
     res.json({ likes: scenario.metadata.likes });
   } catch (error) {
-    res.status(500).json({ error: error.message });
+    handleError(res, error);
   }
 });
 
 // POST duplicate scenario
 router.post('/:id/duplicate', async (req, res) => {
   try {
-    const original = await Scenario.findById(req.params.id);
-    
+    const original = await storage().get(req.params.id);
+
     if (!original) {
       return res.status(404).json({ error: 'Scenario not found' });
     }
 
-    const duplicate = new Scenario({
+    const savedDuplicate = await storage().create({
       name: `${original.name} (Copy)`,
       description: original.description,
-      parameters: original.parameters,
+      parameters: JSON.parse(JSON.stringify(original.parameters)), // Deep copy
       metadata: {
         createdBy: req.body.createdBy || 'anonymous',
-        tags: original.metadata.tags,
+        tags: [...original.metadata.tags ?? []],
         isPublic: false
       }
     });
+    await recordCreation(savedDuplicate, {
+      author: savedDuplicate.metadata.createdBy,
+      message: `Duplicated from ${original.name}`
+    });
 
-    const savedDuplicate = await duplicate.save();
     res.status(201).json(savedDuplicate);
   } catch (error) {
-    res.status(500).json({ error: error.message });
+    handleError(res, error);
   }
 });
 
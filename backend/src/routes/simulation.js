@@ -1,27 +1,109 @@
 import express from 'express';
-import EcosystemSimulator from '../simulation/simulator.js';
-import { broadcast } from '../server.js';
+import { createSimulator, validateRunOptions, SINGLE_RUN_MODES } from '../simulation/factory.js';
+import { describeInteractionModels } from '../simulation/interactionModels.js';
+import {
+  validateRequiredParameters,
+  validateParameters,
+  requireTwoSpecies
+} from '../simulation/validation.js';
+import { describeSolvers } from '../simulation/solvers.js';
+import { describeEventTypes } from '../simulation/events.js';
+import { previewForcing, validateForcing, validatePreviewOptions } from '../simulation/forcing.js';
+import { runEnsemble, validateEnsembleOptions } from '../simulation/ensemble.js';
+import { runSweep, validateSweep } from '../simulation/sweep.js';
+import { runBifurcation, validateBifurcation } from '../simulation/bifurcation.js';
+import { runSensitivity, validateSensitivity } from '../simulation/sensitivity.js';
+import { runCalibration, validateCalibration } from '../simulation/calibration.js';
+import { analyzeStability } from '../simulation/stability.js';
+import { calculatePhasePlane, validatePhasePlaneOptions } from '../simulation/phasePlane.js';
+import { describeLiveState } from '../live/sessions.js';
+import { liveHub } from '../live/hub.js';
+import { channelFor } from '../live/protocol.js';
+import { exportOptionsFrom, validateExportOptions, exportResults, runColumns, selectColumns } from '../simulation/resultExport.js';
+import { storage } from '../storage/index.js';
+import { commitChange } from '../storage/history.js';
+import { validateRevisionInput } from '../models/scenarioRevisions.js';
+import { jobQueue, describeJob } from '../jobs/jobQueue.js';
+import { estimateRuns } from '../jobs/tasks.js';
 
 const router = express.Router();
 
-// POST run simulation with given parameters
+// Publish a message about a run on the channels of its run and scenario ids, if given
+function publishRun({ runId, scenarioId }, message) {
+  if (typeof runId === 'string') liveHub.publish(channelFor('run', runId), message);
+  if (typeof scenarioId === 'string') liveHub.publish(channelFor('scenario', scenarioId), message);
+}
+
+// Queue an analysis that takes more runs than the sync limit as a background
+// job and answer 202 with the job, so it cannot block the event loop. Returns
+// false if the analysis is small enough to run in the request.
+function queueIfLarge(res, type, payload) {
+  if (estimateRuns(type, payload) <= jobQueue.options.syncRunLimit) {
+    return false;
+  }
+
+  if (jobQueue.isFull()) {
+    res.status(503).json({ error: 'Job queue is full, try again later' });
+  } else {
+    const job = jobQueue.submit(type, payload);
+    res.status(202).location(`/api/jobs/${job.id}`).json(describeJob(job));
+  }
+  return true;
+}
+
+// POST run simulation with given parameters. With ?format=csv|ndjson|columnar
+// the time steps are sent as a file instead (see simulation/resultExport.js)
 router.post('/run', async (req, res) => {
   try {
-    const { parameters, saveResults = false, scenarioId } = req.body;
+    const exportOptions = req.query.format === undefined ? null : exportOptionsFrom(req.query);
+    const exportError = exportOptions && validateExportOptions(exportOptions);
+    if (exportError) {
+      return res.status(400).json({ error: exportError });
+    }
+
+    const {
+      parameters,
+      mode,
+      seed,
+      solver = {},
+      stochastic = {},
+      spatial = {},
+      agent = {},
+      saveResults = false,
+      scenarioId,
+      runId,
+      author
+    } = req.body;
 
     // Validate parameters
-    if (!parameters || !parameters.prey || !parameters.predator || !parameters.environment) {
-      return res.status(400).json({ 
-        error: 'Invalid parameters. Required: prey, predator, and environment configurations' 
-      });
+    const parameterError = validateRequiredParameters(parameters) ||
+      validateParameters(parameters) ||
+      (SINGLE_RUN_MODES.includes(mode) && requireTwoSpecies(parameters)) ||
+      validateRunOptions({ mode, seed, solver, stochastic, spatial, agent }, { singleRun: true, parameters }) ||
+      validateRevisionInput({ author });
+    if (parameterError) {
+      return res.status(400).json({ error: parameterError });
+    }
+
+    // Exported columns are checked before anything is run, published or saved
+    const columns = exportOptions && runColumns(parameters);
+    const columnError = exportOptions && selectColumns(columns, exportOptions.columns).error;
+    if (columnError) {
+      return res.status(400).json({ error: columnError });
+    }
+
+    // The scenario to save the results to, found before the run
+    const target = saveResults && scenarioId ? await storage().get(String(scenarioId)) : null;
+    if (saveResults && scenarioId && !target) {
+      return res.status(404).json({ error: 'Scenario not found' });
     }
 
     // Create and run simulation
-    const simulator = new EcosystemSimulator(parameters);
+    const simulator = createSimulator(parameters, { mode, seed, solver, stochastic, spatial, agent });
     const results = simulator.simulate();
 
-    // Broadcast initial results to WebSocket clients
-    broadcast({
+    // Preview the results to the subscribers of the run and its scenario
+    publishRun({ runId, scenarioId }, {
       type: 'simulation_complete',
       data: {
         parameters,
@@ -32,14 +114,24 @@ router.post('/run', async (req, res) => {
       }
     });
 
-    // If requested, save results to the scenario
-    if (saveResults && scenarioId) {
-      const Scenario = (await import('../models/Scenario.js')).default;
-      await Scenario.findByIdAndUpdate(scenarioId, {
-        simulationResults: results
+    // If requested, save results to the scenario as its next revision
+    if (target) {
+      await commitChange(target, { simulationResults: results }, {
+        author,
+        message: 'Saved simulation results'
       });
     }
 
+    if (exportOptions) {
+      const exported = exportResults(results, exportOptions, columns);
+      if (exported.error) {
+        return res.status(400).json({ error: exported.error });
+      }
+      res.set('Content-Type', exported.contentType);
+      res.set('Content-Disposition', `attachment; filename="simulation-results.${exported.extension}"`);
+      return res.send(exported.content);
+    }
+
     res.json({
       success: true,
       results,
@@ -47,11 +139,207 @@ router.post('/run', async (req, res) => {
         totalTimeSteps: results.timeSteps.length,
         simulationDuration: results.summary.duration,
         equilibriumReached: results.equilibriumReached,
-        extinctionOccurred: results.extinctionOccurred
+        extinctionOccurred: results.extinctionOccurred,
+        mode: results.mode,
+        ...(results.solver && {
+          solverSteps: results.solver.steps,
+          rejectedSteps: results.solver.rejectedSteps
+        }),
+        ...(results.stochastic && {
+          seed: results.stochastic.seed,
+          events: results.stochastic.events
+        })
       }
     });
   } catch (error) {
     console.error('Simulation error:', error);
+    res.status(error.name === 'RevisionConflictError' ? 409 : 500).json({ error: error.message });
+  }
+});
+
+// POST run a Monte Carlo ensemble of replicates
+router.post('/ensemble', async (req, res) => {
+  try {
+    const {
+      parameters,
+      replicates,
+      mode = 'stochastic',
+      seed,
+      interval,
+      perturbation,
+      solver = {},
+      stochastic = {}
+    } = req.body;
+
+    const options = { replicates, mode, seed, interval, perturbation, solver, stochastic };
+    const parameterError = validateRequiredParameters(parameters) ||
+      validateParameters(parameters) ||
+      validateEnsembleOptions(parameters, options);
+    if (parameterError) {
+      return res.status(400).json({ error: parameterError });
+    }
+
+    if (queueIfLarge(res, 'ensemble', { parameters, ...options })) return;
+
+    const ensemble = runEnsemble(parameters, options);
+
+    res.json({
+      success: true,
+      ensemble
+    });
+  } catch (error) {
+    console.error('Ensemble error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST sweep one or two parameters over a grid and classify each cell
+router.post('/sweep', async (req, res) => {
+  try {
+    const {
+      parameters,
+      axes,
+      mode,
+      seed,
+      solver = {},
+      stochastic = {}
+    } = req.body;
+
+    const runOptions = { mode, seed, solver, stochastic };
+    const parameterError = validateRequiredParameters(parameters) ||
+      validateParameters(parameters) ||
+      validateSweep(parameters, axes, runOptions);
+    if (parameterError) {
+      return res.status(400).json({ error: parameterError });
+    }
+
+    if (queueIfLarge(res, 'sweep', { parameters, axes, ...runOptions })) return;
+
+    const sweep = runSweep(parameters, axes, runOptions);
+
+    res.json({
+      success: true,
+      sweep
+    });
+  } catch (error) {
+    console.error('Sweep error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST sweep one parameter and record the attractor at every value
+router.post('/bifurcation', async (req, res) => {
+  try {
+    const {
+      parameters,
+      path,
+      min,
+      max,
+      resolution,
+      transient,
+      duration,
+      mode,
+      seed,
+      solver = {}
+    } = req.body;
+
+    const options = { path, min, max, resolution, transient, duration };
+    const runOptions = { mode, seed, solver };
+    const parameterError = validateRequiredParameters(parameters) ||
+      validateParameters(parameters) ||
+      validateBifurcation(parameters, options, runOptions);
+    if (parameterError) {
+      return res.status(400).json({ error: parameterError });
+    }
+
+    if (queueIfLarge(res, 'bifurcation', { parameters, ...options, ...runOptions })) return;
+
+    const bifurcation = runBifurcation(parameters, options, runOptions);
+
+    res.json({
+      success: true,
+      bifurcation
+    });
+  } catch (error) {
+    console.error('Bifurcation error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST rank parameters by how much they drive an output metric
+router.post('/sensitivity', async (req, res) => {
+  try {
+    const {
+      parameters,
+      method,
+      metric,
+      factors,
+      trajectories,
+      levels,
+      samples,
+      seed,
+      mode,
+      solver = {},
+      stochastic = {}
+    } = req.body;
+
+    const options = { method, metric, factors, trajectories, levels, samples, seed };
+    const runOptions = { mode, seed, solver, stochastic };
+    const parameterError = validateRequiredParameters(parameters) ||
+      validateParameters(parameters) ||
+      validateSensitivity(parameters, options, runOptions);
+    if (parameterError) {
+      return res.status(400).json({ error: parameterError });
+    }
+
+    if (queueIfLarge(res, 'sensitivity', { parameters, ...options, ...runOptions })) return;
+
+    const sensitivity = runSensitivity(parameters, options, runOptions);
+
+    res.json({
+      success: true,
+      sensitivity
+    });
+  } catch (error) {
+    console.error('Sensitivity error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST fit parameters to an observed time series (CSV text or JSON rows)
+router.post('/calibrate', async (req, res) => {
+  try {
+    const {
+      parameters,
+      data,
+      columns,
+      fit,
+      initialFromData,
+      maxIterations,
+      tolerance,
+      mode,
+      solver = {}
+    } = req.body;
+
+    const options = { data, columns, fit, initialFromData, maxIterations, tolerance };
+    const runOptions = { mode, solver };
+    const parameterError = validateRequiredParameters(parameters) ||
+      validateParameters(parameters) ||
+      validateCalibration(parameters, options, runOptions);
+    if (parameterError) {
+      return res.status(400).json({ error: parameterError });
+    }
+
+    if (queueIfLarge(res, 'calibration', { parameters, ...options, ...runOptions })) return;
+
+    const calibration = runCalibration(parameters, options, runOptions);
+
+    res.json({
+      success: true,
+      calibration
+    });
+  } catch (error) {
+    console.error('Calibration error:', error);
     res.status(500).json({ error: error.message });
   }
 });
@@ -59,19 +347,37 @@ router.post('/run', async (req, res) => {
 // POST run real-time simulation with streaming updates
 router.post('/stream', async (req, res) => {
   try {
-    const { parameters, updateInterval = 100 } = req.body;
+    const {
+      parameters,
+      mode,
+      seed,
+      solver = {},
+      stochastic = {},
+      spatial = {},
+      agent = {},
+      updateInterval = 100,
+      scenarioId,
+      runId
+    } = req.body;
 
     if (!parameters) {
       return res.status(400).json({ error: 'Parameters required' });
     }
 
+    const parameterError = validateParameters(parameters) ||
+      (SINGLE_RUN_MODES.includes(mode) && requireTwoSpecies(parameters)) ||
+      validateRunOptions({ mode, seed, solver, stochastic, spatial, agent }, { singleRun: true, parameters });
+    if (parameterError) {
+      return res.status(400).json({ error: parameterError });
+    }
+
     res.writeHead(200, {
       'Content-Type': 'text/event-stream',
       'Cache-Control': 'no-cache',
       'Connection': 'keep-alive'
     });
 
-    const simulator = new EcosystemSimulator(parameters);
+    const simulator = createSimulator(parameters, { mode, seed, solver, stochastic, spatial, agent });
     let lastUpdate = Date.now();
     let step = 0;
 
@@ -91,14 +397,7 @@ router.post('/stream', async (req, res) => {
 
       // Run simulation for a bit
       for (let i = 0; i < 10; i++) {
-        const newPops = simulator.rungeKutta4Step(
-          simulator.preyPop, 
-          simulator.predatorPop, 
-          simulator.currentTime
-        );
-        simulator.preyPop = newPops.prey;
-        simulator.predatorPop = newPops.predator;
-        simulator.currentTime += simulator.dt;
+        simulator.step();
 
         if (simulator.checkExtinction()) {
           break;
@@ -109,18 +408,13 @@ router.post('/stream', async (req, res) => {
       const update = {
         type: 'update',
         step: step++,
-        time: simulator.currentTime,
-        populations: {
-          prey: simulator.preyPop,
-          predator: simulator.predatorPop
-        },
-        resourceLevel: simulator.calculateResourceLevel(simulator.currentTime)
+        ...describeLiveState(simulator, mode)
       };
 
       res.write(`data: ${JSON.stringify(update)}\n\n`);
 
-      // Also broadcast to WebSocket clients
-      broadcast({
+      // Also publish to the subscribers of the run and its scenario
+      publishRun({ runId, scenarioId }, {
         type: 'simulation_update',
         data: update
       });
@@ -135,6 +429,20 @@ router.post('/stream', async (req, res) => {
   }
 });
 
+// Plain-language summary of a stability prediction
+function explainPrediction(prediction) {
+  switch (prediction.outcome) {
+    case 'equilibrium':
+      return `The populations should settle at a ${prediction.classification} with about ` +
+        `${Math.round(prediction.prey)} prey and ${Math.round(prediction.predator)} predators.`;
+    case 'oscillation':
+      return 'The coexistence point is unstable, so the populations should keep cycling' +
+        (prediction.period ? ` with a period of about ${prediction.period.toFixed(1)} time units.` : '.');
+    default:
+      return 'No coexistence point attracts the system, so at least one species should die out.';
+  }
+}
+
 // POST predict equilibrium
 router.post('/predict', async (req, res) => {
   try {
@@ -144,44 +452,105 @@ router.post('/predict', async (req, res) => {
       return res.status(400).json({ error: 'Parameters required' });
     }
 
-    const prediction = EcosystemSimulator.predictEquilibrium(parameters);
+    const parameterError = requireTwoSpecies(parameters) || validateParameters(parameters);
+    if (parameterError) {
+      return res.status(400).json({ error: parameterError });
+    }
+
+    const { prediction } = analyzeStability(parameters);
     
     res.json({
       prediction,
-      confidence: prediction.isStable ? 0.8 : 0.3,
-      explanation: prediction.isStable 
-        ? 'The system is likely to reach a stable equilibrium with these parameters.'
-        : 'The system may be unstable or lead to extinction with these parameters.'
+      explanation: explainPrediction(prediction)
     });
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
 });
 
-// POST calculate phase space
-router.post('/phase-space', async (req, res) => {
+// POST find every fixed point and classify its stability
+router.post('/stability', async (req, res) => {
   try {
-    const { parameters, resolution = 15 } = req.body;
+    const { parameters } = req.body;
 
     if (!parameters) {
       return res.status(400).json({ error: 'Parameters required' });
     }
 
-    const phaseSpace = EcosystemSimulator.calculatePhaseSpace(parameters, resolution);
-    
+    const parameterError = requireTwoSpecies(parameters) || validateParameters(parameters);
+    if (parameterError) {
+      return res.status(400).json({ error: parameterError });
+    }
+
+    const analysis = analyzeStability(parameters);
+
     res.json({
-      phaseSpace,
-      resolution,
-      bounds: {
-        preyMax: parameters.prey.carryingCapacity,
-        predatorMax: parameters.predator.initialPopulation * 10
-      }
+      ...analysis,
+      explanation: explainPrediction(analysis.prediction)
     });
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
 });
 
+// POST calculate the phase plane: vector field, nullclines and fixed points
+router.post('/phase-space', async (req, res) => {
+  try {
+    const { parameters, resolution = 15, bounds } = req.body;
+
+    if (!parameters) {
+      return res.status(400).json({ error: 'Parameters required' });
+    }
+
+    const parameterError = requireTwoSpecies(parameters) ||
+      validateParameters(parameters) ||
+      validatePhasePlaneOptions({ resolution, bounds });
+    if (parameterError) {
+      return res.status(400).json({ error: parameterError });
+    }
+
+    res.json(calculatePhasePlane(parameters, { resolution, bounds }));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// POST preview the environmental forcing without running the simulation
+router.post('/forcing/preview', async (req, res) => {
+  try {
+    const { parameters, duration, interval } = req.body;
+
+    if (!parameters?.environment) {
+      return res.status(400).json({ error: 'Parameters with an environment required' });
+    }
+
+    const parameterError = validateForcing(parameters.environment.forcing) ||
+      validatePreviewOptions({ duration, interval });
+    if (parameterError) {
+      return res.status(400).json({ error: parameterError });
+    }
+
+    res.json(previewForcing(parameters.environment, { duration, interval }));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// GET available interaction models and their parameter declarations
+router.get('/models', (req, res) => {
+  res.json(describeInteractionModels());
+});
+
+// GET available ODE solvers
+router.get('/solvers', (req, res) => {
+  res.json(describeSolvers());
+});
+
+// GET scheduled event types
+router.get('/event-types', (req, res) => {
+  res.json(describeEventTypes());
+});
+
 // GET simulation presets
 router.get('/presets', (req, res) => {
   const presets = [
@@ -268,6 +637,82 @@ router.get('/presets', (req, res) => {
           seasonalAmplitude: 0.1
         }
       }
+    },
+    {
+      name: 'Four-Level Food Chain',
+      description: 'Grass feeds rabbits, rabbits feed foxes, foxes feed eagles',
+      parameters: {
+        prey: {
+          initialPopulation: 4000,
+          birthRate: 1.2,
+          carryingCapacity: 10000
+        },
+        predator: {
+          initialPopulation: 500,
+          huntingEfficiency: 0.0004,
+          deathRate: 0.2
+        },
+        environment: {
+          resourceAvailability: 0.8,
+          seasonalVariation: false,
+          seasonalAmplitude: 0.2
+        },
+        model: {
+          type: 'holling2',
+          parameters: { handlingTime: 0.1 }
+        },
+        foodWeb: {
+          species: [
+            { id: 'grass', name: 'Grass', initialPopulation: 4000, growthRate: 1.2, carryingCapacity: 10000 },
+            { id: 'rabbits', name: 'Rabbits', initialPopulation: 500, deathRate: 0.2, conversionEfficiency: 0.3 },
+            { id: 'foxes', name: 'Foxes', initialPopulation: 60, deathRate: 0.15, conversionEfficiency: 0.3 },
+            { id: 'eagles', name: 'Eagles', initialPopulation: 15, deathRate: 0.1, conversionEfficiency: 0.3 }
+          ],
+          interactions: [
+            [0, 0, 0, 0],
+            [0.0004, 0, 0, 0],
+            [0, 0.002, 0, 0],
+            [0, 0, 0.004, 0]
+          ]
+        }
+      }
+    },
+    {
+      name: 'Competing Prey',
+      description: 'Two competing rodent species sharing a single owl predator',
+      parameters: {
+        prey: {
+          initialPopulation: 800,
+          birthRate: 1.0,
+          carryingCapacity: 4000
+        },
+        predator: {
+          initialPopulation: 40,
+          huntingEfficiency: 0.0006,
+          deathRate: 0.3
+        },
+        environment: {
+          resourceAvailability: 0.8,
+          seasonalVariation: false,
+          seasonalAmplitude: 0.2
+        },
+        model: {
+          type: 'holling2',
+          parameters: { handlingTime: 0.1 }
+        },
+        foodWeb: {
+          species: [
+            { id: 'voles', name: 'Voles', initialPopulation: 800, growthRate: 1.0, carryingCapacity: 4000 },
+            { id: 'mice', name: 'Mice', initialPopulation: 600, growthRate: 1.3, carryingCapacity: 3000 },
+            { id: 'owls', name: 'Owls', initialPopulation: 40, deathRate: 0.3, conversionEfficiency: 0.5 }
+          ],
+          interactions: [
+            [0, -0.0001, 0],
+            [-0.0002, 0, 0],
+            [0.0006, 0.0004, 0]
+          ]
+        }
+      }
     }
   ];
 
@@ -7,11 +7,26 @@ import { WebSocketServer } from 'ws';
 import { createServer } from 'http';
 import rateLimit from 'express-rate-limit';
 
-import scenarioRoutes from './routes/scenarios-memory.js';
+import scenarioRoutes from './routes/scenarios.js';
 import simulationRoutes from './routes/simulation.js';
+import jobRoutes from './routes/jobs.js';
+import { jobQueue, describeJob } from './jobs/jobQueue.js';
+import { liveHub } from './live/hub.js';
+import { rooms } from './live/rooms.js';
+import { handleConnection } from './live/connection.js';
+import { channelFor } from './live/protocol.js';
+import { openStorage, storage } from './storage/index.js';
 
 dotenv.config();
 
+// Background job limits
+jobQueue.configure({
+  concurrency: Number(process.env.JOB_CONCURRENCY) || undefined,
+  maxQueueLength: Number(process.env.JOB_QUEUE_LIMIT) || undefined,
+  historyLimit: Number(process.env.JOB_HISTORY_LIMIT) || undefined,
+  syncRunLimit: Number(process.env.JOB_SYNC_RUN_LIMIT) || undefined
+});
+
 const app = express();
 const server = createServer(app);
 const wss = new WebSocketServer({ server, path: '/api/live' });
@@ -23,6 +38,11 @@ app.use(cors({
   origin: process.env.FRONTEND_URL || 'http://localhost:5173',
   credentials: true
 }));
+// Scenario bundles may carry stored results and come as JSON or YAML
+app.use('/api/scenarios/import',
+  express.json({ limit: process.env.BUNDLE_SIZE_LIMIT || '10mb' }),
+  express.text({ type: ['application/yaml', 'application/x-yaml', 'text/yaml', 'text/plain'], limit: process.env.BUNDLE_SIZE_LIMIT || '10mb' })
+);
 app.use(express.json());
 
 // Rate limiting
@@ -32,68 +52,55 @@ const limiter = rateLimit({
 });
 app.use('/api', limiter);
 
-console.log('✅ Server running in NO-DATABASE mode');
-console.log('📝 Scenarios will be stored in memory (lost on restart)');
-
 // Routes
 app.use('/api/scenarios', scenarioRoutes);
 app.use('/api/simulation', simulationRoutes);
+app.use('/api/jobs', jobRoutes);
 
 // Health check endpoint
 app.get('/api/health', (req, res) => {
   res.json({ 
     status: 'healthy',
     timestamp: new Date().toISOString(),
-    database: 'in-memory'
+    database: storage().name
   });
 });
 
-// WebSocket handling for real-time updates
-const clients = new Set();
+// WebSocket handling for real-time updates. Messages travel on channels
+// (see live/protocol.js) and reach only the clients subscribed to them.
+liveHub.configure({
+  heartbeatInterval: Number(process.env.WS_HEARTBEAT_INTERVAL) || undefined,
+  resumeGrace: Number(process.env.WS_RESUME_GRACE) || undefined
+});
+liveHub.startHeartbeat();
+
+// Shared rooms come back from their file
+rooms.configure({ file: process.env.ROOMS_FILE || undefined });
 
 wss.on('connection', (ws) => {
   console.log('New WebSocket client connected');
-  clients.add(ws);
-
-  ws.on('message', (message) => {
-    try {
-      const data = JSON.parse(message);
-      
-      // Broadcast simulation updates to all connected clients
-      if (data.type === 'simulation_update') {
-        broadcast({
-          type: 'simulation_state',
-          data: data.payload
-        });
-      }
-    } catch (error) {
-      console.error('WebSocket message error:', error);
-    }
-  });
-
+  handleConnection(ws);
   ws.on('close', () => {
-    clients.delete(ws);
     console.log('Client disconnected');
   });
-
-  // Send initial connection confirmation
-  ws.send(JSON.stringify({ 
-    type: 'connected', 
-    message: 'Successfully connected to simulation server' 
-  }));
 });
 
-function broadcast(data) {
-  const message = JSON.stringify(data);
-  clients.forEach(client => {
-    if (client.readyState === 1) { // WebSocket.OPEN
-      client.send(message);
-    }
-  });
-}
-
-// Export broadcast function for use in routes
-export { broadcast };
+// Announce finished background jobs on their own channel and the shared one;
+// clients fetch the result from /api/jobs/:id
+const JOB_EVENTS = {
+  completed: 'job_complete',
+  failed: 'job_failed',
+  cancelled: 'job_cancelled'
+};
+
+jobQueue.on('finished', (job) => {
+  const message = {
+    type: JOB_EVENTS[job.status],
+    data: describeJob(job)
+  };
+  liveHub.publish(channelFor('job', job.id), message);
+  liveHub.publish('jobs', message);
+});
 
 // Error handling middleware
 app.use((err, req, res, next) => {
@@ -104,12 +111,20 @@ app.use((err, req, res, next) => {
   });
 });
 
+// Scenario storage: memory (default), file or mongo
 const PORT = process.env.PORT || 3000;
-server.listen(PORT, () => {
-  console.log(`🚀 Server running on port ${PORT}`);
-  console.log(`🌐 WebSocket server running on ws://localhost:${PORT}/api/live`);
-  console.log(`📱 Frontend should be running on http://localhost:5173`);
-  console.log('');
-  console.log('✨ All features work! Scenarios saved in memory.');
-  console.log('⚠️  Note: Saved scenarios will be lost when server restarts.');
+openStorage({
+  adapter: process.env.STORAGE_ADAPTER || undefined,
+  file: process.env.STORAGE_FILE,
+  uri: process.env.MONGODB_URI
+}).then((store) => {
+  console.log(`💾 Storage: ${store.name}. ${store.describe()}`);
+  server.listen(PORT, () => {
+    console.log(`🚀 Server running on port ${PORT}`);
+    console.log(`🌐 WebSocket server running on ws://localhost:${PORT}/api/live`);
+    console.log(`📱 Frontend should be running on http://localhost:5173`);
+  });
+}).catch((error) => {
+  console.error('❌ Could not open scenario storage:', error.message);
+  process.exit(1);
 });
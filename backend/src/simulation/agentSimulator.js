@@ -0,0 +1,351 @@
+// Agent-Based Simulation Engine
+// Simulates every prey and predator as an individual with a position,
+// energy and age on a square world that wraps around at the edges. The
+// per-individual rules are derived from the same parameters as the ODE model,
+// so the aggregate counts can be compared with the Lotka-Volterra trajectory:
+//
+// - Prey graze, so their energy follows the resource level, and give birth at
+//   birthRate × energy. Crowding kills them at birthRate × N / K.
+// - Predators steer towards prey they can see and catch prey within the hunt
+//   radius at a rate that reproduces the functional response on average. A
+//   catch refills their energy and produces an offspring with probability
+//   conversionEfficiency. They die at deathRate, or starve once their energy
+//   runs out after starvationTime without a catch.
+// - Either species can be given a maximum age.
+//
+// Offspring start next to their parent with its energy.
+
+import { EcosystemSimulator } from './simulator.js';
+import { resolveSolver } from './solvers.js';
+import { createRandom } from './random.js';
+
+export const MAX_AGENTS = 20000;
+
+const DEFAULT_OPTIONS = {
+  size: 100, // World width and height
+  huntRadius: 2,
+  preySpeed: 1, // Distance per unit of time
+  predatorSpeed: 2,
+  preyMaxAge: null,
+  predatorMaxAge: null,
+  starvationTime: 10,
+  scale: 1, // Individuals represented by every agent
+  dt: 0.1
+};
+
+const SIGHT = 2; // Predators see prey within this many hunt radii
+const SNAPSHOT_LIMIT = 2000; // Agents per species sent in a snapshot
+
+const isNumber = (value) => typeof value === 'number' && Number.isFinite(value);
+const isPositive = (value) => isNumber(value) && value > 0;
+
+// Returns an error message if the agent options are invalid for the parameters
+export function validateAgentOptions(options = {}, parameters) {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const { size, huntRadius, preySpeed, predatorSpeed, preyMaxAge, predatorMaxAge, starvationTime, scale, dt } = settings;
+
+  if (!isPositive(size) || size > 10000) {
+    return 'Agent world size must be a number in (0, 10000]';
+  }
+  if (!isPositive(huntRadius) || huntRadius > size / 2) {
+    return 'Hunt radius must be positive and at most half the world size';
+  }
+  if (!isNumber(preySpeed) || !isNumber(predatorSpeed) || preySpeed < 0 || predatorSpeed < 0) {
+    return 'Agent speeds must be non-negative numbers';
+  }
+  for (const [name, value] of [['preyMaxAge', preyMaxAge], ['predatorMaxAge', predatorMaxAge]]) {
+    if (value !== null && !isPositive(value)) {
+      return `Agent option ${name} must be a positive number or null`;
+    }
+  }
+  if (!isPositive(starvationTime)) {
+    return 'Agent option starvationTime must be a positive number';
+  }
+  if (!isPositive(scale)) {
+    return 'Agent scale must be a positive number of individuals per agent';
+  }
+  if (!isPositive(dt) || dt > 1) {
+    return 'Agent option dt must be a number in (0, 1]';
+  }
+
+  const initial = (parameters?.prey?.initialPopulation ?? 0) + (parameters?.predator?.initialPopulation ?? 0);
+  if (initial / scale > MAX_AGENTS) {
+    return `At most ${MAX_AGENTS} agents are supported; raise the scale to represent more individuals per agent`;
+  }
+  return null;
+}
+
+// Uniform bucket grid over the world for finding nearby agents
+function createSpatialHash(agents, size, cellSize) {
+  const cells = Math.max(1, Math.floor(size / cellSize));
+  const buckets = new Map();
+  const keyOf = (x, y) => Math.floor(y / size * cells) % cells * cells + Math.floor(x / size * cells) % cells;
+
+  agents.forEach(agent => {
+    const key = keyOf(agent.x, agent.y);
+    if (!buckets.has(key)) buckets.set(key, []);
+    buckets.get(key).push(agent);
+  });
+
+  return {
+    // Agents in the cells within `reach` cells of a position, wrapping around
+    near(x, y, reach) {
+      const cx = Math.floor(x / size * cells) % cells;
+      const cy = Math.floor(y / size * cells) % cells;
+      const span = Math.min(reach, Math.floor((cells - 1) / 2));
+      const found = [];
+      for (let dy = -span; dy <= span; dy++) {
+        for (let dx = -span; dx <= span; dx++) {
+          const key = ((cy + dy + cells) % cells) * cells + ((cx + dx + cells) % cells);
+          const bucket = buckets.get(key);
+          if (bucket) found.push(...bucket);
+        }
+      }
+      return found;
+    }
+  };
+}
+
+export class AgentSimulator extends EcosystemSimulator {
+  constructor(parameters, options = {}) {
+    super(parameters, options);
+    this.settings = { ...DEFAULT_OPTIONS };
+    for (const key of Object.keys(DEFAULT_OPTIONS)) {
+      if (options.agent?.[key] !== undefined) {
+        this.settings[key] = options.agent[key];
+      }
+    }
+    this.random = createRandom(options.seed);
+
+    // Agents take fixed steps
+    this.solver = resolveSolver({ method: 'euler' });
+    this.dt = this.settings.dt;
+
+    const [prey, predator] = this.populations;
+    this.agents = {
+      prey: Array.from({ length: Math.round(prey / this.settings.scale) }, () => this.createAgent('prey')),
+      predator: Array.from({ length: Math.round(predator / this.settings.scale) }, () => this.createAgent('predator'))
+    };
+    this.populations = this.countsOf(this.agents);
+
+    this.agentStats = { births: 0, deaths: 0, kills: 0, starvations: 0, capped: false };
+  }
+
+  // A new agent next to its parent, or at a random place. Agents without a
+  // parent get a random age, and predators a random energy, so they do not
+  // all die at once.
+  createAgent(type, parent) {
+    const maxAge = type === 'prey' ? this.settings.preyMaxAge : this.settings.predatorMaxAge;
+    let energy = type === 'prey' ? this.calculateResourceLevel(this.currentTime) : this.random.next();
+    if (parent) energy = parent.energy;
+
+    return {
+      x: parent ? parent.x : this.random.next() * this.settings.size,
+      y: parent ? parent.y : this.random.next() * this.settings.size,
+      heading: this.random.next() * 2 * Math.PI,
+      energy,
+      age: parent || maxAge === null ? 0 : this.random.next() * maxAge
+    };
+  }
+
+  countsOf(agents) {
+    return [agents.prey.length * this.settings.scale, agents.predator.length * this.settings.scale];
+  }
+
+  // Random walk, or a run towards a target, wrapping around the world
+  move(agent, speed, dt, target) {
+    const { size } = this.settings;
+    let heading = agent.heading + (this.random.next() - 0.5) * 1.5;
+    if (target) {
+      heading = Math.atan2(this.wrapDelta(target.y - agent.y), this.wrapDelta(target.x - agent.x));
+    }
+    const distance = target ? Math.min(speed * dt, this.distance(agent, target)) : speed * dt;
+    return {
+      x: (((agent.x + Math.cos(heading) * distance) % size) + size) % size,
+      y: (((agent.y + Math.sin(heading) * distance) % size) + size) % size,
+      heading,
+      energy: agent.energy,
+      age: agent.age
+    };
+  }
+
+  // Shortest signed offset along one axis of the wrapping world
+  wrapDelta(delta) {
+    const { size } = this.settings;
+    return delta - size * Math.round(delta / size);
+  }
+
+  distance(a, b) {
+    return Math.hypot(this.wrapDelta(a.x - b.x), this.wrapDelta(a.y - b.y));
+  }
+
+  integrate() {
+    const { size, huntRadius, preySpeed, predatorSpeed, preyMaxAge, predatorMaxAge, starvationTime, scale } =
+      this.settings;
+    const time = this.currentTime;
+    const dt = Math.min(this.dt, this.maxTime - time, this.events.nextTime() - time);
+    const chance = (rate) => this.random.next() < 1 - Math.exp(-rate * dt);
+
+    const [preySpecies, predatorSpecies] = this.web.species;
+    const attackRate = this.web.interactions[1][0];
+    const resourceLevel = this.calculateResourceLevel(time);
+    const harvest = this.events.harvestRates(time);
+    const deathFactor = this.forcing.deathFactor(resourceLevel);
+
+    const preyCount = this.agents.prey.length * scale;
+    const predatorCount = this.agents.predator.length * scale;
+    // Births stop once the world holds the maximum number of agents
+    let room = MAX_AGENTS - this.agents.prey.length - this.agents.predator.length;
+    const giveBirth = (list, type, parent) => {
+      if (room <= 0) {
+        this.agentStats.capped = true;
+        return;
+      }
+      list.push(this.createAgent(type, parent));
+      this.agentStats.births++;
+      room--;
+    };
+
+    // Prey: graze, breed, and die of crowding and old age
+    const crowding = preySpecies.carryingCapacity
+      ? preySpecies.growthRate * preyCount / preySpecies.carryingCapacity
+      : 0;
+    const prey = [];
+    for (const agent of this.agents.prey) {
+      const moved = this.move(agent, preySpeed, dt);
+      moved.age += dt;
+      moved.energy += (resourceLevel - moved.energy) * Math.min(1, dt);
+
+      if (chance(crowding + preySpecies.deathRate + harvest[0]) ||
+          (preyMaxAge !== null && moved.age > preyMaxAge)) {
+        this.agentStats.deaths++;
+        continue;
+      }
+      if (chance(preySpecies.growthRate * moved.energy)) {
+        giveBirth(prey, 'prey', moved);
+      }
+      prey.push(moved);
+    }
+
+    // Predators: hunt nearby prey at the functional response rate. With prey
+    // spread evenly, a predator has N·πr²/A prey in reach on average, so each
+    // of them is caught at rate f(N, P)·A / (N·πr²).
+    const reach = Math.PI * huntRadius * huntRadius;
+    const catchRate = preyCount > 0
+      ? this.model.functionalResponse(preyCount, predatorCount, attackRate) * size * size / (preyCount * reach)
+      : 0;
+    const hash = createSpatialHash(prey, size, huntRadius);
+    const predators = [];
+    let kills = 0;
+
+    for (const agent of this.agents.predator) {
+      let nearest = null;
+      let nearestDistance = SIGHT * huntRadius;
+      const visible = hash.near(agent.x, agent.y, SIGHT);
+      for (const p of visible) {
+        const d = p.eaten ? Infinity : this.distance(agent, p);
+        if (d < nearestDistance) {
+          nearest = p;
+          nearestDistance = d;
+        }
+      }
+
+      const moved = this.move(agent, predatorSpeed, dt, nearest);
+      moved.age += dt;
+      moved.energy -= dt / starvationTime;
+
+      let offspring = 0;
+      for (const p of visible) {
+        if (!p.eaten && this.distance(moved, p) <= huntRadius && chance(catchRate)) {
+          p.eaten = true;
+          moved.energy = 1;
+          kills++;
+          if (this.random.next() < predatorSpecies.conversionEfficiency) offspring++;
+        }
+      }
+
+      if (moved.energy <= 0) {
+        this.agentStats.starvations++;
+        this.agentStats.deaths++;
+        continue;
+      }
+      if (chance(predatorSpecies.deathRate * deathFactor + harvest[1]) ||
+          (predatorMaxAge !== null && moved.age > predatorMaxAge)) {
+        this.agentStats.deaths++;
+        continue;
+      }
+
+      for (let i = 0; i < offspring; i++) {
+        giveBirth(predators, 'predator', moved);
+      }
+      predators.push(moved);
+    }
+
+    this.agentStats.kills += kills;
+    this.agentStats.deaths += kills;
+    const agents = { prey: prey.filter(p => !p.eaten), predator: predators };
+
+    this.solverStats.steps++;
+    return { time: time + dt, populations: this.countsOf(agents), interpolate: null, agents };
+  }
+
+  commitState(result) {
+    super.commitState(result);
+    this.agents = result.agents;
+  }
+
+  // Scheduled changes remove random agents or add new ones at random places
+  applyDueEvents() {
+    const before = this.populations;
+    super.applyDueEvents(true);
+    if (this.populations === before) return;
+
+    ['prey', 'predator'].forEach((type, i) => {
+      const target = Math.round(this.populations[i] / this.settings.scale);
+      const list = this.agents[type];
+      while (list.length > target) {
+        list.splice(Math.floor(this.random.next() * list.length), 1);
+      }
+      while (list.length < target) {
+        list.push(this.createAgent(type));
+      }
+    });
+    this.populations = this.countsOf(this.agents);
+  }
+
+  // Agent positions as flat [x0, y0, x1, y1, ...] arrays, sampled down to a
+  // fixed number per species, for streaming and results
+  getSnapshot() {
+    const positions = (list) => {
+      const stride = Math.max(1, list.length / SNAPSHOT_LIMIT);
+      const flat = [];
+      for (let i = 0; i < list.length; i += stride) {
+        const agent = list[Math.floor(i)];
+        flat.push(Math.round(agent.x * 10) / 10, Math.round(agent.y * 10) / 10);
+      }
+      return flat;
+    };
+
+    return {
+      time: this.currentTime,
+      size: this.settings.size,
+      scale: this.settings.scale,
+      counts: { prey: this.agents.prey.length, predator: this.agents.predator.length },
+      prey: positions(this.agents.prey),
+      predator: positions(this.agents.predator)
+    };
+  }
+
+  integrationSummary() {
+    return {
+      mode: 'agent',
+      agent: {
+        ...this.settings,
+        seed: this.random.seed,
+        steps: this.solverStats.steps,
+        ...this.agentStats,
+        agents: this.getSnapshot()
+      }
+    };
+  }
+}
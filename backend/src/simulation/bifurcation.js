@@ -0,0 +1,210 @@
+// Bifurcation diagrams
+// Sweeps one parameter, lets every run settle past its transient and records
+// the attractor it ends up on: the settled value of each species at a fixed
+// point, or the local minima and maxima it visits on a cycle.
+
+import { createSimulator, validateRunOptions } from './factory.js';
+import { setParameter, validateNumericPath } from './parameterPaths.js';
+
+export const MAX_BIFURCATION_RESOLUTION = 400;
+export const MAX_BIFURCATION_TIME = 5000;
+
+const DEFAULT_RESOLUTION = 100;
+const DEFAULT_TRANSIENT = 200;
+const DEFAULT_DURATION = 100;
+const REGULAR_RUN_TIME = 100; // Length of a regular run, the unit of bifurcationRunCount
+const MAX_EXTREMA = 50; // Distinct extrema kept per species, enough to show chaos
+const SETTLED_TOLERANCE = 1e-3; // Relative range below which a species is at rest
+const MERGE_TOLERANCE = 1e-3; // Relative gap below which two extrema are the same branch
+const DECAY_RATIO = 0.95; // Range shrinking faster than this between halves is a damped spiral
+
+// Returns an error message if the bifurcation options
+// ({ path, min, max, resolution, transient, duration }) are invalid
+export function validateBifurcation(parameters, options = {}, runOptions = {}) {
+  const {
+    path,
+    min,
+    max,
+    resolution = DEFAULT_RESOLUTION,
+    transient = DEFAULT_TRANSIENT,
+    duration = DEFAULT_DURATION
+  } = options;
+
+  const pathError = validateNumericPath(parameters, path, { allowMissing: true });
+  if (pathError) return pathError;
+
+  if (typeof min !== 'number' || typeof max !== 'number' || !(min < max)) {
+    return `Parameter ${path} needs numeric min < max`;
+  }
+  if (!Number.isInteger(resolution) || resolution < 2 || resolution > MAX_BIFURCATION_RESOLUTION) {
+    return `Resolution must be an integer between 2 and ${MAX_BIFURCATION_RESOLUTION}`;
+  }
+  if (typeof transient !== 'number' || !(transient >= 0)) {
+    return 'Transient must be a non-negative number';
+  }
+  if (typeof duration !== 'number' || !(duration > 0)) {
+    return 'Duration must be a positive number';
+  }
+  if (transient + duration > MAX_BIFURCATION_TIME) {
+    return `Transient plus duration is limited to ${MAX_BIFURCATION_TIME} time units`;
+  }
+  if (runOptions.mode === 'stochastic') {
+    return 'Bifurcation diagrams need the deterministic model';
+  }
+  return validateRunOptions(runOptions, { parameters });
+}
+
+// Number of regular-length simulation runs a diagram takes
+export function bifurcationRunCount({
+  resolution = DEFAULT_RESOLUTION,
+  transient = DEFAULT_TRANSIENT,
+  duration = DEFAULT_DURATION
+} = {}) {
+  return Math.ceil(resolution * (transient + duration) / REGULAR_RUN_TIME);
+}
+
+// Sorted distinct values, merging neighbours closer than the tolerance
+function distinctValues(values, scale) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const distinct = [];
+  for (const value of sorted) {
+    const last = distinct[distinct.length - 1];
+    if (last === undefined || value - last > MERGE_TOLERANCE * scale) {
+      distinct.push(value);
+    }
+  }
+
+  // Keep an even spread when a chaotic attractor visits too many values
+  if (distinct.length <= MAX_EXTREMA) return distinct;
+  return Array.from({ length: MAX_EXTREMA }, (_, i) =>
+    distinct[Math.round(i * (distinct.length - 1) / (MAX_EXTREMA - 1))]);
+}
+
+// Integrate past the transient, then follow every species for `duration` time
+// units and summarize the attractor it settles on
+function traceAttractor(parameters, { transient, duration }, runOptions) {
+  const simulator = createSimulator(parameters, { ...runOptions, mode: 'deterministic' });
+  simulator.maxTime = transient + duration;
+
+  while (simulator.currentTime < transient) {
+    simulator.step();
+  }
+
+  // Ranges over each half of the recording window tell damped spirals, still
+  // closing in on a fixed point, apart from sustained cycles
+  const halfway = transient + duration / 2;
+  const count = simulator.populations.length;
+  const minima = Array.from({ length: count }, () => []);
+  const maxima = Array.from({ length: count }, () => []);
+  const ranges = [0, 1].map(() => ({
+    low: [...simulator.populations],
+    high: [...simulator.populations],
+    turns: Array(count).fill(0)
+  }));
+  let before = null;
+  let previous = [...simulator.populations];
+
+  while (simulator.currentTime < simulator.maxTime) {
+    const current = simulator.step().populations;
+    const range = ranges[simulator.currentTime < halfway ? 0 : 1];
+
+    current.forEach((x, i) => {
+      range.low[i] = Math.min(range.low[i], x);
+      range.high[i] = Math.max(range.high[i], x);
+      if (before) {
+        if (previous[i] > before[i] && previous[i] >= x) {
+          maxima[i].push(previous[i]);
+          range.turns[i]++;
+        }
+        if (previous[i] < before[i] && previous[i] <= x) {
+          minima[i].push(previous[i]);
+          range.turns[i]++;
+        }
+      }
+    });
+
+    before = previous;
+    previous = current;
+  }
+
+  const [first, second] = ranges;
+  const species = simulator.web.species.map((s, i) => {
+    const low = Math.min(first.low[i], second.low[i]);
+    const high = Math.max(first.high[i], second.high[i]);
+    const scale = Math.max(1, high);
+    const oscillating = second.turns[i] > 0;
+    const damped = oscillating &&
+      second.high[i] - second.low[i] < DECAY_RATIO * (first.high[i] - first.low[i]);
+    const settled = high - low <= SETTLED_TOLERANCE * scale || !oscillating || damped;
+
+    return {
+      id: s.id,
+      settled,
+      // Gone for the whole second half of the window
+      extinct: second.high[i] < 1,
+      // Where the species rests: the middle of a damped spiral, or where a
+      // monotonic approach has got to
+      level: settled ? (damped ? (second.low[i] + second.high[i]) / 2 : previous[i]) : null,
+      final: previous[i],
+      min: low,
+      max: high,
+      // A species at rest has a single branch: its level
+      minima: settled ? [] : distinctValues(minima[i], scale),
+      maxima: settled ? [] : distinctValues(maxima[i], scale)
+    };
+  });
+
+  return {
+    species,
+    speciesInfo: simulator.web.species.map(({ id, name, role, color }) => ({ id, name, role, color }))
+  };
+}
+
+// Extinction if any species stays below one individual for the second half of
+// the window, equilibrium if everything is at rest. Cycles dipping close to
+// zero still oscillate.
+function classifyAttractor(species) {
+  if (species.some(s => s.extinct)) return 'extinction';
+  if (species.every(s => s.settled)) return 'equilibrium';
+  return 'oscillation';
+}
+
+export function runBifurcation(parameters, options, runOptions = {}, onProgress) {
+  const {
+    path,
+    min,
+    max,
+    resolution = DEFAULT_RESOLUTION,
+    transient = DEFAULT_TRANSIENT,
+    duration = DEFAULT_DURATION
+  } = options;
+
+  const counts = { equilibrium: 0, oscillation: 0, extinction: 0 };
+  const points = [];
+  let speciesInfo = [];
+
+  for (let i = 0; i < resolution; i++) {
+    const value = min + (max - min) * i / (resolution - 1);
+    const attractor = traceAttractor(setParameter(parameters, path, value), { transient, duration }, runOptions);
+    speciesInfo = attractor.speciesInfo;
+
+    const outcome = classifyAttractor(attractor.species);
+    counts[outcome]++;
+
+    points.push({
+      value,
+      outcome,
+      attractor: Object.fromEntries(attractor.species.map(({ id, ...summary }) => [id, summary]))
+    });
+    onProgress?.((i + 1) / resolution);
+  }
+
+  return {
+    path,
+    transient,
+    duration,
+    species: speciesInfo,
+    points,
+    counts
+  };
+}
@@ -0,0 +1,404 @@
+// Calibration against observed time series
+// Fits simulation parameters to census counts by weighted least squares,
+// minimized with Nelder-Mead over the declared parameter ranges.
+
+import { createSimulator, validateRunOptions } from './factory.js';
+import { getParameter, setParameter, validateNumericPath } from './parameterPaths.js';
+import { buildFoodWeb } from './foodWeb.js';
+import { mean } from './statistics.js';
+import { rangeFor } from '../models/parameterRanges.js';
+
+export const MAX_OBSERVATIONS = 2000;
+export const MAX_CALIBRATION_ITERATIONS = 5000;
+export const MAX_OBSERVED_SPAN = 100; // Every evaluation runs this long at most, like a regular run
+
+const DEFAULT_FIT = [
+  'prey.birthRate',
+  'prey.carryingCapacity',
+  'predator.huntingEfficiency',
+  'predator.deathRate',
+  'predator.conversionEfficiency'
+];
+const DEFAULT_ITERATIONS = 500;
+const DEFAULT_TOLERANCE = 1e-6;
+const TIME_COLUMNS = ['time', 't', 'year'];
+const GRID_INTERVAL = 0.1; // Spacing of the fitted trajectory returned for plotting
+
+// Split CSV text into rows of trimmed cells, skipping blank and comment lines
+function parseCsv(text) {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line !== '' && !line.startsWith('#'))
+    .map(line => line.split(/[,;\t]/).map(cell => cell.trim()));
+}
+
+// Rows of { column: value } from CSV text or an array of JSON objects
+function observationRows(data) {
+  if (typeof data === 'string') {
+    const [header, ...lines] = parseCsv(data);
+    if (!header) throw new Error('CSV data needs a header row');
+    return lines.map(cells => Object.fromEntries(header.map((name, i) => [
+      name,
+      cells[i] === undefined || cells[i] === '' ? null : Number(cells[i])
+    ])));
+  }
+  if (Array.isArray(data)) return data;
+  throw new Error('Data must be CSV text or an array of observations');
+}
+
+// Parse observations into [{ time, values: { speciesId: count | null } }],
+// with times relative to the first observation. `columns` renames data
+// columns to species ids, e.g. { "hare": "prey", "lynx": "predator" }.
+export function parseObservations(data, speciesIds, columns = {}) {
+  const rows = observationRows(data);
+  if (rows.length < 2) throw new Error('At least two observations are needed');
+  if (rows.length > MAX_OBSERVATIONS) throw new Error(`At most ${MAX_OBSERVATIONS} observations are supported`);
+
+  const timeColumn = TIME_COLUMNS.find(name => name in rows[0]);
+  if (!timeColumn) throw new Error(`Observations need a ${TIME_COLUMNS.join(', ')} column`);
+
+  const observed = new Map();
+  for (const name of Object.keys(rows[0])) {
+    if (name === timeColumn) continue;
+    const id = columns[name] ?? name;
+    if (!speciesIds.includes(id)) {
+      throw new Error(`Unknown species column: ${name} (expected ${speciesIds.join(', ')})`);
+    }
+    observed.set(name, id);
+  }
+  if (observed.size === 0) throw new Error('Observations need at least one species column');
+
+  const start = rows[0][timeColumn];
+  let previous = -Infinity;
+
+  const observations = rows.map((row, index) => {
+    const time = row[timeColumn];
+    if (typeof time !== 'number' || !Number.isFinite(time) || time <= previous) {
+      throw new Error(`Observation ${index + 1} needs a time after the previous one`);
+    }
+    previous = time;
+
+    const values = {};
+    for (const [name, id] of observed) {
+      const value = row[name];
+      if (value != null && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+        throw new Error(`Observation ${index + 1} has an invalid count for ${name}`);
+      }
+      values[id] = value ?? null;
+    }
+    return { time: time - start, values };
+  });
+  if (previous - start > MAX_OBSERVED_SPAN) {
+    throw new Error(`Observations can span at most ${MAX_OBSERVED_SPAN} time units`);
+  }
+
+  return { observations, timeOffset: start, species: [...new Set(observed.values())] };
+}
+
+// Path of a species' initial population in the parameters
+function initialPopulationPath(parameters, index, id) {
+  return parameters.foodWeb ? `foodWeb.species.${index}.initialPopulation` : `${id}.initialPopulation`;
+}
+
+// Expand the fit option (paths or { path, min, max }) into full ranges
+function resolveFit(fit = DEFAULT_FIT) {
+  return fit.map(entry => {
+    const { path, min, max } = typeof entry === 'string' ? { path: entry } : entry;
+    const range = rangeFor(path);
+    return { path, min: min ?? range?.min, max: max ?? range?.max };
+  });
+}
+
+// Returns an error message if the calibration options are invalid
+export function validateCalibration(parameters, options = {}, runOptions = {}) {
+  const { data, columns, fit, maxIterations, tolerance } = options;
+
+  if (data === undefined) {
+    return 'Observed data required';
+  }
+  if (columns !== undefined && (typeof columns !== 'object' || columns === null || Array.isArray(columns))) {
+    return 'Columns must map data column names to species ids';
+  }
+
+  let parsed;
+  try {
+    parsed = parseObservations(data, buildFoodWeb(parameters).species.map(s => s.id), columns);
+  } catch (error) {
+    return error.message;
+  }
+
+  if (fit === undefined && parameters.foodWeb) {
+    return 'Food webs need the parameters to fit listed in fit';
+  }
+  if (fit !== undefined && (!Array.isArray(fit) || fit.length < 1)) {
+    return 'Fit must be a non-empty array of parameter paths or { path, min, max } ranges';
+  }
+
+  const resolved = resolveFit(fit);
+  for (const { path, min, max } of resolved) {
+    const range = rangeFor(path);
+    if (!range) {
+      return `No range is declared for ${path}`;
+    }
+    const pathError = validateNumericPath(parameters, path, { allowMissing: true });
+    if (pathError) return pathError;
+    if (typeof min !== 'number' || typeof max !== 'number' || !(min < max) ||
+        min < range.min || max > range.max) {
+      return `Range of ${path} must satisfy ${range.min} <= min < max <= ${range.max}`;
+    }
+  }
+  if (new Set(resolved.map(entry => entry.path)).size !== resolved.length) {
+    return 'Each parameter can only be fitted once';
+  }
+
+  const points = parsed.observations.reduce((count, observation) =>
+    count + Object.values(observation.values).filter(value => value !== null).length, 0);
+  if (points <= resolved.length) {
+    return `Fitting ${resolved.length} parameters needs more than ${resolved.length} observed counts`;
+  }
+
+  if (maxIterations !== undefined &&
+      (!Number.isInteger(maxIterations) || maxIterations < 1 || maxIterations > MAX_CALIBRATION_ITERATIONS)) {
+    return `Max iterations must be an integer between 1 and ${MAX_CALIBRATION_ITERATIONS}`;
+  }
+  if (tolerance !== undefined && (typeof tolerance !== 'number' || !(tolerance > 0))) {
+    return 'Tolerance must be a positive number';
+  }
+  if (runOptions.mode === 'stochastic') {
+    return 'Calibration needs the deterministic model';
+  }
+  return validateRunOptions(runOptions, { parameters });
+}
+
+// Integrate the deterministic model through the given times (ascending,
+// starting at 0) and return the state of every species at each of them
+function statesAt(parameters, times, runOptions) {
+  const simulator = createSimulator(parameters, { ...runOptions, mode: 'deterministic' });
+  const end = times[times.length - 1];
+  simulator.maxTime = end;
+
+  const states = [];
+  let next = 0;
+  while (next < times.length && times[next] <= 0) {
+    states.push([...simulator.populations]);
+    next++;
+  }
+
+  while (next < times.length) {
+    const startTime = simulator.currentTime;
+    const startState = simulator.populations;
+    const result = simulator.step();
+
+    // Dense output when the solver has it, linear interpolation otherwise
+    while (next < times.length && times[next] <= result.time) {
+      const t = times[next];
+      const state = result.interpolate
+        ? result.interpolate(t).map(x => Math.max(0, x))
+        : startState.map((x, i) =>
+          x + (result.populations[i] - x) * (t - startTime) / (result.time - startTime));
+      states.push(state);
+      next++;
+    }
+  }
+
+  return { simulator, states };
+}
+
+// Nelder-Mead simplex minimization of f over unconstrained coordinates
+function nelderMead(f, start, { maxIterations, tolerance, onIteration }) {
+  const n = start.length;
+  let simplex = [start, ...start.map((_, i) => start.map((x, j) => (i === j ? x + 0.5 : x)))]
+    .map(point => ({ point, value: f(point) }));
+
+  const centroidOf = (points) => points[0].point.map((_, j) =>
+    mean(points.map(vertex => vertex.point[j])));
+  const along = (from, to, t) => from.map((x, j) => x + t * (to[j] - x));
+
+  let iterations = 0;
+  let converged = false;
+
+  while (iterations < maxIterations) {
+    simplex.sort((a, b) => a.value - b.value);
+    const best = simplex[0];
+    const worst = simplex[n];
+
+    const spread = Math.abs(worst.value - best.value);
+    if (spread <= tolerance * (Math.abs(best.value) + tolerance)) {
+      converged = true;
+      break;
+    }
+
+    iterations++;
+    onIteration?.(iterations);
+
+    const centroid = centroidOf(simplex.slice(0, n));
+    const reflected = along(centroid, worst.point, -1);
+    const reflectedValue = f(reflected);
+
+    if (reflectedValue < best.value) {
+      const expanded = along(centroid, worst.point, -2);
+      const expandedValue = f(expanded);
+      simplex[n] = expandedValue < reflectedValue
+        ? { point: expanded, value: expandedValue }
+        : { point: reflected, value: reflectedValue };
+      continue;
+    }
+
+    if (reflectedValue < simplex[n - 1].value) {
+      simplex[n] = { point: reflected, value: reflectedValue };
+      continue;
+    }
+
+    // Contract towards the better of the worst and reflected points
+    const outside = reflectedValue < worst.value;
+    const contracted = along(centroid, outside ? reflected : worst.point, 0.5);
+    const contractedValue = f(contracted);
+    if (contractedValue < Math.min(reflectedValue, worst.value)) {
+      simplex[n] = { point: contracted, value: contractedValue };
+      continue;
+    }
+
+    // Shrink everything towards the best point
+    simplex = simplex.map((vertex, i) => {
+      if (i === 0) return vertex;
+      const point = along(best.point, vertex.point, 0.5);
+      return { point, value: f(point) };
+    });
+  }
+
+  simplex.sort((a, b) => a.value - b.value);
+  return { point: simplex[0].point, value: simplex[0].value, iterations, converged };
+}
+
+// Bounded parameters are optimized through a logistic transform so every
+// trial point stays inside its range
+const toBounded = (u, { min, max }) => min + (max - min) / (1 + Math.exp(-u));
+function toUnbounded(x, { min, max }) {
+  const fraction = Math.min(1 - 1e-6, Math.max(1e-6, (x - min) / (max - min)));
+  return Math.log(fraction / (1 - fraction));
+}
+
+// About how many simulation runs a fit takes: one or two per iteration, plus
+// the starting simplex
+export function calibrationRunCount(options = {}) {
+  const { maxIterations = DEFAULT_ITERATIONS } = options;
+  return maxIterations + resolveFit(options.fit).length + 1;
+}
+
+export function runCalibration(parameters, options, runOptions = {}, onProgress) {
+  const {
+    data,
+    columns,
+    initialFromData = true,
+    maxIterations = DEFAULT_ITERATIONS,
+    tolerance = DEFAULT_TOLERANCE
+  } = options;
+  const web = buildFoodWeb(parameters);
+  const { observations, timeOffset, species } = parseObservations(data, web.species.map(s => s.id), columns);
+  const fit = resolveFit(options.fit);
+
+  // Start every observed species at its first count
+  let start = parameters;
+  if (initialFromData) {
+    web.species.forEach((s, i) => {
+      const first = observations[0].values[s.id];
+      if (first != null) start = setParameter(start, initialPopulationPath(parameters, i, s.id), first);
+    });
+  }
+
+  // Residuals are scaled by each species' spread so both count equally
+  const indexOf = Object.fromEntries(web.species.map((s, i) => [s.id, i]));
+  const scales = Object.fromEntries(species.map(id => {
+    const values = observations.map(o => o.values[id]).filter(value => value !== null);
+    const average = mean(values);
+    const sd = Math.sqrt(mean(values.map(v => (v - average) ** 2)));
+    return [id, sd > 0 ? sd : Math.max(1, average)];
+  }));
+  const times = observations.map(o => o.time);
+
+  const withValues = (values) => fit.reduce((result, { path }, i) => setParameter(result, path, values[i]), start);
+
+  const objective = (u) => {
+    try {
+      const { states } = statesAt(withValues(u.map((x, i) => toBounded(x, fit[i]))), times, runOptions);
+      let total = 0;
+      observations.forEach((observation, t) => {
+        for (const id of species) {
+          const value = observation.values[id];
+          if (value !== null) total += ((states[t][indexOf[id]] - value) / scales[id]) ** 2;
+        }
+      });
+      return Number.isFinite(total) ? total : Infinity;
+    } catch {
+      // Trial parameters the solver cannot integrate
+      return Infinity;
+    }
+  };
+
+  const initialValues = fit.map(({ path }) => getParameter(start, path) ?? getParameter(parameters, path));
+  const startPoint = fit.map((range, i) =>
+    toUnbounded(initialValues[i] ?? (range.min + range.max) / 2, range));
+  const result = nelderMead(objective, startPoint, {
+    maxIterations,
+    tolerance,
+    onIteration: iteration => onProgress?.(iteration / maxIterations)
+  });
+
+  const fittedValues = result.point.map((x, i) => toBounded(x, fit[i]));
+  const fitted = withValues(fittedValues);
+  const { states } = statesAt(fitted, times, runOptions);
+
+  const residuals = [];
+  observations.forEach((observation, t) => {
+    for (const id of species) {
+      const observed = observation.values[id];
+      if (observed === null) continue;
+      const simulated = states[t][indexOf[id]];
+      residuals.push({ time: observation.time + timeOffset, species: id, observed, simulated, residual: observed - simulated });
+    }
+  });
+
+  const goodnessBySpecies = Object.fromEntries(species.map(id => {
+    const own = residuals.filter(r => r.species === id);
+    const sse = own.reduce((sum, r) => sum + r.residual ** 2, 0);
+    const average = mean(own.map(r => r.observed));
+    const sst = own.reduce((sum, r) => sum + (r.observed - average) ** 2, 0);
+    return [id, {
+      count: own.length,
+      sse,
+      rmse: Math.sqrt(sse / own.length),
+      rSquared: sst > 0 ? 1 - sse / sst : null
+    }];
+  }));
+
+  // Fitted trajectory on a fine grid for plotting against the observations
+  const end = times[times.length - 1];
+  const grid = Array.from({ length: Math.floor(end / GRID_INTERVAL + 1e-9) + 1 }, (_, k) => k * GRID_INTERVAL);
+  const trajectory = statesAt(fitted, grid, runOptions);
+  grid.forEach((time, k) => trajectory.simulator.recordState(time, trajectory.states[k]));
+  trajectory.simulator.populations = trajectory.states[trajectory.states.length - 1];
+
+  return {
+    parameters: fitted,
+    fitted: fit.map(({ path, min, max }, i) => ({
+      path,
+      min,
+      max,
+      initial: initialValues[i] ?? null,
+      value: fittedValues[i]
+    })),
+    iterations: result.iterations,
+    converged: result.converged,
+    timeOffset,
+    observations,
+    residuals,
+    goodness: {
+      objective: result.value,
+      // Akaike information criterion of the weighted least-squares fit
+      aic: residuals.length * Math.log(result.value / residuals.length) + 2 * fit.length,
+      species: goodnessBySpecies
+    },
+    simulation: trajectory.simulator.getResults()
+  };
+}
@@ -0,0 +1,197 @@
+// Monte Carlo ensembles
+// Runs many replicates of one scenario, either as independent stochastic runs
+// or with randomly perturbed parameters, and summarizes their spread over time.
+
+import { createSimulator, validateRunOptions } from './factory.js';
+import { createRandom, randomSeed } from './random.js';
+import { getParameter, setParameter, validateNumericPath } from './parameterPaths.js';
+import { percentile, mean, histogram } from './statistics.js';
+
+export const ENSEMBLE_PERCENTILES = [5, 25, 50, 75, 95];
+export const MAX_REPLICATES = 500;
+
+const DEFAULT_REPLICATES = 50;
+const DEFAULT_INTERVAL = 1; // Spacing of the common time grid
+const MIN_INTERVAL = 0.01; // One default integration step
+const MAX_GRID_POINTS = 10000; // Wider spacing is used beyond this
+const HISTOGRAM_BINS = 10;
+
+// Parameters perturbed when a single relative spread is given
+const DEFAULT_PERTURBED_PATHS = [
+  'prey.birthRate',
+  'prey.carryingCapacity',
+  'predator.huntingEfficiency',
+  'predator.deathRate',
+  'environment.resourceAvailability'
+];
+
+// Expand the perturbation option into { path: relativeSpread }
+function perturbationSpreads(perturbation) {
+  if (perturbation === undefined) return {};
+  if (typeof perturbation === 'number') {
+    return Object.fromEntries(DEFAULT_PERTURBED_PATHS.map(path => [path, perturbation]));
+  }
+  return perturbation;
+}
+
+// Returns an error message if the ensemble options are invalid
+export function validateEnsembleOptions(parameters, options = {}) {
+  const { replicates, interval, perturbation } = options;
+
+  if (replicates !== undefined &&
+      (!Number.isInteger(replicates) || replicates < 1 || replicates > MAX_REPLICATES)) {
+    return `Replicates must be an integer between 1 and ${MAX_REPLICATES}`;
+  }
+  if (interval !== undefined && (typeof interval !== 'number' || !(interval >= MIN_INTERVAL))) {
+    return `Interval must be a number of at least ${MIN_INTERVAL}`;
+  }
+  if (perturbation !== undefined) {
+    if (typeof perturbation === 'number') {
+      if (parameters.foodWeb) {
+        return 'Food webs need perturbation given per parameter path';
+      }
+    } else if (typeof perturbation !== 'object' || perturbation === null) {
+      return 'Perturbation must be a number or an object of parameter paths';
+    }
+
+    for (const [path, spread] of Object.entries(perturbationSpreads(perturbation))) {
+      const pathError = validateNumericPath(parameters, path);
+      if (pathError) return pathError;
+      if (typeof spread !== 'number' || spread < 0) {
+        return `Perturbation for ${path} must be a non-negative number`;
+      }
+    }
+  }
+  if (options.mode !== 'stochastic' && perturbation === undefined) {
+    return 'Deterministic ensembles need a perturbation, otherwise every replicate is identical';
+  }
+  return validateRunOptions(options, { parameters });
+}
+
+// Multiply each perturbed parameter by log-normal noise with the given spread
+function perturbParameters(parameters, spreads, random) {
+  let perturbed = parameters;
+  for (const [path, spread] of Object.entries(spreads)) {
+    const value = getParameter(parameters, path);
+    perturbed = setParameter(perturbed, path, value * Math.exp(random.normal(0, spread)));
+  }
+  return perturbed;
+}
+
+// Sample a replicate's history on the common grid, holding its last state
+// once the run has stopped early
+function sampleOnGrid(history, times, speciesIds) {
+  const samples = speciesIds.map(() => []);
+  let cursor = 0;
+
+  for (const time of times) {
+    while (cursor < history.length - 1 && history[cursor + 1].time <= time + 1e-9) {
+      cursor++;
+    }
+    speciesIds.forEach((id, s) => {
+      samples[s].push(history[cursor].populations[id]);
+    });
+  }
+
+  return samples;
+}
+
+// Number of simulation runs an ensemble takes
+export function ensembleRunCount({ replicates = DEFAULT_REPLICATES } = {}) {
+  return replicates;
+}
+
+export function runEnsemble(parameters, options = {}) {
+  const {
+    replicates = DEFAULT_REPLICATES,
+    mode = 'stochastic',
+    seed = randomSeed(),
+    interval = DEFAULT_INTERVAL,
+    perturbation,
+    solver = {},
+    stochastic = {},
+    onProgress
+  } = options;
+
+  // One generator for perturbations; stochastic replicates get derived seeds
+  const random = createRandom(seed);
+  const spreads = perturbationSpreads(perturbation);
+
+  const runs = [];
+  for (let r = 0; r < replicates; r++) {
+    const replicateParameters = perturbParameters(parameters, spreads, random);
+    const simulator = createSimulator(replicateParameters, {
+      mode,
+      seed: `${seed}:${r}`,
+      solver,
+      stochastic
+    });
+    runs.push(simulator.simulate());
+    onProgress?.((r + 1) / replicates);
+  }
+
+  const species = runs[0].species;
+  const speciesIds = species.map(s => s.id);
+  const horizon = Math.max(...runs.map(run => run.timeSteps[run.timeSteps.length - 1].time));
+  const spacing = Math.max(interval, horizon / (MAX_GRID_POINTS - 1));
+  const times = [];
+  for (let i = 0; i * spacing <= horizon + 1e-9; i++) {
+    times.push(Number((i * spacing).toFixed(10)));
+  }
+  // End on the horizon so replicates that stop after the last full interval count
+  if (times[times.length - 1] < horizon - 1e-9) {
+    times.push(horizon);
+  }
+
+  // samples[replicate][species][gridIndex]
+  const samples = runs.map(run => sampleOnGrid(run.timeSteps, times, speciesIds));
+
+  const bands = {};
+  speciesIds.forEach((id, s) => {
+    const band = Object.fromEntries(ENSEMBLE_PERCENTILES.map(p => [`p${p}`, []]));
+    times.forEach((_, t) => {
+      const values = samples.map(replicate => replicate[s][t]).sort((a, b) => a - b);
+      for (const p of ENSEMBLE_PERCENTILES) {
+        band[`p${p}`].push(percentile(values, p));
+      }
+    });
+    bands[id] = band;
+  });
+
+  // A replicate counts as extinct from the moment its run stopped on extinction
+  const extinctionTimes = runs
+    .filter(run => run.extinctionOccurred)
+    .map(run => run.summary.duration)
+    .sort((a, b) => a - b);
+
+  const extinctionProbability = times.map(time =>
+    extinctionTimes.filter(t => t <= time + 1e-9).length / replicates
+  );
+
+  const extinctSpecies = {};
+  for (const id of speciesIds) {
+    extinctSpecies[id] = runs.filter(run => run.extinctionOccurred && run.summary.species[id].final < 1).length;
+  }
+
+  return {
+    replicates,
+    mode,
+    seed,
+    perturbation: spreads,
+    species,
+    percentiles: ENSEMBLE_PERCENTILES,
+    times,
+    bands,
+    extinctionProbability,
+    timeToExtinction: {
+      count: extinctionTimes.length,
+      probability: extinctionTimes.length / replicates,
+      mean: mean(extinctionTimes),
+      median: percentile(extinctionTimes, 50),
+      min: extinctionTimes.length ? extinctionTimes[0] : null,
+      max: extinctionTimes.length ? extinctionTimes[extinctionTimes.length - 1] : null,
+      histogram: extinctionTimes.length ? histogram(extinctionTimes, 0, horizon, HISTOGRAM_BINS) : [],
+      bySpecies: extinctSpecies
+    }
+  };
+}
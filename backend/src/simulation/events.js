@@ -0,0 +1,247 @@
+// Scheduled interventions and disturbances
+// A scenario can carry a timeline of events. Discrete events change
+// populations at given times, optionally repeating; continuous events change
+// the equations over a time window. The simulators apply them while
+// integrating.
+
+export const EVENT_TYPES = {
+  harvest: {
+    id: 'harvest',
+    name: 'Harvest',
+    description: 'Remove a fraction or number of individuals at given times, or a per-capita rate over a window',
+    kinds: ['discrete', 'continuous']
+  },
+  cull: {
+    id: 'cull',
+    name: 'Cull',
+    description: 'Remove a number or fraction of individuals at given times',
+    kinds: ['discrete']
+  },
+  reintroduce: {
+    id: 'reintroduce',
+    name: 'Reintroduce',
+    description: 'Add individuals at given times',
+    kinds: ['discrete']
+  },
+  drought: {
+    id: 'drought',
+    name: 'Drought',
+    description: 'Multiply resource availability by a factor over a window',
+    kinds: ['continuous']
+  },
+  disaster: {
+    id: 'disaster',
+    name: 'Disaster',
+    description: 'Kill a fraction of one species, or of every species, at given times',
+    kinds: ['discrete']
+  }
+};
+
+const MAX_EVENTS = 100;
+const MIN_INTERVAL = 0.01; // Shortest repeat interval, one default integration step
+
+export function isKnownEventType(type) {
+  return Object.prototype.hasOwnProperty.call(EVENT_TYPES, type);
+}
+
+// Continuous events cover a window; everything else happens at a time
+function isContinuous(event) {
+  return event.type === 'drought' || (event.type === 'harvest' && event.rate !== undefined);
+}
+
+const isNumber = (value) => typeof value === 'number' && Number.isFinite(value);
+
+// Returns an error message for the first invalid event of the timeline
+export function validateEvents(events, speciesIds) {
+  if (events === undefined) return null;
+  if (!Array.isArray(events)) return 'Events must be an array';
+  if (events.length > MAX_EVENTS) return `At most ${MAX_EVENTS} events are supported`;
+
+  for (const [index, event] of events.entries()) {
+    const name = `Event ${index + 1}`;
+    if (!event || typeof event !== 'object') return `${name} must be an object`;
+    if (!isKnownEventType(event.type)) return `${name} has an unknown type: ${event.type}`;
+    if (event.label !== undefined && typeof event.label !== 'string') return `${name} label must be a string`;
+
+    const needsTarget = event.type !== 'drought' && event.type !== 'disaster';
+    if (event.target !== undefined || needsTarget) {
+      if (!speciesIds.includes(event.target)) {
+        return `${name} needs a target species (${speciesIds.join(', ')})`;
+      }
+    }
+
+    if (isContinuous(event)) {
+      if (!isNumber(event.from) || !isNumber(event.to) || !(event.from >= 0) || !(event.from < event.to)) {
+        return `${name} needs a window with 0 <= from < to`;
+      }
+      if (event.type === 'drought' && !(isNumber(event.factor) && event.factor >= 0)) {
+        return `${name} needs a non-negative resource factor`;
+      }
+      if (event.type === 'harvest' && !(isNumber(event.rate) && event.rate > 0)) {
+        return `${name} needs a positive harvest rate`;
+      }
+      continue;
+    }
+
+    if (!isNumber(event.time) || event.time < 0) return `${name} needs a time >= 0`;
+    if (event.every !== undefined) {
+      if (!isNumber(event.every) || !(event.every >= MIN_INTERVAL)) {
+        return `${name} must repeat at intervals of at least ${MIN_INTERVAL}`;
+      }
+      // Open-ended repeats would keep every run from stopping early
+      if (!(isNumber(event.until) && event.until >= event.time)) {
+        return `${name} must repeat until a time after it starts`;
+      }
+    }
+
+    const hasAmount = event.amount !== undefined;
+    const hasFraction = event.fraction !== undefined;
+    if (event.type === 'reintroduce' && !(isNumber(event.amount) && event.amount > 0)) {
+      return `${name} needs a positive amount`;
+    }
+    if (event.type === 'disaster' && !(isNumber(event.fraction) && event.fraction > 0 && event.fraction <= 1)) {
+      return `${name} needs a fraction between 0 and 1`;
+    }
+    if (event.type === 'harvest' || event.type === 'cull') {
+      if (hasAmount === hasFraction) return `${name} needs either an amount or a fraction`;
+      if (hasAmount && !(isNumber(event.amount) && event.amount > 0)) return `${name} needs a positive amount`;
+      if (hasFraction && !(isNumber(event.fraction) && event.fraction > 0 && event.fraction <= 1)) {
+        return `${name} needs a fraction between 0 and 1`;
+      }
+    }
+  }
+  return null;
+}
+
+// Human-readable description of an event, used to mark the time steps
+function describeEvent(event, speciesName) {
+  if (event.label) return event.label;
+
+  const target = event.target === undefined ? 'all species' : speciesName(event.target);
+  switch (event.type) {
+    case 'harvest':
+      return event.rate !== undefined
+        ? `Harvest ${target} at rate ${event.rate}`
+        : event.fraction !== undefined
+          ? `Harvest ${Math.round(event.fraction * 100)}% ${target}`
+          : `Harvest ${event.amount} ${target}`;
+    case 'cull':
+      return event.fraction !== undefined
+        ? `Cull ${Math.round(event.fraction * 100)}% ${target}`
+        : `Cull ${event.amount} ${target}`;
+    case 'reintroduce':
+      return `Reintroduce ${event.amount} ${target}`;
+    case 'drought':
+      return `Drought: resources ×${event.factor}`;
+    case 'disaster':
+      return `Disaster: ${Math.round(event.fraction * 100)}% of ${target} lost`;
+    default:
+      return event.type;
+  }
+}
+
+// Compile a timeline for one run. `species` is the food web's species list.
+export function createEventSchedule(events = [], species) {
+  const indexOf = Object.fromEntries(species.map((s, i) => [s.id, i]));
+  const speciesName = (id) => species[indexOf[id]]?.name.toLowerCase() ?? id;
+
+  const described = events.map(event => ({ ...event, label: describeEvent(event, speciesName) }));
+  const continuous = described.filter(isContinuous);
+
+  // Discrete events with the time of their next occurrence; repeating events
+  // move on after each one until their end
+  const discrete = described
+    .filter(event => !isContinuous(event))
+    .map(event => ({ event, at: event.time }));
+
+  const nextTime = () => Math.min(Infinity, ...discrete.map(entry => entry.at));
+
+  const advance = (entry) => {
+    const { every, until } = entry.event;
+    entry.at = every !== undefined && entry.at + every <= until ? entry.at + every : Infinity;
+  };
+
+  return {
+    isEmpty: events.length === 0,
+
+    // Time of the next discrete event not yet applied
+    nextTime,
+
+    // Whether anything still changes the run after the given time and
+    // before it ends; events past the end of the run do not count
+    hasPendingAfter(time, endTime = Infinity) {
+      const next = nextTime();
+      return (next < Infinity && next <= endTime) ||
+        continuous.some(event => event.to > time && event.from < endTime);
+    },
+
+    // Multiplier on resource availability at a time
+    resourceFactor(time) {
+      let factor = 1;
+      for (const event of continuous) {
+        if (event.type === 'drought' && time >= event.from && time < event.to) factor *= event.factor;
+      }
+      return factor;
+    },
+
+    // Extra per-capita removal rate of every species at a time
+    harvestRates(time) {
+      const rates = new Array(species.length).fill(0);
+      for (const event of continuous) {
+        if (event.type === 'harvest' && time >= event.from && time < event.to) {
+          rates[indexOf[event.target]] += event.rate;
+        }
+      }
+      return rates;
+    },
+
+    // Apply every discrete event due by `time` to the populations, in time
+    // order. Returns the new populations and a log entry per event.
+    applyDue(time, populations, round = false) {
+      const state = [...populations];
+      const applied = [];
+
+      for (;;) {
+        const due = discrete
+          .filter(entry => entry.at <= time)
+          .sort((a, b) => a.at - b.at)[0];
+        if (!due) break;
+
+        const { event } = due;
+        const targets = event.target === undefined ? species.map((_, i) => i) : [indexOf[event.target]];
+        const changes = {};
+
+        for (const i of targets) {
+          const x = state[i];
+          let change = event.type === 'reintroduce'
+            ? event.amount
+            : -(event.fraction !== undefined ? x * event.fraction : Math.min(x, event.amount));
+          if (round) change = Math.round(change);
+          state[i] = Math.max(0, x + change);
+          changes[species[i].id] = Math.round(change * 10) / 10;
+        }
+
+        applied.push({ time: due.at, type: event.type, target: event.target ?? null, label: event.label, changes });
+        advance(due);
+      }
+
+      return { populations: state, applied };
+    },
+
+    // Continuous windows that overlap a run ending at endTime, for annotating results
+    periods: (endTime) => continuous
+      .filter(event => event.from < endTime)
+      .map(({ type, target, label, from, to }) =>
+        ({ type, target: target ?? null, label, from, to: Math.min(to, endTime) }))
+  };
+}
+
+// Serializable event type declarations for the API
+export function describeEventTypes() {
+  return Object.values(EVENT_TYPES).map(({ id, name, description, kinds }) => ({
+    id,
+    name,
+    description,
+    kinds
+  }));
+}
@@ -0,0 +1,49 @@
+// Picks the simulation engine for a run
+
+import { EcosystemSimulator } from './simulator.js';
+import { StochasticSimulator, validateStochasticOptions } from './stochasticSimulator.js';
+import { SpatialSimulator, validateSpatialOptions } from './spatialSimulator.js';
+import { AgentSimulator, validateAgentOptions } from './agentSimulator.js';
+import { validateSolverOptions } from './solvers.js';
+import { hasStageStructure } from './stages.js';
+
+export const SIMULATION_MODES = ['deterministic', 'stochastic', 'spatial', 'agent'];
+
+// Modes that simulate the prey/predator pair in space. They are too heavy to
+// repeat, so only single runs accept them.
+export const SINGLE_RUN_MODES = ['spatial', 'agent'];
+
+export function createSimulator(parameters, options = {}) {
+  if (options.mode === 'stochastic') {
+    return new StochasticSimulator(parameters, options);
+  }
+  if (options.mode === 'spatial') {
+    return new SpatialSimulator(parameters, options);
+  }
+  if (options.mode === 'agent') {
+    return new AgentSimulator(parameters, options);
+  }
+  return new EcosystemSimulator(parameters, options);
+}
+
+// Returns an error message if the run options ({ mode, seed, solver,
+// stochastic, spatial, agent }) are invalid. Single-run modes are rejected
+// unless `singleRun` is set. Given the parameters, agent options are checked
+// against them and stage-structured species are kept to deterministic runs.
+export function validateRunOptions({ mode, seed, solver = {}, stochastic = {}, spatial = {}, agent = {} },
+  { singleRun = false, parameters } = {}) {
+  if (mode !== undefined && !SIMULATION_MODES.includes(mode)) {
+    return `Unknown simulation mode: ${mode}`;
+  }
+  if (SINGLE_RUN_MODES.includes(mode) && !singleRun) {
+    return `${mode[0].toUpperCase()}${mode.slice(1)} mode is only available for single simulation runs`;
+  }
+  if (mode !== undefined && mode !== 'deterministic' && hasStageStructure(parameters)) {
+    return 'Stage-structured species are only available in deterministic mode';
+  }
+  if (seed !== undefined && !(Number.isInteger(seed) || typeof seed === 'string')) {
+    return 'Seed must be an integer or a string';
+  }
+  return validateSolverOptions(solver) || validateStochasticOptions(stochastic) || validateSpatialOptions(spatial) ||
+    validateAgentOptions(agent, parameters);
+}
@@ -0,0 +1,98 @@
+// Food web description shared by every simulation mode
+// A web is a list of species plus an interaction matrix where
+// interactions[i][j] > 0 is the attack rate of species i on species j and
+// interactions[i][j] < 0 is the competitive effect of species j on species i.
+
+export const DEFAULT_CONVERSION_EFFICIENCY = 0.5;
+
+const SPECIES_COLORS = ['#22c55e', '#3b82f6', '#f97316', '#ef4444', '#a855f7', '#14b8a6', '#eab308', '#ec4899'];
+
+function normalizeSpecies(species, index, interactions) {
+  const eatsSomething = interactions[index].some(value => value > 0);
+
+  return {
+    id: species.id,
+    name: species.name || species.id,
+    initialPopulation: species.initialPopulation,
+    growthRate: species.growthRate ?? 0,
+    carryingCapacity: species.carryingCapacity ?? null,
+    deathRate: species.deathRate ?? 0,
+    conversionEfficiency: species.conversionEfficiency ?? DEFAULT_CONVERSION_EFFICIENCY,
+    color: species.color || SPECIES_COLORS[index % SPECIES_COLORS.length],
+    // Basal species make up the "prey" aggregate, consumers the "predator" one
+    role: eatsSomething ? 'consumer' : 'basal'
+  };
+}
+
+// Build the web for a parameter set, mapping the classic prey/predator pair
+// onto a two-species web when no explicit food web is given
+export function buildFoodWeb(parameters) {
+  if (parameters.foodWeb) {
+    const { species, interactions } = parameters.foodWeb;
+    return {
+      species: species.map((s, i) => normalizeSpecies(s, i, interactions)),
+      interactions: interactions.map(row => [...row])
+    };
+  }
+
+  const interactions = [
+    [0, 0],
+    [parameters.predator.huntingEfficiency, 0]
+  ];
+
+  const species = [
+    {
+      id: 'prey',
+      name: 'Prey',
+      initialPopulation: parameters.prey.initialPopulation,
+      growthRate: parameters.prey.birthRate,
+      carryingCapacity: parameters.prey.carryingCapacity,
+      color: '#3b82f6'
+    },
+    {
+      id: 'predator',
+      name: 'Predator',
+      initialPopulation: parameters.predator.initialPopulation,
+      deathRate: parameters.predator.deathRate,
+      conversionEfficiency: parameters.predator.conversionEfficiency,
+      color: '#ef4444'
+    }
+  ];
+
+  return {
+    species: species.map((s, i) => normalizeSpecies(s, i, interactions)),
+    interactions
+  };
+}
+
+// Returns an error message if the food web is malformed
+export function validateFoodWeb(foodWeb) {
+  if (!Array.isArray(foodWeb.species) || foodWeb.species.length === 0) {
+    return 'Food web requires a non-empty species list';
+  }
+
+  const ids = new Set();
+  for (const species of foodWeb.species) {
+    if (!species.id || typeof species.id !== 'string') {
+      return 'Every species requires a string id';
+    }
+    if (ids.has(species.id)) {
+      return `Duplicate species id: ${species.id}`;
+    }
+    ids.add(species.id);
+
+    if (typeof species.initialPopulation !== 'number' || species.initialPopulation < 0) {
+      return `Species ${species.id} requires a non-negative initialPopulation`;
+    }
+  }
+
+  const size = foodWeb.species.length;
+  const { interactions } = foodWeb;
+  if (!Array.isArray(interactions) || interactions.length !== size ||
+      interactions.some(row => !Array.isArray(row) || row.length !== size ||
+        row.some(value => typeof value !== 'number' || !Number.isFinite(value)))) {
+    return `Interaction matrix must be ${size}x${size} numbers`;
+  }
+
+  return null;
+}
@@ -0,0 +1,242 @@
+// Environmental forcing
+// Builds the resource level over time from a baseline (constant or a
+// piecewise-linear series), any number of harmonics, a linear climate trend
+// and seeded white or red noise. The resource level scales prey births and,
+// optionally, raises predator mortality when resources fall below baseline.
+
+import { createRandom } from './random.js';
+
+export const NOISE_TYPES = ['white', 'red'];
+
+const MAX_HARMONICS = 20;
+const MAX_SERIES_POINTS = 10000;
+const MIN_NOISE_INTERVAL = 0.01;
+const SEASONAL_PERIOD = 12; // Legacy seasonal variation is an annual cycle
+const DEFAULT_NOISE_SEED = 1; // Noise is reproducible unless a seed is chosen
+const DEFAULT_NOISE_INTERVAL = 1;
+const DEFAULT_CORRELATION_TIME = 5;
+
+const isNumber = (value) => typeof value === 'number' && Number.isFinite(value);
+
+// Piecewise-linear series as [{ time, value }] points, from an array or CSV
+// text with a time column followed by a value column (a header is optional)
+export function parseSeries(series) {
+  if (Array.isArray(series)) {
+    return series.map(point => ({ time: point?.time, value: point?.value }));
+  }
+
+  const rows = series.trim().split(/\r?\n/).map(line => line.split(/[,;\t]/).map(cell => cell.trim()));
+  const numeric = (row) => row.length >= 2 && row[0] !== '' && row[1] !== '' &&
+    isNumber(Number(row[0])) && isNumber(Number(row[1]));
+  const body = rows.length > 0 && !numeric(rows[0]) ? rows.slice(1) : rows;
+
+  return body.map(row => (numeric(row)
+    ? { time: Number(row[0]), value: Number(row[1]) }
+    : { time: NaN, value: NaN }));
+}
+
+// Returns an error message for the first invalid forcing setting
+export function validateForcing(forcing) {
+  if (forcing === undefined) return null;
+  if (!forcing || typeof forcing !== 'object' || Array.isArray(forcing)) {
+    return 'Forcing must be an object';
+  }
+
+  const { harmonics, series, repeat, trend, noise, predatorMortality } = forcing;
+
+  if (harmonics !== undefined) {
+    if (!Array.isArray(harmonics) || harmonics.length > MAX_HARMONICS) {
+      return `Harmonics must be an array of at most ${MAX_HARMONICS} entries`;
+    }
+    for (const [index, harmonic] of harmonics.entries()) {
+      if (!isNumber(harmonic?.amplitude) || !(isNumber(harmonic.period) && harmonic.period > 0) ||
+          (harmonic.phase !== undefined && !isNumber(harmonic.phase))) {
+        return `Harmonic ${index + 1} needs an amplitude, a positive period and an optional phase`;
+      }
+    }
+  }
+
+  if (series !== undefined) {
+    if (!Array.isArray(series) && typeof series !== 'string') {
+      return 'Series must be an array of { time, value } points or CSV text';
+    }
+    const points = parseSeries(series);
+    if (points.length < 1 || points.length > MAX_SERIES_POINTS) {
+      return `Series must have between 1 and ${MAX_SERIES_POINTS} points`;
+    }
+    for (const [index, { time, value }] of points.entries()) {
+      if (!isNumber(time) || !isNumber(value)) {
+        return `Series point ${index + 1} needs a numeric time and value`;
+      }
+      if (value < 0 || value > 1) {
+        return `Series point ${index + 1} must have a value between 0 and 1`;
+      }
+      if (index > 0 && !(time > points[index - 1].time)) {
+        return 'Series times must be strictly increasing';
+      }
+    }
+  }
+  if (repeat !== undefined && typeof repeat !== 'boolean') {
+    return 'Repeat must be a boolean';
+  }
+
+  if (trend !== undefined) {
+    if (!isNumber(trend?.rate)) return 'Trend needs a rate per unit of time';
+    const { from = 0, to } = trend;
+    if (!isNumber(from) || from < 0 || (to !== undefined && !(isNumber(to) && to > from))) {
+      return 'Trend window must satisfy 0 <= from < to';
+    }
+  }
+
+  if (noise !== undefined) {
+    if (!noise || !NOISE_TYPES.includes(noise.type)) {
+      return `Noise type must be one of: ${NOISE_TYPES.join(', ')}`;
+    }
+    if (!(isNumber(noise.amplitude) && noise.amplitude >= 0 && noise.amplitude <= 1)) {
+      return 'Noise amplitude must be between 0 and 1';
+    }
+    if (noise.correlationTime !== undefined && !(isNumber(noise.correlationTime) && noise.correlationTime > 0)) {
+      return 'Noise correlation time must be positive';
+    }
+    if (noise.interval !== undefined && !(isNumber(noise.interval) && noise.interval >= MIN_NOISE_INTERVAL)) {
+      return `Noise interval must be at least ${MIN_NOISE_INTERVAL}`;
+    }
+    if (noise.seed !== undefined && !Number.isInteger(noise.seed) && typeof noise.seed !== 'string') {
+      return 'Noise seed must be an integer or a string';
+    }
+  }
+
+  if (predatorMortality !== undefined && !(isNumber(predatorMortality) && predatorMortality >= 0)) {
+    return 'Predator mortality sensitivity must be a non-negative number';
+  }
+  return null;
+}
+
+// Value of a piecewise-linear series, held constant beyond its ends unless it repeats
+function seriesFunction(points, repeat) {
+  const start = points[0].time;
+  const span = points[points.length - 1].time - start;
+
+  return (time) => {
+    let t = time;
+    if (repeat && span > 0) {
+      t = start + ((((time - start) % span) + span) % span);
+    }
+    if (t <= start) return points[0].value;
+    if (t >= points[points.length - 1].time) return points[points.length - 1].value;
+
+    // Binary search for the segment containing t
+    let lo = 0;
+    let hi = points.length - 1;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (points[mid].time <= t) lo = mid; else hi = mid;
+    }
+    const a = points[lo];
+    const b = points[hi];
+    return a.value + (b.value - a.value) * (t - a.time) / (b.time - a.time);
+  };
+}
+
+// Noise on a regular grid, generated lazily in time order so any time can be
+// evaluated in any order, and linearly interpolated between grid points.
+// Red noise is an AR(1) process with the given correlation time and the same
+// stationary spread as white noise of that amplitude.
+function noiseFunction({ type, amplitude, correlationTime = DEFAULT_CORRELATION_TIME,
+  interval = DEFAULT_NOISE_INTERVAL, seed = DEFAULT_NOISE_SEED }) {
+  const random = createRandom(seed);
+  const rho = type === 'red' ? Math.exp(-interval / correlationTime) : 0;
+  const innovation = Math.sqrt(1 - rho * rho);
+  const values = [random.normal(0, amplitude)];
+
+  const valueAt = (k) => {
+    while (values.length <= k) {
+      values.push(rho * values[values.length - 1] + innovation * random.normal(0, amplitude));
+    }
+    return values[k];
+  };
+
+  return (time) => {
+    const position = Math.max(0, time) / interval;
+    const k = Math.floor(position);
+    const a = valueAt(k);
+    return a + (valueAt(k + 1) - a) * (position - k);
+  };
+}
+
+// Compile the environment settings into functions of time. Without a forcing
+// block this reproduces the single annual sine of seasonal variation.
+export function createForcing(environment) {
+  const { resourceAvailability, seasonalVariation, seasonalAmplitude, forcing = {} } = environment;
+
+  const harmonics = [
+    ...(seasonalVariation ? [{ amplitude: seasonalAmplitude, period: SEASONAL_PERIOD, phase: 0 }] : []),
+    ...(forcing.harmonics ?? [])
+  ];
+  const baseline = forcing.series !== undefined
+    ? seriesFunction(parseSeries(forcing.series), forcing.repeat ?? false)
+    : () => resourceAvailability;
+  const noise = forcing.noise ? noiseFunction(forcing.noise) : null;
+  const trend = forcing.trend;
+  const predatorMortality = forcing.predatorMortality ?? 0;
+
+  const isConstant = harmonics.length === 0 && forcing.series === undefined && !noise && !trend;
+
+  const resourceLevel = (time) => {
+    if (isConstant) return resourceAvailability;
+
+    let level = baseline(time);
+    for (const { amplitude, period, phase = 0 } of harmonics) {
+      level += amplitude * Math.sin(2 * Math.PI * time / period + phase);
+    }
+    if (trend) {
+      const { rate, from = 0, to = Infinity } = trend;
+      level += rate * (Math.min(Math.max(time, from), to) - from);
+    }
+    if (noise) {
+      level += noise(time);
+    }
+    return Math.max(0, Math.min(1, level));
+  };
+
+  return {
+    resourceLevel,
+
+    // Multiplier on consumer death rates: scarcer resources than the
+    // baseline availability raise mortality in proportion to the shortfall
+    deathFactor: (level) =>
+      (predatorMortality > 0 ? Math.max(0, 1 + predatorMortality * (resourceAvailability - level)) : 1),
+
+    seed: forcing.noise ? (forcing.noise.seed ?? DEFAULT_NOISE_SEED) : null
+  };
+}
+
+// Forcing curves on a regular grid, for previewing before a run
+export function previewForcing(environment, { duration = 100, interval = 0.1 } = {}) {
+  const forcing = createForcing(environment);
+  const count = Math.floor(duration / interval + 1e-9) + 1;
+  const times = Array.from({ length: count }, (_, i) => Math.round(i * interval * 1000) / 1000);
+  const resourceLevel = times.map(forcing.resourceLevel);
+
+  return {
+    times,
+    resourceLevel,
+    predatorDeathFactor: resourceLevel.map(forcing.deathFactor),
+    seed: forcing.seed
+  };
+}
+
+// Returns an error message if the preview options are invalid
+export function validatePreviewOptions({ duration, interval }) {
+  if (duration !== undefined && !(isNumber(duration) && duration > 0 && duration <= 10000)) {
+    return 'Duration must be between 0 and 10000';
+  }
+  if (interval !== undefined && !(isNumber(interval) && interval >= MIN_NOISE_INTERVAL)) {
+    return `Interval must be at least ${MIN_NOISE_INTERVAL}`;
+  }
+  const count = (duration ?? 100) / (interval ?? 0.1);
+  if (count > 20000) {
+    return 'A preview is limited to 20000 points';
+  }
+  return null;
+}
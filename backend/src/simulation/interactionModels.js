@@ -0,0 +1,143 @@
+// Predator-prey interaction models
+// Each model declares a functional response (prey consumed per predator per
+// time unit) plus the extra parameters it needs, so the simulator, the API
+// and the parameter panel can all be driven from the same registry.
+
+const handlingTime = {
+  key: 'handlingTime',
+  label: 'Handling Time',
+  min: 0,
+  max: 1,
+  step: 0.01,
+  default: 0.1,
+  help: 'Time a predator spends handling each captured prey'
+};
+
+const interference = {
+  key: 'interference',
+  label: 'Predator Interference',
+  min: 0,
+  max: 0.1,
+  step: 0.001,
+  default: 0.01,
+  help: 'How strongly predators get in each other\'s way while hunting'
+};
+
+export const INTERACTION_MODELS = {
+  holling1: {
+    id: 'holling1',
+    name: 'Holling Type I',
+    description: 'Mass action: consumption grows linearly with prey density',
+    parameters: [],
+    functionalResponse(prey, predator, attackRate) {
+      return attackRate * prey;
+    }
+  },
+  holling2: {
+    id: 'holling2',
+    name: 'Holling Type II',
+    description: 'Saturating consumption limited by handling time',
+    parameters: [handlingTime],
+    functionalResponse(prey, predator, attackRate, settings) {
+      return (attackRate * prey) / (1 + attackRate * settings.handlingTime * prey);
+    }
+  },
+  holling3: {
+    id: 'holling3',
+    name: 'Holling Type III',
+    description: 'Sigmoid consumption: predators ignore prey at low density',
+    parameters: [handlingTime],
+    functionalResponse(prey, predator, attackRate, settings) {
+      const preySquared = prey * prey;
+      return (attackRate * preySquared) / (1 + attackRate * settings.handlingTime * preySquared);
+    }
+  },
+  beddingtonDeAngelis: {
+    id: 'beddingtonDeAngelis',
+    name: 'Beddington–DeAngelis',
+    description: 'Saturating consumption reduced by interference between predators',
+    parameters: [handlingTime, interference],
+    functionalResponse(prey, predator, attackRate, settings) {
+      return (attackRate * prey) /
+        (1 + attackRate * settings.handlingTime * prey + settings.interference * predator);
+    }
+  },
+  ratioDependent: {
+    id: 'ratioDependent',
+    name: 'Ratio-Dependent',
+    description: 'Consumption depends on the prey available per predator',
+    parameters: [handlingTime],
+    functionalResponse(prey, predator, attackRate, settings) {
+      const denominator = predator + attackRate * settings.handlingTime * prey;
+      return denominator > 0 ? (attackRate * prey) / denominator : 0;
+    }
+  }
+};
+
+export const DEFAULT_INTERACTION_MODEL = 'holling1';
+
+export function isKnownInteractionModel(type) {
+  return Object.prototype.hasOwnProperty.call(INTERACTION_MODELS, type);
+}
+
+// Returns an error message unless the `{ type, parameters }` config names a
+// registered model and every parameter it declares is a number within range
+export function validateInteractionModel(config) {
+  if (config === undefined) return null;
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return 'Interaction model must be an object';
+  }
+
+  const type = config.type ?? DEFAULT_INTERACTION_MODEL;
+  if (!isKnownInteractionModel(type)) {
+    return `Unknown interaction model: ${type}`;
+  }
+  if (config.parameters !== undefined &&
+      (!config.parameters || typeof config.parameters !== 'object' || Array.isArray(config.parameters))) {
+    return 'Interaction model parameters must be an object';
+  }
+
+  for (const { key, min, max } of INTERACTION_MODELS[type].parameters) {
+    const value = config.parameters?.[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+      return `Interaction model parameter ${key} must be a number between ${min} and ${max}`;
+    }
+  }
+  return null;
+}
+
+// Resolve a `{ type, parameters }` config into the model definition and a
+// complete set of settings, falling back to each parameter's default
+export function resolveInteractionModel(config = {}) {
+  const type = config.type || DEFAULT_INTERACTION_MODEL;
+
+  if (!isKnownInteractionModel(type)) {
+    throw new Error(`Unknown interaction model: ${type}`);
+  }
+
+  const definition = INTERACTION_MODELS[type];
+  const settings = {};
+
+  for (const param of definition.parameters) {
+    const value = config.parameters?.[param.key];
+    settings[param.key] = typeof value === 'number' ? value : param.default;
+  }
+
+  return {
+    definition,
+    settings,
+    functionalResponse: (prey, predator, attackRate) =>
+      definition.functionalResponse(prey, predator, attackRate, settings)
+  };
+}
+
+// Serializable model declarations for the API
+export function describeInteractionModels() {
+  return Object.values(INTERACTION_MODELS).map(({ id, name, description, parameters }) => ({
+    id,
+    name,
+    description,
+    parameters
+  }));
+}
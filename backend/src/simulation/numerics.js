@@ -0,0 +1,59 @@
+// Small numerical helpers shared by the solvers and analysis tools
+
+// Forward-difference Jacobian of f at y: J[i][j] = d f_i / d y_j
+export function numericalJacobian(f, y, fy = f(y)) {
+  const n = y.length;
+  const jacobian = Array.from({ length: n }, () => new Array(n).fill(0));
+
+  for (let j = 0; j < n; j++) {
+    const delta = Math.sqrt(Number.EPSILON) * Math.max(1, Math.abs(y[j]));
+    const shifted = [...y];
+    shifted[j] += delta;
+    const fShifted = f(shifted);
+
+    for (let i = 0; i < n; i++) {
+      jacobian[i][j] = (fShifted[i] - fy[i]) / delta;
+    }
+  }
+
+  return jacobian;
+}
+
+// Solve A x = b by Gaussian elimination with partial pivoting.
+// Returns null when the matrix is singular.
+export function solveLinearSystem(A, b) {
+  const n = b.length;
+  const m = A.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) {
+        pivot = row;
+      }
+    }
+
+    if (Math.abs(m[pivot][col]) < 1e-300) {
+      return null;
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) {
+        m[row][k] -= factor * m[col][k];
+      }
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) {
+      sum -= m[row][k] * x[k];
+    }
+    x[row] = sum / m[row][row];
+  }
+
+  return x;
+}
@@ -0,0 +1,64 @@
+// Read and write simulation parameters by dotted path, e.g. "prey.birthRate"
+// or "foodWeb.species.2.deathRate"
+
+import { rangeFor } from '../models/parameterRanges.js';
+
+// Keys that would reach the prototype of an object instead of a parameter
+const FORBIDDEN_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+function hasForbiddenKey(path) {
+  return path.split('.').some(key => FORBIDDEN_KEYS.has(key));
+}
+
+// Only own properties are parameters; inherited ones read as undefined
+export function getParameter(parameters, path) {
+  return path.split('.').reduce(
+    (value, key) => (value !== null && typeof value === 'object' && Object.hasOwn(value, key) ? value[key] : undefined),
+    parameters
+  );
+}
+
+// Returns a deep copy of the parameters with the value at path replaced
+export function setParameter(parameters, path, value) {
+  if (hasForbiddenKey(path)) {
+    throw new Error(`Invalid parameter path: ${path}`);
+  }
+
+  const copy = structuredClone(parameters);
+  const keys = path.split('.');
+  let target = copy;
+
+  for (const key of keys.slice(0, -1)) {
+    if (!Object.hasOwn(target, key) || target[key] == null) {
+      throw new Error(`Unknown parameter path: ${path}`);
+    }
+    target = target[key];
+  }
+
+  target[keys[keys.length - 1]] = value;
+  return copy;
+}
+
+// Returns an error message unless the path points at a numeric parameter.
+// With allowMissing, an unset parameter is accepted if it has a declared range
+// (see models/parameterRanges.js) and its parent object exists.
+export function validateNumericPath(parameters, path, { allowMissing = false } = {}) {
+  if (typeof path !== 'string' || path.length === 0) {
+    return 'Parameter path must be a non-empty string';
+  }
+  if (hasForbiddenKey(path)) {
+    return `Invalid parameter path: ${path}`;
+  }
+
+  const value = getParameter(parameters, path);
+  if (allowMissing && value === undefined && rangeFor(path)) {
+    const parent = getParameter(parameters, path.split('.').slice(0, -1).join('.'));
+    if (parent !== null && typeof parent === 'object' && !Array.isArray(parent)) {
+      return null;
+    }
+  }
+  if (typeof value !== 'number') {
+    return `Parameter path does not point at a number: ${path}`;
+  }
+  return null;
+}
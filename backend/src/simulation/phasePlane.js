@@ -0,0 +1,127 @@
+// Phase plane of the two-species model: vector field, nullclines and fixed
+// points over a window that contains the interesting dynamics
+
+import { EcosystemSimulator } from './simulator.js';
+import { analyzeStability, twoSpeciesTerms } from './stability.js';
+
+const NULLCLINE_SAMPLES = 200;
+const BISECTION_STEPS = 60;
+
+// Window covering the initial state, the prey's carrying capacity and every
+// coexistence point, unless the caller asks for a specific one
+function defaultBounds(parameters, terms, fixedPoints) {
+  const coexistence = fixedPoints.filter(point => point.type === 'coexistence');
+  const preyCandidates = [parameters.prey.initialPopulation, ...coexistence.map(point => point.prey)];
+  if (Number.isFinite(terms.preyLimit)) preyCandidates.push(terms.preyLimit);
+  const predatorCandidates = [parameters.predator.initialPopulation, ...coexistence.map(point => point.predator)];
+
+  return {
+    preyMax: Math.max(10, ...preyCandidates) * 1.1,
+    predatorMax: Math.max(10, ...predatorCandidates) * 1.5
+  };
+}
+
+// Prey nullcline (dN/dt = 0 with predators present) as a predator level per prey density
+function preyNullcline(terms, bounds) {
+  const end = Math.min(terms.preyLimit, bounds.preyMax);
+  const line = [];
+
+  for (let k = 1; k <= NULLCLINE_SAMPLES; k++) {
+    const prey = end * k / NULLCLINE_SAMPLES;
+    const predator = terms.nullclinePredator(prey);
+    if (predator !== null) {
+      line.push({ x: prey, y: predator });
+    }
+  }
+
+  return line.length > 1 ? [line] : [];
+}
+
+// Predator nullcline (dP/dt = 0 with predators present). Prey-dependent
+// responses give vertical lines; interference between predators bends them.
+function predatorNullcline(terms, bounds) {
+  const { predatorGrowth } = terms;
+  const lines = [];
+  let current = [];
+  let previous = null;
+
+  for (let k = 0; k <= NULLCLINE_SAMPLES; k++) {
+    const prey = bounds.preyMax * k / NULLCLINE_SAMPLES;
+    const atZero = predatorGrowth(prey, 0);
+    const atTop = predatorGrowth(prey, bounds.predatorMax);
+
+    if (Math.sign(atZero) !== Math.sign(atTop)) {
+      // Growth falls with predator density, so there is one crossing in between
+      let low = 0;
+      let high = bounds.predatorMax;
+      for (let i = 0; i < BISECTION_STEPS; i++) {
+        const mid = (low + high) / 2;
+        if (Math.sign(predatorGrowth(prey, mid)) === Math.sign(atZero)) {
+          low = mid;
+        } else {
+          high = mid;
+        }
+      }
+      current.push({ x: prey, y: (low + high) / 2 });
+    } else {
+      if (current.length > 1) lines.push(current);
+      current = [];
+
+      // Growth that does not depend on predators changes sign along the prey axis
+      if (previous && atZero === atTop && Math.sign(atZero) !== Math.sign(previous.growth)) {
+        let low = previous.prey;
+        let high = prey;
+        for (let i = 0; i < BISECTION_STEPS; i++) {
+          const mid = (low + high) / 2;
+          if (Math.sign(predatorGrowth(mid, 0)) === Math.sign(previous.growth)) {
+            low = mid;
+          } else {
+            high = mid;
+          }
+        }
+
+        const root = (low + high) / 2;
+        // Skip the jump at the starvation threshold
+        if (Math.abs(predatorGrowth(root, 0)) < 1e-6) {
+          lines.push([{ x: root, y: 0 }, { x: root, y: bounds.predatorMax }]);
+        }
+      }
+    }
+
+    previous = { prey, growth: atZero };
+  }
+
+  if (current.length > 1) lines.push(current);
+  return lines;
+}
+
+export function calculatePhasePlane(parameters, { resolution = 15, bounds } = {}) {
+  const { fixedPoints } = analyzeStability(parameters);
+  const simulator = new EcosystemSimulator(parameters);
+  const terms = twoSpeciesTerms(simulator, parameters.environment.resourceAvailability);
+  const window = bounds ?? defaultBounds(parameters, terms, fixedPoints);
+
+  return {
+    phaseSpace: EcosystemSimulator.calculatePhaseSpace(parameters, resolution, window),
+    resolution,
+    bounds: window,
+    nullclines: {
+      prey: preyNullcline(terms, window),
+      predator: predatorNullcline(terms, window)
+    },
+    fixedPoints
+  };
+}
+
+// Returns an error message if the requested window is invalid
+export function validatePhasePlaneOptions({ resolution, bounds }) {
+  if (resolution !== undefined && (!Number.isInteger(resolution) || resolution < 2 || resolution > 100)) {
+    return 'Resolution must be an integer between 2 and 100';
+  }
+  if (bounds !== undefined &&
+      (typeof bounds?.preyMax !== 'number' || !(bounds.preyMax > 0) ||
+       typeof bounds?.predatorMax !== 'number' || !(bounds.predatorMax > 0))) {
+    return 'Bounds need positive preyMax and predatorMax';
+  }
+  return null;
+}
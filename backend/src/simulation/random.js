@@ -0,0 +1,102 @@
+// Seedable pseudo-random number generation for reproducible stochastic runs
+
+// Hash a string seed into a 32-bit integer (FNV-1a)
+function hashSeed(seed) {
+  let hash = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+export function randomSeed() {
+  return Math.floor(Math.random() * 2 ** 32);
+}
+
+// Mulberry32 generator with the distributions the simulators need
+export function createRandom(seed = randomSeed()) {
+  let state = typeof seed === 'string' ? hashSeed(seed) : seed >>> 0;
+
+  // Uniform on [0, 1)
+  const next = () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  // Uniform on (0, 1], safe to take the logarithm of
+  const nextPositive = () => 1 - next();
+
+  const normal = (mean = 0, sd = 1) => {
+    // Box-Muller transform
+    const u = nextPositive();
+    const v = next();
+    return mean + sd * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  };
+
+  const exponential = (rate) => -Math.log(nextPositive()) / rate;
+
+  const poisson = (mean) => {
+    if (mean <= 0) return 0;
+
+    // Knuth's multiplication method for small means
+    if (mean < 30) {
+      const limit = Math.exp(-mean);
+      let count = 0;
+      let product = nextPositive();
+      while (product > limit) {
+        count++;
+        product *= nextPositive();
+      }
+      return count;
+    }
+
+    // Transformed rejection with squeeze (Hörmann's PTRS) for large means
+    const logMean = Math.log(mean);
+    const b = 0.931 + 2.53 * Math.sqrt(mean);
+    const a = -0.059 + 0.02483 * b;
+    const inverseAlpha = 1.1239 + 1.1328 / (b - 3.4);
+    const vr = 0.9277 - 3.6224 / (b - 2);
+
+    for (;;) {
+      const u = next() - 0.5;
+      const v = nextPositive();
+      const us = 0.5 - Math.abs(u);
+      const k = Math.floor((2 * a / us + b) * u + mean + 0.43);
+
+      if (us >= 0.07 && v <= vr) return k;
+      if (k < 0 || (us < 0.013 && v > us)) continue;
+
+      const logFactorial = logGamma(k + 1);
+      if (Math.log(v * inverseAlpha / (a / (us * us) + b)) <= -mean + k * logMean - logFactorial) {
+        return k;
+      }
+    }
+  };
+
+  return { seed, next, normal, exponential, poisson };
+}
+
+// Lanczos approximation of ln(Gamma(x)) for x > 0
+function logGamma(x) {
+  const coefficients = [
+    676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012,
+    9.9843695780195716e-6, 1.5056327351493116e-7
+  ];
+
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+  }
+
+  x -= 1;
+  let sum = 0.99999999999980993;
+  for (let i = 0; i < coefficients.length; i++) {
+    sum += coefficients[i] / (x + i + 1);
+  }
+  const t = x + coefficients.length - 0.5;
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(sum);
+}
@@ -0,0 +1,228 @@
+// Downloadable tables of simulation results
+// Every recorded time step is a row. Columns are named by their path in the
+// step: time, preyPopulation, predatorPopulation, resourceLevel,
+// populations.<species>, stages.<species>.juvenile|adult and events.
+//
+// The columnar format stores each column in one block, like Parquet or Arrow:
+//   "ESCF" | uint32 header length | header JSON, padded with spaces to 8 bytes | data
+// The header is { format: "ecosystem-sandbox/columns", version: 1, rows,
+// columns: [{ name, type, offset, byteLength }] }, offsets counting from the
+// start of the data. A float64 column holds one little-endian number per row,
+// NaN where the step has no value. A string column holds rows + 1 uint32
+// offsets into the UTF-8 text that follows them. Blocks start at multiples of 8.
+
+import { buildFoodWeb } from './foodWeb.js';
+import { stagedSpeciesIds } from './stages.js';
+
+export const RESULT_FORMATS = {
+  csv: { contentType: 'text/csv', extension: 'csv' },
+  ndjson: { contentType: 'application/x-ndjson', extension: 'ndjson' },
+  columnar: { contentType: 'application/octet-stream', extension: 'escf' }
+};
+
+const COLUMNAR_MAGIC = 'ESCF';
+const COLUMNAR_FORMAT = 'ecosystem-sandbox/columns';
+const COLUMNAR_VERSION = 1;
+
+const BASE_COLUMNS = ['time', 'preyPopulation', 'predatorPopulation', 'resourceLevel'];
+
+function columnsOf(species, staged, hasEvents) {
+  return [
+    ...BASE_COLUMNS,
+    ...[...species].map(id => `populations.${id}`),
+    ...[...staged].flatMap(id => [`stages.${id}.juvenile`, `stages.${id}.adult`]),
+    ...(hasEvents ? ['events'] : [])
+  ];
+}
+
+// Columns present in any step, in a stable order
+export function resultColumns(timeSteps) {
+  const species = new Set();
+  const staged = new Set();
+  let hasEvents = false;
+  timeSteps.forEach(step => {
+    Object.keys(step.populations ?? {}).forEach(id => species.add(id));
+    Object.keys(step.stages ?? {}).forEach(id => staged.add(id));
+    hasEvents = hasEvents || step.events?.length > 0;
+  });
+  return columnsOf(species, staged, hasEvents);
+}
+
+// Columns a run of the parameters can have, known before it runs
+export function runColumns(parameters) {
+  return columnsOf(
+    buildFoodWeb(parameters).species.map(s => s.id),
+    stagedSpeciesIds(parameters),
+    parameters.events?.length > 0
+  );
+}
+
+// Export options from a query string: ?format=csv&columns=time,populations&every=10&maxRows=500
+export function exportOptionsFrom(query) {
+  const { format = 'csv', columns, every, maxRows } = query;
+  return {
+    format,
+    columns: columns === undefined ? undefined : String(columns).split(',').map(c => c.trim()).filter(Boolean),
+    every: every === undefined ? undefined : Number(every),
+    maxRows: maxRows === undefined ? undefined : Number(maxRows)
+  };
+}
+
+// Returns an error message for unusable options, or null
+export function validateExportOptions({ format, columns, every, maxRows }) {
+  if (typeof format !== 'string' || !Object.hasOwn(RESULT_FORMATS, format)) {
+    return `Unknown format: ${format}. Use ${Object.keys(RESULT_FORMATS).join(', ')}`;
+  }
+  if (columns !== undefined && columns.length === 0) {
+    return 'columns must name at least one column';
+  }
+  if (every !== undefined && (!Number.isInteger(every) || every < 1)) {
+    return 'every must be a positive integer';
+  }
+  if (maxRows !== undefined && (!Number.isInteger(maxRows) || maxRows < 2)) {
+    return 'maxRows must be an integer of at least 2';
+  }
+  return null;
+}
+
+// The requested columns among the available ones; a name such as
+// "populations" selects every column under it
+export function selectColumns(available, requested) {
+  if (!requested) {
+    return { columns: available };
+  }
+
+  const columns = [];
+  for (const name of requested) {
+    const matches = available.filter(c => c === name || c.startsWith(`${name}.`));
+    if (matches.length === 0) {
+      return { error: `Unknown column: ${name}. Available: ${available.join(', ')}` };
+    }
+    matches.forEach(c => columns.includes(c) || columns.push(c));
+  }
+  return { columns };
+}
+
+// Keep every `every`-th step, then at most `maxRows` evenly spread steps.
+// The first and last steps are always kept.
+export function decimate(timeSteps, { every = 1, maxRows } = {}) {
+  const last = timeSteps.length - 1;
+  let indices = timeSteps.map((_, i) => i).filter(i => i % every === 0 || i === last);
+  if (maxRows && indices.length > maxRows) {
+    const kept = indices;
+    indices = Array.from({ length: maxRows }, (_, i) => kept[Math.round(i * (kept.length - 1) / (maxRows - 1))]);
+  }
+  return indices.map(i => timeSteps[i]);
+}
+
+// Species ids may contain dots, so only the first and last part of a column
+// name are split off
+function valueAt(step, column) {
+  if (column === 'events') {
+    return step.events ?? [];
+  }
+  let value;
+  if (column.startsWith('populations.')) {
+    value = step.populations?.[column.slice('populations.'.length)];
+  } else if (column.startsWith('stages.')) {
+    const stage = column.lastIndexOf('.');
+    value = step.stages?.[column.slice('stages.'.length, stage)]?.[column.slice(stage + 1)];
+  } else {
+    value = step[column];
+  }
+  return typeof value === 'number' ? value : null;
+}
+
+function csvField(value) {
+  if (value === null) return '';
+  const text = Array.isArray(value) ? value.join('; ') : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(columns, rows) {
+  return [columns, ...rows].map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+function toNdjson(columns, rows) {
+  return rows.map(row => JSON.stringify(Object.fromEntries(columns.map((c, i) => [c, row[i]])))).join('\n') + '\n';
+}
+
+const align8 = (length) => Math.ceil(length / 8) * 8;
+
+function columnBlock(values, type) {
+  if (type === 'float64') {
+    const block = Buffer.alloc(values.length * 8);
+    values.forEach((value, i) => block.writeDoubleLE(value ?? NaN, i * 8));
+    return block;
+  }
+
+  const texts = values.map(value => Buffer.from(value.join('; '), 'utf8'));
+  const offsets = Buffer.alloc((texts.length + 1) * 4);
+  let position = 0;
+  texts.forEach((text, i) => {
+    offsets.writeUInt32LE(position, i * 4);
+    position += text.length;
+  });
+  offsets.writeUInt32LE(position, texts.length * 4);
+  return Buffer.concat([offsets, ...texts]);
+}
+
+function toColumnar(columns, rows) {
+  const blocks = columns.map((name, c) => {
+    const type = name === 'events' ? 'string' : 'float64';
+    return { name, type, data: columnBlock(rows.map(row => row[c]), type) };
+  });
+
+  let offset = 0;
+  const header = {
+    format: COLUMNAR_FORMAT,
+    version: COLUMNAR_VERSION,
+    rows: rows.length,
+    columns: blocks.map(({ name, type, data }) => {
+      const column = { name, type, offset, byteLength: data.length };
+      offset += align8(data.length);
+      return column;
+    })
+  };
+
+  const headerJson = Buffer.from(JSON.stringify(header), 'utf8');
+  const prefix = Buffer.alloc(8);
+  prefix.write(COLUMNAR_MAGIC, 0, 'ascii');
+  prefix.writeUInt32LE(align8(headerJson.length), 4);
+  const padding = (length) => Buffer.alloc(align8(length) - length, ' ');
+
+  return Buffer.concat([
+    prefix,
+    headerJson,
+    padding(headerJson.length),
+    ...blocks.flatMap(({ data }) => [data, Buffer.alloc(align8(data.length) - data.length)])
+  ]);
+}
+
+const ENCODERS = new Map([['csv', toCsv], ['ndjson', toNdjson], ['columnar', toColumnar]]);
+
+// Encode the time steps of a run. The columns to choose from are those of
+// the time steps unless given. Returns { error } for unusable options, or
+// { content, contentType, extension, columns, rows }.
+export function exportResults(results, options, available = resultColumns(results?.timeSteps ?? [])) {
+  const optionsError = validateExportOptions(options);
+  if (optionsError) {
+    return { error: optionsError };
+  }
+
+  const timeSteps = results?.timeSteps ?? [];
+  const { columns, error } = selectColumns(available, options.columns);
+  if (error) {
+    return { error };
+  }
+
+  const rows = decimate(timeSteps, options).map(step => columns.map(c => valueAt(step, c)));
+  const { contentType, extension } = RESULT_FORMATS[options.format];
+  return {
+    content: ENCODERS.get(options.format)(columns, rows),
+    contentType,
+    extension,
+    columns,
+    rows: rows.length
+  };
+}
@@ -0,0 +1,292 @@
+// Global sensitivity analysis
+// Samples the parameters within their declared ranges and measures how much
+// each one drives an output metric of the simulation results, using Morris
+// elementary effects or Sobol first-order and total indices.
+
+import { createSimulator, validateRunOptions } from './factory.js';
+import { createRandom, randomSeed } from './random.js';
+import { getParameter, setParameter, validateNumericPath } from './parameterPaths.js';
+import { percentile, mean } from './statistics.js';
+import { PARAMETER_RANGES, FOOD_WEB_SPECIES_RANGES, rangeFor } from '../models/parameterRanges.js';
+
+export const SENSITIVITY_METHODS = ['morris', 'sobol'];
+export const MAX_SENSITIVITY_RUNS = 5000;
+
+const DEFAULT_METRIC = 'summary.minPrey';
+const DEFAULT_TRAJECTORIES = 10; // Morris trajectories
+const DEFAULT_LEVELS = 4; // Morris grid levels per factor
+const DEFAULT_SAMPLES = 64; // Sobol base samples
+const BOOTSTRAP_RESAMPLES = 200;
+
+// Every ranged parameter the scenario sets, seasonal amplitude only when seasons are on
+function defaultFactorPaths(parameters) {
+  if (parameters.foodWeb) {
+    const paths = parameters.foodWeb.species.flatMap((species, i) =>
+      Object.keys(FOOD_WEB_SPECIES_RANGES)
+        .filter(key => typeof species[key] === 'number')
+        .map(key => `foodWeb.species.${i}.${key}`));
+    return [...paths, 'environment.resourceAvailability'];
+  }
+
+  return Object.entries(PARAMETER_RANGES).flatMap(([group, keys]) =>
+    Object.keys(keys)
+      .map(key => `${group}.${key}`)
+      .filter(path => typeof getParameter(parameters, path) === 'number')
+      .filter(path => path !== 'environment.seasonalAmplitude' || parameters.environment.seasonalVariation));
+}
+
+// Expand the factors option (paths or { path, min, max }) into full ranges
+function resolveFactors(parameters, factors) {
+  return (factors ?? defaultFactorPaths(parameters)).map(factor => {
+    const { path, min, max } = typeof factor === 'string' ? { path: factor } : factor;
+    const range = rangeFor(path);
+    return { path, min: min ?? range?.min, max: max ?? range?.max };
+  });
+}
+
+// Numeric value of a metric path in the simulation results. Flags count as
+// 0 or 1, and runs that never settle take the whole run to reach equilibrium.
+export function metricValue(results, metric) {
+  const value = getParameter(results, metric);
+
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value == null && metric === 'equilibriumPoint.timeToReach') return results.summary.duration;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`Metric ${metric} is not a number in the simulation results`);
+  }
+  return value;
+}
+
+function runCount(method, factorCount, { trajectories = DEFAULT_TRAJECTORIES, samples = DEFAULT_SAMPLES }) {
+  return method === 'morris'
+    ? trajectories * (factorCount + 1)
+    : samples * (factorCount + 2);
+}
+
+// Number of simulation runs an analysis takes
+export function sensitivityRunCount(parameters, options = {}) {
+  const { method = 'morris' } = options;
+  return runCount(method, resolveFactors(parameters, options.factors).length, options);
+}
+
+// Returns an error message if the sensitivity options are invalid
+export function validateSensitivity(parameters, options = {}, runOptions = {}) {
+  const {
+    method = 'morris',
+    metric = DEFAULT_METRIC,
+    factors,
+    trajectories,
+    levels,
+    samples
+  } = options;
+
+  if (!SENSITIVITY_METHODS.includes(method)) {
+    return `Unknown sensitivity method: ${method}`;
+  }
+  if (typeof metric !== 'string' || metric === '') {
+    return 'Metric must be a path into the simulation results, e.g. "summary.minPrey"';
+  }
+  if (factors !== undefined && (!Array.isArray(factors) || factors.length < 1)) {
+    return 'Factors must be a non-empty array of parameter paths or { path, min, max } ranges';
+  }
+
+  const resolved = resolveFactors(parameters, factors);
+  if (resolved.length < 1) {
+    return 'No parameters to analyse';
+  }
+  for (const { path, min, max } of resolved) {
+    const range = rangeFor(path);
+    if (!range) {
+      return `No range is declared for ${path}`;
+    }
+    const pathError = validateNumericPath(parameters, path, { allowMissing: true });
+    if (pathError) return pathError;
+    if (typeof min !== 'number' || typeof max !== 'number' || !(min < max) ||
+        min < range.min || max > range.max) {
+      return `Range of ${path} must satisfy ${range.min} <= min < max <= ${range.max}`;
+    }
+  }
+  if (new Set(resolved.map(factor => factor.path)).size !== resolved.length) {
+    return 'Each factor can only be listed once';
+  }
+
+  if (trajectories !== undefined && (!Number.isInteger(trajectories) || trajectories < 2)) {
+    return 'Trajectories must be an integer of at least 2';
+  }
+  if (levels !== undefined && (!Number.isInteger(levels) || levels < 2 || levels > 10 || levels % 2 !== 0)) {
+    return 'Levels must be an even integer between 2 and 10';
+  }
+  if (samples !== undefined && (!Number.isInteger(samples) || samples < 4)) {
+    return 'Samples must be an integer of at least 4';
+  }
+  if (runCount(method, resolved.length, options) > MAX_SENSITIVITY_RUNS) {
+    return `Sensitivity analysis is limited to ${MAX_SENSITIVITY_RUNS} runs`;
+  }
+
+  const runError = validateRunOptions(runOptions, { parameters });
+  if (runError) return runError;
+
+  // Check the metric on the scenario itself before committing to every run
+  try {
+    metricValue(createSimulator(parameters, runOptions).simulate(), metric);
+  } catch (error) {
+    return error.message;
+  }
+  return null;
+}
+
+// Evaluates the metric at points of the unit hypercube, one coordinate per factor
+function createModel(parameters, factors, metric, runOptions, seed, onRun) {
+  let runs = 0;
+
+  return (unitPoint) => {
+    let runParameters = parameters;
+    factors.forEach(({ path, min, max }, i) => {
+      runParameters = setParameter(runParameters, path, min + (max - min) * unitPoint[i]);
+    });
+
+    // Stochastic runs get their own reproducible stream
+    const options = runOptions.mode === 'stochastic'
+      ? { ...runOptions, seed: `${seed}:${runs}` }
+      : runOptions;
+    const value = metricValue(createSimulator(runParameters, options).simulate(), metric);
+
+    runs++;
+    onRun(runs);
+    return value;
+  };
+}
+
+function variance(values) {
+  const average = mean(values);
+  return values.reduce((sum, v) => sum + (v - average) ** 2, 0) / (values.length - 1);
+}
+
+// Morris elementary effects: every trajectory moves one factor at a time by
+// delta across a grid of `levels` values per factor. Effects are per full
+// range of the factor, so they compare across factors.
+function runMorris(model, factorCount, random, { trajectories = DEFAULT_TRAJECTORIES, levels = DEFAULT_LEVELS }) {
+  const delta = levels / (2 * (levels - 1));
+  const effects = Array.from({ length: factorCount }, () => []);
+  const outputs = [];
+
+  for (let t = 0; t < trajectories; t++) {
+    // Start in the lower half of the grid so every step of +delta stays inside
+    let point = Array.from({ length: factorCount }, () =>
+      Math.floor(random.next() * levels / 2) / (levels - 1));
+    let value = model(point);
+    outputs.push(value);
+
+    const order = Array.from({ length: factorCount }, (_, i) => i);
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(random.next() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+
+    for (const factor of order) {
+      const next = [...point];
+      next[factor] += delta;
+      const nextValue = model(next);
+      effects[factor].push((nextValue - value) / delta);
+      outputs.push(nextValue);
+      point = next;
+      value = nextValue;
+    }
+  }
+
+  return {
+    outputs,
+    indices: effects.map(values => ({
+      mu: mean(values),
+      muStar: mean(values.map(Math.abs)),
+      sigma: Math.sqrt(variance(values))
+    })),
+    importance: (index) => index.muStar,
+    details: { trajectories, levels, delta }
+  };
+}
+
+// Saltelli estimator of first-order indices and Jansen estimator of total indices
+function sobolIndices(fA, fB, fAB, sampleIndices) {
+  const pick = (values) => sampleIndices.map(s => values[s]);
+  const a = pick(fA);
+  const b = pick(fB);
+  const total = variance([...a, ...b]);
+
+  return fAB.map(values => {
+    const ab = pick(values);
+    if (!(total > 0)) return { firstOrder: 0, totalOrder: 0 };
+    return {
+      firstOrder: mean(b.map((bs, s) => bs * (ab[s] - a[s]))) / total,
+      totalOrder: mean(a.map((as, s) => (as - ab[s]) ** 2)) / (2 * total)
+    };
+  });
+}
+
+// Sobol indices from two independent sample matrices A and B plus, for every
+// factor, A with that factor's column taken from B. Bootstrapping the samples
+// gives 95% confidence intervals without any extra runs.
+function runSobol(model, factorCount, random, { samples = DEFAULT_SAMPLES }) {
+  const unitSample = () => Array.from({ length: factorCount }, () => random.next());
+  const A = Array.from({ length: samples }, unitSample);
+  const B = Array.from({ length: samples }, unitSample);
+
+  const fA = A.map(model);
+  const fB = B.map(model);
+  const fAB = Array.from({ length: factorCount }, (_, i) =>
+    A.map((row, s) => model(row.map((x, j) => (j === i ? B[s][i] : x)))));
+
+  const all = Array.from({ length: samples }, (_, s) => s);
+  const estimates = sobolIndices(fA, fB, fAB, all);
+
+  const resampled = Array.from({ length: BOOTSTRAP_RESAMPLES }, () =>
+    sobolIndices(fA, fB, fAB, all.map(() => Math.floor(random.next() * samples))));
+  const interval = (factor, key) => {
+    const sorted = resampled.map(estimate => estimate[factor][key]).sort((x, y) => x - y);
+    return [percentile(sorted, 2.5), percentile(sorted, 97.5)];
+  };
+
+  return {
+    outputs: [...fA, ...fB, ...fAB.flat()],
+    indices: estimates.map((estimate, i) => ({
+      ...estimate,
+      firstOrderConfidence: interval(i, 'firstOrder'),
+      totalOrderConfidence: interval(i, 'totalOrder')
+    })),
+    importance: (index) => index.totalOrder,
+    details: { samples }
+  };
+}
+
+export function runSensitivity(parameters, options = {}, runOptions = {}, onProgress) {
+  const { method = 'morris', metric = DEFAULT_METRIC, seed = randomSeed() } = options;
+  const factors = resolveFactors(parameters, options.factors);
+  const runs = runCount(method, factors.length, options);
+
+  const random = createRandom(seed);
+  const model = createModel(parameters, factors, metric, runOptions, seed, done => onProgress?.(done / runs));
+  const analysis = method === 'morris'
+    ? runMorris(model, factors.length, random, options)
+    : runSobol(model, factors.length, random, options);
+
+  const results = factors.map((factor, i) => ({ ...factor, ...analysis.indices[i] }));
+  const ranking = [...results]
+    .sort((a, b) => analysis.importance(b) - analysis.importance(a))
+    .map(factor => factor.path);
+
+  return {
+    method,
+    metric,
+    seed,
+    runs,
+    ...analysis.details,
+    factors: results,
+    ranking,
+    output: {
+      mean: mean(analysis.outputs),
+      variance: variance(analysis.outputs),
+      min: Math.min(...analysis.outputs),
+      max: Math.max(...analysis.outputs)
+    }
+  };
+}
@@ -1,17 +1,51 @@
 // Ecosystem Simulation Engine
-// Implements modified Lotka-Volterra equations with environmental factors
+// Implements modified Lotka-Volterra equations with environmental factors,
+// generalized to food webs with any number of species
+
+import { resolveInteractionModel } from './interactionModels.js';
+import { buildFoodWeb } from './foodWeb.js';
+import { resolveSolver, takeStep, MIN_FIXED_STEP } from './solvers.js';
+import { createEventSchedule } from './events.js';
+import { createForcing } from './forcing.js';
+import { createStageLayout } from './stages.js';
 
 export class EcosystemSimulator {
-  constructor(parameters) {
+  constructor(parameters, options = {}) {
     this.params = parameters;
+    this.model = resolveInteractionModel(parameters.model);
+    this.web = buildFoodWeb(parameters);
+    this.forcing = createForcing(parameters.environment);
+    this.solver = resolveSolver(options.solver);
     this.history = [];
     this.currentTime = 0;
-    this.dt = 0.01; // Time step for numerical integration
+    // Time step (initial step for adaptive solvers); fixed steps are never tiny
+    this.dt = options.solver?.initialStep ?? 0.01;
+    if (!this.solver.definition.adaptive && !(this.dt >= MIN_FIXED_STEP)) {
+      this.dt = MIN_FIXED_STEP;
+    }
     this.maxTime = 100; // Maximum simulation time
     
-    // Initialize populations
-    this.preyPop = parameters.prey.initialPopulation;
-    this.predatorPop = parameters.predator.initialPopulation;
+    // Solver statistics
+    this.solverStats = {
+      steps: 0,
+      rejectedSteps: 0,
+      functionEvaluations: 0,
+      estimatedError: this.solver.definition.adaptive ? 0 : null,
+      maxLocalError: this.solver.definition.adaptive ? 0 : null
+    };
+    
+    // Initialize populations, one entry per species in the web
+    this.populations = this.web.species.map(s => s.initialPopulation);
+    
+    // Integrated state: the populations, or their juvenile and adult
+    // compartments when species are stage structured
+    this.stages = createStageLayout(parameters, this.web);
+    this.state = this.stages.expand(this.populations);
+    
+    // Scheduled interventions, and the ones applied so far
+    this.events = createEventSchedule(parameters.events, this.web.species);
+    this.eventLog = [];
+    this.unrecordedEvents = [];
     
     // Track equilibrium detection
     this.equilibriumBuffer = [];
@@ -24,76 +58,220 @@ export class EcosystemSimulator {
     this.extinctionOccurred = false;
   }
 
-  // Calculate resource availability with seasonal variation
+  // Total population of basal species (the prey in a two-species run)
+  get preyPop() {
+    return this.sumByRole(this.populations, 'basal');
+  }
+
+  // Total population of consumer species (the predator in a two-species run)
+  get predatorPop() {
+    return this.sumByRole(this.populations, 'consumer');
+  }
+
+  sumByRole(populations, role) {
+    return this.web.species.reduce((sum, s, i) =>
+      s.role === role ? sum + populations[i] : sum, 0);
+  }
+
+  // Calculate resource availability from the environmental forcing
   calculateResourceLevel(time) {
-    const base = this.params.environment.resourceAvailability;
-    
-    if (!this.params.environment.seasonalVariation) {
-      return base;
-    }
-    
-    const amplitude = this.params.environment.seasonalAmplitude;
-    const seasonalFactor = Math.sin(2 * Math.PI * time / 12); // Annual cycle
-    
-    return Math.max(0, Math.min(1, base + amplitude * seasonalFactor));
+    // Droughts scale whatever the forcing provides
+    return this.forcing.resourceLevel(time) * this.events.resourceFactor(time);
   }
 
-  // Modified Lotka-Volterra equations
-  calculateDerivatives(prey, predator, resourceLevel) {
-    const p = this.params;
-    
-    // Adjust birth rate based on resource availability
-    const effectiveBirthRate = p.prey.birthRate * resourceLevel;
-    
-    // Prey equation with logistic growth
-    const preyGrowth = effectiveBirthRate * prey;
-    const predation = p.predator.huntingEfficiency * prey * predator;
-    const preyCompetition = (p.prey.birthRate * prey * prey) / p.prey.carryingCapacity;
-    
-    const dPreyDt = preyGrowth - predation - preyCompetition;
-    
-    // Predator equation
-    const predatorGrowth = p.predator.huntingEfficiency * 0.5 * prey * predator;
-    const predatorDeath = p.predator.deathRate * predator;
+  // Per-capita processes behind the modified Lotka-Volterra equations, split
+  // into population gains and losses for every species in the web. Harvesting
+  // scheduled at `time` is included when a time is given. Stage-structured
+  // runs pass per-species views saying who breeds, hunts and can be caught.
+  calculateFluxes(populations, resourceLevel, time, views = null) {
+    const { species, interactions } = this.web;
+    const n = species.length;
+    const births = new Array(n).fill(0);
+    const predation = new Array(n).fill(0);
+    const competition = new Array(n).fill(0);
+    const food = new Array(n).fill(0);
+    
+    for (let i = 0; i < n; i++) {
+      const s = species[i];
+      const x = populations[i];
+      const adults = views ? views[i].adults : x;
+      const hunters = views ? views[i].hunters : x;
+      
+      // Logistic growth, with birth rate scaled by resource availability
+      if (s.growthRate > 0) {
+        births[i] = s.growthRate * resourceLevel * adults;
+        if (s.carryingCapacity) {
+          competition[i] += (s.growthRate * x * x) / s.carryingCapacity;
+        }
+      }
+      
+      for (let j = 0; j < n; j++) {
+        const coefficient = interactions[i][j];
+        
+        if (coefficient > 0) {
+          // Species i preys on species j through the selected functional response
+          const available = views ? views[j].vulnerable : populations[j];
+          const consumption = this.model.functionalResponse(available, hunters, coefficient);
+          births[i] += s.conversionEfficiency * consumption * adults;
+          predation[j] += consumption * hunters;
+          food[i] += populations[j];
+        } else if (coefficient < 0) {
+          // Direct competition between species i and j
+          competition[i] -= coefficient * x * populations[j];
+        }
+      }
+    }
     
-    // Add starvation factor when prey is scarce
-    const starvationFactor = prey < 10 ? 2.0 : 1.0;
+    // Scarce resources can raise consumer mortality through the forcing
+    const deathFactor = this.forcing.deathFactor(resourceLevel);
+    const mortalityFactors = species.map((s, i) => {
+      // Add starvation factor when prey is scarce
+      const starvationFactor = s.role === 'consumer' && food[i] < 10 ? 2.0 : 1.0;
+      const forcingFactor = s.role === 'consumer' ? deathFactor : 1.0;
+      return starvationFactor * forcingFactor;
+    });
+    const mortality = species.map((s, i) => s.deathRate * populations[i] * mortalityFactors[i]);
     
-    const dPredatorDt = predatorGrowth - predatorDeath * starvationFactor;
+    const rates = time === undefined ? null : this.events.harvestRates(time);
+    const harvest = populations.map((x, i) => (rates ? rates[i] * x : 0));
     
+    return { births, predation, competition, mortality, harvest, mortalityFactors };
+  }
+
+  // Modified Lotka-Volterra equations for every species in the web
+  calculatePopulationDerivatives(populations, resourceLevel, time) {
+    const { births, predation, competition, mortality, harvest } =
+      this.calculateFluxes(populations, resourceLevel, time);
+    return births.map((birth, i) => birth - predation[i] - competition[i] - mortality[i] - harvest[i]);
+  }
+
+  // Two-species form of the equations, used for phase space analysis and
+  // by every cell of a spatial grid
+  calculateDerivatives(prey, predator, resourceLevel, time) {
+    const [dPreyDt, dPredatorDt] = this.calculatePopulationDerivatives([prey, predator], resourceLevel, time);
     return { dPreyDt, dPredatorDt };
   }
 
-  // Runge-Kutta 4th order integration for accuracy
-  rungeKutta4Step(prey, predator, time) {
+  // State derivatives as a function of time, in the form the solvers expect
+  derivatives(time, state) {
     const resourceLevel = this.calculateResourceLevel(time);
+    if (!this.stages.structured) {
+      return this.calculatePopulationDerivatives(state, resourceLevel, time);
+    }
+    const fluxes = this.calculateFluxes(this.stages.totals(state), resourceLevel, time, this.stages.views(state));
+    return this.stages.derivatives(state, fluxes);
+  }
+
+  // Take one solver step from the current state without committing it
+  integrate() {
+    const result = takeStep(
+      this.solver,
+      (t, y) => this.derivatives(t, y),
+      this.currentTime,
+      this.state,
+      this.dt,
+      // Adaptive steps land exactly on the next scheduled event
+      Math.min(this.maxTime, this.events.nextTime())
+    );
+    
+    // Adaptive solvers carry their step size over to the next step
+    this.dt = result.nextStepSize;
+    
+    this.solverStats.steps++;
+    this.solverStats.rejectedSteps += result.rejected;
+    this.solverStats.functionEvaluations += result.evaluations;
+    if (result.localError != null) {
+      this.solverStats.estimatedError += result.localError;
+      this.solverStats.maxLocalError = Math.max(this.solverStats.maxLocalError, result.localError);
+    }
     
-    // k1
-    const k1 = this.calculateDerivatives(prey, predator, resourceLevel);
-    
-    // k2
-    const k2Prey = prey + 0.5 * this.dt * k1.dPreyDt;
-    const k2Predator = predator + 0.5 * this.dt * k1.dPredatorDt;
-    const k2 = this.calculateDerivatives(k2Prey, k2Predator, resourceLevel);
-    
-    // k3
-    const k3Prey = prey + 0.5 * this.dt * k2.dPreyDt;
-    const k3Predator = predator + 0.5 * this.dt * k2.dPredatorDt;
-    const k3 = this.calculateDerivatives(k3Prey, k3Predator, resourceLevel);
-    
-    // k4
-    const k4Prey = prey + this.dt * k3.dPreyDt;
-    const k4Predator = predator + this.dt * k3.dPredatorDt;
-    const k4 = this.calculateDerivatives(k4Prey, k4Predator, resourceLevel);
-    
-    // Combine
-    const newPrey = Math.max(0, prey + (this.dt / 6) * 
-      (k1.dPreyDt + 2*k2.dPreyDt + 2*k3.dPreyDt + k4.dPreyDt));
-    
-    const newPredator = Math.max(0, predator + (this.dt / 6) * 
-      (k1.dPredatorDt + 2*k2.dPredatorDt + 2*k3.dPredatorDt + k4.dPredatorDt));
+    const state = result.y.map(x => Math.max(0, x));
+    return {
+      time: result.time,
+      populations: this.stages.totals(state),
+      state,
+      interpolate: result.interpolate && (t => this.stages.totals(result.interpolate(t))),
+      interpolateState: result.interpolate
+    };
+  }
+
+  // Apply the scheduled population changes that have come due
+  applyDueEvents(round = false) {
+    if (this.events.nextTime() > this.currentTime) return;
+
+    const { populations, applied } = this.events.applyDue(this.currentTime, this.populations, round);
+    this.populations = populations;
+    this.state = this.stages.rescale(this.state, populations);
+    this.eventLog.push(...applied);
+    this.unrecordedEvents.push(...applied.map(event => event.label));
+  }
+
+  // Swap in new parameters during a run. The populations carry over, while
+  // the rates, interaction model, forcing and stage settings apply from the
+  // next step. The species and the event schedule stay those the run began
+  // with; a change of stage layout regroups the populations from their totals.
+  updateParameters(parameters) {
+    const web = buildFoodWeb(parameters);
+    const stages = createStageLayout(parameters, web);
+    const sameLayout = stages.compartments.join() === this.stages.compartments.join();
+
+    this.params = parameters;
+    this.model = resolveInteractionModel(parameters.model);
+    this.web = web;
+    this.forcing = createForcing(parameters.environment);
+    this.state = sameLayout ? this.state : stages.expand(this.populations);
+    this.stages = stages;
+
+    // An equilibrium under the old rates says nothing about the new ones
+    this.equilibriumReached = false;
+    this.equilibriumPoint = null;
+  }
+
+  // Make the state reached by an integration step current
+  commitState(result) {
+    this.populations = result.populations;
+    this.state = result.state ?? result.populations;
+  }
+
+  // Advance the simulation by one integration step
+  step() {
+    this.applyDueEvents();
+    const result = this.integrate();
+    this.commitState(result);
+    this.currentTime = result.time;
+    return result;
+  }
+
+  // Snapshot of a state (the current one by default) for the history. Stage
+  // totals are reported when the compartments behind the state are known.
+  recordState(time = this.currentTime, state = this.populations,
+    compartments = state === this.populations ? this.state : null) {
+    const populations = {};
+    this.web.species.forEach((s, i) => {
+      populations[s.id] = Math.round(state[i] * 10) / 10;
+    });
     
-    return { prey: newPrey, predator: newPredator };
+    this.history.push({
+      time: Math.round(time * 100) / 100,
+      preyPopulation: Math.round(this.sumByRole(state, 'basal') * 10) / 10,
+      predatorPopulation: Math.round(this.sumByRole(state, 'consumer') * 10) / 10,
+      resourceLevel: this.calculateResourceLevel(time),
+      populations,
+      ...(this.stages.structured && compartments && { stages: this.roundStages(compartments) }),
+      // Events applied since the previous snapshot
+      ...(this.unrecordedEvents.length > 0 && { events: this.unrecordedEvents })
+    });
+    this.unrecordedEvents = [];
+  }
+
+  // Juvenile and adult totals of the staged species, to one decimal
+  roundStages(compartments) {
+    const stages = this.stages.summary(compartments);
+    Object.values(stages).forEach(stage => {
+      stage.juvenile = Math.round(stage.juvenile * 10) / 10;
+      stage.adult = Math.round(stage.adult * 10) / 10;
+    });
+    return stages;
   }
 
   // Check for equilibrium
@@ -103,95 +281,129 @@ export class EcosystemSimulator {
     }
     
     const recent = this.history.slice(-this.equilibriumBufferSize);
-    const avgPrey = recent.reduce((sum, h) => sum + h.preyPopulation, 0) / recent.length;
-    const avgPredator = recent.reduce((sum, h) => sum + h.predatorPopulation, 0) / recent.length;
+    const averages = {};
     
-    // Check if populations are stable (low variance)
-    const preyVariance = recent.reduce((sum, h) => 
-      sum + Math.pow(h.preyPopulation - avgPrey, 2), 0) / recent.length;
-    const predatorVariance = recent.reduce((sum, h) => 
-      sum + Math.pow(h.predatorPopulation - avgPredator, 2), 0) / recent.length;
-    
-    const preyStable = Math.sqrt(preyVariance) / avgPrey < this.equilibriumTolerance;
-    const predatorStable = Math.sqrt(predatorVariance) / avgPredator < this.equilibriumTolerance;
-    
-    if (preyStable && predatorStable) {
-      this.equilibriumReached = true;
-      this.equilibriumPoint = {
-        prey: avgPrey,
-        predator: avgPredator,
-        timeToReach: this.currentTime
-      };
-      return true;
+    // Check if every population is stable (low variance)
+    for (const { id } of this.web.species) {
+      const avg = recent.reduce((sum, h) => sum + h.populations[id], 0) / recent.length;
+      const variance = recent.reduce((sum, h) =>
+        sum + Math.pow(h.populations[id] - avg, 2), 0) / recent.length;
+      
+      if (!(Math.sqrt(variance) / avg < this.equilibriumTolerance)) {
+        return false;
+      }
+      averages[id] = avg;
     }
     
-    return false;
+    this.equilibriumReached = true;
+    this.equilibriumPoint = {
+      prey: recent.reduce((sum, h) => sum + h.preyPopulation, 0) / recent.length,
+      predator: recent.reduce((sum, h) => sum + h.predatorPopulation, 0) / recent.length,
+      timeToReach: this.currentTime,
+      populations: averages
+    };
+    return true;
   }
 
-  // Check for extinction
+  // Check for extinction of any species
   checkExtinction() {
-    if (this.preyPop < 1 || this.predatorPop < 1) {
+    if (this.populations.some(x => x < 1)) {
       this.extinctionOccurred = true;
       return true;
     }
     return false;
   }
 
-  // Run the complete simulation
-  simulate() {
+  // Run the complete simulation, optionally reporting the fraction done
+  simulate(onProgress) {
     const recordInterval = 0.1; // Record data every 0.1 time units
+    const adaptive = this.solver.definition.adaptive;
     let lastRecord = 0;
+    let nextRecord = recordInterval;
     
     while (this.currentTime < this.maxTime) {
+      this.applyDueEvents();
+      
       // Store history at intervals
-      if (this.currentTime - lastRecord >= recordInterval) {
-        this.history.push({
-          time: Math.round(this.currentTime * 100) / 100,
-          preyPopulation: Math.round(this.preyPop * 10) / 10,
-          predatorPopulation: Math.round(this.predatorPop * 10) / 10,
-          resourceLevel: this.calculateResourceLevel(this.currentTime)
-        });
+      if (!adaptive && this.currentTime - lastRecord >= recordInterval) {
+        this.recordState();
         lastRecord = this.currentTime;
       }
       
       // Perform integration step
-      const newPops = this.rungeKutta4Step(this.preyPop, this.predatorPop, this.currentTime);
-      this.preyPop = newPops.prey;
-      this.predatorPop = newPops.predator;
+      const result = this.integrate();
+      this.commitState(result);
+      
+      // Adaptive steps are recorded on the fixed grid through dense output
+      if (adaptive) {
+        while (nextRecord <= result.time) {
+          const state = result.interpolateState(nextRecord).map(x => Math.max(0, x));
+          this.recordState(nextRecord, this.stages.totals(state), state);
+          nextRecord += recordInterval;
+        }
+      }
+      
+      // Runs with events still to come carry on, so a reintroduction can follow an extinction
+      const eventsPending = this.events.hasPendingAfter(result.time, this.maxTime);
       
       // Check for extinction
-      if (this.checkExtinction()) {
+      if (this.checkExtinction() && !eventsPending) {
         break;
       }
       
       // Check for equilibrium
-      if (!this.equilibriumReached && this.checkEquilibrium()) {
+      if (!this.equilibriumReached && !eventsPending && this.checkEquilibrium()) {
         // Continue for a bit after equilibrium to confirm stability
         const extraTime = Math.min(10, this.maxTime - this.currentTime);
         this.maxTime = this.currentTime + extraTime;
       }
       
-      this.currentTime += this.dt;
+      this.currentTime = result.time;
+      onProgress?.(this.currentTime / this.maxTime);
     }
     
     // Add final state
-    this.history.push({
-      time: Math.round(this.currentTime * 100) / 100,
-      preyPopulation: Math.round(this.preyPop * 10) / 10,
-      predatorPopulation: Math.round(this.predatorPop * 10) / 10,
-      resourceLevel: this.calculateResourceLevel(this.currentTime)
-    });
+    this.recordState();
     
     return this.getResults();
   }
 
+  // How the trajectory was integrated, reported with the results
+  integrationSummary() {
+    return {
+      mode: 'deterministic',
+      solver: {
+        method: this.solver.definition.id,
+        ...(this.solver.definition.adaptive && {
+          absoluteTolerance: this.solver.settings.absoluteTolerance,
+          relativeTolerance: this.solver.settings.relativeTolerance
+        }),
+        ...this.solverStats
+      }
+    };
+  }
+
   // Get simulation results
   getResults() {
+    const speciesSummary = {};
+    this.web.species.forEach((s, i) => {
+      const series = this.history.map(h => h.populations[s.id]);
+      speciesSummary[s.id] = {
+        max: Math.max(...series),
+        min: Math.min(...series),
+        final: this.populations[i]
+      };
+    });
+    
     return {
       timeSteps: this.history,
+      species: this.web.species.map(({ id, name, role, color }) => ({ id, name, role, color })),
       equilibriumReached: this.equilibriumReached,
       equilibriumPoint: this.equilibriumPoint,
       extinctionOccurred: this.extinctionOccurred,
+      events: this.eventLog,
+      eventPeriods: this.events.periods(this.currentTime),
+      ...this.integrationSummary(),
       summary: {
         duration: this.currentTime,
         maxPrey: Math.max(...this.history.map(h => h.preyPopulation)),
@@ -201,38 +413,19 @@ export class EcosystemSimulator {
         finalPrey: this.preyPop,
         finalPredator: this.predatorPop,
         averageResourceLevel: this.history.reduce((sum, h) => 
-          sum + h.resourceLevel, 0) / this.history.length
+          sum + h.resourceLevel, 0) / this.history.length,
+        species: speciesSummary
       }
     };
   }
 
   // Static analysis methods
-  static predictEquilibrium(parameters) {
-    // Simplified equilibrium prediction using linearization
-    const p = parameters;
-    
-    // For simple Lotka-Volterra without carrying capacity
-    const preyEquilibrium = p.predator.deathRate / 
-      (p.predator.huntingEfficiency * 0.5);
-    
-    const predatorEquilibrium = (p.prey.birthRate * p.environment.resourceAvailability) / 
-      p.predator.huntingEfficiency;
-    
-    // Adjust for carrying capacity
-    const adjustedPreyEq = Math.min(preyEquilibrium, p.prey.carryingCapacity * 0.8);
-    
-    return {
-      prey: adjustedPreyEq,
-      predator: predatorEquilibrium,
-      isStable: adjustedPreyEq > 0 && predatorEquilibrium > 0
-    };
-  }
-
-  // Calculate phase space trajectory for visualization
-  static calculatePhaseSpace(parameters, points = 20) {
+  // Calculate the phase space vector field on a grid over the given bounds
+  static calculatePhaseSpace(parameters, points = 20, bounds = {}) {
     const trajectory = [];
-    const preyRange = parameters.prey.carryingCapacity;
-    const predatorRange = parameters.predator.initialPopulation * 10;
+    const preyRange = bounds.preyMax ?? parameters.prey.carryingCapacity;
+    const predatorRange = bounds.predatorMax ?? parameters.predator.initialPopulation * 10;
+    const sim = new EcosystemSimulator(parameters);
     
     for (let i = 0; i < points; i++) {
       const prey = (i / points) * preyRange;
@@ -240,12 +433,6 @@ export class EcosystemSimulator {
       for (let j = 0; j < points; j++) {
         const predator = (j / points) * predatorRange;
         
-        const sim = new EcosystemSimulator({
-          ...parameters,
-          prey: { ...parameters.prey, initialPopulation: prey },
-          predator: { ...parameters.predator, initialPopulation: predator }
-        });
-        
         const derivatives = sim.calculateDerivatives(prey, predator, 
           parameters.environment.resourceAvailability);
         
@@ -0,0 +1,291 @@
+// ODE solvers for the simulation engine
+// Every solver advances dy/dt = f(t, y) by one step. Adaptive solvers also
+// return a local error estimate and a dense output interpolant so results can
+// be recorded at fixed times regardless of the step sizes taken.
+
+import { numericalJacobian, solveLinearSystem } from './numerics.js';
+
+export const DEFAULT_SOLVER = 'rk4';
+
+const DEFAULT_SETTINGS = {
+  absoluteTolerance: 1e-6,
+  relativeTolerance: 1e-6,
+  minStep: 1e-8,
+  maxStep: 1
+};
+
+// Smallest step of the fixed-step solvers, which take maxTime / step steps
+export const MIN_FIXED_STEP = 1e-3;
+
+// y + h * sum(coefficients[k] * slopes[k])
+function combine(y, h, slopes, coefficients) {
+  return y.map((value, i) => {
+    let increment = 0;
+    for (let k = 0; k < coefficients.length; k++) {
+      if (coefficients[k] !== 0) {
+        increment += coefficients[k] * slopes[k][i];
+      }
+    }
+    return value + h * increment;
+  });
+}
+
+// Scaled max norm of a local error vector; values <= 1 are within tolerance
+function errorNorm(error, y0, y1, settings) {
+  let norm = 0;
+  for (let i = 0; i < error.length; i++) {
+    const scale = settings.absoluteTolerance +
+      settings.relativeTolerance * Math.max(Math.abs(y0[i]), Math.abs(y1[i]));
+    norm = Math.max(norm, Math.abs(error[i]) / scale);
+  }
+  return norm;
+}
+
+// Cubic Hermite interpolant between two steps, used as dense output
+function hermiteInterpolant(t0, y0, f0, t1, y1, f1) {
+  const h = t1 - t0;
+  return (time) => {
+    const s = (time - t0) / h;
+    const h00 = (1 + 2 * s) * (1 - s) * (1 - s);
+    const h10 = s * (1 - s) * (1 - s);
+    const h01 = s * s * (3 - 2 * s);
+    const h11 = s * s * (s - 1);
+    return y0.map((value, i) =>
+      h00 * value + h10 * h * f0[i] + h01 * y1[i] + h11 * h * f1[i]);
+  };
+}
+
+// Dormand-Prince 5(4) tableau
+const DP_A = [
+  [],
+  [1 / 5],
+  [3 / 40, 9 / 40],
+  [44 / 45, -56 / 15, 32 / 9],
+  [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+  [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+  [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84]
+];
+const DP_C = [0, 1 / 5, 3 / 10, 4 / 5, 8 / 9, 1, 1];
+// Difference between the 5th and embedded 4th order weights
+const DP_E = [71 / 57600, 0, -71 / 16695, 71 / 1920, -17253 / 339200, 22 / 525, -1 / 40];
+
+export const SOLVERS = {
+  euler: {
+    id: 'euler',
+    name: 'Euler',
+    description: 'First-order explicit method with a fixed step',
+    adaptive: false,
+    step(f, t, y, h) {
+      const k1 = f(t, y);
+      return { y: combine(y, h, [k1], [1]), evaluations: 1, error: null };
+    }
+  },
+  rk4: {
+    id: 'rk4',
+    name: 'Runge-Kutta 4',
+    description: 'Classic fourth-order explicit method with a fixed step',
+    adaptive: false,
+    step(f, t, y, h) {
+      const k1 = f(t, y);
+      const k2 = f(t + h / 2, combine(y, h, [k1], [0.5]));
+      const k3 = f(t + h / 2, combine(y, h, [k2], [0.5]));
+      const k4 = f(t + h, combine(y, h, [k3], [1]));
+      return {
+        y: combine(y, h, [k1, k2, k3, k4], [1 / 6, 2 / 6, 2 / 6, 1 / 6]),
+        evaluations: 4,
+        error: null
+      };
+    }
+  },
+  rk45: {
+    id: 'rk45',
+    name: 'Dormand-Prince RK45',
+    description: 'Adaptive fifth-order explicit method with dense output',
+    adaptive: true,
+    order: 5,
+    step(f, t, y, h, settings) {
+      const k = [f(t, y)];
+      for (let stage = 1; stage < 7; stage++) {
+        k.push(f(t + DP_C[stage] * h, combine(y, h, k, DP_A[stage])));
+      }
+
+      // The last stage is evaluated at the new point (first same as last)
+      const yNext = combine(y, h, k, DP_A[6]);
+      const error = combine(new Array(y.length).fill(0), h, k, DP_E);
+
+      return {
+        y: yNext,
+        evaluations: 7,
+        error: errorNorm(error, y, yNext, settings),
+        localError: Math.max(...error.map(Math.abs)),
+        interpolate: hermiteInterpolant(t, y, k[0], t + h, yNext, k[6])
+      };
+    }
+  },
+  implicit: {
+    id: 'implicit',
+    name: 'Implicit (Backward Euler)',
+    description: 'Adaptive implicit method for stiff parameter sets',
+    adaptive: true,
+    order: 1,
+    step(f, t, y, h, settings) {
+      const tNext = t + h;
+      const f0 = f(t, y);
+      let evaluations = 1;
+
+      // Newton iteration on z - y - h f(t + h, z) = 0, starting from an explicit Euler guess
+      let z = combine(y, h, [f0], [1]);
+      let fz = f(tNext, z);
+      evaluations++;
+
+      const jacobian = numericalJacobian((state) => f(tNext, state), z, fz);
+      evaluations += y.length;
+      const newtonMatrix = jacobian.map((row, i) =>
+        row.map((value, j) => (i === j ? 1 : 0) - h * value));
+
+      let converged = false;
+      for (let iteration = 0; iteration < 10; iteration++) {
+        const residual = z.map((value, i) => -(value - y[i] - h * fz[i]));
+        const delta = solveLinearSystem(newtonMatrix, residual);
+        if (!delta) break;
+
+        z = z.map((value, i) => value + delta[i]);
+        fz = f(tNext, z);
+        evaluations++;
+
+        if (errorNorm(delta, y, z, settings) < 0.01) {
+          converged = true;
+          break;
+        }
+      }
+
+      // A failed Newton solve is treated like a rejected step
+      if (!converged) {
+        return { y: z, evaluations, error: Infinity, localError: Infinity };
+      }
+
+      // Local truncation error of backward Euler is about h/2 * (f(z) - f(y))
+      const error = fz.map((value, i) => (h / 2) * (value - f0[i]));
+
+      return {
+        y: z,
+        evaluations,
+        error: errorNorm(error, y, z, settings),
+        localError: Math.max(...error.map(Math.abs)),
+        interpolate: hermiteInterpolant(t, y, f0, tNext, z, fz)
+      };
+    }
+  }
+};
+
+export function isKnownSolver(method) {
+  return Object.prototype.hasOwnProperty.call(SOLVERS, method);
+}
+
+// Resolve `{ method, absoluteTolerance, relativeTolerance, ... }` into a
+// solver definition plus complete settings
+export function resolveSolver(config = {}) {
+  const method = config.method || DEFAULT_SOLVER;
+
+  if (!isKnownSolver(method)) {
+    throw new Error(`Unknown solver: ${method}`);
+  }
+
+  const settings = { ...DEFAULT_SETTINGS };
+  for (const key of Object.keys(DEFAULT_SETTINGS)) {
+    if (typeof config[key] === 'number') {
+      settings[key] = config[key];
+    }
+  }
+
+  return { definition: SOLVERS[method], settings };
+}
+
+// Returns an error message if the solver options are invalid
+export function validateSolverOptions(config) {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return 'Solver options must be an object';
+  }
+  if (config.method !== undefined && !isKnownSolver(config.method)) {
+    return `Unknown solver: ${config.method}`;
+  }
+
+  for (const key of [...Object.keys(DEFAULT_SETTINGS), 'initialStep']) {
+    const value = config[key];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || !(value > 0))) {
+      return `Solver option ${key} must be a positive number`;
+    }
+  }
+
+  const { minStep, maxStep } = { ...DEFAULT_SETTINGS, ...config };
+  if (minStep > maxStep) {
+    return 'Solver option minStep must not exceed maxStep';
+  }
+
+  const { initialStep } = config;
+  if (initialStep !== undefined) {
+    if (initialStep < minStep || initialStep > maxStep) {
+      return `Solver option initialStep must be between ${minStep} and ${maxStep}`;
+    }
+    const method = config.method || DEFAULT_SOLVER;
+    if (!SOLVERS[method].adaptive && initialStep < MIN_FIXED_STEP) {
+      return `The ${method} solver takes fixed steps of at least ${MIN_FIXED_STEP}`;
+    }
+  }
+
+  return null;
+}
+
+// Take one step of size h, shrinking and retrying adaptive steps until the
+// error estimate is within tolerance
+export function takeStep(solver, f, t, y, h, tMax = Infinity) {
+  const { definition, settings } = solver;
+
+  if (!definition.adaptive) {
+    const result = definition.step(f, t, y, h, settings);
+    return { ...result, time: t + h, stepSize: h, nextStepSize: h, rejected: 0 };
+  }
+
+  let stepSize = Math.min(h, settings.maxStep, tMax - t);
+  let rejected = 0;
+  let evaluations = 0;
+
+  for (;;) {
+    if (stepSize < settings.minStep) {
+      throw new Error(`Step size fell below ${settings.minStep} at t=${t.toFixed(4)}; the system may be too stiff for this solver`);
+    }
+
+    const result = definition.step(f, t, y, stepSize, settings);
+    evaluations += result.evaluations;
+
+    // Standard step size controller with safety factor and growth limits
+    const exponent = -1 / (definition.order + 1);
+    const factor = result.error === 0
+      ? 5
+      : Math.min(5, Math.max(0.2, 0.9 * Math.pow(result.error, exponent)));
+
+    if (result.error <= 1) {
+      return {
+        ...result,
+        evaluations,
+        time: t + stepSize,
+        stepSize,
+        nextStepSize: Math.min(settings.maxStep, stepSize * factor),
+        rejected
+      };
+    }
+
+    rejected++;
+    stepSize *= Number.isFinite(factor) ? factor : 0.2;
+  }
+}
+
+// Serializable solver declarations for the API
+export function describeSolvers() {
+  return Object.values(SOLVERS).map(({ id, name, description, adaptive }) => ({
+    id,
+    name,
+    description,
+    adaptive
+  }));
+}
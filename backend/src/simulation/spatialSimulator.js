@@ -0,0 +1,217 @@
+// Spatial Simulation Engine
+// Runs the two-species model in every cell of a 2D grid and lets prey and
+// predators diffuse between neighbouring cells, which produces travelling
+// waves and spirals. Reaction and diffusion are integrated together with
+// explicit Euler steps on a grid of unit cells.
+
+import { EcosystemSimulator } from './simulator.js';
+import { resolveSolver } from './solvers.js';
+import { createRandom } from './random.js';
+
+export const BOUNDARY_CONDITIONS = ['periodic', 'reflecting', 'absorbing'];
+export const INITIAL_PATTERNS = ['spot', 'uniform', 'random'];
+
+const MAX_GRID_SIZE = 200;
+const MAX_CELLS = 10000;
+
+const DEFAULT_OPTIONS = {
+  width: 40,
+  height: 40,
+  preyDiffusion: 0.2, // Cells² per unit of time
+  predatorDiffusion: 0.1,
+  boundary: 'periodic',
+  initial: 'spot',
+  dt: 0.05
+};
+
+const isNumber = (value) => typeof value === 'number' && Number.isFinite(value);
+
+// Returns an error message if the spatial options are invalid
+export function validateSpatialOptions(options = {}) {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const { width, height, preyDiffusion, predatorDiffusion, boundary, initial, dt } = settings;
+
+  if (!Number.isInteger(width) || !Number.isInteger(height) ||
+      width < 3 || height < 3 || width > MAX_GRID_SIZE || height > MAX_GRID_SIZE) {
+    return `Spatial grid width and height must be integers between 3 and ${MAX_GRID_SIZE}`;
+  }
+  if (width * height > MAX_CELLS) {
+    return `Spatial grid is limited to ${MAX_CELLS} cells`;
+  }
+  if (!isNumber(preyDiffusion) || !isNumber(predatorDiffusion) || preyDiffusion < 0 || predatorDiffusion < 0) {
+    return 'Diffusion coefficients must be non-negative numbers';
+  }
+  if (!BOUNDARY_CONDITIONS.includes(boundary)) {
+    return `Boundary must be one of: ${BOUNDARY_CONDITIONS.join(', ')}`;
+  }
+  if (!INITIAL_PATTERNS.includes(initial)) {
+    return `Initial pattern must be one of: ${INITIAL_PATTERNS.join(', ')}`;
+  }
+  if (!isNumber(dt) || !(dt > 0) || dt > 1) {
+    return 'Spatial option dt must be a number in (0, 1]';
+  }
+  // Explicit diffusion on unit cells is stable while D * dt <= 1/4
+  if (Math.max(preyDiffusion, predatorDiffusion) * dt > 0.25) {
+    return 'Diffusion is unstable for this step: keep diffusion × dt at or below 0.25';
+  }
+  return null;
+}
+
+export class SpatialSimulator extends EcosystemSimulator {
+  constructor(parameters, options = {}) {
+    super(parameters, options);
+    this.settings = { ...DEFAULT_OPTIONS };
+    for (const key of Object.keys(DEFAULT_OPTIONS)) {
+      if (options.spatial?.[key] !== undefined) {
+        this.settings[key] = options.spatial[key];
+      }
+    }
+    this.random = createRandom(options.seed);
+
+    // Every cell takes fixed Euler steps
+    this.solver = resolveSolver({ method: 'euler' });
+    this.dt = this.settings.dt;
+
+    const [prey, predator] = this.populations;
+    this.grid = this.initialGrid(prey, predator);
+    this.populations = this.meanDensities(this.grid);
+  }
+
+  // Starting densities. Every pattern has the scenario's initial populations
+  // as its mean density, so the totals match a non-spatial run.
+  initialGrid(prey, predator) {
+    const { width, height, initial } = this.settings;
+    const cells = width * height;
+    const grid = { prey: new Float64Array(cells), predator: new Float64Array(cells) };
+
+    if (initial === 'spot') {
+      // Prey everywhere, predators released in a disc at the centre
+      const radius = Math.max(1, Math.min(width, height) / 8);
+      const inside = [];
+      for (let c = 0; c < cells; c++) {
+        const dx = (c % width) - (width - 1) / 2;
+        const dy = Math.floor(c / width) - (height - 1) / 2;
+        grid.prey[c] = prey;
+        if (dx * dx + dy * dy <= radius * radius) inside.push(c);
+      }
+      inside.forEach(c => { grid.predator[c] = predator * cells / inside.length; });
+    } else {
+      // Uniform cells get a 1% perturbation so patterns can form
+      const spread = initial === 'random' ? 1 : 0.01;
+      for (let c = 0; c < cells; c++) {
+        grid.prey[c] = prey * (1 + spread * (2 * this.random.next() - 1));
+        grid.predator[c] = predator * (1 + spread * (2 * this.random.next() - 1));
+      }
+
+      // Rescale so the drawn densities average exactly to the initial ones
+      const [preyMean, predatorMean] = this.meanDensities(grid);
+      if (preyMean > 0) grid.prey.forEach((x, c) => { grid.prey[c] = x * prey / preyMean; });
+      if (predatorMean > 0) grid.predator.forEach((x, c) => { grid.predator[c] = x * predator / predatorMean; });
+    }
+    return grid;
+  }
+
+  meanDensities(grid) {
+    const cells = grid.prey.length;
+    return [
+      grid.prey.reduce((sum, x) => sum + x, 0) / cells,
+      grid.predator.reduce((sum, x) => sum + x, 0) / cells
+    ];
+  }
+
+  // Discrete Laplacian of a field at a cell, with the boundary condition
+  // deciding what lies beyond the edge
+  laplacian(field, x, y) {
+    const { width, height, boundary } = this.settings;
+    const value = field[y * width + x];
+
+    const at = (nx, ny) => {
+      if (nx >= 0 && nx < width && ny >= 0 && ny < height) return field[ny * width + nx];
+      if (boundary === 'periodic') {
+        return field[((ny + height) % height) * width + ((nx + width) % width)];
+      }
+      // Reflecting edges mirror the cell (no flux); absorbing edges are empty
+      return boundary === 'reflecting' ? value : 0;
+    };
+
+    return at(x - 1, y) + at(x + 1, y) + at(x, y - 1) + at(x, y + 1) - 4 * value;
+  }
+
+  integrate() {
+    const { width, height, preyDiffusion, predatorDiffusion } = this.settings;
+    const { prey, predator } = this.grid;
+    const time = this.currentTime;
+    const dt = Math.min(this.dt, this.maxTime - time, this.events.nextTime() - time);
+    const resourceLevel = this.calculateResourceLevel(time);
+    const next = { prey: new Float64Array(prey.length), predator: new Float64Array(predator.length) };
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const c = y * width + x;
+        const { dPreyDt, dPredatorDt } = this.calculateDerivatives(prey[c], predator[c], resourceLevel, time);
+        next.prey[c] = Math.max(0, prey[c] + dt * (dPreyDt + preyDiffusion * this.laplacian(prey, x, y)));
+        next.predator[c] = Math.max(0,
+          predator[c] + dt * (dPredatorDt + predatorDiffusion * this.laplacian(predator, x, y)));
+      }
+    }
+
+    this.solverStats.steps++;
+    this.solverStats.functionEvaluations += prey.length;
+
+    return { time: time + dt, populations: this.meanDensities(next), interpolate: null, grid: next };
+  }
+
+  commitState(result) {
+    super.commitState(result);
+    this.grid = result.grid;
+  }
+
+  // Scheduled changes scale every cell by the change in mean density, or
+  // spread reintroduced individuals evenly over an empty grid
+  applyDueEvents() {
+    const before = this.populations;
+    super.applyDueEvents();
+    if (this.populations === before) return;
+
+    ['prey', 'predator'].forEach((id, i) => {
+      const field = this.grid[id];
+      if (before[i] > 0) {
+        const factor = this.populations[i] / before[i];
+        field.forEach((x, c) => { field[c] = x * factor; });
+      } else {
+        field.fill(this.populations[i]);
+      }
+    });
+  }
+
+  // Rounded densities of every cell, row by row, for streaming and results
+  getSnapshot() {
+    const { width, height } = this.settings;
+    const round = (field) => Array.from(field, x => Math.round(x * 10) / 10);
+    const prey = round(this.grid.prey);
+    const predator = round(this.grid.predator);
+
+    return {
+      time: this.currentTime,
+      width,
+      height,
+      prey,
+      predator,
+      max: {
+        prey: prey.reduce((max, x) => Math.max(max, x), 0),
+        predator: predator.reduce((max, x) => Math.max(max, x), 0)
+      }
+    };
+  }
+
+  integrationSummary() {
+    return {
+      mode: 'spatial',
+      spatial: {
+        ...this.settings,
+        steps: this.solverStats.steps,
+        grid: this.getSnapshot()
+      }
+    };
+  }
+}
@@ -0,0 +1,228 @@
+// Equilibrium and stability analysis for the two-species prey/predator model
+// Finds every fixed point of the current model, linearizes the equations
+// around it and classifies it from the eigenvalues of the Jacobian. Seasonal
+// forcing is ignored: the analysis uses the mean resource availability.
+
+import { EcosystemSimulator } from './simulator.js';
+import { numericalJacobian } from './numerics.js';
+
+const SCAN_POINTS = 4000; // Prey densities tested for coexistence points
+const BISECTION_STEPS = 100;
+const UNBOUNDED_PREY = 1e6; // Scan limit when prey have no carrying capacity
+
+// Eigenvalues of a 2x2 matrix as { real, imag } pairs
+export function eigenvalues2x2([[a, b], [c, d]]) {
+  const trace = a + d;
+  const determinant = a * d - b * c;
+  const discriminant = trace * trace - 4 * determinant;
+
+  if (discriminant >= 0) {
+    const root = Math.sqrt(discriminant);
+    return [
+      { real: (trace + root) / 2, imag: 0 },
+      { real: (trace - root) / 2, imag: 0 }
+    ];
+  }
+
+  const imag = Math.sqrt(-discriminant) / 2;
+  return [
+    { real: trace / 2, imag },
+    { real: trace / 2, imag: -imag }
+  ];
+}
+
+// Classify a fixed point from the eigenvalues of its Jacobian
+export function classifyFixedPoint(jacobian) {
+  const [[a, b], [c, d]] = jacobian;
+  const trace = a + d;
+  const determinant = a * d - b * c;
+  // Forward-difference Jacobians are only accurate to a few digits
+  const scale = Math.max(Math.abs(a), Math.abs(b), Math.abs(c), Math.abs(d), 1e-12);
+  const tolerance = 1e-6 * scale;
+
+  if (determinant < -tolerance * scale) return 'saddle';
+  if (Math.abs(determinant) <= tolerance * scale) return 'degenerate';
+
+  const oscillating = trace * trace - 4 * determinant < 0;
+  if (Math.abs(trace) <= tolerance) return oscillating ? 'center' : 'degenerate';
+  if (trace < 0) return oscillating ? 'stable focus' : 'stable node';
+  return oscillating ? 'unstable focus' : 'unstable node';
+}
+
+// Smallest P >= 0 at which predators eat `target` prey per time unit, or null
+function solveConsumption(consume, target) {
+  let high = 1;
+  while (consume(high) < target) {
+    high *= 2;
+    if (high > 1e15) return null;
+  }
+
+  let low = 0;
+  for (let i = 0; i < BISECTION_STEPS; i++) {
+    const mid = (low + high) / 2;
+    if (consume(mid) < target) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+// Terms of the two-species equations needed to trace the nullclines
+export function twoSpeciesTerms(simulator, resourceLevel) {
+  const [prey, predator] = simulator.web.species;
+  const attackRate = simulator.web.interactions[1][0];
+  const capacity = prey.carryingCapacity || Infinity;
+  const response = (N, P) => simulator.model.functionalResponse(N, P, attackRate);
+
+  return {
+    attackRate,
+    // Prey cannot grow beyond this density, so neither nullcline extends past it
+    preyLimit: Number.isFinite(capacity) ? resourceLevel * capacity : UNBOUNDED_PREY,
+
+    // Predator level at which prey growth balances predation (the prey nullcline)
+    nullclinePredator: (N) => {
+      const growth = prey.growthRate * N * (resourceLevel - N / capacity);
+      return solveConsumption(P => response(N, P) * P, growth);
+    },
+
+    // Predator net per-capita growth, with the same starvation rule as the simulator
+    predatorGrowth: (N, P) => {
+      const starvation = N < 10 ? 2 : 1;
+      return predator.conversionEfficiency * response(N, P) - predator.deathRate * starvation;
+    }
+  };
+}
+
+// Coexistence points: walk along the prey nullcline and find where predators
+// exactly break even
+function findCoexistencePoints(simulator, resourceLevel) {
+  const { attackRate, preyLimit, nullclinePredator, predatorGrowth: growthAt } =
+    twoSpeciesTerms(simulator, resourceLevel);
+  const predator = simulator.web.species[1];
+  if (!(preyLimit > 0) || !(attackRate > 0)) return [];
+
+  const predatorGrowth = (N) => {
+    const P = nullclinePredator(N);
+    return P === null ? null : growthAt(N, P);
+  };
+
+  const points = [];
+  let previousN = null;
+  let previousGrowth = null;
+
+  for (let k = 0; k <= SCAN_POINTS; k++) {
+    // Geometric spacing resolves low prey densities as well as high ones
+    const N = preyLimit * Math.pow(1e-6, 1 - k / SCAN_POINTS) * (1 - 1e-9);
+    const growth = predatorGrowth(N);
+
+    if (growth !== null && previousGrowth !== null && Math.sign(growth) !== Math.sign(previousGrowth)) {
+      let low = previousN;
+      let high = N;
+      for (let i = 0; i < BISECTION_STEPS; i++) {
+        const mid = (low + high) / 2;
+        if (Math.sign(predatorGrowth(mid)) === Math.sign(previousGrowth)) {
+          low = mid;
+        } else {
+          high = mid;
+        }
+      }
+
+      const root = (low + high) / 2;
+      // A sign change across the starvation threshold is a jump, not a root
+      if (Math.abs(predatorGrowth(root)) < 1e-6 * Math.max(1, predator.deathRate)) {
+        points.push([root, nullclinePredator(root)]);
+      }
+    }
+
+    previousN = N;
+    previousGrowth = growth;
+  }
+
+  return points;
+}
+
+function describeFixedPoint(type, [prey, predator], derivatives) {
+  const jacobian = numericalJacobian(derivatives, [prey, predator]);
+  const values = eigenvalues2x2(jacobian);
+  const classification = classifyFixedPoint(jacobian);
+  const frequency = Math.abs(values[0].imag);
+
+  return {
+    type,
+    prey,
+    predator,
+    jacobian,
+    eigenvalues: values,
+    classification,
+    stable: classification === 'stable node' || classification === 'stable focus',
+    // Period of the oscillations of trajectories spiralling around the point
+    period: frequency > 0 ? 2 * Math.PI / frequency : null
+  };
+}
+
+// Summarize where the system is expected to end up
+function predictOutcome(fixedPoints) {
+  const coexistence = fixedPoints.filter(point => point.type === 'coexistence');
+  const attractor = coexistence.find(point => point.stable) ??
+    fixedPoints.find(point => point.stable);
+
+  if (attractor) {
+    return {
+      outcome: attractor.type === 'coexistence' ? 'equilibrium' : 'extinction',
+      prey: attractor.prey,
+      predator: attractor.predator,
+      isStable: true,
+      classification: attractor.classification,
+      period: attractor.period
+    };
+  }
+
+  // No attracting point: trajectories keep cycling around an unstable
+  // coexistence point, or drift towards the predator-free margin
+  const center = coexistence[0];
+  if (center) {
+    return {
+      outcome: 'oscillation',
+      prey: center.prey,
+      predator: center.predator,
+      isStable: false,
+      classification: center.classification,
+      period: center.period
+    };
+  }
+
+  const margin = fixedPoints.find(point => point.type === 'prey-only') ?? fixedPoints[0];
+  return {
+    outcome: 'extinction',
+    prey: margin.prey,
+    predator: margin.predator,
+    isStable: false,
+    classification: margin.classification,
+    period: null
+  };
+}
+
+export function analyzeStability(parameters) {
+  const simulator = new EcosystemSimulator(parameters);
+  const resourceLevel = parameters.environment.resourceAvailability;
+  const derivatives = (y) => simulator.calculatePopulationDerivatives(y, resourceLevel);
+
+  const fixedPoints = [describeFixedPoint('trivial', [0, 0], derivatives)];
+
+  const capacity = simulator.web.species[0].carryingCapacity;
+  if (capacity && resourceLevel > 0) {
+    fixedPoints.push(describeFixedPoint('prey-only', [resourceLevel * capacity, 0], derivatives));
+  }
+
+  for (const point of findCoexistencePoints(simulator, resourceLevel)) {
+    fixedPoints.push(describeFixedPoint('coexistence', point, derivatives));
+  }
+
+  return {
+    resourceLevel,
+    fixedPoints,
+    prediction: predictOutcome(fixedPoints)
+  };
+}
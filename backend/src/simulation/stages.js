@@ -0,0 +1,196 @@
+// Stage structure
+// A species can be split into juvenile and adult compartments. Only adults
+// reproduce, and newborns pass through a chain of juvenile compartments before
+// maturing. With k compartments, each maturing at k / maturationTime, the time
+// to maturity is Erlang distributed with the given mean (the linear chain
+// trick): one compartment gives an exponential delay, and more compartments
+// approach a fixed delay. Juveniles can have their own mortality and be more
+// or less exposed to predators, and juvenile consumers can feed at a fraction
+// of the adult rate without converting what they eat into offspring.
+
+export const MAX_DELAY_STAGES = 20;
+
+const DEFAULT_STAGES = {
+  maturationTime: 1,
+  delayStages: 1,
+  initialJuveniles: 0, // Fraction of the initial population
+  juvenileMortality: null, // Defaults to the species' death rate
+  juvenileVulnerability: 1, // Predation on a juvenile relative to an adult
+  juvenileFeeding: 0 // Consumption by a juvenile relative to an adult
+};
+
+const isNumber = (value) => typeof value === 'number' && Number.isFinite(value);
+
+// Stage settings of every species that has them, keyed by species id
+function stagesOf(parameters) {
+  if (parameters.foodWeb) {
+    return parameters.foodWeb.species.filter(s => s.stages).map(s => [s.id, s.stages]);
+  }
+  return ['prey', 'predator'].filter(id => parameters[id]?.stages).map(id => [id, parameters[id].stages]);
+}
+
+export function hasStageStructure(parameters) {
+  return stagesOf(parameters ?? {}).length > 0;
+}
+
+// Ids of the species with juveniles and adults
+export function stagedSpeciesIds(parameters) {
+  return stagesOf(parameters ?? {}).map(([id]) => id);
+}
+
+// Returns an error message for the first invalid stage settings
+export function validateStages(parameters) {
+  for (const [id, stages] of stagesOf(parameters)) {
+    if (typeof stages !== 'object' || Array.isArray(stages)) {
+      return `Stages of ${id} must be an object`;
+    }
+    const { maturationTime, delayStages, initialJuveniles, juvenileMortality, juvenileVulnerability, juvenileFeeding } =
+      { ...DEFAULT_STAGES, ...stages };
+
+    if (!isNumber(maturationTime) || !(maturationTime > 0)) {
+      return `Maturation time of ${id} must be a positive number`;
+    }
+    if (!Number.isInteger(delayStages) || delayStages < 1 || delayStages > MAX_DELAY_STAGES) {
+      return `Delay stages of ${id} must be an integer between 1 and ${MAX_DELAY_STAGES}`;
+    }
+    if (!isNumber(initialJuveniles) || initialJuveniles < 0 || initialJuveniles > 1) {
+      return `Initial juvenile fraction of ${id} must be between 0 and 1`;
+    }
+    if (juvenileMortality !== null && (!isNumber(juvenileMortality) || juvenileMortality < 0)) {
+      return `Juvenile mortality of ${id} must be a non-negative number`;
+    }
+    if (!isNumber(juvenileVulnerability) || juvenileVulnerability < 0) {
+      return `Juvenile vulnerability of ${id} must be a non-negative number`;
+    }
+    if (!isNumber(juvenileFeeding) || juvenileFeeding < 0 || juvenileFeeding > 1) {
+      return `Juvenile feeding of ${id} must be between 0 and 1`;
+    }
+  }
+  return null;
+}
+
+// Layout of the state vector for a web. Every species takes one entry for
+// its adults, preceded by one per juvenile compartment when it is staged.
+// Without stage structure the state is the population vector itself.
+export function createStageLayout(parameters, web) {
+  const settings = new Map(stagesOf(parameters));
+  let offset = 0;
+
+  const layout = web.species.map(s => {
+    const stages = settings.has(s.id) ? { ...DEFAULT_STAGES, ...settings.get(s.id) } : null;
+    const juveniles = stages ? stages.delayStages : 0;
+    const entry = {
+      id: s.id,
+      offset,
+      juveniles,
+      maturationRate: stages ? juveniles / stages.maturationTime : 0,
+      initialJuveniles: stages?.initialJuveniles ?? 0,
+      juvenileMortality: stages?.juvenileMortality ?? s.deathRate,
+      adultMortality: s.deathRate,
+      juvenileVulnerability: stages?.juvenileVulnerability ?? 1,
+      juvenileFeeding: stages?.juvenileFeeding ?? 0
+    };
+    offset += juveniles + 1;
+    return entry;
+  });
+
+  const structured = layout.some(entry => entry.juveniles > 0);
+  const juvenilesOf = (state, entry) => state.slice(entry.offset, entry.offset + entry.juveniles);
+  const adultsOf = (state, entry) => state[entry.offset + entry.juveniles];
+  const sum = (values) => values.reduce((total, x) => total + x, 0);
+
+  return {
+    structured,
+    size: offset,
+    // Compartments per species, to tell whether two layouts share a state
+    compartments: layout.map(entry => entry.juveniles + 1),
+
+    // Split species populations into compartments: the initial juvenile
+    // fraction spread evenly over the chain, the rest adults
+    expand(populations) {
+      if (!structured) return [...populations];
+      const state = new Array(offset).fill(0);
+      layout.forEach((entry, i) => {
+        const juveniles = populations[i] * entry.initialJuveniles;
+        for (let c = 0; c < entry.juveniles; c++) {
+          state[entry.offset + c] = juveniles / entry.juveniles;
+        }
+        state[entry.offset + entry.juveniles] = populations[i] - juveniles;
+      });
+      return state;
+    },
+
+    // Total population of every species
+    totals(state) {
+      if (!structured) return state;
+      return layout.map(entry => sum(state.slice(entry.offset, entry.offset + entry.juveniles + 1)));
+    },
+
+    // Scale each species' compartments to new totals, as scheduled events
+    // change them. Individuals added to an empty species arrive as adults.
+    rescale(state, populations) {
+      if (!structured) return [...populations];
+      const before = this.totals(state);
+      const next = [...state];
+      layout.forEach((entry, i) => {
+        const end = entry.offset + entry.juveniles;
+        if (before[i] > 0) {
+          for (let c = entry.offset; c <= end; c++) next[c] = state[c] * populations[i] / before[i];
+        } else {
+          next[end] = populations[i];
+        }
+      });
+      return next;
+    },
+
+    // Who breeds, who hunts and how many can be caught, per species. These
+    // feed the functional responses in place of the totals.
+    views(state) {
+      return layout.map(entry => {
+        const adults = adultsOf(state, entry);
+        const juveniles = sum(juvenilesOf(state, entry));
+        return {
+          adults,
+          hunters: adults + entry.juvenileFeeding * juveniles,
+          vulnerable: adults + entry.juvenileVulnerability * juveniles
+        };
+      });
+    },
+
+    // Juvenile and adult totals of the staged species, for the history
+    summary(state) {
+      const stages = {};
+      layout.filter(entry => entry.juveniles > 0).forEach(entry => {
+        stages[entry.id] = { juvenile: sum(juvenilesOf(state, entry)), adult: adultsOf(state, entry) };
+      });
+      return stages;
+    },
+
+    // Compartment derivatives from the species fluxes. Births enter the
+    // first juvenile compartment; crowding and harvest fall on every
+    // compartment per capita, predation in proportion to vulnerability.
+    derivatives(state, { births, predation, competition, harvest, mortalityFactors }) {
+      const derivatives = new Array(offset).fill(0);
+
+      layout.forEach((entry, i) => {
+        const compartments = state.slice(entry.offset, entry.offset + entry.juveniles + 1);
+        const total = sum(compartments);
+        const vulnerable = entry.juvenileVulnerability * sum(compartments.slice(0, -1)) +
+          compartments[entry.juveniles];
+        const shared = total > 0 ? (competition[i] + harvest[i]) / total : 0;
+        const predationRate = vulnerable > 0 ? predation[i] / vulnerable : 0;
+
+        compartments.forEach((x, c) => {
+          const isAdult = c === entry.juveniles;
+          const mortality = (isAdult ? entry.adultMortality : entry.juvenileMortality) * mortalityFactors[i];
+          const exposure = isAdult ? 1 : entry.juvenileVulnerability;
+          const inflow = c === 0 ? births[i] : entry.maturationRate * compartments[c - 1];
+          const maturation = isAdult ? 0 : entry.maturationRate;
+          derivatives[entry.offset + c] = inflow - x * (maturation + mortality + shared + predationRate * exposure);
+        });
+      });
+
+      return derivatives;
+    }
+  };
+}
@@ -0,0 +1,32 @@
+// Descriptive statistics over replicate results
+
+// Percentile (0-100) of an ascending array, interpolating between ranks
+export function percentile(sorted, p) {
+  if (sorted.length === 0) return null;
+
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+export function mean(values) {
+  return values.length === 0 ? null : values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+// Equal-width histogram between min and max
+export function histogram(values, min, max, bins) {
+  const width = (max - min) / bins;
+  const counts = new Array(bins).fill(0);
+
+  for (const value of values) {
+    const index = Math.min(bins - 1, Math.max(0, Math.floor((value - min) / width)));
+    counts[index]++;
+  }
+
+  return counts.map((count, i) => ({
+    start: min + i * width,
+    end: min + (i + 1) * width,
+    count
+  }));
+}
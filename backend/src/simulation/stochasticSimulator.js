@@ -0,0 +1,164 @@
+// Stochastic Simulation Engine
+// Treats every birth and death in the food web as a discrete event so small
+// populations can go extinct by chance. Gillespie's exact algorithm is used
+// while any population is small, tau-leaping once every population is large.
+
+import { EcosystemSimulator } from './simulator.js';
+import { createRandom } from './random.js';
+import { resolveSolver } from './solvers.js';
+
+export const STOCHASTIC_METHODS = ['auto', 'ssa', 'tauLeap'];
+
+const DEFAULT_OPTIONS = {
+  method: 'auto',
+  tau: 0.01, // Leap length, also the interval between extinction checks
+  criticalPopulation: 50 // Below this size "auto" switches to the exact algorithm
+};
+
+// Returns an error message if the stochastic options are invalid
+export function validateStochasticOptions(options = {}) {
+  if (options.method !== undefined && !STOCHASTIC_METHODS.includes(options.method)) {
+    return `Unknown stochastic method: ${options.method}`;
+  }
+  if (options.tau !== undefined && (typeof options.tau !== 'number' || !(options.tau > 0) || options.tau > 1)) {
+    return 'Stochastic option tau must be a number in (0, 1]';
+  }
+  if (options.criticalPopulation !== undefined &&
+      (typeof options.criticalPopulation !== 'number' || options.criticalPopulation < 0)) {
+    return 'Stochastic option criticalPopulation must be a non-negative number';
+  }
+  return null;
+}
+
+export class StochasticSimulator extends EcosystemSimulator {
+  constructor(parameters, options = {}) {
+    super(parameters, options);
+    this.random = createRandom(options.seed);
+    this.settings = { ...DEFAULT_OPTIONS };
+    for (const key of Object.keys(DEFAULT_OPTIONS)) {
+      if (options.stochastic?.[key] !== undefined) {
+        this.settings[key] = options.stochastic[key];
+      }
+    }
+    // Leaps of tau replace the ODE solver, whichever was asked for
+    this.solver = resolveSolver({ method: 'euler' });
+    this.dt = this.settings.tau;
+
+    // Individuals are counted, not measured
+    this.populations = this.populations.map(x => Math.round(x));
+
+    this.eventStats = {
+      events: 0,
+      exactSteps: 0,
+      leaps: 0
+    };
+  }
+
+  // Birth and death propensities for every species
+  calculatePropensities(populations, time) {
+    const { births, predation, competition, mortality, harvest } =
+      this.calculateFluxes(populations, this.calculateResourceLevel(time), time);
+
+    return {
+      births,
+      deaths: births.map((_, i) => predation[i] + competition[i] + mortality[i] + harvest[i])
+    };
+  }
+
+  // Scheduled changes add or remove whole individuals
+  applyDueEvents() {
+    super.applyDueEvents(true);
+  }
+
+  useExactMethod() {
+    if (this.settings.method !== 'auto') {
+      return this.settings.method === 'ssa';
+    }
+    return this.populations.some(x => x < this.settings.criticalPopulation);
+  }
+
+  // Gillespie's direct method, simulating every event until endTime
+  gillespie(startTime, endTime, populations) {
+    const state = [...populations];
+    let time = startTime;
+
+    for (;;) {
+      const { births, deaths } = this.calculatePropensities(state, time);
+      const total = births.reduce((sum, rate) => sum + rate, 0) +
+        deaths.reduce((sum, rate) => sum + rate, 0);
+
+      if (total <= 0) break;
+
+      time += this.random.exponential(total);
+      if (time > endTime) break;
+
+      // Pick the event with probability proportional to its propensity
+      let target = this.random.next() * total;
+      let chosen = null;
+      for (let i = 0; i < state.length && chosen === null; i++) {
+        if (target < births[i]) {
+          chosen = { species: i, change: 1 };
+        } else if (target < births[i] + deaths[i]) {
+          chosen = { species: i, change: -1 };
+        }
+        target -= births[i] + deaths[i];
+      }
+
+      // Rounding can leave the target just past the last event
+      if (!chosen) {
+        const last = deaths.findLastIndex(rate => rate > 0);
+        chosen = last >= 0
+          ? { species: last, change: -1 }
+          : { species: births.findLastIndex(rate => rate > 0), change: 1 };
+      }
+
+      state[chosen.species] = Math.max(0, state[chosen.species] + chosen.change);
+      this.eventStats.events++;
+    }
+
+    return state;
+  }
+
+  // Poisson-distributed numbers of births and deaths over one leap
+  tauLeap(time, populations) {
+    const { births, deaths } = this.calculatePropensities(populations, time);
+
+    return populations.map((x, i) => {
+      const born = this.random.poisson(births[i] * this.dt);
+      // A leap cannot remove more individuals than exist
+      const died = Math.min(x + born, this.random.poisson(deaths[i] * this.dt));
+      this.eventStats.events += born + died;
+      return x + born - died;
+    });
+  }
+
+  integrate() {
+    const endTime = this.currentTime + this.dt;
+    let populations;
+
+    if (this.useExactMethod()) {
+      populations = this.gillespie(this.currentTime, endTime, this.populations);
+      this.eventStats.exactSteps++;
+    } else {
+      populations = this.tauLeap(this.currentTime, this.populations);
+      this.eventStats.leaps++;
+    }
+
+    return { time: endTime, populations, interpolate: null };
+  }
+
+  integrationSummary() {
+    return {
+      mode: 'stochastic',
+      stochastic: {
+        method: this.settings.method,
+        seed: this.random.seed,
+        tau: this.settings.tau,
+        criticalPopulation: this.settings.criticalPopulation,
+        ...this.eventStats
+      }
+    };
+  }
+}
+
+export default StochasticSimulator;
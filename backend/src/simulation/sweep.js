@@ -0,0 +1,117 @@
+// Parameter sweeps
+// Runs the simulator over a 1D or 2D grid of parameter values and classifies
+// the long-term outcome of every cell.
+
+import { createSimulator, validateRunOptions } from './factory.js';
+import { setParameter, validateNumericPath } from './parameterPaths.js';
+
+export const SWEEP_OUTCOMES = ['equilibrium', 'oscillation', 'extinction'];
+export const MAX_SWEEP_RESOLUTION = 50;
+export const MAX_SWEEP_CELLS = 1600;
+
+const DEFAULT_RESOLUTION = 10;
+
+// Returns an error message if the sweep axes ([{ path, min, max, resolution }]) are invalid
+export function validateSweep(parameters, axes, runOptions = {}) {
+  if (!Array.isArray(axes) || axes.length < 1 || axes.length > 2) {
+    return 'Sweep needs one or two axes';
+  }
+
+  let cells = 1;
+  for (const axis of axes) {
+    const pathError = validateNumericPath(parameters, axis?.path, { allowMissing: true });
+    if (pathError) return pathError;
+
+    const { min, max, resolution = DEFAULT_RESOLUTION } = axis;
+    if (typeof min !== 'number' || typeof max !== 'number' || !(min < max)) {
+      return `Axis ${axis.path} needs numeric min < max`;
+    }
+    if (!Number.isInteger(resolution) || resolution < 2 || resolution > MAX_SWEEP_RESOLUTION) {
+      return `Axis resolution must be an integer between 2 and ${MAX_SWEEP_RESOLUTION}`;
+    }
+    cells *= resolution;
+  }
+
+  if (axes.length === 2 && axes[0].path === axes[1].path) {
+    return 'Sweep axes must use different parameters';
+  }
+  if (cells > MAX_SWEEP_CELLS) {
+    return `Sweep is limited to ${MAX_SWEEP_CELLS} cells`;
+  }
+  return validateRunOptions(runOptions, { parameters });
+}
+
+// Number of simulation runs a sweep takes, one per cell
+export function sweepRunCount(axes) {
+  return axes.reduce((cells, { resolution = DEFAULT_RESOLUTION }) => cells * resolution, 1);
+}
+
+function axisValues({ min, max, resolution = DEFAULT_RESOLUTION }) {
+  return Array.from({ length: resolution }, (_, i) => min + (max - min) * i / (resolution - 1));
+}
+
+// Extinction wins over equilibrium; anything that neither settles nor dies out oscillates
+export function classifyOutcome(results) {
+  if (results.extinctionOccurred) return 'extinction';
+  if (results.equilibriumReached) return 'equilibrium';
+  return 'oscillation';
+}
+
+function cellMetrics(results) {
+  const { summary } = results;
+  return {
+    duration: summary.duration,
+    finalPrey: summary.finalPrey,
+    finalPredator: summary.finalPredator,
+    minPrey: summary.minPrey,
+    maxPrey: summary.maxPrey,
+    minPredator: summary.minPredator,
+    maxPredator: summary.maxPredator,
+    // Peak-to-trough range over the run, a rough oscillation amplitude
+    preyAmplitude: summary.maxPrey - summary.minPrey,
+    predatorAmplitude: summary.maxPredator - summary.minPredator
+  };
+}
+
+export function runSweep(parameters, axes, runOptions = {}, onProgress) {
+  const [xAxis, yAxis] = axes;
+  const xValues = axisValues(xAxis);
+  const yValues = yAxis ? axisValues(yAxis) : [null];
+
+  const counts = Object.fromEntries(SWEEP_OUTCOMES.map(outcome => [outcome, 0]));
+  const cells = [];
+
+  // Row-major: all x values for the first y value, then the next row
+  yValues.forEach((y, yIndex) => {
+    xValues.forEach((x, xIndex) => {
+      let cellParameters = setParameter(parameters, xAxis.path, x);
+      const values = { [xAxis.path]: x };
+      if (yAxis) {
+        cellParameters = setParameter(cellParameters, yAxis.path, y);
+        values[yAxis.path] = y;
+      }
+
+      const results = createSimulator(cellParameters, runOptions).simulate();
+      const outcome = classifyOutcome(results);
+      counts[outcome]++;
+
+      cells.push({
+        x: xIndex,
+        y: yIndex,
+        values,
+        outcome,
+        metrics: cellMetrics(results)
+      });
+      onProgress?.(cells.length / (xValues.length * yValues.length));
+    });
+  });
+
+  return {
+    axes: axes.map((axis, i) => ({
+      path: axis.path,
+      values: i === 0 ? xValues : yValues
+    })),
+    cells,
+    counts
+  };
+}
@@ -0,0 +1,41 @@
+// Validation shared by the simulation routes and background jobs.
+// Every helper returns an error message, or null when the input is valid.
+
+import { validateInteractionModel } from './interactionModels.js';
+import { validateFoodWeb } from './foodWeb.js';
+import { validateEvents } from './events.js';
+import { validateForcing } from './forcing.js';
+import { validateStages } from './stages.js';
+
+// Returns an error message unless a full simulation can be built from the parameters
+export function validateRequiredParameters(parameters) {
+  if (!parameters || !parameters.environment ||
+      (!parameters.foodWeb && (!parameters.prey || !parameters.predator))) {
+    return 'Invalid parameters. Required: prey, predator (or foodWeb), and environment configurations';
+  }
+  return null;
+}
+
+// Returns an error message for the first invalid model or food web setting
+export function validateParameters(parameters) {
+  if (parameters.foodWeb) {
+    const foodWebError = validateFoodWeb(parameters.foodWeb);
+    if (foodWebError) {
+      return foodWebError;
+    }
+  }
+
+  const speciesIds = parameters.foodWeb ? parameters.foodWeb.species.map(s => s.id) : ['prey', 'predator'];
+  return validateEvents(parameters.events, speciesIds) ||
+    validateForcing(parameters.environment?.forcing) ||
+    validateStages(parameters) ||
+    validateInteractionModel(parameters.model);
+}
+
+// Returns an error message if the analysis needs the classic prey/predator pair
+export function requireTwoSpecies(parameters) {
+  if (parameters.foodWeb) {
+    return 'This analysis is only available for two-species prey/predator parameters';
+  }
+  return null;
+}
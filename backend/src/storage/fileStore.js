@@ -0,0 +1,70 @@
+// Scenario storage in a JSON file
+// Scenarios are held in memory and the whole file is rewritten after every
+// change. Each write goes to a temporary file that then replaces the old one,
+// so a crash leaves either the previous or the new version, never half of one.
+// Writes run one after another in the order of the changes.
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { MemoryStore } from './memoryStore.js';
+
+export class FileStore extends MemoryStore {
+  constructor(file) {
+    super();
+    this.name = 'file';
+    this.file = file;
+    this.writing = Promise.resolve();
+  }
+
+  describe() {
+    return `Scenarios are saved to ${this.file}`;
+  }
+
+  // A missing file starts the store with the seed scenarios
+  async connect() {
+    let saved;
+    try {
+      saved = JSON.parse(await fs.promises.readFile(this.file, 'utf8'));
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        throw new Error(`Could not read scenarios from ${this.file}: ${error.message}`);
+      }
+      await super.connect();
+      await this.changed();
+      return;
+    }
+
+    this.scenarios = saved.scenarios ?? [];
+    // Scenarios saved before they had a uid get one
+    this.scenarios.filter(s => !s.uid).forEach(s => { s.uid = crypto.randomUUID(); });
+    this.revisions = new Map(Object.entries(saved.revisions ?? {}));
+    this.nextId = saved.nextId ??
+      this.scenarios.reduce((max, s) => Math.max(max, Number(s._id) || 0), 0) + 1;
+  }
+
+  async close() {
+    await this.writing;
+  }
+
+  // Resolves once this change is on disk
+  changed() {
+    const data = JSON.stringify({
+      nextId: this.nextId,
+      scenarios: this.scenarios,
+      revisions: Object.fromEntries(this.revisions)
+    }, null, 2);
+    const write = this.writing.then(() => this.write(data));
+    this.writing = write.catch(() => {});
+    return write;
+  }
+
+  async write(data) {
+    const temporary = `${this.file}.${process.pid}.tmp`;
+    await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.promises.writeFile(temporary, data);
+    await fs.promises.rename(temporary, this.file);
+  }
+}
+
+export default FileStore;
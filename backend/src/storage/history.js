@@ -0,0 +1,55 @@
+// Revision history of stored scenarios
+// Every change to a scenario goes through here so it is recorded as the
+// scenario's next revision. Revisions are never changed afterwards; restoring
+// an old one records its content as a new revision.
+
+import { storage } from './index.js';
+import { createRevision } from '../models/scenarioRevisions.js';
+
+// Record a new scenario as its first revision
+export async function recordCreation(scenario, { author, message }) {
+  await storage().addRevision(createRevision(scenario, scenario.revision ?? 1, { author, message }));
+}
+
+// Scenarios stored before they had revisions get their current content as one
+export async function ensureHistory(scenario) {
+  const id = String(scenario._id);
+  const number = scenario.revision ?? 1;
+  if ((await storage().listRevisions(id)).length > 0) return;
+
+  try {
+    await storage().addRevision(createRevision(scenario, number, {
+      author: scenario.metadata?.createdBy,
+      message: 'Initial version'
+    }));
+  } catch (error) {
+    // A concurrent change may have recorded it first
+    if (!(await storage().getRevision(id, number))) throw error;
+  }
+}
+
+// Update a scenario and record the result as its next revision, together.
+// The update only applies to a scenario still at the revision it was read at,
+// so of two concurrent changes the later one fails with a
+// RevisionConflictError before it writes anything.
+// Resolves to the updated scenario, or null if it no longer exists.
+export async function commitChange(scenario, fields, { author, message }) {
+  await ensureHistory(scenario);
+
+  const current = scenario.revision ?? 1;
+  const number = current + 1;
+  return storage().update(String(scenario._id), { ...fields, revision: number }, {
+    revision: current,
+    record: (updated) => createRevision(updated, number, { author, message })
+  });
+}
+
+// Bring back the content of an old revision as a new one
+export async function restoreRevision(scenario, revision, { author, message }) {
+  // A copy, so the stored revision can never change along with the scenario
+  const { name, description, parameters, simulationResults, metadata } = JSON.parse(JSON.stringify(revision.snapshot));
+  return commitChange(scenario, { name, description, parameters, simulationResults, metadata }, {
+    author,
+    message: message || `Restored revision ${revision.number}`
+  });
+}
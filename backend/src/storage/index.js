@@ -0,0 +1,51 @@
+// Scenario storage
+// The routes reach scenarios only through the store opened here, so they work
+// the same on every adapter. An adapter provides:
+//   name, describe(), connect(), close()
+//   list({ isPublic, createdBy, search, sortBy, order, limit, page }) -> { scenarios, total }
+//   popular(limit) -> most liked, then most viewed public scenarios
+//   get(id), findByName(name), findByUid(uid), create(data),
+//   update(id, fields, { revision, record }) -> rejects with a
+//   RevisionConflictError if the scenario is no longer at the given revision,
+//   and stores the revision record(updated) returns along with the change,
+//   increment(id, counter), remove(id) with its revisions,
+//   addRevision(revision), listRevisions(scenarioId) -> newest first without
+//   snapshots, and getRevision(scenarioId, number)
+// Every scenario has a uid, kept from create(data) or made up, that identifies
+// it across sandboxes. Lists and popular scenarios come without
+// simulationResults.timeSteps. get, findByName, findByUid, update, increment
+// and getRevision resolve to null and remove to false for unknown scenarios.
+// Scenarios are validated before they reach an adapter (models/scenarioValidation.js).
+
+import path from 'path';
+import { MemoryStore } from './memoryStore.js';
+import { FileStore } from './fileStore.js';
+import { MongoStore } from './mongoStore.js';
+
+export const STORAGE_ADAPTERS = {
+  memory: () => new MemoryStore(),
+  file: ({ file }) => new FileStore(file || path.join('data', 'scenarios.json')),
+  mongo: ({ uri }) => new MongoStore(uri)
+};
+
+let store = null;
+
+// Open the configured adapter; the routes use it from then on
+export async function openStorage({ adapter = 'memory', file, uri } = {}) {
+  const create = STORAGE_ADAPTERS[adapter];
+  if (!create) {
+    throw new Error(`Unknown storage adapter: ${adapter}. Choose ${Object.keys(STORAGE_ADAPTERS).join(', ')}`);
+  }
+
+  const opened = create({ file, uri });
+  await opened.connect();
+  store = opened;
+  return store;
+}
+
+export function storage() {
+  if (!store) {
+    throw new Error('Storage has not been opened');
+  }
+  return store;
+}
@@ -0,0 +1,195 @@
+// Scenario storage in process memory
+// Everything is lost when the server stops. The file store builds on this
+// one and only adds saving.
+
+import crypto from 'crypto';
+import { SEED_SCENARIOS } from './seeds.js';
+import { RevisionConflictError } from '../models/scenarioRevisions.js';
+
+// Lists leave out the heavy time series; fetch one scenario to get it
+function withoutTimeSteps(scenario) {
+  if (!scenario.simulationResults?.timeSteps) return scenario;
+  const { timeSteps, ...simulationResults } = scenario.simulationResults;
+  return { ...scenario, simulationResults };
+}
+
+export class MemoryStore {
+  constructor() {
+    this.name = 'memory';
+    this.scenarios = [];
+    this.revisions = new Map(); // Scenario id -> revisions, oldest first
+    this.nextId = 1;
+  }
+
+  describe() {
+    return 'Scenarios are kept in memory (lost on restart)';
+  }
+
+  async connect() {
+    SEED_SCENARIOS.forEach(seed => this.insert(seed));
+  }
+
+  async close() {}
+
+  // Called after every change; the file store saves here
+  async changed() {}
+
+  insert({ uid, name, description, parameters, simulationResults, metadata = {} }) {
+    const now = new Date().toISOString();
+    const scenario = {
+      _id: String(this.nextId++),
+      uid: uid ?? crypto.randomUUID(),
+      name,
+      description,
+      parameters,
+      simulationResults,
+      metadata: {
+        ...metadata,
+        views: 0,
+        likes: 0
+      },
+      revision: 1,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.scenarios.push(scenario);
+    return scenario;
+  }
+
+  async list({ isPublic, createdBy, search, sortBy = 'createdAt', order = 'desc', limit = 20, page = 1 }) {
+    let filtered = [...this.scenarios];
+
+    if (isPublic) {
+      filtered = filtered.filter(s => s.metadata.isPublic);
+    }
+
+    if (createdBy) {
+      filtered = filtered.filter(s => s.metadata.createdBy === createdBy);
+    }
+
+    if (search) {
+      const searchLower = search.toLowerCase();
+      filtered = filtered.filter(s =>
+        s.name.toLowerCase().includes(searchLower) ||
+        s.description?.toLowerCase().includes(searchLower)
+      );
+    }
+
+    filtered.sort((a, b) => {
+      let aVal = a[sortBy] || a.metadata[sortBy] || a.createdAt;
+      let bVal = b[sortBy] || b.metadata[sortBy] || b.createdAt;
+
+      if (sortBy === 'createdAt' || sortBy === 'updatedAt') {
+        aVal = new Date(aVal).getTime();
+        bVal = new Date(bVal).getTime();
+      }
+
+      return order === 'asc' ?
+        (aVal > bVal ? 1 : -1) :
+        (aVal < bVal ? 1 : -1);
+    });
+
+    const startIdx = (page - 1) * limit;
+    return {
+      scenarios: filtered.slice(startIdx, startIdx + limit).map(withoutTimeSteps),
+      total: filtered.length
+    };
+  }
+
+  // Most liked public scenarios, then most viewed
+  async popular(limit = 10) {
+    return this.scenarios
+      .filter(s => s.metadata.isPublic)
+      .sort((a, b) => (b.metadata.likes - a.metadata.likes) || (b.metadata.views - a.metadata.views))
+      .slice(0, limit)
+      .map(withoutTimeSteps);
+  }
+
+  async get(id) {
+    return this.scenarios.find(s => s._id === id) ?? null;
+  }
+
+  async findByName(name) {
+    return this.scenarios.find(s => s.name === name) ?? null;
+  }
+
+  async findByUid(uid) {
+    return this.scenarios.find(s => s.uid === uid) ?? null;
+  }
+
+  async create(data) {
+    const scenario = this.insert(data);
+    await this.changed();
+    return scenario;
+  }
+
+  // Replace the given fields; metadata is merged into the current one.
+  // With a revision, only a scenario still at that revision is changed;
+  // record(updated) gives a revision stored in the same step as the change.
+  async update(id, { metadata, ...fields }, { revision, record } = {}) {
+    const scenario = await this.get(id);
+    if (!scenario) return null;
+    if (revision !== undefined && (scenario.revision ?? 1) !== revision) {
+      throw new RevisionConflictError(id, revision);
+    }
+
+    Object.assign(scenario, fields);
+    if (metadata) {
+      scenario.metadata = { ...scenario.metadata, ...metadata };
+    }
+    scenario.updatedAt = new Date().toISOString();
+    if (record) {
+      this.insertRevision(record(scenario));
+    }
+    await this.changed();
+    return scenario;
+  }
+
+  // Add one to a metadata counter such as views or likes
+  async increment(id, counter) {
+    const scenario = await this.get(id);
+    if (!scenario) return null;
+
+    scenario.metadata[counter] = (scenario.metadata[counter] ?? 0) + 1;
+    await this.changed();
+    return scenario;
+  }
+
+  async remove(id) {
+    const index = this.scenarios.findIndex(s => s._id === id);
+    if (index === -1) return false;
+
+    this.scenarios.splice(index, 1);
+    this.revisions.delete(id);
+    await this.changed();
+    return true;
+  }
+
+  insertRevision(revision) {
+    const revisions = this.revisions.get(revision.scenarioId) ?? [];
+    if (revisions.some(r => r.number === revision.number)) {
+      throw new Error(`Revision ${revision.number} of scenario ${revision.scenarioId} already exists`);
+    }
+    revisions.push(revision);
+    this.revisions.set(revision.scenarioId, revisions);
+  }
+
+  async addRevision(revision) {
+    this.insertRevision(revision);
+    await this.changed();
+    return revision;
+  }
+
+  // Newest first, without snapshots
+  async listRevisions(scenarioId) {
+    return (this.revisions.get(scenarioId) ?? [])
+      .map(({ snapshot, ...summary }) => summary)
+      .reverse();
+  }
+
+  async getRevision(scenarioId, number) {
+    return (this.revisions.get(scenarioId) ?? []).find(r => r.number === number) ?? null;
+  }
+}
+
+export default MemoryStore;
@@ -0,0 +1,154 @@
+// Scenario storage in MongoDB through the Scenario model
+// mongoose is only loaded when this store is chosen, so the other stores run
+// without it installed.
+
+import { RevisionConflictError } from '../models/scenarioRevisions.js';
+
+// Lists leave out the heavy time series; fetch one scenario to get it
+const LIST_PROJECTION = '-simulationResults.timeSteps';
+
+export class MongoStore {
+  constructor(uri) {
+    this.name = 'mongo';
+    this.uri = uri;
+    this.mongoose = null;
+    this.Scenario = null;
+    this.ScenarioRevision = null;
+  }
+
+  describe() {
+    return 'Scenarios are stored in MongoDB';
+  }
+
+  async connect() {
+    if (!this.uri) {
+      throw new Error('The mongo storage adapter needs MONGODB_URI');
+    }
+    try {
+      this.mongoose = (await import('mongoose')).default;
+    } catch (error) {
+      throw new Error('The mongo storage adapter needs mongoose: run npm install mongoose');
+    }
+    this.Scenario = (await import('../models/Scenario.js')).default;
+    this.ScenarioRevision = (await import('../models/ScenarioRevision.js')).default;
+    await this.mongoose.connect(this.uri);
+  }
+
+  async close() {
+    await this.mongoose?.disconnect();
+  }
+
+  async list({ isPublic, createdBy, search, sortBy = 'createdAt', order = 'desc', limit = 20, page = 1 }) {
+    const query = {};
+
+    if (isPublic) {
+      query['metadata.isPublic'] = true;
+    }
+
+    if (createdBy) {
+      query['metadata.createdBy'] = createdBy;
+    }
+
+    if (search) {
+      query.$text = { $search: search };
+    }
+
+    const scenarios = await this.Scenario
+      .find(query)
+      .sort({ [sortBy]: order === 'asc' ? 1 : -1 })
+      .limit(limit)
+      .skip((page - 1) * limit)
+      .select(LIST_PROJECTION);
+
+    const total = await this.Scenario.countDocuments(query);
+    return { scenarios, total };
+  }
+
+  async popular(limit = 10) {
+    return this.Scenario.getPopular(limit).select(LIST_PROJECTION);
+  }
+
+  // Ids that are not object ids cannot name a scenario
+  async get(id) {
+    if (!this.mongoose.isValidObjectId(id)) return null;
+    return this.Scenario.findById(id);
+  }
+
+  async findByName(name) {
+    return this.Scenario.findOne({ name });
+  }
+
+  async findByUid(uid) {
+    return this.Scenario.findOne({ uid });
+  }
+
+  async create(data) {
+    return new this.Scenario(data).save();
+  }
+
+  // One atomic update, so a revision condition cannot race another change.
+  // Scenarios stored before revisions existed have none and count as 1. The
+  // revision from record(updated) is saved right after; the condition already
+  // gave this change its number, so no other change can take it.
+  async update(id, { metadata, ...fields }, { revision, record } = {}) {
+    if (!this.mongoose.isValidObjectId(id)) return null;
+
+    const changes = { ...fields };
+    Object.entries(metadata ?? {}).forEach(([key, value]) => {
+      changes[`metadata.${key}`] = value;
+    });
+    const filter = { _id: id };
+    if (revision !== undefined) {
+      filter.revision = revision === 1 ? { $in: [1, null] } : revision;
+    }
+
+    const updated = await this.Scenario.findOneAndUpdate(filter, { $set: changes }, { new: true, runValidators: true });
+    if (!updated && revision !== undefined && await this.get(id)) {
+      throw new RevisionConflictError(id, revision);
+    }
+    if (updated && record) {
+      await this.addRevision(record(updated));
+    }
+    return updated;
+  }
+
+  async increment(id, counter) {
+    if (!this.mongoose.isValidObjectId(id)) return null;
+    return this.Scenario.findByIdAndUpdate(
+      id,
+      { $inc: { [`metadata.${counter}`]: 1 } },
+      { new: true }
+    );
+  }
+
+  async remove(id) {
+    if (!this.mongoose.isValidObjectId(id)) return false;
+    const removed = await this.Scenario.findByIdAndDelete(id);
+    if (removed) {
+      await this.ScenarioRevision.deleteMany({ scenarioId: id });
+    }
+    return Boolean(removed);
+  }
+
+  async addRevision(revision) {
+    const saved = await new this.ScenarioRevision(revision).save();
+    return saved.toObject();
+  }
+
+  async listRevisions(scenarioId) {
+    return this.ScenarioRevision
+      .find({ scenarioId })
+      .sort({ number: -1 })
+      .select('-snapshot -_id -__v')
+      .lean();
+  }
+
+  async getRevision(scenarioId, number) {
+    return this.ScenarioRevision
+      .findOne({ scenarioId, number })
+      .select('-_id -__v')
+      .lean();
+  }
+}
+
+export default MongoStore;
@@ -0,0 +1,56 @@
+// Scenarios a fresh memory or file store starts with
+
+export const SEED_SCENARIOS = [
+  {
+    name: 'Balanced Ecosystem',
+    description: 'A stable ecosystem with moderate populations',
+    parameters: {
+      prey: {
+        initialPopulation: 1000,
+        birthRate: 1.0,
+        carryingCapacity: 5000
+      },
+      predator: {
+        initialPopulation: 100,
+        huntingEfficiency: 0.01,
+        deathRate: 0.5
+      },
+      environment: {
+        resourceAvailability: 0.7,
+        seasonalVariation: false,
+        seasonalAmplitude: 0.2
+      }
+    },
+    metadata: {
+      createdBy: 'system',
+      tags: ['stable', 'balanced'],
+      isPublic: true
+    }
+  },
+  {
+    name: 'Predator Dominant',
+    description: 'High predator pressure leading to potential prey extinction',
+    parameters: {
+      prey: {
+        initialPopulation: 500,
+        birthRate: 0.8,
+        carryingCapacity: 3000
+      },
+      predator: {
+        initialPopulation: 200,
+        huntingEfficiency: 0.02,
+        deathRate: 0.3
+      },
+      environment: {
+        resourceAvailability: 0.5,
+        seasonalVariation: false,
+        seasonalAmplitude: 0.2
+      }
+    },
+    metadata: {
+      createdBy: 'system',
+      tags: ['extinction', 'unstable'],
+      isPublic: true
+    }
+  }
+];
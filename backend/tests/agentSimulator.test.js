@@ -0,0 +1,102 @@
+// Agent-based runs: individuals on a wrapping world
+
+import { AgentSimulator, validateAgentOptions, MAX_AGENTS } from '../src/simulation/agentSimulator.js';
+
+const PARAMETERS = {
+  prey: { initialPopulation: 200, birthRate: 1, carryingCapacity: 1000 },
+  predator: { initialPopulation: 20, huntingEfficiency: 0.01, deathRate: 0.5 },
+  environment: { resourceAvailability: 0.7 }
+};
+
+// Predators with nothing to eat and no other way to die
+const HUNGRY = {
+  prey: { initialPopulation: 0, birthRate: 1, carryingCapacity: 1000 },
+  predator: { initialPopulation: 20, huntingEfficiency: 0.01, deathRate: 0 },
+  environment: { resourceAvailability: 0.7 }
+};
+
+const runFor = (simulator, time) => {
+  while (simulator.currentTime < time - 1e-9) simulator.step();
+  return simulator;
+};
+
+describe('validateAgentOptions', () => {
+  test('accepts the defaults', () => {
+    expect(validateAgentOptions({}, PARAMETERS)).toBeNull();
+  });
+
+  test.each([
+    [{ size: 0 }, /world size/],
+    [{ huntRadius: 60 }, /at most half the world size/],
+    [{ preySpeed: -1 }, /non-negative numbers/],
+    [{ preyMaxAge: 0 }, /preyMaxAge must be a positive number or null/],
+    [{ starvationTime: 0 }, /starvationTime/],
+    [{ scale: 0 }, /scale must be a positive number/],
+    [{ dt: 1.5 }, /dt must be a number in \(0, 1\]/]
+  ])('rejects %j', (options, error) => {
+    expect(validateAgentOptions(options, PARAMETERS)).toMatch(error);
+  });
+
+  test('limits the number of agents unless each one stands for more individuals', () => {
+    const crowded = { ...PARAMETERS, prey: { ...PARAMETERS.prey, initialPopulation: MAX_AGENTS } };
+    expect(validateAgentOptions({}, crowded)).toMatch(/raise the scale/);
+    expect(validateAgentOptions({ scale: 10 }, crowded)).toBeNull();
+  });
+});
+
+describe('AgentSimulator', () => {
+  test('creates one agent per scale individuals', () => {
+    const simulator = new AgentSimulator(PARAMETERS, { seed: 1, agent: { scale: 4 } });
+    expect(simulator.agents.prey).toHaveLength(50);
+    expect(simulator.agents.predator).toHaveLength(5);
+    expect(simulator.populations).toEqual([200, 20]);
+  });
+
+  test('measures distances across the wrapping edges', () => {
+    const simulator = new AgentSimulator(PARAMETERS, { seed: 1 });
+    expect(simulator.distance({ x: 1, y: 50 }, { x: 99, y: 50 })).toBeCloseTo(2, 10);
+    expect(simulator.distance({ x: 3, y: 98 }, { x: 6, y: 2 })).toBeCloseTo(5, 10);
+  });
+
+  test('repeats itself for the same seed', () => {
+    const counts = (seed) => {
+      const simulator = runFor(new AgentSimulator(PARAMETERS, { seed }), 2);
+      return { populations: simulator.populations, stats: simulator.agentStats };
+    };
+    expect(counts(9)).toEqual(counts(9));
+  });
+
+  test('starves predators that catch nothing', () => {
+    const simulator = new AgentSimulator(HUNGRY, { seed: 1, agent: { starvationTime: 1 } });
+    runFor(simulator, 1.1);
+    expect(simulator.agents.predator).toHaveLength(0);
+    expect(simulator.agentStats.starvations).toBe(20);
+  });
+
+  test('removes and adds agents for scheduled events', () => {
+    const parameters = {
+      ...PARAMETERS,
+      events: [
+        { type: 'cull', target: 'prey', fraction: 0.5, time: 0.2 },
+        { type: 'reintroduce', target: 'predator', amount: 10, time: 0.2 }
+      ]
+    };
+    const simulator = new AgentSimulator(parameters, { seed: 1 });
+    runFor(simulator, 0.2);
+    const [prey, predators] = simulator.populations;
+    // Events due at the current time apply before the next step
+    simulator.step();
+    expect(simulator.agents.prey.length).toBeLessThan(prey * 0.6);
+    expect(simulator.agents.predator.length).toBeGreaterThanOrEqual(predators + 8);
+  });
+
+  test('reports agent positions as flat coordinate pairs', () => {
+    const snapshot = new AgentSimulator(PARAMETERS, { seed: 1 }).getSnapshot();
+    expect(snapshot).toMatchObject({ size: 100, scale: 1, counts: { prey: 200, predator: 20 } });
+    expect(snapshot.prey).toHaveLength(400);
+    snapshot.prey.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThanOrEqual(100);
+    });
+  });
+});
@@ -0,0 +1,59 @@
+// Bifurcation diagrams: validation and the attractor recorded at each value
+
+import { runBifurcation, validateBifurcation, MAX_BIFURCATION_TIME } from '../src/simulation/bifurcation.js';
+
+const PARAMETERS = {
+  prey: { initialPopulation: 1000, birthRate: 1, carryingCapacity: 5000 },
+  predator: { initialPopulation: 100, huntingEfficiency: 0.01, deathRate: 0.5 },
+  environment: { resourceAvailability: 0.7 }
+};
+
+// Saturating predators: cycles at low death rates, starvation at high ones
+const SATURATING = { ...PARAMETERS, model: { type: 'holling2', parameters: { handlingTime: 0.8 } } };
+
+const OPTIONS = { path: 'predator.deathRate', min: 0.5, max: 0.8, resolution: 2, transient: 100, duration: 100 };
+
+describe('validateBifurcation', () => {
+  test('accepts a range over a numeric parameter', () => {
+    expect(validateBifurcation(PARAMETERS, OPTIONS)).toBeNull();
+    expect(validateBifurcation(PARAMETERS, { ...OPTIONS, path: 'predator.conversionEfficiency' })).toBeNull();
+  });
+
+  test('rejects unusable ranges and run options', () => {
+    expect(validateBifurcation(PARAMETERS, { ...OPTIONS, path: 'prey' })).toMatch(/does not point at a number/);
+    expect(validateBifurcation(PARAMETERS, { ...OPTIONS, max: 0.5 })).toMatch(/min < max/);
+    expect(validateBifurcation(PARAMETERS, { ...OPTIONS, resolution: 401 })).toMatch(/between 2 and 400/);
+    expect(validateBifurcation(PARAMETERS, { ...OPTIONS, transient: -1 })).toMatch(/non-negative/);
+    expect(validateBifurcation(PARAMETERS, { ...OPTIONS, duration: 0 })).toMatch(/positive/);
+    expect(validateBifurcation(PARAMETERS, { ...OPTIONS, transient: MAX_BIFURCATION_TIME }))
+      .toMatch(/limited to 5000 time units/);
+    expect(validateBifurcation(PARAMETERS, OPTIONS, { mode: 'stochastic' })).toMatch(/deterministic model/);
+  });
+});
+
+describe('runBifurcation', () => {
+  test('records a resting level near a stable coexistence point', () => {
+    const { points, counts } = runBifurcation(PARAMETERS, { ...OPTIONS, max: 0.6 });
+    expect(counts).toEqual({ equilibrium: 2, oscillation: 0, extinction: 0 });
+    const { prey } = points[0].attractor;
+    expect(prey).toMatchObject({ settled: true, minima: [], maxima: [] });
+    // The coexistence point lies at deathRate / (conversionEfficiency × huntingEfficiency)
+    expect(Math.abs(prey.level / 100 - 1)).toBeLessThan(0.2);
+  });
+
+  test('records the extrema of cycles and the starvation of predators', () => {
+    const progress = [];
+    const bifurcation = runBifurcation(SATURATING, OPTIONS, {}, p => progress.push(p));
+    expect(bifurcation.species.map(s => s.id)).toEqual(['prey', 'predator']);
+    expect(progress).toEqual([0.5, 1]);
+
+    const [cycling, starving] = bifurcation.points;
+    expect(cycling).toMatchObject({ value: 0.5, outcome: 'oscillation' });
+    expect(cycling.attractor.predator.settled).toBe(false);
+    expect(cycling.attractor.predator.maxima.length).toBeGreaterThan(0);
+
+    expect(starving).toMatchObject({ value: 0.8, outcome: 'extinction' });
+    expect(starving.attractor.predator.extinct).toBe(true);
+    expect(starving.attractor.prey.level).toBeCloseTo(3500, 0);
+  });
+});
@@ -0,0 +1,97 @@
+// Calibration: reading observations and fitting parameters to them
+
+import {
+  parseObservations,
+  validateCalibration,
+  runCalibration,
+  calibrationRunCount,
+  MAX_OBSERVED_SPAN
+} from '../src/simulation/calibration.js';
+import { createSimulator } from '../src/simulation/factory.js';
+
+const PARAMETERS = {
+  prey: { initialPopulation: 1000, birthRate: 1, carryingCapacity: 5000 },
+  predator: { initialPopulation: 100, huntingEfficiency: 0.001, deathRate: 0.5 },
+  environment: { resourceAvailability: 0.7 }
+};
+
+const SPECIES = ['prey', 'predator'];
+
+describe('parseObservations', () => {
+  test('reads CSV with renamed columns, gaps and comments', () => {
+    const csv = '# Hudson Bay\nyear,hare,lynx\n1900,30,4\n1901,47,\n\n1902,70,9\n';
+    const { observations, timeOffset, species } = parseObservations(csv, SPECIES, { hare: 'prey', lynx: 'predator' });
+    expect(timeOffset).toBe(1900);
+    expect(species).toEqual(['prey', 'predator']);
+    expect(observations).toEqual([
+      { time: 0, values: { prey: 30, predator: 4 } },
+      { time: 1, values: { prey: 47, predator: null } },
+      { time: 2, values: { prey: 70, predator: 9 } }
+    ]);
+  });
+
+  test('reads JSON rows', () => {
+    const { observations } = parseObservations([{ t: 5, prey: 1 }, { t: 6, prey: 2 }], SPECIES);
+    expect(observations.map(o => o.time)).toEqual([0, 1]);
+  });
+
+  test.each([
+    ['time,prey\n1,2', /At least two observations/],
+    ['day,prey\n1,2\n2,3', /need a time, t, year column/],
+    ['time,wolf\n1,2\n2,3', /Unknown species column: wolf/],
+    ['time\n1\n2', /at least one species column/],
+    ['time,prey\n2,1\n1,1', /Observation 2 needs a time after the previous one/],
+    ['time,prey\n1,1\n2,-3', /Observation 2 has an invalid count for prey/],
+    [`time,prey\n0,1\n${MAX_OBSERVED_SPAN + 1},1`, /span at most 100 time units/],
+    [42, /CSV text or an array/]
+  ])('rejects %p', (data, error) => {
+    expect(() => parseObservations(data, SPECIES)).toThrow(error);
+  });
+});
+
+describe('validateCalibration', () => {
+  const data = 'time,prey\n0,1000\n1,1100\n2,1200';
+
+  test('accepts ranged parameters and enough counts', () => {
+    expect(validateCalibration(PARAMETERS, { data, fit: ['prey.birthRate'] })).toBeNull();
+  });
+
+  test('rejects unusable options', () => {
+    expect(validateCalibration(PARAMETERS, {})).toBe('Observed data required');
+    expect(validateCalibration(PARAMETERS, { data, columns: [] })).toMatch(/Columns must map/);
+    expect(validateCalibration(PARAMETERS, { data: 'time,prey\n0,1' })).toMatch(/At least two observations/);
+    expect(validateCalibration(PARAMETERS, { data, fit: [] })).toMatch(/non-empty array/);
+    expect(validateCalibration(PARAMETERS, { data })).toMatch(/Fitting 5 parameters needs more than 5 observed counts/);
+    expect(validateCalibration(PARAMETERS, { data, fit: ['prey.birthRate'], maxIterations: 0 })).toMatch(/Max iterations/);
+    expect(validateCalibration(PARAMETERS, { data, fit: ['prey.birthRate'] }, { mode: 'stochastic' }))
+      .toMatch(/deterministic model/);
+  });
+});
+
+test('run counts cover the iterations and the starting simplex', () => {
+  expect(calibrationRunCount({ maxIterations: 10, fit: ['prey.birthRate', 'predator.deathRate'] })).toBe(13);
+  expect(calibrationRunCount()).toBe(506);
+});
+
+test('recovers the birth rate that produced the observations', () => {
+  const truth = { ...PARAMETERS, prey: { ...PARAMETERS.prey, birthRate: 1.4 } };
+  const data = createSimulator(truth).simulate().timeSteps
+    .filter((step, i) => i % 50 === 0 && step.time < 30)
+    .map(step => ({ time: step.time, prey: step.populations.prey, predator: step.populations.predator }));
+
+  const progress = [];
+  const calibration = runCalibration(PARAMETERS, {
+    data,
+    fit: [{ path: 'prey.birthRate', min: 0.5, max: 3 }],
+    maxIterations: 100
+  }, {}, p => progress.push(p));
+
+  expect(calibration.converged).toBe(true);
+  expect(calibration.fitted[0]).toMatchObject({ path: 'prey.birthRate', initial: 1 });
+  expect(calibration.fitted[0].value).toBeCloseTo(1.4, 2);
+  // Runs start from the first observed counts
+  expect(calibration.parameters.prey.initialPopulation).toBe(data[0].prey);
+  expect(calibration.goodness.species.prey.rSquared).toBeGreaterThan(0.99);
+  expect(calibration.residuals).toHaveLength(data.length * 2);
+  expect(progress.length).toBe(calibration.iterations);
+});
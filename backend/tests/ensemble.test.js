@@ -0,0 +1,71 @@
+// Monte Carlo ensembles: validation, reproducibility and summary statistics
+
+import { runEnsemble, validateEnsembleOptions, ENSEMBLE_PERCENTILES } from '../src/simulation/ensemble.js';
+
+const PARAMETERS = {
+  prey: { initialPopulation: 1000, birthRate: 1, carryingCapacity: 5000 },
+  predator: { initialPopulation: 100, huntingEfficiency: 0.01, deathRate: 0.5 },
+  environment: { resourceAvailability: 0.7 }
+};
+
+const PERTURBED = { mode: 'deterministic', replicates: 6, perturbation: 0.2, interval: 5, seed: 'bands' };
+
+describe('validateEnsembleOptions', () => {
+  test('accepts stochastic replicates and perturbed deterministic ones', () => {
+    expect(validateEnsembleOptions(PARAMETERS, { mode: 'stochastic', replicates: 10 })).toBeNull();
+    expect(validateEnsembleOptions(PARAMETERS, PERTURBED)).toBeNull();
+  });
+
+  test('rejects unusable options', () => {
+    expect(validateEnsembleOptions(PARAMETERS, { mode: 'stochastic', replicates: 0 })).toMatch(/Replicates must be an integer/);
+    expect(validateEnsembleOptions(PARAMETERS, { mode: 'stochastic', interval: 0 })).toMatch(/Interval must be a number/);
+    expect(validateEnsembleOptions(PARAMETERS, { mode: 'deterministic' })).toMatch(/need a perturbation/);
+    expect(validateEnsembleOptions(PARAMETERS, { ...PERTURBED, perturbation: { 'prey.birthRate': -1 } }))
+      .toMatch(/non-negative number/);
+    expect(validateEnsembleOptions(PARAMETERS, { ...PERTURBED, perturbation: 'wide' })).toMatch(/number or an object/);
+  });
+
+  test('needs per-path perturbation for food webs', () => {
+    const web = {
+      foodWeb: { species: [{ id: 'a', initialPopulation: 1 }], interactions: [[0]] },
+      environment: { resourceAvailability: 0.7 }
+    };
+    expect(validateEnsembleOptions(web, PERTURBED)).toMatch(/per parameter path/);
+  });
+});
+
+describe('runEnsemble', () => {
+  const ensemble = runEnsemble(PARAMETERS, PERTURBED);
+
+  test('repeats itself for the same seed', () => {
+    expect(runEnsemble(PARAMETERS, PERTURBED)).toEqual(ensemble);
+    expect(runEnsemble(PARAMETERS, { ...PERTURBED, seed: 'other' }).bands).not.toEqual(ensemble.bands);
+  });
+
+  test('reports ordered percentile bands on the common grid', () => {
+    expect(ensemble.times.slice(0, 3)).toEqual([0, 5, 10]);
+    // Every replicate dies out, the last of them at the end of the grid
+    expect(ensemble.times.at(-1)).toBeCloseTo(ensemble.timeToExtinction.max, 6);
+    for (const band of Object.values(ensemble.bands)) {
+      expect(Object.keys(band)).toEqual(ENSEMBLE_PERCENTILES.map(p => `p${p}`));
+      ensemble.times.forEach((_, t) => {
+        expect(band.p5[t]).toBeLessThanOrEqual(band.p50[t]);
+        expect(band.p50[t]).toBeLessThanOrEqual(band.p95[t]);
+      });
+    }
+  });
+
+  test('accumulates the extinction probability over time', () => {
+    const { extinctionProbability, timeToExtinction } = ensemble;
+    extinctionProbability.slice(1).forEach((p, i) => expect(p).toBeGreaterThanOrEqual(extinctionProbability[i]));
+    expect(extinctionProbability.at(-1)).toBe(timeToExtinction.probability);
+    expect(timeToExtinction.count).toBe(timeToExtinction.probability * PERTURBED.replicates);
+    expect(timeToExtinction.histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(timeToExtinction.count);
+  });
+
+  test('reports progress after every replicate', () => {
+    const progress = [];
+    runEnsemble(PARAMETERS, { ...PERTURBED, replicates: 3, onProgress: p => progress.push(p) });
+    expect(progress).toEqual([1 / 3, 2 / 3, 1]);
+  });
+});
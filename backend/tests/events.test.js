@@ -0,0 +1,92 @@
+// Scheduled events: validation, the schedule and how runs treat them
+
+import { validateEvents, createEventSchedule } from '../src/simulation/events.js';
+import { createSimulator } from '../src/simulation/factory.js';
+
+const SPECIES = [
+  { id: 'prey', name: 'Prey' },
+  { id: 'predator', name: 'Predator' }
+];
+const IDS = SPECIES.map(s => s.id);
+
+// Predators die out within the first time unit
+const DOOMED = {
+  prey: { initialPopulation: 1000, birthRate: 1, carryingCapacity: 5000 },
+  predator: { initialPopulation: 5, huntingEfficiency: 0.0001, deathRate: 5 },
+  environment: { resourceAvailability: 0.7 }
+};
+
+describe('validateEvents', () => {
+  test('accepts a mixed timeline', () => {
+    expect(validateEvents([
+      { type: 'harvest', target: 'prey', fraction: 0.2, time: 5, every: 5, until: 25 },
+      { type: 'reintroduce', target: 'predator', amount: 10, time: 60 },
+      { type: 'drought', factor: 0.3, from: 40, to: 50 },
+      { type: 'disaster', fraction: 0.5, time: 10 }
+    ], IDS)).toBeNull();
+  });
+
+  test('requires an end for repeating events', () => {
+    expect(validateEvents([{ type: 'cull', target: 'prey', amount: 5, time: 1, every: 2 }], IDS))
+      .toMatch(/repeat until/);
+    expect(validateEvents([{ type: 'cull', target: 'prey', amount: 5, time: 10, every: 2, until: 5 }], IDS))
+      .toMatch(/repeat until/);
+  });
+
+  test('rejects unknown types, targets and quantities', () => {
+    expect(validateEvents([{ type: 'flood', time: 1 }], IDS)).toMatch(/unknown type/);
+    expect(validateEvents([{ type: 'cull', target: 'wolf', amount: 1, time: 1 }], IDS)).toMatch(/target species/);
+    expect(validateEvents([{ type: 'cull', target: 'prey', amount: 1, fraction: 0.1, time: 1 }], IDS))
+      .toMatch(/either an amount or a fraction/);
+    expect(validateEvents([{ type: 'drought', factor: 0.5, from: 5, to: 5 }], IDS)).toMatch(/window/);
+  });
+});
+
+describe('createEventSchedule', () => {
+  test('applies repeats in order until their end', () => {
+    const schedule = createEventSchedule(
+      [{ type: 'reintroduce', target: 'prey', amount: 10, time: 1, every: 1, until: 3 }],
+      SPECIES
+    );
+    const { populations, applied } = schedule.applyDue(10, [0, 0]);
+    expect(applied.map(e => e.time)).toEqual([1, 2, 3]);
+    expect(populations).toEqual([30, 0]);
+    expect(schedule.nextTime()).toBe(Infinity);
+  });
+
+  test('counts only events before the end of the run as pending', () => {
+    const schedule = createEventSchedule([
+      { type: 'reintroduce', target: 'predator', amount: 10, time: 500 },
+      { type: 'drought', factor: 0.5, from: 200, to: 300 }
+    ], SPECIES);
+    expect(schedule.hasPendingAfter(0, 100)).toBe(false);
+    expect(schedule.hasPendingAfter(0, 250)).toBe(true);
+    expect(schedule.hasPendingAfter(0)).toBe(true);
+  });
+
+  test('multiplies resources during a drought', () => {
+    const schedule = createEventSchedule([{ type: 'drought', factor: 0.5, from: 10, to: 20 }], SPECIES);
+    expect(schedule.resourceFactor(5)).toBe(1);
+    expect(schedule.resourceFactor(15)).toBe(0.5);
+    expect(schedule.periods(12)).toEqual([expect.objectContaining({ from: 10, to: 12 })]);
+  });
+});
+
+describe('runs with events', () => {
+  const duration = (events) => createSimulator({ ...DOOMED, events }).simulate().summary.duration;
+
+  test('stop at an extinction when nothing is scheduled before the end', () => {
+    const early = duration(undefined);
+    expect(early).toBeLessThan(5);
+    expect(duration([{ type: 'reintroduce', target: 'predator', amount: 10, time: 500 }])).toBe(early);
+  });
+
+  test('carry on to a reintroduction within the run', () => {
+    const results = createSimulator({
+      ...DOOMED,
+      events: [{ type: 'reintroduce', target: 'predator', amount: 10, time: 20 }]
+    }).simulate();
+    expect(results.summary.duration).toBeGreaterThanOrEqual(20);
+    expect(results.events).toEqual([expect.objectContaining({ type: 'reintroduce', time: 20 })]);
+  });
+});
@@ -0,0 +1,62 @@
+// Scenario file storage: the file on disk, older files and broken ones
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileStore } from '../src/storage/fileStore.js';
+import { openStorage } from '../src/storage/index.js';
+
+let directory;
+beforeEach(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), 'file-store-'));
+});
+afterEach(() => {
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+const read = (file) => JSON.parse(fs.readFileSync(file, 'utf8'));
+
+test('creates the file and its directory with the seed scenarios', async () => {
+  const file = path.join(directory, 'nested', 'scenarios.json');
+  const store = new FileStore(file);
+  await store.connect();
+  await store.close();
+
+  const saved = read(file);
+  expect(saved.scenarios.length).toBeGreaterThan(0);
+  expect(saved.nextId).toBe(saved.scenarios.length + 1);
+  expect(fs.readdirSync(path.dirname(file))).toEqual(['scenarios.json']);
+});
+
+test('writes every change in order', async () => {
+  const file = path.join(directory, 'scenarios.json');
+  const store = new FileStore(file);
+  await store.connect();
+  const { _id } = await store.create({ name: 'Counted', parameters: {}, metadata: {} });
+  await Promise.all([1, 2, 3].map(() => store.increment(_id, 'views')));
+  await store.close();
+
+  expect(read(file).scenarios.find(s => s.name === 'Counted').metadata.views).toBe(3);
+});
+
+test('gives uids and a next id to scenarios saved before them', async () => {
+  const file = path.join(directory, 'scenarios.json');
+  fs.writeFileSync(file, JSON.stringify({ scenarios: [{ _id: '7', name: 'Old' }, { _id: '3', name: 'Older' }] }));
+  const store = new FileStore(file);
+  await store.connect();
+
+  expect(store.scenarios.every(s => typeof s.uid === 'string')).toBe(true);
+  expect(store.nextId).toBe(8);
+  expect(await store.listRevisions('7')).toEqual([]);
+});
+
+test('refuses to start on a file it cannot read', async () => {
+  const file = path.join(directory, 'scenarios.json');
+  fs.writeFileSync(file, '{ broken');
+  await expect(new FileStore(file).connect()).rejects.toThrow(`Could not read scenarios from ${file}`);
+  expect(fs.readFileSync(file, 'utf8')).toBe('{ broken');
+});
+
+test('names the adapters when an unknown one is configured', async () => {
+  await expect(openStorage({ adapter: 'sqlite' })).rejects.toThrow('Unknown storage adapter: sqlite. Choose memory, file, mongo');
+});
@@ -0,0 +1,71 @@
+// Food webs: the classic pair as a web, validation and multi-species runs
+
+import { buildFoodWeb, validateFoodWeb, DEFAULT_CONVERSION_EFFICIENCY } from '../src/simulation/foodWeb.js';
+import { validateParameters } from '../src/simulation/validation.js';
+import { createSimulator } from '../src/simulation/factory.js';
+
+const PARAMETERS = {
+  prey: { initialPopulation: 1000, birthRate: 1, carryingCapacity: 5000 },
+  predator: { initialPopulation: 100, huntingEfficiency: 0.01, deathRate: 0.5 },
+  environment: { resourceAvailability: 0.7 }
+};
+
+// Grass eaten by rabbits, rabbits eaten by foxes
+const CHAIN = {
+  species: [
+    { id: 'grass', initialPopulation: 2000, growthRate: 1, carryingCapacity: 5000 },
+    { id: 'rabbit', initialPopulation: 200, deathRate: 0.2 },
+    { id: 'fox', initialPopulation: 20, deathRate: 0.3, conversionEfficiency: 0.3 }
+  ],
+  interactions: [
+    [0, 0, 0],
+    [0.001, 0, 0],
+    [0, 0.005, 0]
+  ]
+};
+
+describe('buildFoodWeb', () => {
+  test('maps the prey/predator pair onto a two-species web', () => {
+    const web = buildFoodWeb(PARAMETERS);
+    expect(web.interactions).toEqual([[0, 0], [0.01, 0]]);
+    expect(web.species).toEqual([
+      expect.objectContaining({ id: 'prey', growthRate: 1, carryingCapacity: 5000, role: 'basal' }),
+      expect.objectContaining({ id: 'predator', deathRate: 0.5, role: 'consumer',
+        conversionEfficiency: DEFAULT_CONVERSION_EFFICIENCY })
+    ]);
+  });
+
+  test('fills in defaults and copies the interaction matrix', () => {
+    const web = buildFoodWeb({ foodWeb: CHAIN });
+    expect(web.species.map(s => s.role)).toEqual(['basal', 'consumer', 'consumer']);
+    expect(web.species[1]).toMatchObject({ name: 'rabbit', growthRate: 0, carryingCapacity: null });
+    web.interactions[1][0] = 1;
+    expect(CHAIN.interactions[1][0]).toBe(0.001);
+  });
+});
+
+describe('validateFoodWeb', () => {
+  test('accepts a well-formed web', () => {
+    expect(validateFoodWeb(CHAIN)).toBeNull();
+    expect(validateParameters({ foodWeb: CHAIN, environment: { resourceAvailability: 0.7 } })).toBeNull();
+  });
+
+  test('rejects missing or repeated species and a mismatched matrix', () => {
+    expect(validateFoodWeb({ species: [], interactions: [] })).toMatch(/non-empty species list/);
+    expect(validateFoodWeb({ species: [{ initialPopulation: 1 }], interactions: [[0]] })).toMatch(/string id/);
+    expect(validateFoodWeb({ ...CHAIN, species: [CHAIN.species[0], CHAIN.species[0], CHAIN.species[1]] }))
+      .toMatch(/Duplicate species id: grass/);
+    expect(validateFoodWeb({ ...CHAIN, species: [{ id: 'grass', initialPopulation: -1 }, ...CHAIN.species.slice(1)] }))
+      .toMatch(/non-negative initialPopulation/);
+    expect(validateFoodWeb({ ...CHAIN, interactions: [[0, 0, 0], [0, 0, 0]] })).toMatch(/3x3 numbers/);
+    expect(validateFoodWeb({ ...CHAIN, interactions: [[0, 0, 0], [0, 0, 0], [0, NaN, 0]] })).toMatch(/3x3 numbers/);
+  });
+});
+
+test('runs report every species and the basal and consumer totals', () => {
+  const results = createSimulator({ foodWeb: CHAIN, environment: { resourceAvailability: 0.7 } }).simulate();
+  const step = results.timeSteps[10];
+  expect(Object.keys(step.populations)).toEqual(['grass', 'rabbit', 'fox']);
+  expect(step.preyPopulation).toBeCloseTo(step.populations.grass, 6);
+  expect(step.predatorPopulation).toBeCloseTo(step.populations.rabbit + step.populations.fox, 6);
+});
@@ -0,0 +1,116 @@
+// Environmental forcing: series, harmonics, trends, noise and their previews
+
+import {
+  parseSeries,
+  validateForcing,
+  createForcing,
+  previewForcing,
+  validatePreviewOptions
+} from '../src/simulation/forcing.js';
+
+const level = (forcing, time, resourceAvailability = 0.5) =>
+  createForcing({ resourceAvailability, forcing }).resourceLevel(time);
+
+describe('parseSeries', () => {
+  test('reads CSV with or without a header', () => {
+    const points = [{ time: 0, value: 0.8 }, { time: 10, value: 0.4 }];
+    expect(parseSeries('time,resources\n0,0.8\n10,0.4')).toEqual(points);
+    expect(parseSeries('0;0.8\n10;0.4\n')).toEqual(points);
+  });
+
+  test('marks rows that are not numbers', () => {
+    expect(parseSeries('0,0.8\nten,0.4')[1]).toEqual({ time: NaN, value: NaN });
+  });
+});
+
+describe('validateForcing', () => {
+  test('accepts every kind of forcing', () => {
+    expect(validateForcing(undefined)).toBeNull();
+    expect(validateForcing({
+      harmonics: [{ amplitude: 0.2, period: 12, phase: 1 }],
+      series: '0,0.8\n50,0.6',
+      repeat: true,
+      trend: { rate: -0.01, from: 10, to: 20 },
+      noise: { type: 'red', amplitude: 0.1, seed: 'storm' },
+      predatorMortality: 2
+    })).toBeNull();
+  });
+
+  test.each([
+    [[], /must be an object/],
+    [{ harmonics: [{ amplitude: 0.2, period: 0 }] }, /Harmonic 1 needs/],
+    [{ series: 5 }, /array of \{ time, value \} points or CSV text/],
+    [{ series: [] }, /between 1 and 10000 points/],
+    [{ series: '0,0.8\n1,1.5' }, /Series point 2 must have a value between 0 and 1/],
+    [{ series: '5,0.8\n1,0.5' }, /strictly increasing/],
+    [{ repeat: 'yes' }, /Repeat must be a boolean/],
+    [{ trend: { rate: 0.1, from: 5, to: 5 } }, /0 <= from < to/],
+    [{ noise: { type: 'pink', amplitude: 0.1 } }, /Noise type must be one of: white, red/],
+    [{ noise: { type: 'white', amplitude: 2 } }, /amplitude must be between 0 and 1/],
+    [{ noise: { type: 'white', amplitude: 0.1, interval: 0 } }, /interval must be at least/],
+    [{ predatorMortality: -1 }, /non-negative/]
+  ])('rejects %j', (forcing, error) => {
+    expect(validateForcing(forcing)).toMatch(error);
+  });
+});
+
+describe('resource level', () => {
+  test('stays at the availability without forcing', () => {
+    expect(level(undefined, 37)).toBe(0.5);
+  });
+
+  test('adds harmonics and keeps seasonal variation as a 12-unit one', () => {
+    expect(level({ harmonics: [{ amplitude: 0.2, period: 8 }] }, 2)).toBeCloseTo(0.7, 10);
+    const seasonal = createForcing({ resourceAvailability: 0.5, seasonalVariation: true, seasonalAmplitude: 0.2 });
+    expect(seasonal.resourceLevel(3)).toBeCloseTo(0.7, 10);
+  });
+
+  test('interpolates a series and holds or repeats its ends', () => {
+    const series = [{ time: 0, value: 0.2 }, { time: 10, value: 0.6 }];
+    expect(level({ series }, 5)).toBeCloseTo(0.4, 10);
+    expect(level({ series }, 25)).toBe(0.6);
+    expect(level({ series, repeat: true }, 25)).toBeCloseTo(0.4, 10);
+  });
+
+  test('ramps a trend within its window and clamps to 0–1', () => {
+    const trend = { rate: 0.1, from: 2, to: 4 };
+    expect(level({ trend }, 1)).toBe(0.5);
+    expect(level({ trend }, 3)).toBeCloseTo(0.6, 10);
+    expect(level({ trend }, 30)).toBeCloseTo(0.7, 10);
+    expect(level({ trend: { rate: 1 } }, 30)).toBe(1);
+  });
+
+  test('draws the same noise for the same seed, in any order', () => {
+    const noise = { type: 'red', amplitude: 0.1, seed: 7 };
+    const forward = [1, 2.5, 40].map(time => level({ noise }, time));
+    const backward = [40, 2.5, 1].map(time => level({ noise }, time)).reverse();
+    expect(backward).toEqual(forward);
+    expect(level({ noise: { ...noise, seed: 8 } }, 40)).not.toBe(forward[2]);
+  });
+
+  test('raises predator mortality when resources fall short', () => {
+    const { deathFactor } = createForcing({ resourceAvailability: 0.5, forcing: { predatorMortality: 2 } });
+    expect(deathFactor(0.3)).toBeCloseTo(1.4, 10);
+    expect(deathFactor(0.7)).toBeCloseTo(0.6, 10);
+    expect(createForcing({ resourceAvailability: 0.5 }).deathFactor(0.1)).toBe(1);
+  });
+});
+
+describe('previewForcing', () => {
+  test('samples the curves on a regular grid', () => {
+    const preview = previewForcing({ resourceAvailability: 0.5, forcing: { predatorMortality: 1 } }, { duration: 2, interval: 0.5 });
+    expect(preview).toEqual({
+      times: [0, 0.5, 1, 1.5, 2],
+      resourceLevel: [0.5, 0.5, 0.5, 0.5, 0.5],
+      predatorDeathFactor: [1, 1, 1, 1, 1],
+      seed: null
+    });
+  });
+
+  test('is limited in length', () => {
+    expect(validatePreviewOptions({})).toBeNull();
+    expect(validatePreviewOptions({ duration: 0 })).toMatch(/Duration must be/);
+    expect(validatePreviewOptions({ interval: 0.001 })).toMatch(/Interval must be at least/);
+    expect(validatePreviewOptions({ duration: 10000, interval: 0.1 })).toMatch(/limited to 20000 points/);
+  });
+});
@@ -0,0 +1,37 @@
+// A real HTTP server around some routes, for route tests
+
+import express from 'express';
+import { openStorage } from '../../src/storage/index.js';
+
+// Start an app on a free port with fresh in-memory storage. Resolves to
+// { request(method, path, body), close() }; request resolves to { status, body }.
+export async function startServer(mounts) {
+  await openStorage({ adapter: 'memory' });
+
+  const app = express();
+  app.use(express.json({ limit: '10mb' }));
+  app.use(express.text({ type: ['application/yaml', 'text/plain'] }));
+  Object.entries(mounts).forEach(([path, router]) => app.use(path, router));
+
+  const server = await new Promise(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const base = `http://127.0.0.1:${server.address().port}`;
+
+  return {
+    async request(method, path, body, { contentType = 'application/json' } = {}) {
+      const response = await fetch(`${base}${path}`, {
+        method,
+        headers: body === undefined ? {} : { 'Content-Type': contentType },
+        body: body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body)
+      });
+      const text = await response.text();
+      const json = response.headers.get('content-type')?.includes('json');
+      return { status: response.status, body: json ? JSON.parse(text) : text, headers: response.headers };
+    },
+    close: () => new Promise(resolve => {
+      server.close(resolve);
+      server.closeAllConnections();
+    })
+  };
+}
@@ -0,0 +1,148 @@
+// Channels, reconnection and the message protocol of /api/live
+
+import { LiveHub, liveHub } from '../src/live/hub.js';
+import { handleConnection } from '../src/live/connection.js';
+import { validateChannel, validateClientMessage, PROTOCOL_VERSION } from '../src/live/protocol.js';
+
+// Stands in for a WebSocket, keeping what it was sent and its listeners
+function connection() {
+  const listeners = {};
+  return {
+    readyState: 1,
+    received: [],
+    send(data) { this.received.push(JSON.parse(data)); },
+    on(event, listener) { listeners[event] = listener; },
+    removeAllListeners(event) { delete listeners[event]; },
+    emit(event, data) { listeners[event]?.(data); },
+    last(type) { return this.received.filter(m => m.type === type).at(-1); }
+  };
+}
+
+describe('validateChannel', () => {
+  test.each(['session:abc', 'room:K7Q2', 'run:1-2_3', 'jobs'])('accepts %s', (channel) => {
+    expect(validateChannel(channel)).toBeNull();
+  });
+
+  test.each([
+    [42, /must be a string/],
+    ['lobby:1', /Unknown channel: lobby:1/],
+    ['session:a:b', /Unknown channel/],
+    ['run:', /Unknown channel/]
+  ])('rejects %p', (channel, error) => {
+    expect(validateChannel(channel)).toMatch(error);
+  });
+});
+
+describe('validateClientMessage', () => {
+  test.each([
+    [[], /JSON objects/],
+    [{ type: 'shout' }, /Unknown message type: shout/],
+    [{ type: 'reconnect' }, /previous clientId/],
+    [{ type: 'simulation_update', channel: 'session:abc' }, /only publish on run:<id> and scenario:<id>/],
+    [{ type: 'join_room' }, /need the room code/],
+    [{ type: 'room_session', code: 'K7Q2', payload: { command: 'update_parameters' } }, /Room run commands are/]
+  ])('rejects %j', (message, error) => {
+    expect(validateClientMessage(message)).toMatch(error);
+  });
+
+  test('accepts session commands and relays on run channels', () => {
+    expect(validateClientMessage({ type: 'start', sessionId: 'abc' })).toBeNull();
+    expect(validateClientMessage({ type: 'simulation_update', channel: 'run:abc' })).toBeNull();
+  });
+});
+
+describe('LiveHub', () => {
+  let hub;
+
+  beforeEach(() => {
+    hub = new LiveHub({ resumeGrace: 10 });
+  });
+
+  test('greets a connection with its id and the protocol version', () => {
+    const ws = connection();
+    const { id } = hub.attach(ws);
+    expect(ws.last('connected')).toMatchObject({ clientId: id, protocolVersion: PROTOCOL_VERSION });
+  });
+
+  test('publishes only to subscribers, optionally but one', () => {
+    const [a, b, c] = [connection(), connection(), connection()];
+    const [idA, idB] = [hub.attach(a).id, hub.attach(b).id];
+    hub.attach(c);
+    hub.subscribe(idA, 'run:1');
+    hub.subscribe(idB, 'run:1');
+
+    hub.publish('run:1', { type: 'simulation_state' }, { except: idA });
+    expect(a.last('simulation_state')).toBeUndefined();
+    expect(b.last('simulation_state')).toEqual({ type: 'simulation_state', channel: 'run:1' });
+    expect(c.last('simulation_state')).toBeUndefined();
+
+    hub.closeChannel('run:1');
+    expect(hub.channels.has('run:1')).toBe(false);
+    expect(hub.isSubscribed(idB, 'run:1')).toBe(false);
+  });
+
+  test('lets a client resume its subscriptions within the grace period', () => {
+    const first = connection();
+    const { id } = hub.attach(first);
+    hub.subscribe(id, 'scenario:s1');
+    hub.detach(first);
+
+    const second = connection();
+    const fresh = hub.attach(second);
+    expect(hub.reconnect(second, id)).toBe(hub.clients.get(id));
+    expect(second.last('reconnected')).toEqual({ type: 'reconnected', clientId: id, channels: ['scenario:s1'] });
+    expect(hub.clients.has(fresh.id)).toBe(false);
+
+    hub.publish('scenario:s1', { type: 'simulation_state' });
+    expect(second.last('simulation_state')).toBeDefined();
+  });
+
+  test('forgets a client once the grace period is over', async () => {
+    const ws = connection();
+    const { id } = hub.attach(ws);
+    hub.subscribe(id, 'run:1');
+    const expired = new Promise(resolve => hub.on('expired', resolve));
+    hub.detach(ws);
+
+    expect(await expired).toBe(id);
+    expect(hub.channels.has('run:1')).toBe(false);
+    const late = connection();
+    hub.attach(late);
+    expect(hub.reconnect(late, id)).toBeNull();
+  });
+});
+
+describe('connections', () => {
+  function connect() {
+    const ws = connection();
+    handleConnection(ws);
+    const send = (message) => ws.emit('message', typeof message === 'string' ? message : JSON.stringify(message));
+    return { ws, id: ws.last('connected').clientId, send };
+  }
+
+  afterAll(() => {
+    [...liveHub.clients.keys()].forEach(id => liveHub.drop(id, false));
+  });
+
+  test('answer malformed messages with an error', () => {
+    const { ws, send } = connect();
+    send('{not json');
+    expect(ws.last('error').error).toBe('Messages must be valid JSON');
+    send({ type: 'subscribe', channel: 'room:K7Q2' });
+    expect(ws.last('error').error).toMatch(/join_room/);
+  });
+
+  test('relay updates to the other subscribers of a channel the sender joined', () => {
+    const sender = connect();
+    const watcher = connect();
+    sender.send({ type: 'simulation_update', channel: 'run:r1', payload: { time: 1 } });
+    expect(sender.ws.last('error').error).toMatch(/Subscribe to run:r1/);
+
+    sender.send({ type: 'subscribe', channel: 'run:r1' });
+    watcher.send({ type: 'subscribe', channel: 'run:r1' });
+    expect(watcher.ws.last('subscribed')).toEqual({ type: 'subscribed', channel: 'run:r1' });
+    sender.send({ type: 'simulation_update', channel: 'run:r1', payload: { time: 1 } });
+    expect(watcher.ws.last('simulation_state')).toEqual({ type: 'simulation_state', channel: 'run:r1', data: { time: 1 } });
+    expect(sender.ws.last('simulation_state')).toBeUndefined();
+  });
+});
@@ -0,0 +1,77 @@
+// Interaction models: functional responses, validation and their effect on runs
+
+import {
+  INTERACTION_MODELS,
+  resolveInteractionModel,
+  validateInteractionModel,
+  describeInteractionModels
+} from '../src/simulation/interactionModels.js';
+import { validateParameters } from '../src/simulation/validation.js';
+import { createSimulator } from '../src/simulation/factory.js';
+
+const PARAMETERS = {
+  prey: { initialPopulation: 1000, birthRate: 1, carryingCapacity: 5000 },
+  predator: { initialPopulation: 100, huntingEfficiency: 0.01, deathRate: 0.5 },
+  environment: { resourceAvailability: 0.7 }
+};
+
+const response = (type, prey, predator = 10, parameters = {}) =>
+  resolveInteractionModel({ type, parameters }).functionalResponse(prey, predator, 0.01);
+
+describe('functional responses', () => {
+  test('grow linearly under mass action', () => {
+    expect(response('holling1', 100)).toBeCloseTo(1);
+    expect(response('holling1', 1000)).toBeCloseTo(10);
+  });
+
+  test('saturate at one over the handling time', () => {
+    expect(response('holling2', 1e9, 10, { handlingTime: 0.5 })).toBeCloseTo(2, 3);
+    expect(response('holling3', 1e9, 10, { handlingTime: 0.5 })).toBeCloseTo(2, 3);
+  });
+
+  test('are sigmoid for type III', () => {
+    // At low prey density type III consumption is type II scaled by the prey density
+    expect(response('holling3', 0.01) / response('holling2', 0.01)).toBeCloseTo(0.01, 4);
+  });
+
+  test('drop as predators interfere or outnumber their prey', () => {
+    expect(response('beddingtonDeAngelis', 100, 100)).toBeLessThan(response('beddingtonDeAngelis', 100, 1));
+    expect(response('ratioDependent', 100, 100)).toBeLessThan(response('ratioDependent', 100, 1));
+    expect(response('ratioDependent', 0, 0)).toBe(0);
+  });
+
+  test('fall back to the declared parameter defaults', () => {
+    const { settings } = resolveInteractionModel({ type: 'beddingtonDeAngelis' });
+    expect(settings).toEqual({ handlingTime: 0.1, interference: 0.01 });
+    expect(resolveInteractionModel().definition.id).toBe('holling1');
+  });
+});
+
+describe('validateInteractionModel', () => {
+  test('accepts known models within their ranges', () => {
+    expect(validateInteractionModel(undefined)).toBeNull();
+    expect(validateInteractionModel({ type: 'holling2', parameters: { handlingTime: 0.2 } })).toBeNull();
+  });
+
+  test('rejects unknown models and out of range settings', () => {
+    expect(validateInteractionModel('holling2')).toMatch(/must be an object/);
+    expect(validateInteractionModel({ type: 'toString' })).toMatch(/Unknown interaction model/);
+    expect(validateInteractionModel({ type: 'holling2', parameters: [] })).toMatch(/parameters must be an object/);
+    expect(validateInteractionModel({ type: 'holling2', parameters: { handlingTime: 2 } }))
+      .toMatch(/handlingTime must be a number between 0 and 1/);
+  });
+
+  test('is applied to simulation parameters', () => {
+    expect(validateParameters({ ...PARAMETERS, model: { type: 'holling9' } })).toMatch(/Unknown interaction model/);
+  });
+});
+
+test('every model is described for the API', () => {
+  expect(describeInteractionModels().map(model => model.id)).toEqual(Object.keys(INTERACTION_MODELS));
+});
+
+test('saturated predators no longer wipe out their prey', () => {
+  const run = (model) => createSimulator({ ...PARAMETERS, model }).simulate();
+  expect(run({ type: 'holling1' }).extinctionOccurred).toBe(true);
+  expect(run({ type: 'holling2', parameters: { handlingTime: 1 } }).extinctionOccurred).toBe(false);
+});
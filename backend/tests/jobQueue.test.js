@@ -0,0 +1,82 @@
+// The background job queue and the job types it runs
+
+import { JobQueue, describeJob } from '../src/jobs/jobQueue.js';
+import { validateJob, JOB_TYPES } from '../src/jobs/tasks.js';
+
+const PARAMETERS = {
+  prey: { initialPopulation: 1000, birthRate: 1, carryingCapacity: 5000 },
+  predator: { initialPopulation: 100, huntingEfficiency: 0.01, deathRate: 0.5 },
+  environment: { resourceAvailability: 0.7 }
+};
+
+const finished = (queue, job) => new Promise(resolve => {
+  const onFinished = (done) => {
+    if (done.id !== job.id) return;
+    queue.off('finished', onFinished);
+    resolve(done);
+  };
+  queue.on('finished', onFinished);
+});
+
+let queue;
+beforeEach(() => {
+  queue = new JobQueue({ concurrency: 1, maxQueueLength: 2, historyLimit: 2 });
+});
+afterEach(() => {
+  // Stops the queue's idle workers
+  queue.configure({ concurrency: 0 });
+});
+
+describe('validateJob', () => {
+  test('checks the type and the payload of the matching endpoint', () => {
+    expect(JOB_TYPES).toEqual(['simulation', 'ensemble', 'sweep', 'bifurcation', 'sensitivity', 'calibration', 'phaseSpace']);
+    expect(validateJob('simulation', { parameters: PARAMETERS })).toBeNull();
+    expect(validateJob('render', {})).toMatch(/Unknown job type/);
+    expect(validateJob('simulation', null)).toMatch(/must be an object/);
+    expect(validateJob('sweep', { parameters: PARAMETERS, axes: [] })).toMatch(/one or two axes/);
+  });
+});
+
+describe('JobQueue', () => {
+  test('runs a job on a worker and keeps its result', async () => {
+    const job = queue.submit('phaseSpace', { parameters: PARAMETERS, resolution: 5 });
+    expect(job.status).toBe('running');
+
+    const done = await finished(queue, job);
+    expect(done).toMatchObject({ status: 'completed', progress: 1, payload: null });
+    expect(done.result).toMatchObject({ resolution: 5, nullclines: expect.any(Object) });
+    expect(describeJob(done)).not.toHaveProperty('result');
+  });
+
+  test('reports a failing job', async () => {
+    const job = queue.submit('simulation', { parameters: { environment: {} } });
+    const done = await finished(queue, job);
+    expect(done.status).toBe('failed');
+    expect(done.error).toEqual(expect.any(String));
+  });
+
+  test('queues jobs beyond the concurrency and cancels them', async () => {
+    const running = queue.submit('phaseSpace', { parameters: PARAMETERS, resolution: 5 });
+    const waiting = queue.submit('phaseSpace', { parameters: PARAMETERS, resolution: 5 });
+    expect(waiting.status).toBe('queued');
+
+    expect(queue.cancel(waiting.id).status).toBe('cancelled');
+    expect(queue.cancel(waiting.id)).toBeNull();
+    await finished(queue, running);
+  });
+
+  test('is full at its queue limit', () => {
+    queue.configure({ concurrency: 0 });
+    queue.submit('phaseSpace', { parameters: PARAMETERS });
+    expect(queue.isFull()).toBe(false);
+    queue.submit('phaseSpace', { parameters: PARAMETERS });
+    expect(queue.isFull()).toBe(true);
+  });
+
+  test('forgets the oldest finished jobs beyond the history limit', () => {
+    queue.configure({ concurrency: 0 });
+    const jobs = [1, 2, 3].map(() => queue.submit('phaseSpace', { parameters: PARAMETERS }));
+    jobs.forEach(job => queue.cancel(job.id));
+    expect(queue.list().map(job => job.id)).toEqual([jobs[1].id, jobs[2].id]);
+  });
+});
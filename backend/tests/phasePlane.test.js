@@ -0,0 +1,56 @@
+// Phase plane: vector field, nullclines and the window they are drawn in
+
+import { calculatePhasePlane, validatePhasePlaneOptions } from '../src/simulation/phasePlane.js';
+import { EcosystemSimulator } from '../src/simulation/simulator.js';
+
+const PARAMETERS = {
+  prey: { initialPopulation: 1000, birthRate: 1, carryingCapacity: 5000 },
+  predator: { initialPopulation: 100, huntingEfficiency: 0.01, deathRate: 0.5 },
+  environment: { resourceAvailability: 0.7 }
+};
+
+const derivatives = (prey, predator) =>
+  new EcosystemSimulator(PARAMETERS).calculatePopulationDerivatives([prey, predator], 0.7);
+
+describe('calculatePhasePlane', () => {
+  const plane = calculatePhasePlane(PARAMETERS, { resolution: 4 });
+
+  test('covers the initial state, the carrying capacity and the coexistence point', () => {
+    expect(plane.bounds.preyMax).toBeCloseTo(3500 * 1.1, 6);
+    expect(plane.bounds.predatorMax).toBeCloseTo(100 * 1.5, 6);
+    expect(plane.fixedPoints.map(point => point.type)).toEqual(['trivial', 'prey-only', 'coexistence']);
+  });
+
+  test('samples the vector field on a resolution x resolution grid', () => {
+    expect(plane.phaseSpace).toHaveLength(16);
+    const { x, y, dx, dy } = plane.phaseSpace[5];
+    const [dPrey, dPredator] = derivatives(x, y);
+    expect(dx).toBeCloseTo(dPrey, 6);
+    expect(dy).toBeCloseTo(dPredator, 6);
+  });
+
+  test('draws the prey nullcline where prey stop changing', () => {
+    const [line] = plane.nullclines.prey;
+    const { x, y } = line[Math.floor(line.length / 2)];
+    expect(Math.abs(derivatives(x, y)[0])).toBeLessThan(1e-6 * x);
+  });
+
+  test('draws the predator nullcline as a vertical line at the break-even prey', () => {
+    const [line] = plane.nullclines.predator;
+    expect(line.map(point => point.x)).toEqual([expect.closeTo(100, 3), expect.closeTo(100, 3)]);
+    expect(line.map(point => point.y)).toEqual([0, plane.bounds.predatorMax]);
+  });
+
+  test('keeps a window it is given', () => {
+    const bounds = { preyMax: 200, predatorMax: 50 };
+    expect(calculatePhasePlane(PARAMETERS, { resolution: 2, bounds }).bounds).toEqual(bounds);
+  });
+});
+
+test('validatePhasePlaneOptions needs a usable resolution and window', () => {
+  expect(validatePhasePlaneOptions({})).toBeNull();
+  expect(validatePhasePlaneOptions({ resolution: 101 })).toMatch(/between 2 and 100/);
+  expect(validatePhasePlaneOptions({ resolution: 2.5 })).toMatch(/between 2 and 100/);
+  expect(validatePhasePlaneOptions({ bounds: { preyMax: 10 } })).toMatch(/positive preyMax and predatorMax/);
+  expect(validatePhasePlaneOptions({ bounds: null })).toMatch(/positive preyMax and predatorMax/);
+});
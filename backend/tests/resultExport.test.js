@@ -0,0 +1,128 @@
+// Result export: column choice, decimation and the three file formats
+
+import {
+  exportResults,
+  exportOptionsFrom,
+  validateExportOptions,
+  resultColumns,
+  runColumns,
+  selectColumns,
+  decimate
+} from '../src/simulation/resultExport.js';
+
+const step = (time, extra = {}) => ({
+  time,
+  preyPopulation: 100 + time,
+  predatorPopulation: 10 + time,
+  resourceLevel: 0.5,
+  populations: { prey: 100 + time, predator: 10 + time },
+  ...extra
+});
+
+const RESULTS = {
+  timeSteps: [
+    step(0),
+    step(1, { events: ['Cull 5 prey'] }),
+    step(2, { stages: { prey: { juvenile: 30, adult: 72 } } })
+  ]
+};
+
+describe('export options', () => {
+  test('are read from a query string', () => {
+    expect(exportOptionsFrom({ format: 'ndjson', columns: 'time, populations', every: '2', maxRows: '10' }))
+      .toEqual({ format: 'ndjson', columns: ['time', 'populations'], every: 2, maxRows: 10 });
+  });
+
+  test('name a format by its own key only', () => {
+    expect(validateExportOptions({ format: 'csv' })).toBeNull();
+    expect(validateExportOptions({ format: 'toString' })).toMatch(/Unknown format/);
+    expect(validateExportOptions({ format: ['csv'] })).toMatch(/Unknown format/);
+    expect(validateExportOptions({ format: 'csv', every: 0 })).toMatch(/every/);
+    expect(validateExportOptions({ format: 'csv', maxRows: 1 })).toMatch(/maxRows/);
+  });
+});
+
+describe('columns', () => {
+  test('cover every species, stage and event of the steps', () => {
+    expect(resultColumns(RESULTS.timeSteps)).toEqual([
+      'time', 'preyPopulation', 'predatorPopulation', 'resourceLevel',
+      'populations.prey', 'populations.predator',
+      'stages.prey.juvenile', 'stages.prey.adult',
+      'events'
+    ]);
+  });
+
+  test('are known from the parameters before a run', () => {
+    const columns = runColumns({
+      foodWeb: { species: [{ id: 'grass' }, { id: 'deer.red', stages: {} }], interactions: [[0, 0], [0.01, 0]] },
+      events: [{ type: 'cull', target: 'grass', amount: 1, time: 1 }]
+    });
+    expect(columns).toContain('populations.deer.red');
+    expect(columns).toContain('stages.deer.red.adult');
+    expect(columns).toContain('events');
+    expect(columns).not.toContain('stages.grass.adult');
+  });
+
+  test('are chosen by name or by the group they belong to', () => {
+    const available = resultColumns(RESULTS.timeSteps);
+    expect(selectColumns(available, ['time', 'populations']).columns)
+      .toEqual(['time', 'populations.prey', 'populations.predator']);
+    expect(selectColumns(available, ['wolves']).error).toMatch(/Unknown column: wolves/);
+  });
+});
+
+test('decimation keeps the first and last steps', () => {
+  const steps = Array.from({ length: 11 }, (_, i) => ({ time: i }));
+  expect(decimate(steps, { every: 4 }).map(s => s.time)).toEqual([0, 4, 8, 10]);
+  expect(decimate(steps, { maxRows: 3 }).map(s => s.time)).toEqual([0, 5, 10]);
+});
+
+describe('exportResults', () => {
+  test('writes CSV with empty fields for missing values', () => {
+    const { content, contentType, rows } = exportResults(RESULTS, { format: 'csv', columns: ['time', 'stages', 'events'] });
+    expect(contentType).toBe('text/csv');
+    expect(rows).toBe(3);
+    expect(content).toBe([
+      'time,stages.prey.juvenile,stages.prey.adult,events',
+      '0,,,',
+      '1,,,Cull 5 prey',
+      '2,30,72,',
+      ''
+    ].join('\n'));
+  });
+
+  test('writes one JSON object per line', () => {
+    const { content } = exportResults(RESULTS, { format: 'ndjson', columns: ['time', 'populations.prey'] });
+    const lines = content.trim().split('\n').map(line => JSON.parse(line));
+    expect(lines[2]).toEqual({ time: 2, 'populations.prey': 102 });
+  });
+
+  test('exports species whose ids contain dots', () => {
+    const results = { timeSteps: [{ time: 0, populations: { 'deer.red': 12 } }] };
+    const { content } = exportResults(results, { format: 'csv', columns: ['populations'] });
+    expect(content).toBe('populations.deer.red\n12\n');
+  });
+
+  test('writes columns in aligned blocks after a JSON header', () => {
+    const { content } = exportResults(RESULTS, { format: 'columnar', columns: ['time', 'events'] });
+    expect(content.toString('ascii', 0, 4)).toBe('ESCF');
+    const headerLength = content.readUInt32LE(4);
+    const header = JSON.parse(content.toString('utf8', 8, 8 + headerLength));
+    expect(header).toMatchObject({ format: 'ecosystem-sandbox/columns', version: 1, rows: 3 });
+
+    const data = 8 + headerLength;
+    const [time, events] = header.columns;
+    expect([0, 1, 2].map(i => content.readDoubleLE(data + time.offset + i * 8))).toEqual([0, 1, 2]);
+    expect(events.offset % 8).toBe(0);
+    const start = data + events.offset;
+    const text = content.toString('utf8', start + 16, start + events.byteLength);
+    expect(text).toBe('Cull 5 prey');
+  });
+
+  test('chooses from the given columns when the steps lack some', () => {
+    const { columns, content } = exportResults({ timeSteps: [step(0)] }, { format: 'csv', columns: ['events'] },
+      [...resultColumns([step(0)]), 'events']);
+    expect(columns).toEqual(['events']);
+    expect(content).toBe('events\n\n');
+  });
+});
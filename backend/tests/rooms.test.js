@@ -0,0 +1,127 @@
+// Shared rooms over a hub of stand-in connections
+
+import { LiveHub } from '../src/live/hub.js';
+import { LiveSessionManager } from '../src/live/sessions.js';
+import { RoomManager, MAX_MEMBERS } from '../src/live/rooms.js';
+
+const PARAMETERS = {
+  prey: { initialPopulation: 1000, birthRate: 1, carryingCapacity: 5000 },
+  predator: { initialPopulation: 100, huntingEfficiency: 0.01, deathRate: 0.5 },
+  environment: { resourceAvailability: 0.7 }
+};
+
+// Stands in for a WebSocket and keeps what it was sent
+function connection() {
+  return {
+    readyState: 1,
+    received: [],
+    send(data) { this.received.push(JSON.parse(data)); },
+    on() {},
+    removeAllListeners() {}
+  };
+}
+
+let hub;
+let sessions;
+let rooms;
+
+beforeEach(() => {
+  hub = new LiveHub();
+  sessions = new LiveSessionManager(hub);
+  rooms = new RoomManager(hub, sessions, null);
+});
+
+function connect() {
+  const ws = connection();
+  const { id } = hub.attach(ws);
+  const last = (type) => ws.received.filter(m => m.type === type).at(-1);
+  return { id, ws, last, send: (message) => rooms.handle(id, message) };
+}
+
+function openRoom() {
+  const facilitator = connect();
+  facilitator.send({ type: 'create_room', payload: { name: 'Workshop', displayName: 'Fac', parameters: PARAMETERS } });
+  return { facilitator, code: facilitator.last('room_joined').code };
+}
+
+const membersOf = (client) => client.last('room_state').data.members;
+
+describe('shared rooms', () => {
+  test('make the creator a facilitator holding the lock', () => {
+    const { facilitator } = openRoom();
+    const { room, participantId } = facilitator.last('room_joined').data;
+    expect(room.lock).toBe(participantId);
+    expect(room.members).toEqual([expect.objectContaining({ name: 'Fac', role: 'facilitator', online: true })]);
+  });
+
+  test('restore a member who rejoins with their token', () => {
+    const { code } = openRoom();
+    const guest = connect();
+    guest.send({ type: 'join_room', code, payload: { displayName: 'Pat' } });
+    const { token, participantId } = guest.last('room_joined').data;
+
+    const returning = connect();
+    returning.send({ type: 'join_room', code, payload: { token } });
+    expect(returning.last('room_joined').data.participantId).toBe(participantId);
+    expect(membersOf(returning)).toHaveLength(2);
+  });
+
+  test('keep a client that joins twice as one member', () => {
+    const { facilitator, code } = openRoom();
+    const guest = connect();
+    guest.send({ type: 'join_room', code, payload: { displayName: 'Pat' } });
+    const first = guest.last('room_joined').data.participantId;
+    guest.send({ type: 'join_room', code, payload: { displayName: 'Pat again' } });
+
+    expect(guest.last('room_joined').data.participantId).toBe(first);
+    expect(membersOf(facilitator).map(m => m.name)).toEqual(['Fac', 'Pat again']);
+  });
+
+  test('drop members who leave and hand on the facilitator role', () => {
+    const { facilitator, code } = openRoom();
+    const guest = connect();
+    guest.send({ type: 'join_room', code, payload: { displayName: 'Pat' } });
+    facilitator.send({ type: 'leave_room', code });
+
+    expect(membersOf(guest)).toEqual([expect.objectContaining({ name: 'Pat', role: 'facilitator' })]);
+    guest.send({ type: 'leave_room', code });
+    guest.send({ type: 'join_room', code, payload: {} });
+    expect(guest.last('room_error').error).toMatch(/Unknown room/);
+  });
+
+  test('give the seat of an absent member to a newcomer once full', () => {
+    const { facilitator, code } = openRoom();
+    const guests = Array.from({ length: MAX_MEMBERS - 1 }, (_, i) => {
+      const guest = connect();
+      guest.send({ type: 'join_room', code, payload: { displayName: `G${i}` } });
+      return guest;
+    });
+
+    const late = connect();
+    late.send({ type: 'join_room', code, payload: { displayName: 'Late' } });
+    expect(late.last('room_error').error).toMatch(/full/);
+
+    hub.drop(guests[0].id);
+    late.send({ type: 'join_room', code, payload: { displayName: 'Late' } });
+    expect(late.last('room_joined')).toBeDefined();
+    const names = membersOf(facilitator).map(m => m.name);
+    expect(names).toHaveLength(MAX_MEMBERS);
+    expect(names).not.toContain('G0');
+  });
+
+  test('let only the lock holder edit, and keep run options during a run', () => {
+    const { facilitator, code } = openRoom();
+    const guest = connect();
+    guest.send({ type: 'join_room', code, payload: { displayName: 'Pat' } });
+    guest.send({ type: 'update_room_parameters', code, payload: { parameters: PARAMETERS } });
+    expect(guest.last('room_error').error).toMatch(/edit lock/);
+
+    facilitator.send({ type: 'room_session', code, payload: { command: 'create_session' } });
+    facilitator.send({ type: 'update_room_parameters', code, payload: { parameters: PARAMETERS, runOptions: { mode: 'stochastic' } } });
+    expect(facilitator.last('room_error').error).toMatch(/Stop the room run/);
+
+    facilitator.send({ type: 'room_session', code, payload: { command: 'stop' } });
+    facilitator.send({ type: 'update_room_parameters', code, payload: { parameters: PARAMETERS, runOptions: { mode: 'stochastic' } } });
+    expect(guest.last('room_parameters').data).toMatchObject({ revision: 1, runOptions: { mode: 'stochastic' } });
+  });
+});
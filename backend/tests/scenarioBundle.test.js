@@ -0,0 +1,101 @@
+// Scenario bundles: round trips, migrations and validation
+
+import {
+  createBundle,
+  serializeBundle,
+  parseBundle,
+  migrateBundle,
+  validateBundle,
+  BUNDLE_FORMAT,
+  BUNDLE_VERSION
+} from '../src/models/scenarioBundle.js';
+
+const PARAMETERS = {
+  prey: { initialPopulation: 1000, birthRate: 1, carryingCapacity: 5000 },
+  predator: { initialPopulation: 100, huntingEfficiency: 0.01, deathRate: 0.5 },
+  environment: { resourceAvailability: 0.7 }
+};
+
+const stored = (id, name, extra = {}) => ({
+  _id: id,
+  uid: `uid-${id}`,
+  name,
+  description: `${name} description`,
+  parameters: PARAMETERS,
+  metadata: { createdBy: 'tester', tags: ['test'], isPublic: true, views: 3, likes: 2 },
+  simulationResults: { timeSteps: [{ time: 0 }] },
+  ...extra
+});
+
+describe('bundles', () => {
+  test('carry scenarios without counters, and results only when asked', () => {
+    const bundle = createBundle([stored('1', 'River')]);
+    expect(bundle).toMatchObject({ format: BUNDLE_FORMAT, version: BUNDLE_VERSION });
+    expect(bundle.scenarios[0]).toEqual({
+      uid: 'uid-1',
+      id: '1',
+      name: 'River',
+      description: 'River description',
+      parameters: PARAMETERS,
+      metadata: { createdBy: 'tester', tags: ['test'], isPublic: true }
+    });
+    expect(createBundle([stored('1', 'River')], { includeResults: true }).scenarios[0].simulationResults)
+      .toEqual({ timeSteps: [{ time: 0 }] });
+  });
+
+  test.each(['json', 'yaml'])('read back what they write as %s', (format) => {
+    const bundle = createBundle([stored('1', 'River'), stored('2', 'Lake')]);
+    expect(parseBundle(serializeBundle(bundle, format))).toEqual(bundle);
+  });
+
+  test('report text that is neither JSON nor YAML', () => {
+    expect(() => parseBundle('{ unclosed: [')).toThrow(/neither JSON nor YAML/);
+  });
+});
+
+describe('migrateBundle', () => {
+  test('keeps current bundles as they are', () => {
+    const bundle = createBundle([stored('1', 'River')]);
+    expect(migrateBundle(bundle)).toEqual({ bundle, migratedFrom: BUNDLE_VERSION });
+  });
+
+  test('turns scenarios as the API returns them into a bundle', () => {
+    const { bundle, migratedFrom } = migrateBundle([stored(7, 'River')]);
+    expect(migratedFrom).toBe(0);
+    expect(bundle.version).toBe(BUNDLE_VERSION);
+    expect(bundle.scenarios[0]).toMatchObject({ uid: 'uid-7', id: '7', name: 'River' });
+    expect(migrateBundle(stored('8', 'Lake')).bundle.scenarios).toHaveLength(1);
+  });
+
+  test('rejects other formats and newer versions', () => {
+    expect(migrateBundle('text').error).toMatch(/must be an object/);
+    expect(migrateBundle({ format: 'other', version: 1 }).error).toMatch(/Not a scenario bundle/);
+    expect(migrateBundle({ format: BUNDLE_FORMAT, version: BUNDLE_VERSION + 1 }).error).toMatch(/Unsupported bundle version/);
+  });
+});
+
+describe('validateBundle', () => {
+  test('accepts valid scenarios', () => {
+    const { scenarios } = validateBundle(createBundle([stored('1', 'River'), stored('2', 'Lake')]));
+    expect(scenarios.map(s => s.fields)).toEqual([null, null]);
+  });
+
+  test('reports the fields of invalid scenarios and repeated names or uids', () => {
+    const bundle = createBundle([
+      stored('1', 'River'),
+      stored('2', 'River', { uid: 'uid-1' }),
+      stored('3', 'Lake', { uid: '' })
+    ]);
+    const { scenarios } = validateBundle(bundle);
+    expect(scenarios[0].fields).toBeNull();
+    expect(scenarios[1].fields).toEqual({
+      name: 'is also the name of scenario 0 of the bundle',
+      uid: 'is also the uid of scenario 0 of the bundle'
+    });
+    expect(scenarios[2].fields.uid).toMatch(/1 to 100 characters/);
+  });
+
+  test('needs between one and the maximum number of scenarios', () => {
+    expect(validateBundle({ scenarios: [] }).error).toMatch(/non-empty/);
+  });
+});
@@ -0,0 +1,86 @@
+// Importing and exporting bundles through the scenario routes
+
+import scenarioRoutes from '../src/routes/scenarios.js';
+import { createBundle } from '../src/models/scenarioBundle.js';
+import { startServer } from './helpers/server.js';
+
+const PARAMETERS = {
+  prey: { initialPopulation: 1000, birthRate: 1, carryingCapacity: 5000 },
+  predator: { initialPopulation: 100, huntingEfficiency: 0.01, deathRate: 0.5 },
+  environment: { resourceAvailability: 0.7 }
+};
+
+const scenario = (name, uid) => ({
+  _id: 'elsewhere-1',
+  uid,
+  name,
+  description: `${name} description`,
+  parameters: PARAMETERS,
+  metadata: { createdBy: 'exporter', tags: [], isPublic: false }
+});
+
+let server;
+beforeEach(async () => {
+  server = await startServer({ '/api/scenarios': scenarioRoutes });
+});
+afterEach(async () => {
+  await server.close();
+});
+
+const importBundle = (bundle, query = '') => server.request('POST', `/api/scenarios/import${query}`, bundle);
+
+describe('bundle import', () => {
+  test('creates new scenarios and keeps their uid', async () => {
+    const { status, body } = await importBundle(createBundle([scenario('Imported river', 'river-uid')]));
+    expect(status).toBe(201);
+    expect(body.summary).toMatchObject({ created: 1 });
+
+    const stored = await server.request('GET', `/api/scenarios/${body.results[0].id}`);
+    expect(stored.body).toMatchObject({ name: 'Imported river', uid: 'river-uid' });
+  });
+
+  test('matches stored scenarios by uid before name', async () => {
+    await importBundle(createBundle([scenario('River', 'river-uid')]));
+
+    const { body } = await importBundle(createBundle([scenario('River renamed', 'river-uid')]), '?dryRun=true');
+    expect(body.results[0]).toMatchObject({ action: 'skipped', conflict: { by: 'uid', name: 'River' } });
+
+    const byName = await importBundle(createBundle([scenario('River', 'other-uid')]), '?dryRun=true');
+    expect(byName.body.results[0].conflict.by).toBe('name');
+  });
+
+  test('renames copies, which get a uid of their own', async () => {
+    await importBundle(createBundle([scenario('River', 'river-uid')]));
+    const { body } = await importBundle(createBundle([scenario('River', 'river-uid')]), '?onConflict=rename');
+    expect(body.results[0]).toMatchObject({ action: 'renamed', name: 'River (imported)' });
+
+    const copy = await server.request('GET', `/api/scenarios/${body.results[0].id}`);
+    expect(copy.body.uid).not.toBe('river-uid');
+  });
+
+  test('replaces stored scenarios as a new revision', async () => {
+    const first = await importBundle(createBundle([scenario('River', 'river-uid')]));
+    const id = first.body.results[0].id;
+    const changed = { ...scenario('River', 'river-uid'), description: 'Changed' };
+    const { body } = await importBundle(createBundle([changed]), '?onConflict=replace&author=ana');
+    expect(body.results[0]).toMatchObject({ action: 'replaced', id });
+
+    const revisions = await server.request('GET', `/api/scenarios/${id}/revisions`);
+    expect(revisions.body.revisions[0]).toMatchObject({ number: 2, author: 'ana' });
+  });
+
+  test('imports nothing when one scenario is invalid', async () => {
+    const bundle = createBundle([scenario('Fine', 'fine-uid'), { ...scenario('', 'broken-uid') }]);
+    const { status, body } = await importBundle(bundle);
+    expect(status).toBe(400);
+    expect(body.results).toEqual([expect.objectContaining({ index: 1, action: 'invalid' })]);
+    expect((await server.request('GET', '/api/scenarios?search=Fine')).body.scenarios).toEqual([]);
+  });
+
+  test('reads YAML bundles', async () => {
+    const yaml = (await server.request('GET', '/api/scenarios/export?format=yaml')).body;
+    expect(typeof yaml).toBe('string');
+    const { body } = await server.request('POST', '/api/scenarios/import?dryRun=true', yaml, { contentType: 'application/yaml' });
+    expect(body.results.every(r => r.action === 'skipped')).toBe(true);
+  });
+});
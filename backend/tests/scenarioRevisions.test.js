@@ -0,0 +1,96 @@
+// Scenario history: revisions, diffs, restores and conflicting changes
+
+import scenarioRoutes from '../src/routes/scenarios.js';
+import { storage } from '../src/storage/index.js';
+import { commitChange } from '../src/storage/history.js';
+import { diffParameters, RevisionConflictError } from '../src/models/scenarioRevisions.js';
+import { startServer } from './helpers/server.js';
+
+const PARAMETERS = {
+  prey: { initialPopulation: 1000, birthRate: 1, carryingCapacity: 5000 },
+  predator: { initialPopulation: 100, huntingEfficiency: 0.01, deathRate: 0.5 },
+  environment: { resourceAvailability: 0.7 }
+};
+
+const withBirthRate = (birthRate) => ({ ...PARAMETERS, prey: { ...PARAMETERS.prey, birthRate } });
+
+test('parameter diffs list added, removed and changed leaves by path', () => {
+  expect(diffParameters(
+    { prey: { birthRate: 1, carryingCapacity: 5000 }, events: [] },
+    { prey: { birthRate: 1.5 }, model: { type: 'holling2' }, events: [] }
+  )).toEqual([
+    { path: 'model.type', change: 'added', to: 'holling2' },
+    { path: 'prey.birthRate', change: 'changed', from: 1, to: 1.5 },
+    { path: 'prey.carryingCapacity', change: 'removed', from: 5000 }
+  ]);
+});
+
+describe('revision routes', () => {
+  let server;
+  let id;
+
+  beforeEach(async () => {
+    server = await startServer({ '/api/scenarios': scenarioRoutes });
+    const { body } = await server.request('POST', '/api/scenarios', {
+      name: 'River',
+      parameters: PARAMETERS,
+      metadata: { createdBy: 'ana' }
+    });
+    id = body._id;
+    await server.request('PUT', `/api/scenarios/${id}`, { parameters: withBirthRate(1.5), author: 'ben', message: 'Faster prey' });
+  });
+  afterEach(async () => {
+    await server.close();
+  });
+
+  const revisions = (path = '', method = 'GET', body) =>
+    server.request(method, `/api/scenarios/${id}/revisions${path}`, body);
+
+  test('list revisions newest first, without snapshots', async () => {
+    const { body } = await revisions();
+    expect(body.current).toBe(2);
+    expect(body.revisions.map(r => [r.number, r.author, r.message])).toEqual([[2, 'ben', 'Faster prey'], [1, 'ana', 'Created']]);
+    expect(body.revisions[0].snapshot).toBeUndefined();
+    expect((await revisions('/1')).body.snapshot.parameters.prey.birthRate).toBe(1);
+  });
+
+  test('compare the latest revision with the one before by default', async () => {
+    const { body } = await revisions('/diff');
+    expect(body.from.number).toBe(1);
+    expect(body.to.number).toBe(2);
+    expect(body.parameters).toEqual([{ path: 'prey.birthRate', change: 'changed', from: 1, to: 1.5 }]);
+    expect(body.outcome.changes).toBeNull();
+  });
+
+  test('restore an old revision as the newest one', async () => {
+    const { status, body } = await revisions('/1/restore', 'POST', { author: 'ana' });
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ revision: 3, parameters: { prey: { birthRate: 1 } } });
+    expect((await revisions('/3')).body).toMatchObject({ author: 'ana', message: 'Restored revision 1' });
+    expect((await revisions('/1')).body.snapshot.parameters.prey.birthRate).toBe(1);
+  });
+
+  test('reject bad revision numbers and unknown revisions', async () => {
+    expect((await revisions('/0')).status).toBe(400);
+    expect((await revisions('/diff?from=x')).status).toBe(400);
+    expect((await revisions('/9')).body).toEqual({ error: 'Revision 9 not found' });
+    expect((await revisions('/1/restore', 'POST', { message: 7 })).status).toBe(400);
+    expect((await server.request('GET', '/api/scenarios/missing/revisions')).status).toBe(404);
+  });
+
+  test('give scenarios stored without history their current content as a first revision', async () => {
+    const legacy = await storage().create({ name: 'Legacy', parameters: PARAMETERS, metadata: { createdBy: 'old' } });
+    const { body } = await server.request('GET', `/api/scenarios/${legacy._id}/revisions`);
+    expect(body.revisions).toEqual([expect.objectContaining({ number: 1, author: 'old', message: 'Initial version' })]);
+  });
+
+  test('refuse a change based on a revision that is no longer current', async () => {
+    const stale = JSON.parse(JSON.stringify(await storage().get(id)));
+    await commitChange(stale, { description: 'First' }, { author: 'ana' });
+    await expect(commitChange(stale, { description: 'Second' }, { author: 'ben' })).rejects.toThrow(RevisionConflictError);
+
+    const { body } = await revisions();
+    expect(body.current).toBe(3);
+    expect(body.revisions).toHaveLength(3);
+  });
+});
@@ -0,0 +1,115 @@
+// Scenario routes and the field-level validation behind them
+
+import scenarioRoutes from '../src/routes/scenarios.js';
+import { validateScenario, describeFieldErrors } from '../src/models/scenarioValidation.js';
+import { startServer } from './helpers/server.js';
+
+const PARAMETERS = {
+  prey: { initialPopulation: 1000, birthRate: 1, carryingCapacity: 5000 },
+  predator: { initialPopulation: 100, huntingEfficiency: 0.01, deathRate: 0.5 },
+  environment: { resourceAvailability: 0.7 }
+};
+
+const scenario = (name, metadata = {}) => ({ name, description: `${name} description`, parameters: PARAMETERS, metadata });
+
+describe('validateScenario', () => {
+  test('accepts a full scenario and a partial update', () => {
+    expect(validateScenario(scenario('River'))).toBeNull();
+    expect(validateScenario({ description: 'New' }, { partial: true })).toBeNull();
+  });
+
+  test('reports every broken field under its path', () => {
+    const errors = validateScenario({
+      name: ' ',
+      parameters: { ...PARAMETERS, prey: { ...PARAMETERS.prey, birthRate: 'fast' } },
+      metadata: { tags: ['ok', 7] }
+    });
+    expect(errors).toEqual({
+      name: 'is required',
+      'metadata.tags.1': 'must be a string',
+      'parameters.prey.birthRate': 'must be a number'
+    });
+    expect(describeFieldErrors(errors)).toBe('name: is required (and 2 more)');
+  });
+
+  test('checks rules across fields once the fields themselves are valid', () => {
+    const errors = validateScenario({ ...scenario('River'), parameters: { ...PARAMETERS, prey: undefined, predator: undefined } });
+    expect(Object.keys(errors)).toEqual(['parameters']);
+  });
+
+  test('rejects what is not an object', () => {
+    expect(validateScenario([])).toEqual({ scenario: 'must be an object' });
+  });
+});
+
+describe('scenario routes', () => {
+  let server;
+  beforeEach(async () => {
+    server = await startServer({ '/api/scenarios': scenarioRoutes });
+  });
+  afterEach(async () => {
+    await server.close();
+  });
+
+  const create = (body) => server.request('POST', '/api/scenarios', body);
+
+  test('create scenarios with server-side counters and an anonymous author by default', async () => {
+    const { status, body } = await create({ ...scenario('River'), metadata: { views: 99, isPublic: true } });
+    expect(status).toBe(201);
+    expect(body.metadata).toMatchObject({ createdBy: 'anonymous', isPublic: true, views: 0, likes: 0 });
+    expect(body.revision).toBe(1);
+  });
+
+  test('answer 400 with the field errors of an invalid scenario', async () => {
+    const { status, body } = await create({ parameters: PARAMETERS });
+    expect(status).toBe(400);
+    expect(body).toEqual({ error: 'name: is required', fields: { name: 'is required' } });
+  });
+
+  test('count views and likes', async () => {
+    const { body: created } = await create(scenario('River'));
+    await server.request('GET', `/api/scenarios/${created._id}`);
+    const { body } = await server.request('GET', `/api/scenarios/${created._id}`);
+    expect(body.metadata.views).toBe(2);
+    expect((await server.request('POST', `/api/scenarios/${created._id}/like`)).body).toEqual({ likes: 1 });
+  });
+
+  test('list scenarios by page and filter', async () => {
+    await create(scenario('Mine', { createdBy: 'ana' }));
+    await create(scenario('Theirs', { createdBy: 'ben' }));
+    const { body } = await server.request('GET', '/api/scenarios?createdBy=ana&limit=1');
+    expect(body.scenarios.map(s => s.name)).toEqual(['Mine']);
+    expect(body.pagination).toEqual({ total: 1, page: 1, pages: 1 });
+  });
+
+  test('update only the given fields as a new revision', async () => {
+    const { body: created } = await create(scenario('River', { tags: ['water'] }));
+    const { status, body } = await server.request('PUT', `/api/scenarios/${created._id}`, {
+      description: 'Changed',
+      author: 'ana',
+      message: 'Reword'
+    });
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ name: 'River', description: 'Changed', revision: 2, metadata: { tags: ['water'] } });
+
+    const invalid = await server.request('PUT', `/api/scenarios/${created._id}`, { name: 42 });
+    expect(invalid).toMatchObject({ status: 400, body: { fields: { name: 'must be a string' } } });
+  });
+
+  test('duplicate a scenario as a private copy', async () => {
+    const { body: created } = await create(scenario('River', { isPublic: true, tags: ['water'] }));
+    const { status, body } = await server.request('POST', `/api/scenarios/${created._id}/duplicate`, { createdBy: 'ben' });
+    expect(status).toBe(201);
+    expect(body).toMatchObject({ name: 'River (Copy)', metadata: { createdBy: 'ben', isPublic: false, tags: ['water'] } });
+    expect(body._id).not.toBe(created._id);
+  });
+
+  test('delete scenarios and answer 404 for unknown ones', async () => {
+    const { body: created } = await create(scenario('River'));
+    expect((await server.request('DELETE', `/api/scenarios/${created._id}`)).status).toBe(200);
+    for (const [method, path] of [['GET', ''], ['PUT', ''], ['DELETE', ''], ['POST', '/like'], ['POST', '/duplicate']]) {
+      const { status, body } = await server.request(method, `/api/scenarios/${created._id}${path}`, method === 'GET' ? undefined : {});
+      expect([status, body.error]).toEqual([404, 'Scenario not found']);
+    }
+  });
+});
@@ -0,0 +1,70 @@
+// Global sensitivity analysis: validation, run counts and factor ranking
+
+import {
+  runSensitivity,
+  validateSensitivity,
+  sensitivityRunCount,
+  metricValue,
+  MAX_SENSITIVITY_RUNS
+} from '../src/simulation/sensitivity.js';
+
+const PARAMETERS = {
+  prey: { initialPopulation: 1000, birthRate: 1, carryingCapacity: 5000 },
+  predator: { initialPopulation: 100, huntingEfficiency: 0.01, deathRate: 0.5 },
+  environment: { resourceAvailability: 0.7, seasonalVariation: false, seasonalAmplitude: 0.2 }
+};
+
+// Seasons are off, so their amplitude cannot matter
+const OPTIONS = {
+  metric: 'summary.species.prey.max',
+  factors: ['prey.carryingCapacity', 'environment.seasonalAmplitude'],
+  seed: 1
+};
+
+describe('validateSensitivity', () => {
+  test('accepts ranged factors and a numeric metric', () => {
+    expect(validateSensitivity(PARAMETERS, OPTIONS)).toBeNull();
+    expect(validateSensitivity(PARAMETERS, { ...OPTIONS, factors: [{ path: 'prey.birthRate', min: 0.5, max: 1.5 }] })).toBeNull();
+  });
+
+  test('rejects unusable factors, settings and metrics', () => {
+    expect(validateSensitivity(PARAMETERS, { ...OPTIONS, method: 'fast' })).toMatch(/Unknown sensitivity method/);
+    expect(validateSensitivity(PARAMETERS, { ...OPTIONS, factors: [] })).toMatch(/non-empty array/);
+    expect(validateSensitivity(PARAMETERS, { ...OPTIONS, factors: ['model.parameters.handlingTime'] })).toMatch(/No range is declared/);
+    expect(validateSensitivity(PARAMETERS, { ...OPTIONS, factors: [{ path: 'prey.birthRate', min: -1, max: 1 }] }))
+      .toMatch(/Range of prey.birthRate must satisfy/);
+    expect(validateSensitivity(PARAMETERS, { ...OPTIONS, factors: ['prey.birthRate', 'prey.birthRate'] })).toMatch(/only be listed once/);
+    expect(validateSensitivity(PARAMETERS, { ...OPTIONS, levels: 3 })).toMatch(/even integer/);
+    expect(validateSensitivity(PARAMETERS, { ...OPTIONS, method: 'sobol', samples: 5000 }))
+      .toBe(`Sensitivity analysis is limited to ${MAX_SENSITIVITY_RUNS} runs`);
+    expect(validateSensitivity(PARAMETERS, { ...OPTIONS, metric: 'summary.species' })).toMatch(/is not a number/);
+  });
+});
+
+test('metrics count flags as 0 or 1', () => {
+  expect(metricValue({ extinctionOccurred: true }, 'extinctionOccurred')).toBe(1);
+  expect(metricValue({ summary: { minPrey: 3 } }, 'summary.minPrey')).toBe(3);
+});
+
+test('run counts follow the method', () => {
+  expect(sensitivityRunCount(PARAMETERS, { ...OPTIONS, method: 'morris', trajectories: 3 })).toBe(9);
+  expect(sensitivityRunCount(PARAMETERS, { ...OPTIONS, method: 'sobol', samples: 8 })).toBe(32);
+});
+
+describe.each([
+  ['morris', { trajectories: 3 }, 'muStar'],
+  ['sobol', { samples: 8 }, 'totalOrder']
+])('%s', (method, settings, importance) => {
+  const analysis = runSensitivity(PARAMETERS, { ...OPTIONS, method, ...settings });
+
+  test('ranks the factor that drives the metric first', () => {
+    expect(analysis.ranking).toEqual(['prey.carryingCapacity', 'environment.seasonalAmplitude']);
+    expect(analysis.factors[0][importance]).toBeGreaterThan(0);
+    expect(analysis.factors[1][importance]).toBe(0);
+    expect(analysis.runs).toBe(sensitivityRunCount(PARAMETERS, { ...OPTIONS, method, ...settings }));
+  });
+
+  test('repeats itself for the same seed', () => {
+    expect(runSensitivity(PARAMETERS, { ...OPTIONS, method, ...settings })).toEqual(analysis);
+  });
+});
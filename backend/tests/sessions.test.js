@@ -0,0 +1,149 @@
+// Live sessions driven by commands over a hub of stand-in connections
+
+import { LiveHub } from '../src/live/hub.js';
+import { LiveSessionManager, validateSessionSettings, MAX_SESSIONS_PER_CLIENT } from '../src/live/sessions.js';
+
+const PARAMETERS = {
+  prey: { initialPopulation: 1000, birthRate: 1, carryingCapacity: 5000 },
+  predator: { initialPopulation: 100, huntingEfficiency: 0.01, deathRate: 0.5 },
+  environment: { resourceAvailability: 0.7 }
+};
+
+// Stands in for a WebSocket and keeps what it was sent
+function connection() {
+  return {
+    readyState: 1,
+    received: [],
+    send(data) { this.received.push(JSON.parse(data)); },
+    on() {},
+    removeAllListeners() {}
+  };
+}
+
+let hub;
+let sessions;
+
+beforeEach(() => {
+  hub = new LiveHub();
+  sessions = new LiveSessionManager(hub);
+});
+
+afterEach(() => {
+  [...sessions.sessions.keys()].forEach(id => sessions.remove(id));
+});
+
+function connect() {
+  const ws = connection();
+  const { id } = hub.attach(ws);
+  const last = (type) => ws.received.filter(m => m.type === type).at(-1);
+  return { id, ws, last, send: (message) => sessions.handle(id, message) };
+}
+
+function openSession(payload = {}) {
+  const client = connect();
+  client.send({ type: 'create_session', payload: { parameters: PARAMETERS, ...payload } });
+  return { client, sessionId: client.last('session_created').sessionId };
+}
+
+describe('validateSessionSettings', () => {
+  test('accepts settings within their limits', () => {
+    expect(validateSessionSettings()).toBeNull();
+    expect(validateSessionSettings({ speed: 50, updateInterval: 20, duration: 10000 })).toBeNull();
+  });
+
+  test.each([
+    [{ speed: 0 }, /speed must be a number between 1 and 1000/],
+    [{ speed: 2.5 }, /speed must be an integer/],
+    [{ updateInterval: 10 }, /updateInterval/],
+    [{ duration: '100' }, /duration/]
+  ])('rejects %j', (settings, error) => {
+    expect(validateSessionSettings(settings)).toMatch(error);
+  });
+});
+
+describe('live sessions', () => {
+  test('start idle on their own channel with a first update', () => {
+    const { client, sessionId } = openSession({ settings: { speed: 5 } });
+    expect(client.last('session_created')).toMatchObject({
+      channel: `session:${sessionId}`,
+      data: { status: 'idle', mode: 'deterministic', speed: 5, duration: 100 }
+    });
+    expect(client.last('session_update').data).toMatchObject({ step: 0, time: 0, speciesPopulations: { prey: 1000, predator: 100 } });
+  });
+
+  test('reject invalid parameters and too many sessions', () => {
+    const client = connect();
+    client.send({ type: 'create_session', payload: { parameters: PARAMETERS, settings: { speed: 0 } } });
+    expect(client.last('session_error').error).toMatch(/speed/);
+
+    for (let i = 0; i < MAX_SESSIONS_PER_CLIENT; i++) {
+      client.send({ type: 'create_session', payload: { parameters: PARAMETERS } });
+    }
+    client.send({ type: 'create_session', payload: { parameters: PARAMETERS } });
+    expect(client.last('session_error').error).toBe(`At most ${MAX_SESSIONS_PER_CLIENT} live sessions per client`);
+  });
+
+  test('take single steps and pause an idle session', () => {
+    const { client, sessionId } = openSession();
+    client.send({ type: 'step', sessionId });
+    expect(client.last('session_status').data.status).toBe('paused');
+    expect(client.last('session_update').data.time).toBeGreaterThan(0);
+  });
+
+  test('answer commands only from their owner', () => {
+    const { sessionId } = openSession();
+    const other = connect();
+    other.send({ type: 'start', sessionId });
+    expect(other.last('session_error').error).toBe(`Unknown session: ${sessionId}`);
+    expect(sessions.get(sessionId).status).toBe('idle');
+  });
+
+  test('queue parameter edits for the next step but refuse a change of species', () => {
+    const { client, sessionId } = openSession();
+    const faster = { ...PARAMETERS, prey: { ...PARAMETERS.prey, birthRate: 2 } };
+    client.send({ type: 'update_parameters', sessionId, payload: { parameters: faster } });
+    client.send({ type: 'step', sessionId });
+    expect(sessions.get(sessionId).simulator.params.prey.birthRate).toBe(2);
+
+    const web = {
+      ...PARAMETERS,
+      foodWeb: {
+        species: [
+          { id: 'grass', initialPopulation: 100, growthRate: 1, carryingCapacity: 500 },
+          { id: 'deer', initialPopulation: 10, deathRate: 0.5 }
+        ],
+        interactions: [[0, 0], [0.01, 0]]
+      }
+    };
+    client.send({ type: 'update_parameters', sessionId, payload: { parameters: web } });
+    expect(client.last('session_error').error).toMatch(/cannot add, remove or reorder species/);
+  });
+
+  test('send their results when stopped and then forget them', () => {
+    const { client, sessionId } = openSession();
+    client.send({ type: 'step', sessionId });
+    client.send({ type: 'stop', sessionId });
+    expect(client.last('session_complete').data).toMatchObject({ status: 'finished', results: { timeSteps: expect.any(Array) } });
+    expect(sessions.has(sessionId)).toBe(false);
+    expect(hub.isSubscribed(client.id, `session:${sessionId}`)).toBe(false);
+  });
+
+  test('pause while their owner is away and resume with the full history', () => {
+    const { client, sessionId } = openSession();
+    client.send({ type: 'start', sessionId });
+    hub.detach(client.ws);
+    expect(sessions.get(sessionId).status).toBe('paused');
+
+    const ws = connection();
+    hub.attach(ws);
+    hub.reconnect(ws, client.id);
+    const resumed = ws.received.find(m => m.type === 'session_resumed');
+    expect(resumed).toMatchObject({ sessionId, data: { status: 'paused', timeSteps: expect.any(Array) } });
+  });
+
+  test('end with a client that does not come back', () => {
+    const { client, sessionId } = openSession();
+    hub.drop(client.id);
+    expect(sessions.has(sessionId)).toBe(false);
+  });
+});
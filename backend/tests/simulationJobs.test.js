@@ -0,0 +1,78 @@
+// Analyses that take too many runs are queued as jobs instead of run in the request
+
+import simulationRoutes from '../src/routes/simulation.js';
+import jobRoutes from '../src/routes/jobs.js';
+import { jobQueue } from '../src/jobs/jobQueue.js';
+import { estimateRuns } from '../src/jobs/tasks.js';
+import { startServer } from './helpers/server.js';
+
+const PARAMETERS = {
+  prey: { initialPopulation: 1000, birthRate: 1, carryingCapacity: 5000 },
+  predator: { initialPopulation: 100, huntingEfficiency: 0.01, deathRate: 0.5 },
+  environment: { resourceAvailability: 0.7 }
+};
+
+const LIMITS = { ...jobQueue.options };
+
+let server;
+beforeEach(async () => {
+  jobQueue.configure({ ...LIMITS, concurrency: 1, syncRunLimit: 4 });
+  server = await startServer({ '/api/simulation': simulationRoutes, '/api/jobs': jobRoutes });
+});
+afterEach(async () => {
+  await server.close();
+});
+afterAll(() => {
+  // Lets the idle worker go so the test run can exit
+  jobQueue.configure({ concurrency: 0 });
+});
+
+async function finished(id) {
+  for (;;) {
+    const { body } = await server.request('GET', `/api/jobs/${id}`);
+    if (body.finishedAt) return body;
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+test('analyses estimate the simulation runs they take', () => {
+  expect(estimateRuns('ensemble', { replicates: 7 })).toBe(7);
+  expect(estimateRuns('ensemble', {})).toBe(50);
+  expect(estimateRuns('sweep', { axes: [{ resolution: 20 }, { resolution: 5 }] })).toBe(100);
+  expect(estimateRuns('bifurcation', { resolution: 10, transient: 100, duration: 50 })).toBe(15);
+  expect(estimateRuns('sensitivity', { parameters: PARAMETERS, method: 'morris', factors: ['prey.birthRate'] })).toBe(20);
+  expect(estimateRuns('calibration', { maxIterations: 30, fit: ['prey.birthRate'] })).toBe(32);
+  expect(estimateRuns('phaseSpace', {})).toBe(1);
+});
+
+test('small analyses answer with their result', async () => {
+  const { status, body } = await server.request('POST', '/api/simulation/ensemble', { parameters: PARAMETERS, replicates: 2, seed: 1 });
+  expect(status).toBe(200);
+  expect(body.ensemble).toMatchObject({ replicates: 2, seed: 1 });
+});
+
+test('large analyses answer with a queued job', async () => {
+  const { status, body, headers } = await server.request('POST', '/api/simulation/sweep', {
+    parameters: PARAMETERS,
+    axes: [{ path: 'prey.birthRate', min: 0.5, max: 1.5, resolution: 5 }]
+  });
+  expect(status).toBe(202);
+  expect(body).toMatchObject({ type: 'sweep' });
+  expect(headers.get('location')).toBe(`/api/jobs/${body.id}`);
+
+  const job = await finished(body.id);
+  expect(job.status).toBe('completed');
+  expect(job.result.cells).toHaveLength(5);
+});
+
+test('invalid analyses are rejected before they are queued', async () => {
+  const { status } = await server.request('POST', '/api/simulation/ensemble', { parameters: PARAMETERS, replicates: 0 });
+  expect(status).toBe(400);
+  expect(jobQueue.list().filter(job => job.type === 'ensemble')).toEqual([]);
+});
+
+test('large analyses get 503 while the queue is full', async () => {
+  jobQueue.configure({ maxQueueLength: 0 });
+  const { status } = await server.request('POST', '/api/simulation/ensemble', { parameters: PARAMETERS, replicates: 10 });
+  expect(status).toBe(503);
+});
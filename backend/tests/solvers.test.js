@@ -0,0 +1,76 @@
+// ODE solvers: accuracy, adaptive steps and option validation
+
+import { resolveSolver, takeStep, validateSolverOptions, MIN_FIXED_STEP } from '../src/simulation/solvers.js';
+import { createSimulator } from '../src/simulation/factory.js';
+
+const PARAMETERS = {
+  prey: { initialPopulation: 1000, birthRate: 1, carryingCapacity: 5000 },
+  predator: { initialPopulation: 100, huntingEfficiency: 0.01, deathRate: 0.5 },
+  environment: { resourceAvailability: 0.7 }
+};
+
+// dy/dt = -y, so y(1) = e^-1
+const decay = (t, y) => y.map(value => -value);
+
+function integrate(method, h) {
+  const solver = resolveSolver({ method });
+  let t = 0;
+  let y = [1];
+  while (t < 1 - 1e-12) {
+    const result = takeStep(solver, decay, t, y, Math.min(h, 1 - t), 1);
+    t = result.time;
+    y = result.y;
+    h = result.nextStepSize;
+  }
+  return y[0];
+}
+
+describe('solvers', () => {
+  test.each([
+    ['euler', 0.01, 1e-2],
+    ['rk4', 0.1, 1e-6],
+    ['rk45', 0.5, 1e-5],
+    ['implicit', 0.01, 1e-2]
+  ])('%s follows exponential decay', (method, h, tolerance) => {
+    expect(Math.abs(integrate(method, h) - Math.exp(-1))).toBeLessThan(tolerance);
+  });
+
+  test('adaptive steps shrink until the error is within tolerance', () => {
+    const solver = resolveSolver({ method: 'rk45', absoluteTolerance: 1e-10, relativeTolerance: 1e-10 });
+    const result = takeStep(solver, decay, 0, [1], 1);
+    expect(result.stepSize).toBeLessThan(1);
+    expect(result.rejected).toBeGreaterThan(0);
+    expect(result.interpolate(result.time / 2)[0]).toBeCloseTo(Math.exp(-result.time / 2), 6);
+  });
+
+  test('adaptive runs are recorded on the fixed grid', () => {
+    const results = createSimulator(PARAMETERS, { solver: { method: 'rk45' } }).simulate();
+    expect(results.solver).toMatchObject({ method: 'rk45', relativeTolerance: 1e-6 });
+    const times = results.timeSteps.slice(0, 5).map(step => step.time);
+    times.slice(1).forEach((time, i) => expect(time - times[i]).toBeCloseTo(times[1] - times[0], 6));
+  });
+
+  test('fixed steps are never below the floor', () => {
+    const simulator = createSimulator(PARAMETERS, { solver: { method: 'euler', initialStep: 1e-9 } });
+    expect(simulator.dt).toBe(MIN_FIXED_STEP);
+  });
+});
+
+describe('validateSolverOptions', () => {
+  test('accepts known methods and settings', () => {
+    expect(validateSolverOptions({})).toBeNull();
+    expect(validateSolverOptions({ method: 'rk45', relativeTolerance: 1e-4, initialStep: 0.1 })).toBeNull();
+  });
+
+  test.each([null, 'rk45', 5, []])('rejects %p as options', (config) => {
+    expect(validateSolverOptions(config)).toBe('Solver options must be an object');
+  });
+
+  test('rejects unusable settings', () => {
+    expect(validateSolverOptions({ method: 'toString' })).toMatch(/Unknown solver/);
+    expect(validateSolverOptions({ maxStep: -1 })).toMatch(/maxStep must be a positive number/);
+    expect(validateSolverOptions({ minStep: 1, maxStep: 0.5 })).toMatch(/must not exceed/);
+    expect(validateSolverOptions({ initialStep: 5 })).toMatch(/initialStep must be between/);
+    expect(validateSolverOptions({ method: 'rk4', initialStep: 1e-5 })).toMatch(/fixed steps/);
+  });
+});
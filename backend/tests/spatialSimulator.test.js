@@ -0,0 +1,88 @@
+// Spatial reaction–diffusion runs on a grid of cells
+
+import { SpatialSimulator, validateSpatialOptions } from '../src/simulation/spatialSimulator.js';
+import { createSimulator } from '../src/simulation/factory.js';
+
+const PARAMETERS = {
+  prey: { initialPopulation: 1000, birthRate: 1, carryingCapacity: 5000 },
+  predator: { initialPopulation: 100, huntingEfficiency: 0.01, deathRate: 0.5 },
+  environment: { resourceAvailability: 0.7 }
+};
+
+// Nothing is born, eaten or dies, so only diffusion moves the predators
+const STILL = {
+  prey: { initialPopulation: 1000, birthRate: 0, carryingCapacity: 5000 },
+  predator: { initialPopulation: 100, huntingEfficiency: 0, deathRate: 0 },
+  environment: { resourceAvailability: 0.7 }
+};
+
+const SMALL = { width: 8, height: 6 };
+
+const total = (field) => field.reduce((sum, x) => sum + x, 0);
+
+describe('validateSpatialOptions', () => {
+  test('accepts the defaults and small grids', () => {
+    expect(validateSpatialOptions()).toBeNull();
+    expect(validateSpatialOptions({ ...SMALL, boundary: 'absorbing', initial: 'random' })).toBeNull();
+  });
+
+  test.each([
+    [{ width: 2 }, /between 3 and 200/],
+    [{ width: 200, height: 200 }, /limited to 10000 cells/],
+    [{ preyDiffusion: -1 }, /non-negative numbers/],
+    [{ boundary: 'open' }, /Boundary must be one of/],
+    [{ initial: 'stripes' }, /Initial pattern must be one of/],
+    [{ dt: 2 }, /dt must be a number in \(0, 1\]/],
+    [{ preyDiffusion: 1, dt: 0.5 }, /keep diffusion × dt at or below 0.25/]
+  ])('rejects %j', (options, error) => {
+    expect(validateSpatialOptions(options)).toMatch(error);
+  });
+});
+
+describe('SpatialSimulator', () => {
+  test.each(['spot', 'uniform', 'random'])('starts the %s pattern at the initial mean densities', (initial) => {
+    const simulator = new SpatialSimulator(PARAMETERS, { seed: 3, spatial: { ...SMALL, initial } });
+    expect(simulator.populations[0]).toBeCloseTo(1000, 9);
+    expect(simulator.populations[1]).toBeCloseTo(100, 9);
+  });
+
+  test('releases predators in a disc at the centre', () => {
+    const { grid } = new SpatialSimulator(PARAMETERS, { spatial: SMALL });
+    expect(grid.predator[0]).toBe(0);
+    expect(grid.predator[2 * 8 + 3]).toBeGreaterThan(100);
+  });
+
+  test.each([
+    ['periodic', 'keeps'],
+    ['reflecting', 'keeps'],
+    ['absorbing', 'loses']
+  ])('a %s boundary %s what diffuses to the edge', (boundary, outcome) => {
+    const simulator = new SpatialSimulator(STILL, { spatial: { ...SMALL, boundary, predatorDiffusion: 1, dt: 0.25 } });
+    const before = total(simulator.grid.predator);
+    for (let i = 0; i < 20; i++) simulator.step();
+    const after = total(simulator.grid.predator);
+
+    if (outcome === 'keeps') {
+      expect(after).toBeCloseTo(before, 6);
+    } else {
+      expect(after).toBeLessThan(before * 0.99);
+    }
+  });
+
+  test('is reproducible for a seed and reports the final grid', () => {
+    const run = () => createSimulator(PARAMETERS, { mode: 'spatial', seed: 5, spatial: { ...SMALL, initial: 'random' } }).simulate();
+    const results = run();
+    expect(results.spatial).toMatchObject({ width: 8, height: 6, boundary: 'periodic' });
+    expect(results.spatial.grid.prey).toHaveLength(48);
+    expect(results.spatial.steps).toBeGreaterThan(0);
+    expect(run().timeSteps).toEqual(results.timeSteps);
+  });
+
+  test('scales every cell when an event changes the mean density', () => {
+    const parameters = { ...STILL, events: [{ type: 'cull', target: 'predator', fraction: 0.5, time: 0.1 }] };
+    const simulator = new SpatialSimulator(parameters, { spatial: SMALL });
+    const peak = Math.max(...simulator.grid.predator);
+    while (simulator.currentTime < 0.2) simulator.step();
+    expect(Math.max(...simulator.grid.predator)).toBeLessThan(peak * 0.6);
+  });
+});
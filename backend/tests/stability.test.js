@@ -0,0 +1,64 @@
+// Fixed points of the two-species model and their stability
+
+import { analyzeStability, eigenvalues2x2, classifyFixedPoint } from '../src/simulation/stability.js';
+import { EcosystemSimulator } from '../src/simulation/simulator.js';
+
+const PARAMETERS = {
+  prey: { initialPopulation: 1000, birthRate: 1, carryingCapacity: 5000 },
+  predator: { initialPopulation: 100, huntingEfficiency: 0.01, deathRate: 0.5 },
+  environment: { resourceAvailability: 0.7 }
+};
+
+describe('eigenvalues and classification', () => {
+  test('give real and complex pairs', () => {
+    expect(eigenvalues2x2([[2, 0], [0, -1]])).toEqual([{ real: 2, imag: 0 }, { real: -1, imag: 0 }]);
+    expect(eigenvalues2x2([[0, -1], [4, 0]])).toEqual([{ real: 0, imag: 2 }, { real: 0, imag: -2 }]);
+  });
+
+  test.each([
+    [[[1, 0], [0, -1]], 'saddle'],
+    [[[-1, 0], [0, -2]], 'stable node'],
+    [[[-0.1, -1], [1, -0.1]], 'stable focus'],
+    [[[0, -1], [1, 0]], 'center'],
+    [[[0.1, -1], [1, 0.1]], 'unstable focus'],
+    [[[1, 0], [0, 2]], 'unstable node'],
+    [[[1, 1], [1, 1]], 'degenerate']
+  ])('classify %j as a %s', (jacobian, classification) => {
+    expect(classifyFixedPoint(jacobian)).toBe(classification);
+  });
+});
+
+describe('analyzeStability', () => {
+  test('finds the trivial, prey-only and coexistence points', () => {
+    const { fixedPoints, prediction } = analyzeStability(PARAMETERS);
+    expect(fixedPoints.map(point => [point.type, point.classification])).toEqual([
+      ['trivial', 'saddle'],
+      ['prey-only', 'saddle'],
+      ['coexistence', 'stable focus']
+    ]);
+    expect(fixedPoints[1].prey).toBe(3500);
+    expect(prediction).toMatchObject({ outcome: 'equilibrium', isStable: true, classification: 'stable focus' });
+    expect(prediction.period).toBeGreaterThan(0);
+  });
+
+  test('puts coexistence where both populations stop changing', () => {
+    const { prediction } = analyzeStability(PARAMETERS);
+    // Predators break even once each eats deathRate / conversionEfficiency prey per time unit
+    expect(prediction.prey).toBeCloseTo(0.5 / (0.5 * 0.01), 6);
+    const [dPrey, dPredator] = new EcosystemSimulator(PARAMETERS)
+      .calculatePopulationDerivatives([prediction.prey, prediction.predator], 0.7);
+    expect(Math.abs(dPrey)).toBeLessThan(1e-6);
+    expect(Math.abs(dPredator)).toBeLessThan(1e-6);
+  });
+
+  test('predicts extinction when predators cannot break even', () => {
+    const { fixedPoints, prediction } = analyzeStability({ ...PARAMETERS, predator: { ...PARAMETERS.predator, deathRate: 50 } });
+    expect(fixedPoints.map(point => point.type)).toEqual(['trivial', 'prey-only']);
+    expect(prediction).toMatchObject({ outcome: 'extinction', prey: 3500, predator: 0, isStable: true });
+  });
+
+  test('predicts cycles around an unstable point for saturating predators', () => {
+    const { prediction } = analyzeStability({ ...PARAMETERS, model: { type: 'holling2', parameters: { handlingTime: 0.8 } } });
+    expect(prediction).toMatchObject({ outcome: 'oscillation', isStable: false, classification: 'unstable focus' });
+  });
+});
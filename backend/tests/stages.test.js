@@ -0,0 +1,99 @@
+// Stage structure: juvenile compartments, maturation delays and staged runs
+
+import { validateStages, createStageLayout, stagedSpeciesIds, MAX_DELAY_STAGES } from '../src/simulation/stages.js';
+import { createSimulator, validateRunOptions } from '../src/simulation/factory.js';
+
+const PARAMETERS = {
+  prey: {
+    initialPopulation: 1000,
+    birthRate: 1,
+    carryingCapacity: 5000,
+    stages: { maturationTime: 2, delayStages: 3, initialJuveniles: 0.4 }
+  },
+  predator: { initialPopulation: 100, huntingEfficiency: 0.01, deathRate: 0.5 },
+  environment: { resourceAvailability: 0.7 }
+};
+
+// Prey that only breed, with no predators and room to grow
+const breeding = (stages) => ({
+  prey: { initialPopulation: 100, birthRate: 1, carryingCapacity: 1e9, stages },
+  predator: { initialPopulation: 0, huntingEfficiency: 0, deathRate: 0.5 },
+  environment: { resourceAvailability: 1 }
+});
+
+const WEB = { species: [{ id: 'prey', deathRate: 0 }, { id: 'predator', deathRate: 0.5 }] };
+
+const withStages = (stages) => ({ ...PARAMETERS, prey: { ...PARAMETERS.prey, stages } });
+
+describe('validateStages', () => {
+  test('accepts the defaults and full settings', () => {
+    expect(validateStages(withStages({}))).toBeNull();
+    expect(validateStages(PARAMETERS)).toBeNull();
+    expect(stagedSpeciesIds(PARAMETERS)).toEqual(['prey']);
+  });
+
+  test.each([
+    [[], /Stages of prey must be an object/],
+    [{ maturationTime: 0 }, /Maturation time of prey must be a positive number/],
+    [{ delayStages: 1.5 }, /Delay stages of prey must be an integer/],
+    [{ delayStages: MAX_DELAY_STAGES + 1 }, /between 1 and 20/],
+    [{ initialJuveniles: 1.2 }, /Initial juvenile fraction/],
+    [{ juvenileMortality: -1 }, /Juvenile mortality/],
+    [{ juvenileVulnerability: -1 }, /Juvenile vulnerability/],
+    [{ juvenileFeeding: 2 }, /Juvenile feeding of prey must be between 0 and 1/]
+  ])('rejects %j', (stages, error) => {
+    expect(validateStages(withStages(stages))).toMatch(error);
+  });
+
+  test('keeps staged species to deterministic runs', () => {
+    expect(validateRunOptions({ mode: 'deterministic' }, { parameters: PARAMETERS })).toBeNull();
+    expect(validateRunOptions({ mode: 'stochastic' }, { parameters: PARAMETERS })).toMatch(/only available in deterministic mode/);
+  });
+});
+
+describe('createStageLayout', () => {
+  const layout = createStageLayout(PARAMETERS, WEB);
+
+  test('spreads the initial juveniles over the chain', () => {
+    expect(layout).toMatchObject({ structured: true, size: 5, compartments: [4, 1] });
+    const state = layout.expand([1000, 100]);
+    expect(state.slice(0, 3).map(x => Math.round(x * 1000) / 1000)).toEqual([133.333, 133.333, 133.333]);
+    expect(state.slice(3)).toEqual([600, 100]);
+    expect(layout.totals(state)).toEqual([1000, 100]);
+    expect(layout.summary(state).prey).toEqual({ juvenile: expect.closeTo(400, 9), adult: 600 });
+  });
+
+  test('rescales every compartment to new totals', () => {
+    const state = layout.rescale(layout.expand([1000, 100]), [500, 0]);
+    expect(layout.totals(state)).toEqual([expect.closeTo(500, 9), 0]);
+    expect(state[3]).toBeCloseTo(300, 9);
+  });
+
+  test('is the population vector itself without stages', () => {
+    const flat = createStageLayout({ ...PARAMETERS, prey: { ...PARAMETERS.prey, stages: undefined } }, WEB);
+    expect(flat.structured).toBe(false);
+    expect(flat.expand([1000, 100])).toEqual([1000, 100]);
+  });
+});
+
+describe('staged runs', () => {
+  test('report juvenile and adult totals that add up to the population', () => {
+    const { timeSteps } = createSimulator(PARAMETERS).simulate();
+    timeSteps.forEach(step => {
+      const { juvenile, adult } = step.stages.prey;
+      expect(juvenile + adult).toBeCloseTo(step.populations.prey, 0);
+      expect(step.stages.predator).toBeUndefined();
+    });
+  });
+
+  test('more delay stages hold newborns back for closer to the full maturation time', () => {
+    const adultsAfter = (delayStages) => {
+      const simulator = createSimulator(breeding({ maturationTime: 5, delayStages }));
+      while (simulator.currentTime < 2) simulator.step();
+      return simulator.stages.summary(simulator.state).prey.adult;
+    };
+    // Only adults breed, so 100 adults give 200 newborns in two time units
+    expect(adultsAfter(MAX_DELAY_STAGES)).toBeCloseTo(100, 1);
+    expect(adultsAfter(1)).toBeGreaterThan(130);
+  });
+});
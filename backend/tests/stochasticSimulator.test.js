@@ -0,0 +1,43 @@
+// Stochastic mode: whole individuals, reproducible seeds and the solver option
+
+import { createSimulator, validateRunOptions } from '../src/simulation/factory.js';
+import { validateStochasticOptions } from '../src/simulation/stochasticSimulator.js';
+
+const PARAMETERS = {
+  prey: { initialPopulation: 200, birthRate: 1, carryingCapacity: 1000 },
+  predator: { initialPopulation: 20, huntingEfficiency: 0.01, deathRate: 0.5 },
+  environment: { resourceAvailability: 0.7 }
+};
+
+const run = (options) => createSimulator(PARAMETERS, { mode: 'stochastic', seed: 7, ...options }).simulate();
+
+describe('stochastic simulation', () => {
+  test('counts whole individuals', () => {
+    const results = run();
+    expect(results.mode).toBe('stochastic');
+    results.timeSteps.forEach(step => {
+      expect(Number.isInteger(step.preyPopulation)).toBe(true);
+      expect(Number.isInteger(step.predatorPopulation)).toBe(true);
+    });
+  });
+
+  test('repeats a run from the same seed', () => {
+    const first = run({ seed: 'same' });
+    const second = run({ seed: 'same' });
+    expect(second.timeSteps).toEqual(first.timeSteps);
+  });
+
+  test.each(['rk45', 'implicit'])('ignores the %s solver instead of failing', (method) => {
+    expect(validateRunOptions({ mode: 'stochastic', solver: { method } })).toBeNull();
+    const results = run({ solver: { method } });
+    expect(results.mode).toBe('stochastic');
+    expect(results.timeSteps.length).toBeGreaterThan(1);
+  });
+
+  test('validates its options', () => {
+    expect(validateStochasticOptions({ method: 'ssa', tau: 0.05 })).toBeNull();
+    expect(validateStochasticOptions({ method: 'exact' })).toMatch(/Unknown stochastic method/);
+    expect(validateStochasticOptions({ tau: 2 })).toMatch(/tau/);
+    expect(validateStochasticOptions({ criticalPopulation: -1 })).toMatch(/criticalPopulation/);
+  });
+});
@@ -0,0 +1,217 @@
+// Contract every storage adapter fulfils (see src/storage/index.js).
+// The same cases run against each adapter that works without a server.
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { STORAGE_ADAPTERS } from '../src/storage/index.js';
+import { SEED_SCENARIOS } from '../src/storage/seeds.js';
+
+const PARAMETERS = {
+  prey: { initialPopulation: 1000, birthRate: 1, carryingCapacity: 5000 },
+  predator: { initialPopulation: 100, huntingEfficiency: 0.01, deathRate: 0.5 },
+  environment: { resourceAvailability: 0.7 }
+};
+
+const scenario = (name, { isPublic = false, createdBy = 'tester', timeSteps } = {}) => ({
+  name,
+  description: `${name} description`,
+  parameters: PARAMETERS,
+  simulationResults: timeSteps && { timeSteps, equilibriumReached: false },
+  metadata: { createdBy, tags: ['test'], isPublic }
+});
+
+const revision = (scenarioId, number) => ({
+  scenarioId,
+  number,
+  author: 'tester',
+  message: `Revision ${number}`,
+  createdAt: new Date().toISOString(),
+  snapshot: { name: `Snapshot ${number}` }
+});
+
+let directory;
+beforeAll(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), 'scenario-store-'));
+});
+afterAll(() => {
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+let files = 0;
+const ADAPTERS = [
+  ['memory', () => ({})],
+  ['file', () => ({ file: path.join(directory, `scenarios-${++files}.json`) })]
+];
+
+describe.each(ADAPTERS)('%s storage adapter', (adapter, optionsFor) => {
+  let store;
+
+  beforeEach(async () => {
+    store = STORAGE_ADAPTERS[adapter](optionsFor());
+    await store.connect();
+  });
+
+  afterEach(async () => {
+    await store.close();
+  });
+
+  test('starts with the seed scenarios', async () => {
+    expect(store.name).toBe(adapter);
+    expect(typeof store.describe()).toBe('string');
+    const { scenarios, total } = await store.list({ limit: 100 });
+    expect(total).toBe(SEED_SCENARIOS.length);
+    expect(scenarios.map(s => s.name).sort()).toEqual(SEED_SCENARIOS.map(s => s.name).sort());
+  });
+
+  test('creates scenarios with fresh counters and revision 1', async () => {
+    const created = await store.create({
+      ...scenario('Created'),
+      metadata: { createdBy: 'tester', views: 50, likes: 50 }
+    });
+    expect(typeof created._id).toBe('string');
+    expect(created).toMatchObject({ name: 'Created', revision: 1, parameters: PARAMETERS });
+    expect(created.metadata).toMatchObject({ createdBy: 'tester', views: 0, likes: 0 });
+    expect(created.createdAt).toBeDefined();
+  });
+
+  test('gets scenarios by id and by name', async () => {
+    const created = await store.create(scenario('Findable'));
+    expect((await store.get(created._id)).name).toBe('Findable');
+    expect((await store.findByName('Findable'))._id).toBe(created._id);
+    expect(await store.get('999999')).toBeNull();
+    expect(await store.findByName('Nobody')).toBeNull();
+  });
+
+  test('keeps a given uid and makes up a unique one otherwise', async () => {
+    const kept = await store.create({ ...scenario('Kept uid'), uid: 'bundle-uid-1' });
+    const first = await store.create(scenario('Own uid'));
+    const second = await store.create(scenario('Other uid'));
+    expect(kept.uid).toBe('bundle-uid-1');
+    expect(typeof first.uid).toBe('string');
+    expect(first.uid).not.toBe(second.uid);
+    expect((await store.findByUid('bundle-uid-1'))._id).toBe(kept._id);
+    expect(await store.findByUid('unknown-uid')).toBeNull();
+  });
+
+  test('filters, searches and pages lists without time steps', async () => {
+    await store.create(scenario('Alpha river', { createdBy: 'ana', isPublic: true, timeSteps: [{ time: 0 }] }));
+    await store.create(scenario('Beta river', { createdBy: 'ana' }));
+    await store.create(scenario('Gamma lake', { createdBy: 'bo', isPublic: true }));
+
+    const byAna = await store.list({ createdBy: 'ana', sortBy: 'name', order: 'asc' });
+    expect(byAna.total).toBe(2);
+    expect(byAna.scenarios.map(s => s.name)).toEqual(['Alpha river', 'Beta river']);
+    expect(byAna.scenarios[0].simulationResults).toEqual({ equilibriumReached: false });
+
+    const rivers = await store.list({ search: 'RIVER' });
+    expect(rivers.total).toBe(2);
+
+    const publicOnes = await store.list({ isPublic: true, createdBy: 'bo' });
+    expect(publicOnes.scenarios.map(s => s.name)).toEqual(['Gamma lake']);
+
+    const pages = await store.list({ createdBy: 'ana', sortBy: 'name', order: 'asc', limit: 1, page: 2 });
+    expect(pages.total).toBe(2);
+    expect(pages.scenarios.map(s => s.name)).toEqual(['Beta river']);
+  });
+
+  test('orders popular public scenarios by likes, then views', async () => {
+    const liked = await store.create(scenario('Liked', { isPublic: true, timeSteps: [{ time: 0 }] }));
+    const viewed = await store.create(scenario('Viewed', { isPublic: true }));
+    const hidden = await store.create(scenario('Hidden'));
+    for (let i = 0; i < 3; i++) await store.increment(liked._id, 'likes');
+    for (let i = 0; i < 3; i++) await store.increment(hidden._id, 'likes');
+    await store.increment(viewed._id, 'likes');
+    await store.increment(viewed._id, 'views');
+
+    const popular = await store.popular(100);
+    expect(popular.every(s => s.metadata.isPublic)).toBe(true);
+    expect(popular.slice(0, 2).map(s => s.name)).toEqual(['Liked', 'Viewed']);
+    expect(popular[0].simulationResults.timeSteps).toBeUndefined();
+    expect((await store.popular(1)).length).toBe(1);
+  });
+
+  test('updates fields and merges metadata', async () => {
+    const created = await store.create(scenario('Before'));
+    const updated = await store.update(created._id, {
+      name: 'After',
+      revision: 2,
+      metadata: { tags: ['changed'] }
+    });
+    expect(updated).toMatchObject({ name: 'After', revision: 2 });
+    expect(updated.metadata).toMatchObject({ createdBy: 'tester', tags: ['changed'], likes: 0 });
+    expect((await store.get(created._id)).name).toBe('After');
+    expect(await store.update('999999', { name: 'Nothing' })).toBeNull();
+  });
+
+  test('updates only a scenario still at the expected revision', async () => {
+    const created = await store.create(scenario('Guarded'));
+    const first = await store.update(created._id, { name: 'First', revision: 2 }, { revision: 1 });
+    expect(first.revision).toBe(2);
+    await expect(store.update(created._id, { name: 'Stale', revision: 2 }, { revision: 1 }))
+      .rejects.toMatchObject({ name: 'RevisionConflictError' });
+    expect((await store.get(created._id)).name).toBe('First');
+    expect(await store.update('999999', { name: 'Nothing' }, { revision: 1 })).toBeNull();
+  });
+
+  test('stores the revision recorded with an update', async () => {
+    const created = await store.create(scenario('Recorded'));
+    const record = (updated) => ({ ...revision(updated._id, updated.revision), snapshot: { name: updated.name } });
+    await store.update(created._id, { name: 'Changed', revision: 2 }, { revision: 1, record });
+    expect((await store.getRevision(created._id, 2)).snapshot).toEqual({ name: 'Changed' });
+
+    await expect(store.update(created._id, { name: 'Stale', revision: 2 }, { revision: 1, record }))
+      .rejects.toMatchObject({ name: 'RevisionConflictError' });
+    expect((await store.listRevisions(created._id)).map(r => r.number)).toEqual([2]);
+  });
+
+  test('counts views and likes', async () => {
+    const created = await store.create(scenario('Counted'));
+    await store.increment(created._id, 'views');
+    const counted = await store.increment(created._id, 'views');
+    expect(counted.metadata.views).toBe(2);
+    expect(await store.increment('999999', 'views')).toBeNull();
+  });
+
+  test('keeps numbered revisions, newest first without snapshots', async () => {
+    const created = await store.create(scenario('Revised'));
+    await store.addRevision(revision(created._id, 1));
+    await store.addRevision(revision(created._id, 2));
+    await expect(store.addRevision(revision(created._id, 2))).rejects.toThrow();
+
+    const revisions = await store.listRevisions(created._id);
+    expect(revisions.map(r => r.number)).toEqual([2, 1]);
+    expect(revisions[0].snapshot).toBeUndefined();
+    expect((await store.getRevision(created._id, 1)).snapshot).toEqual({ name: 'Snapshot 1' });
+    expect(await store.getRevision(created._id, 3)).toBeNull();
+    expect(await store.listRevisions('999999')).toEqual([]);
+  });
+
+  test('removes a scenario with its revisions', async () => {
+    const created = await store.create(scenario('Removed'));
+    await store.addRevision(revision(created._id, 1));
+    expect(await store.remove(created._id)).toBe(true);
+    expect(await store.get(created._id)).toBeNull();
+    expect(await store.listRevisions(created._id)).toEqual([]);
+    expect(await store.remove(created._id)).toBe(false);
+  });
+});
+
+describe('file storage adapter on disk', () => {
+  test('keeps scenarios and revisions across restarts', async () => {
+    const file = path.join(directory, 'persisted.json');
+    const first = STORAGE_ADAPTERS.file({ file });
+    await first.connect();
+    const created = await first.create(scenario('Persisted'));
+    await first.addRevision(revision(created._id, 1));
+    await first.close();
+
+    const second = STORAGE_ADAPTERS.file({ file });
+    await second.connect();
+    expect((await second.get(created._id)).name).toBe('Persisted');
+    expect((await second.getRevision(created._id, 1)).message).toBe('Revision 1');
+    const next = await second.create(scenario('Next'));
+    expect(next._id).not.toBe(created._id);
+    await second.close();
+  });
+});
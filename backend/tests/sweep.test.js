@@ -0,0 +1,80 @@
+// Parameter sweeps and the parameter paths they vary
+
+import { runSweep, validateSweep, classifyOutcome, MAX_SWEEP_CELLS } from '../src/simulation/sweep.js';
+import { getParameter, setParameter, validateNumericPath } from '../src/simulation/parameterPaths.js';
+
+const PARAMETERS = {
+  prey: { initialPopulation: 1000, birthRate: 1, carryingCapacity: 5000 },
+  predator: { initialPopulation: 100, huntingEfficiency: 0.01, deathRate: 0.5 },
+  environment: { resourceAvailability: 0.7 }
+};
+
+describe('parameter paths', () => {
+  test('read and write nested values without touching the original', () => {
+    const changed = setParameter(PARAMETERS, 'prey.birthRate', 2);
+    expect(getParameter(changed, 'prey.birthRate')).toBe(2);
+    expect(PARAMETERS.prey.birthRate).toBe(1);
+    expect(getParameter(PARAMETERS, 'prey.toString')).toBeUndefined();
+  });
+
+  test('refuse paths that leave the parameters', () => {
+    expect(() => setParameter(PARAMETERS, '__proto__.polluted', 1)).toThrow(/Invalid parameter path/);
+    expect(() => setParameter(PARAMETERS, 'wolf.deathRate', 1)).toThrow(/Unknown parameter path/);
+    expect({}.polluted).toBeUndefined();
+  });
+
+  test('must point at a number, or an unset parameter with a range', () => {
+    expect(validateNumericPath(PARAMETERS, 'prey.birthRate')).toBeNull();
+    expect(validateNumericPath(PARAMETERS, 'prey')).toMatch(/does not point at a number/);
+    expect(validateNumericPath(PARAMETERS, 'constructor.name')).toMatch(/Invalid parameter path/);
+    expect(validateNumericPath(PARAMETERS, '')).toMatch(/non-empty string/);
+    expect(validateNumericPath(PARAMETERS, 'predator.conversionEfficiency')).toMatch(/does not point at a number/);
+    expect(validateNumericPath(PARAMETERS, 'predator.conversionEfficiency', { allowMissing: true })).toBeNull();
+  });
+});
+
+describe('validateSweep', () => {
+  const axis = (path, resolution = 5) => ({ path, min: 0.1, max: 1, resolution });
+
+  test('accepts one or two axes over different parameters', () => {
+    expect(validateSweep(PARAMETERS, [axis('prey.birthRate')])).toBeNull();
+    expect(validateSweep(PARAMETERS, [axis('prey.birthRate'), axis('predator.deathRate')])).toBeNull();
+  });
+
+  test('rejects unusable axes', () => {
+    expect(validateSweep(PARAMETERS, [])).toMatch(/one or two axes/);
+    expect(validateSweep(PARAMETERS, [axis('prey.birthRate'), axis('prey.birthRate')])).toMatch(/different parameters/);
+    expect(validateSweep(PARAMETERS, [{ ...axis('prey.birthRate'), min: 2 }])).toMatch(/min < max/);
+    expect(validateSweep(PARAMETERS, [axis('prey.birthRate', 1)])).toMatch(/resolution must be an integer/);
+    expect(validateSweep(PARAMETERS, [axis('prey.birthRate', 50), axis('predator.deathRate', 50)]))
+      .toBe(`Sweep is limited to ${MAX_SWEEP_CELLS} cells`);
+  });
+});
+
+test('outcomes put extinction before equilibrium', () => {
+  expect(classifyOutcome({ extinctionOccurred: true, equilibriumReached: true })).toBe('extinction');
+  expect(classifyOutcome({ extinctionOccurred: false, equilibriumReached: true })).toBe('equilibrium');
+  expect(classifyOutcome({ extinctionOccurred: false, equilibriumReached: false })).toBe('oscillation');
+});
+
+test('sweeps run every cell row by row', () => {
+  const progress = [];
+  const sweep = runSweep(PARAMETERS, [
+    { path: 'predator.deathRate', min: 0.5, max: 5, resolution: 3 },
+    { path: 'prey.birthRate', min: 0.5, max: 1, resolution: 2 }
+  ], {}, p => progress.push(p));
+
+  expect(sweep.axes).toEqual([
+    { path: 'predator.deathRate', values: [0.5, 2.75, 5] },
+    { path: 'prey.birthRate', values: [0.5, 1] }
+  ]);
+  expect(sweep.cells.map(cell => [cell.x, cell.y])).toEqual([[0, 0], [1, 0], [2, 0], [0, 1], [1, 1], [2, 1]]);
+  expect(sweep.cells[5].values).toEqual({ 'predator.deathRate': 5, 'prey.birthRate': 1 });
+  expect(Object.values(sweep.counts).reduce((a, b) => a + b)).toBe(6);
+  expect(progress.at(-1)).toBe(1);
+
+  // Long-lived predators overhunt their prey; short-lived ones settle with it
+  expect(sweep.cells[3].outcome).toBe('extinction');
+  expect(sweep.cells[5].outcome).toBe('equilibrium');
+  expect(sweep.cells[5].metrics.finalPredator).toBeGreaterThan(1);
+});
@@ -1,12 +1,28 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Toaster } from 'react-hot-toast';
 import { motion } from 'framer-motion';
 import ParameterPanel from './components/ParameterPanel';
-import EcosystemCanvas from './components/EcosystemCanvas';
+import EcosystemCanvas, { CanvasSpecies } from './components/EcosystemCanvas';
 import SimulationChart from './components/SimulationChart';
 import ScenarioManager from './components/ScenarioManager';
 import StatsPanel from './components/StatsPanel';
-import { SimulationParameters, SimulationResults } from './types';
+import SweepHeatmap from './components/SweepHeatmap';
+import PhasePortrait from './components/PhasePortrait';
+import BifurcationChart from './components/BifurcationChart';
+import SensitivityChart from './components/SensitivityChart';
+import CalibrationPanel from './components/CalibrationPanel';
+import EventTimeline from './components/EventTimeline';
+import ForcingPanel from './components/ForcingPanel';
+import StagePanel from './components/StagePanel';
+import LiveSessionPanel from './components/LiveSessionPanel';
+import RoomPanel from './components/RoomPanel';
+import {
+  SimulationParameters,
+  SimulationResults,
+  RunOptions,
+  EnsembleResults,
+  StabilityAnalysis,
+} from './types';
 import { simulationApi } from './services/api';
 import { useSimulationStore } from './store/simulationStore';
 import './App.css';
@@ -29,9 +45,20 @@ const defaultParameters: SimulationParameters = {
   },
 };
 
+// Same palette the backend assigns to food web species without a color
+const SPECIES_COLORS = ['#22c55e', '#3b82f6', '#f97316', '#ef4444', '#a855f7', '#14b8a6', '#eab308', '#ec4899'];
+
 function App() {
   const [parameters, setParameters] = useState<SimulationParameters>(defaultParameters);
   const [results, setResults] = useState<SimulationResults | null>(null);
+  // ODE run of the same scenario, compared against agent-based results
+  const [reference, setReference] = useState<SimulationResults | null>(null);
+  const [runOptions, setRunOptions] = useState<RunOptions>({
+    mode: 'deterministic',
+    solver: { method: 'rk4' },
+  });
+  const [ensemble, setEnsemble] = useState<EnsembleResults | null>(null);
+  const [analysis, setAnalysis] = useState<StabilityAnalysis | null>(null);
   const [isSimulating, setIsSimulating] = useState(false);
   const [selectedTab, setSelectedTab] = useState<'simulation' | 'scenarios'>('simulation');
   
@@ -39,9 +66,38 @@ function App() {
     isConnected, 
     connectWebSocket, 
     disconnectWebSocket,
-    liveData 
+    liveData,
+    session,
+    sessionHistory,
+    sessionResults,
+    updateSessionParameters,
+    setLiveData,
+    room,
+    updateRoomParameters,
   } = useSimulationStore();
 
+  // In a shared room only the holder of the edit lock changes the parameters
+  const readOnly = room !== null && room.state.lock !== room.participantId;
+  const roomState = room?.state;
+
+  // A live session plots its history as it grows
+  const liveRun = session !== null && session.status !== 'finished';
+
+  // Canvas groups for food web parameters; the canvas falls back to prey/predator otherwise
+  const canvasSpecies = useMemo<CanvasSpecies[] | undefined>(() => {
+    const foodWeb = parameters.foodWeb;
+    if (!foodWeb) return undefined;
+
+    return foodWeb.species.map((s, i) => ({
+      id: s.id,
+      name: s.name ?? s.id,
+      role: foodWeb.interactions[i]?.some(value => value > 0) ? 'consumer' : 'basal',
+      color: s.color ?? SPECIES_COLORS[i % SPECIES_COLORS.length],
+      count: liveData?.speciesPopulations?.[s.id] || s.initialPopulation,
+      max: s.carryingCapacity ?? Math.max(500, s.initialPopulation * 5),
+    }));
+  }, [parameters.foodWeb, liveData]);
+
   useEffect(() => {
     // Connect to WebSocket on mount
     connectWebSocket();
@@ -51,11 +107,56 @@ function App() {
     };
   }, [connectWebSocket, disconnectWebSocket]);
 
+  // Parameter edits carry over to a live session
+  useEffect(() => {
+    updateSessionParameters(parameters);
+  }, [parameters, updateSessionParameters]);
+
+  // Follow the room's parameters while someone else edits them
+  useEffect(() => {
+    if (roomState && readOnly) {
+      setParameters(roomState.parameters);
+      setRunOptions(roomState.runOptions);
+    }
+  }, [roomState?.code, roomState?.revision, readOnly]);
+
+  // Share the editor's changes once they settle
+  useEffect(() => {
+    if (!roomState || readOnly) return;
+    if (parameters === roomState.parameters && runOptions === roomState.runOptions) return;
+
+    const timeout = setTimeout(() => updateRoomParameters(parameters, runOptions), 300);
+    return () => clearTimeout(timeout);
+  }, [parameters, runOptions]);
+
+  // A finished live session leaves its results like a regular run
+  useEffect(() => {
+    if (sessionResults) {
+      setResults(sessionResults);
+      setReference(null);
+    }
+  }, [sessionResults]);
+
   const runSimulation = async () => {
     setIsSimulating(true);
     try {
-      const response = await simulationApi.runSimulation(parameters);
-      setResults(response.results);
+      // Fixed point analysis is only defined for the prey/predator pair
+      // Spatial and agent runs are streamed so the grid or the agents appear
+      // on the canvas as they evolve
+      const streamed = runOptions.mode === 'spatial' || runOptions.mode === 'agent';
+      const [simulationResults, stability, odeResults] = await Promise.all([
+        streamed
+          ? simulationApi.streamSimulation(parameters, runOptions, setLiveData)
+          : simulationApi.runSimulation(parameters, runOptions).then(response => response.results),
+        parameters.foodWeb ? null : simulationApi.analyzeStability(parameters),
+        runOptions.mode === 'agent'
+          ? simulationApi.runSimulation(parameters, { mode: 'deterministic', solver: runOptions.solver })
+            .then(response => response.results as SimulationResults)
+          : null,
+      ]);
+      setResults(simulationResults);
+      setAnalysis(stability);
+      setReference(odeResults);
     } catch (error) {
       console.error('Simulation failed:', error);
     } finally {
@@ -63,6 +164,35 @@ function App() {
     }
   };
 
+  // Deterministic ensembles vary the rates by 10%, stochastic ones only the random events
+  const ensemblePerturbation = () => {
+    if (runOptions.mode === 'stochastic') return undefined;
+    if (!parameters.foodWeb) return 0.1;
+
+    const perturbation: Record<string, number> = {};
+    parameters.foodWeb.species.forEach((s, i) => {
+      if (s.growthRate !== undefined) perturbation[`foodWeb.species.${i}.growthRate`] = 0.1;
+      if (s.deathRate !== undefined) perturbation[`foodWeb.species.${i}.deathRate`] = 0.1;
+    });
+    return perturbation;
+  };
+
+  const runEnsemble = async () => {
+    setIsSimulating(true);
+    try {
+      const ensembleResults = await simulationApi.runEnsemble(parameters, {
+        ...runOptions,
+        replicates: 50,
+        perturbation: ensemblePerturbation(),
+      });
+      setEnsemble(ensembleResults);
+    } catch (error) {
+      console.error('Ensemble failed:', error);
+    } finally {
+      setIsSimulating(false);
+    }
+  };
+
   const handleParameterChange = (newParams: Partial<SimulationParameters>) => {
     setParameters(prev => ({
       ...prev,
@@ -73,6 +203,9 @@ function App() {
   const loadScenario = (scenarioParams: SimulationParameters) => {
     setParameters(scenarioParams);
     setResults(null);
+    setReference(null);
+    setEnsemble(null);
+    setAnalysis(null);
   };
 
   return (
@@ -137,14 +270,26 @@ function App() {
             <motion.div 
               initial={{ x: -50, opacity: 0 }}
               animate={{ x: 0, opacity: 1 }}
-              className="lg:col-span-1"
+              className="lg:col-span-1 space-y-6"
             >
-              <ParameterPanel
-                parameters={parameters}
-                onChange={handleParameterChange}
-                onRun={runSimulation}
-                isSimulating={isSimulating}
-              />
+              <RoomPanel parameters={parameters} runOptions={runOptions} />
+              <fieldset disabled={readOnly} className="space-y-6">
+                <ParameterPanel
+                  parameters={parameters}
+                  onChange={handleParameterChange}
+                  onRun={runSimulation}
+                  onRunEnsemble={runEnsemble}
+                  isSimulating={isSimulating}
+                  runOptions={runOptions}
+                  onRunOptionsChange={setRunOptions}
+                />
+              </fieldset>
+              <LiveSessionPanel parameters={parameters} runOptions={runOptions} />
+              <fieldset disabled={readOnly} className="space-y-6">
+                <StagePanel parameters={parameters} onChange={handleParameterChange} />
+                <ForcingPanel parameters={parameters} onChange={handleParameterChange} />
+                <EventTimeline parameters={parameters} onChange={handleParameterChange} />
+              </fieldset>
             </motion.div>
 
             {/* Middle Panel - Visualization */}
@@ -165,11 +310,21 @@ function App() {
                   resourceLevel={liveData?.resourceLevel || parameters.environment.resourceAvailability}
                   maxPrey={parameters.prey.carryingCapacity}
                   maxPredator={500}
+                  species={canvasSpecies}
+                  grid={runOptions.mode === 'spatial' ? liveData?.grid ?? results?.spatial?.grid : undefined}
+                  agents={runOptions.mode === 'agent' ? liveData?.agents ?? results?.agent?.agents : undefined}
                 />
               </div>
 
               {/* Charts */}
-              {results && (
+              {liveRun ? (
+                <div className="bg-white rounded-xl shadow-lg p-6">
+                  <h2 className="text-lg font-semibold text-gray-800 mb-4">
+                    Population Dynamics (live)
+                  </h2>
+                  <SimulationChart data={sessionHistory} species={session.species} />
+                </div>
+              ) : results && (
                 <motion.div 
                   initial={{ scale: 0.9, opacity: 0 }}
                   animate={{ scale: 1, opacity: 1 }}
@@ -178,7 +333,46 @@ function App() {
                   <h2 className="text-lg font-semibold text-gray-800 mb-4">
                     Population Dynamics
                   </h2>
-                  <SimulationChart data={results.timeSteps} />
+                  <SimulationChart
+                    data={results.timeSteps}
+                    species={results.species}
+                    eventPeriods={results.eventPeriods}
+                    reference={results.mode === 'agent' ? reference?.timeSteps : undefined}
+                  />
+                </motion.div>
+              )}
+
+              {/* Phase Portrait */}
+              <div className="bg-white rounded-xl shadow-lg p-6">
+                <h2 className="text-lg font-semibold text-gray-800 mb-4">
+                  Phase Portrait
+                </h2>
+                <PhasePortrait
+                  parameters={parameters}
+                  runOptions={runOptions}
+                  results={results}
+                />
+              </div>
+
+              {/* Ensemble */}
+              {ensemble && (
+                <motion.div 
+                  initial={{ scale: 0.9, opacity: 0 }}
+                  animate={{ scale: 1, opacity: 1 }}
+                  className="bg-white rounded-xl shadow-lg p-6"
+                >
+                  <div className="flex items-baseline justify-between mb-4">
+                    <h2 className="text-lg font-semibold text-gray-800">
+                      Ensemble Forecast
+                    </h2>
+                    <span className="text-sm text-gray-600">
+                      {ensemble.replicates} replicates · extinction in{' '}
+                      {Math.round(ensemble.timeToExtinction.probability * 100)}%
+                      {ensemble.timeToExtinction.median !== null &&
+                        ` · median time to extinction ${ensemble.timeToExtinction.median.toFixed(1)}`}
+                    </span>
+                  </div>
+                  <SimulationChart data={[]} ensemble={ensemble} />
                 </motion.div>
               )}
 
@@ -189,9 +383,29 @@ function App() {
                   animate={{ scale: 1, opacity: 1 }}
                   transition={{ delay: 0.2 }}
                 >
-                  <StatsPanel results={results} />
+                  <StatsPanel results={results} analysis={analysis} />
                 </motion.div>
               )}
+
+              {/* Parameter Sweep */}
+              <SweepHeatmap
+                parameters={parameters}
+                runOptions={runOptions}
+                onSelectCell={setParameters}
+              />
+
+              {/* Bifurcation Diagram */}
+              <BifurcationChart parameters={parameters} runOptions={runOptions} />
+
+              {/* Sensitivity Analysis */}
+              <SensitivityChart parameters={parameters} runOptions={runOptions} />
+
+              {/* Calibration */}
+              <CalibrationPanel
+                parameters={parameters}
+                runOptions={runOptions}
+                onApply={setParameters}
+              />
             </motion.div>
           </div>
         ) : (
@@ -0,0 +1,210 @@
+import React, { useMemo, useState } from 'react';
+import {
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { FaProjectDiagram } from 'react-icons/fa';
+import toast from 'react-hot-toast';
+import { SimulationParameters, RunOptions, BifurcationResults } from '../types';
+import { jobApi } from '../services/api';
+import { SWEEP_PARAMETERS, OUTCOME_STYLES } from './SweepHeatmap';
+
+interface BifurcationChartProps {
+  parameters: SimulationParameters;
+  runOptions: RunOptions;
+}
+
+const RESOLUTIONS = [50, 100, 200, 400];
+const TRANSIENTS = [100, 200, 500, 1000];
+
+const formatValue = (value: number) =>
+  Math.abs(value) >= 100 ? Math.round(value).toLocaleString() : Number(value.toPrecision(3)).toString();
+
+// One dot per branch: the resting level of a species, or every distinct
+// minimum and maximum it visits on a cycle
+const branchPoints = (bifurcation: BifurcationResults, speciesId: string) =>
+  bifurcation.points.flatMap(point => {
+    const attractor = point.attractor[speciesId];
+    const values = attractor.settled ? [attractor.level as number] : [...attractor.minima, ...attractor.maxima];
+    return values.map(population => ({ value: point.value, population }));
+  });
+
+const BifurcationChart: React.FC<BifurcationChartProps> = ({ parameters, runOptions }) => {
+  const [path, setPath] = useState('prey.carryingCapacity');
+  const [resolution, setResolution] = useState(100);
+  const [transient, setTransient] = useState(200);
+  const [bifurcation, setBifurcation] = useState<BifurcationResults | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+
+  const runBifurcation = async () => {
+    const { min, max } = SWEEP_PARAMETERS.find(param => param.path === path)!;
+
+    // Every value needs a long run, so diagrams are computed as a background job
+    setProgress(0);
+    try {
+      const job = await jobApi.submitJob('bifurcation', {
+        parameters,
+        path,
+        min,
+        max,
+        resolution,
+        transient,
+        solver: runOptions.solver,
+      });
+      setJobId(job.id);
+      setBifurcation(await jobApi.waitForJob<BifurcationResults>(job.id, setProgress));
+    } catch (error: any) {
+      toast.error(error.response?.data?.error ?? error.message ?? 'Bifurcation diagram failed');
+    } finally {
+      setJobId(null);
+    }
+  };
+
+  const cancel = () => {
+    if (jobId) jobApi.cancelJob(jobId).catch(() => undefined);
+  };
+
+  const series = useMemo(
+    () => bifurcation?.species.map(s => ({ ...s, points: branchPoints(bifurcation, s.id) })) ?? [],
+    [bifurcation]
+  );
+
+  const label = (parameterPath: string) =>
+    SWEEP_PARAMETERS.find(param => param.path === parameterPath)?.label ?? parameterPath;
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <h2 className="text-lg font-semibold text-gray-800 mb-4 flex items-center space-x-2">
+        <FaProjectDiagram className="text-gray-500" />
+        <span>Bifurcation Diagram</span>
+      </h2>
+
+      {parameters.foodWeb ? (
+        <p className="text-sm text-gray-600">
+          Bifurcation diagrams from the UI are available for prey/predator parameters.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 mb-4">
+            <select
+              value={path}
+              onChange={(e) => setPath(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              {SWEEP_PARAMETERS.map(param => (
+                <option key={param.path} value={param.path}>{param.label}</option>
+              ))}
+            </select>
+            <select
+              value={resolution}
+              onChange={(e) => setResolution(parseInt(e.target.value, 10))}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              {RESOLUTIONS.map(value => (
+                <option key={value} value={value}>{value} values</option>
+              ))}
+            </select>
+            <select
+              value={transient}
+              onChange={(e) => setTransient(parseInt(e.target.value, 10))}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              {TRANSIENTS.map(value => (
+                <option key={value} value={value}>Discard first {value} time units</option>
+              ))}
+            </select>
+            {jobId ? (
+              <button
+                onClick={cancel}
+                className="px-4 py-2 rounded-lg font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+              >
+                Cancel ({Math.round(progress * 100)}%)
+              </button>
+            ) : (
+              <button
+                onClick={runBifurcation}
+                className="px-4 py-2 rounded-lg font-medium bg-blue-500 text-white hover:bg-blue-600"
+              >
+                Draw Diagram
+              </button>
+            )}
+          </div>
+
+          {bifurcation && (
+            <>
+              <ResponsiveContainer width="100%" height={400}>
+                <ScatterChart margin={{ top: 5, right: 30, left: 20, bottom: 20 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis
+                    type="number"
+                    dataKey="value"
+                    name={label(bifurcation.path)}
+                    domain={['dataMin', 'dataMax']}
+                    tickFormatter={formatValue}
+                    stroke="#6b7280"
+                    label={{ value: label(bifurcation.path), position: 'insideBottom', offset: -10 }}
+                  />
+                  <YAxis
+                    type="number"
+                    dataKey="population"
+                    name="Population"
+                    tickFormatter={formatValue}
+                    stroke="#6b7280"
+                    label={{ value: 'Population', angle: -90, position: 'insideLeft' }}
+                  />
+                  <Tooltip
+                    cursor={{ strokeDasharray: '3 3' }}
+                    formatter={(value: number) => formatValue(value)}
+                    contentStyle={{
+                      backgroundColor: 'rgba(255, 255, 255, 0.95)',
+                      border: '1px solid #e5e7eb',
+                      borderRadius: '8px',
+                    }}
+                  />
+                  <Legend verticalAlign="top" />
+                  {series.map(s => (
+                    <Scatter
+                      key={s.id}
+                      name={s.name}
+                      data={s.points}
+                      fill={s.color}
+                      shape="circle"
+                      isAnimationActive={false}
+                    />
+                  ))}
+                </ScatterChart>
+              </ResponsiveContainer>
+
+              {/* Outcome at every swept value */}
+              <div className="flex h-2 mt-2 ml-20 mr-8 rounded overflow-hidden">
+                {bifurcation.points.map(point => (
+                  <div
+                    key={point.value}
+                    className="flex-1"
+                    style={{ backgroundColor: OUTCOME_STYLES[point.outcome].color }}
+                    title={`${formatValue(point.value)}: ${OUTCOME_STYLES[point.outcome].label}`}
+                  />
+                ))}
+              </div>
+
+              <p className="mt-3 text-sm text-gray-600">
+                Single dots are fixed points; a spread of dots shows the minima and maxima of a cycle.
+                {' '}Equilibrium at {bifurcation.counts.equilibrium}, oscillation at {bifurcation.counts.oscillation} and
+                {' '}extinction at {bifurcation.counts.extinction} of {bifurcation.points.length} values.
+              </p>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BifurcationChart;
@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { FaCrosshairs } from 'react-icons/fa';
+import toast from 'react-hot-toast';
+import { SimulationParameters, RunOptions, CalibrationResults } from '../types';
+import { jobApi } from '../services/api';
+import SimulationChart from './SimulationChart';
+import { SWEEP_PARAMETERS } from './SweepHeatmap';
+
+interface CalibrationPanelProps {
+  parameters: SimulationParameters;
+  runOptions: RunOptions;
+  onApply: (parameters: SimulationParameters) => void;
+}
+
+// Hudson's Bay Company hare and lynx pelts, in hundreds
+const HUDSON_BAY_SAMPLE = `year,hare,lynx
+1900,300,40
+1901,472,61
+1902,702,98
+1903,774,352
+1904,363,594
+1905,206,417
+1906,181,190
+1907,214,130
+1908,220,83
+1909,254,91
+1910,271,74
+1911,403,80
+1912,570,123
+1913,766,195
+1914,523,457
+1915,195,511
+1916,112,297
+1917,76,158
+1918,146,97
+1919,162,101
+1920,247,86`;
+
+const labelFor = (path: string) =>
+  SWEEP_PARAMETERS.find(param => param.path === path)?.label ?? path;
+
+const formatNumber = (value: number) =>
+  Math.abs(value) >= 100 ? Math.round(value).toLocaleString() : Number(value.toPrecision(3)).toString();
+
+// CSV text is sent as is; anything starting like JSON is parsed into rows first
+const parseData = (text: string) => {
+  const trimmed = text.trim();
+  return trimmed.startsWith('[') ? JSON.parse(trimmed) : trimmed;
+};
+
+const CalibrationPanel: React.FC<CalibrationPanelProps> = ({ parameters, runOptions, onApply }) => {
+  const [data, setData] = useState('');
+  const [preyColumn, setPreyColumn] = useState('prey');
+  const [predatorColumn, setPredatorColumn] = useState('predator');
+  const [calibration, setCalibration] = useState<CalibrationResults | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+
+  const loadSample = () => {
+    setData(HUDSON_BAY_SAMPLE);
+    setPreyColumn('hare');
+    setPredatorColumn('lynx');
+  };
+
+  const runCalibration = async () => {
+    setProgress(0);
+    try {
+      const job = await jobApi.submitJob('calibration', {
+        parameters,
+        data: parseData(data),
+        columns: { [preyColumn]: 'prey', [predatorColumn]: 'predator' },
+        maxIterations: 1000,
+        solver: runOptions.solver,
+      });
+      setJobId(job.id);
+      setCalibration(await jobApi.waitForJob<CalibrationResults>(job.id, setProgress));
+    } catch (error: any) {
+      toast.error(error.response?.data?.error ?? error.message ?? 'Calibration failed');
+    } finally {
+      setJobId(null);
+    }
+  };
+
+  const cancel = () => {
+    if (jobId) jobApi.cancelJob(jobId).catch(() => undefined);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <h2 className="text-lg font-semibold text-gray-800 mb-4 flex items-center space-x-2">
+        <FaCrosshairs className="text-gray-500" />
+        <span>Fit to Observed Data</span>
+      </h2>
+
+      {parameters.foodWeb ? (
+        <p className="text-sm text-gray-600">
+          Calibration from the UI is available for prey/predator parameters.
+        </p>
+      ) : (
+        <>
+          <textarea
+            value={data}
+            onChange={(e) => setData(e.target.value)}
+            placeholder={'time,prey,predator\n0,1000,100\n1,1400,120\n...'}
+            rows={6}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono"
+          />
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mt-3">
+            <input
+              value={preyColumn}
+              onChange={(e) => setPreyColumn(e.target.value)}
+              placeholder="Prey column"
+              title="Prey column"
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <input
+              value={predatorColumn}
+              onChange={(e) => setPredatorColumn(e.target.value)}
+              placeholder="Predator column"
+              title="Predator column"
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <button
+              onClick={loadSample}
+              className="px-4 py-2 rounded-lg font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 text-sm"
+            >
+              Hudson Bay sample
+            </button>
+            {jobId ? (
+              <button
+                onClick={cancel}
+                className="px-4 py-2 rounded-lg font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+              >
+                Cancel ({Math.round(progress * 100)}%)
+              </button>
+            ) : (
+              <button
+                onClick={runCalibration}
+                disabled={data.trim() === ''}
+                className="px-4 py-2 rounded-lg font-medium bg-blue-500 text-white hover:bg-blue-600 disabled:bg-gray-300 disabled:text-gray-500"
+              >
+                Fit Parameters
+              </button>
+            )}
+          </div>
+
+          {calibration && (
+            <div className="mt-6 space-y-4">
+              <SimulationChart
+                data={calibration.simulation.timeSteps}
+                species={calibration.simulation.species}
+                observations={calibration.observations}
+              />
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+                <table className="w-full">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="font-medium pb-1">Parameter</th>
+                      <th className="font-medium pb-1 text-right">Start</th>
+                      <th className="font-medium pb-1 text-right">Fitted</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {calibration.fitted.map(param => (
+                      <tr key={param.path} className="border-t border-gray-100">
+                        <td className="py-1 text-gray-700">{labelFor(param.path)}</td>
+                        <td className="py-1 text-right text-gray-500">
+                          {param.initial === null ? '–' : formatNumber(param.initial)}
+                        </td>
+                        <td className="py-1 text-right font-medium">{formatNumber(param.value)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                <div className="space-y-1 text-gray-700">
+                  {Object.entries(calibration.goodness.species).map(([id, fit]) => (
+                    <p key={id}>
+                      <span className="capitalize">{id}</span>: R²{' '}
+                      {fit.rSquared === null ? '–' : fit.rSquared.toFixed(3)} · RMSE {formatNumber(fit.rmse)}
+                    </p>
+                  ))}
+                  <p className="text-gray-500">
+                    {calibration.converged ? 'Converged' : 'Stopped'} after {calibration.iterations} iterations ·
+                    AIC {calibration.goodness.aic.toFixed(1)}
+                  </p>
+                  <button
+                    onClick={() => onApply(calibration.parameters)}
+                    className="mt-2 px-4 py-2 rounded-lg font-medium bg-green-500 text-white hover:bg-green-600"
+                  >
+                    Use Fitted Parameters
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CalibrationPanel;
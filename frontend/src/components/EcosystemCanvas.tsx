@@ -1,5 +1,15 @@
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useRef, useEffect, useState, useMemo } from 'react';
 import { motion } from 'framer-motion';
+import { SpeciesRole, SpatialSnapshot, AgentSnapshot } from '../types';
+
+export interface CanvasSpecies {
+  id: string;
+  name: string;
+  role: SpeciesRole;
+  color: string;
+  count: number;
+  max: number;
+}
 
 interface EcosystemCanvasProps {
   preyCount: number;
@@ -7,6 +17,12 @@ interface EcosystemCanvasProps {
   resourceLevel: number;
   maxPrey: number;
   maxPredator: number;
+  // Food web species; when omitted the prey/predator counts are drawn
+  species?: CanvasSpecies[];
+  // Spatial run densities, drawn as a heatmap instead of creatures
+  grid?: SpatialSnapshot;
+  // Agent-based run positions, drawn in place of the animated creatures
+  agents?: AgentSnapshot;
 }
 
 interface Creature {
@@ -16,6 +32,7 @@ interface Creature {
   vy: number;
   size: number;
   type: 'prey' | 'predator';
+  color: string;
   angle: number;
 }
 
@@ -25,53 +42,55 @@ const EcosystemCanvas: React.FC<EcosystemCanvasProps> = ({
   resourceLevel,
   maxPrey,
   maxPredator,
+  species,
+  grid,
+  agents,
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number>();
   const [creatures, setCreatures] = useState<Creature[]>([]);
   const [dimensions, setDimensions] = useState({ width: 800, height: 400 });
+  // Simulated snapshots replace the decorative animation
+  const showSnapshot = grid !== undefined || agents !== undefined;
+
+  const groups = useMemo<CanvasSpecies[]>(() => species ?? [
+    { id: 'prey', name: 'Prey', role: 'basal', color: '#3b82f6', count: preyCount, max: maxPrey },
+    { id: 'predator', name: 'Predator', role: 'consumer', color: '#ef4444', count: predatorCount, max: maxPredator },
+  ], [species, preyCount, predatorCount, maxPrey, maxPredator]);
 
   // Initialize creatures
   useEffect(() => {
     const newCreatures: Creature[] = [];
     
-    // Scale creature counts for visualization (max 50 of each for performance)
-    const visualPreyCount = Math.min(50, Math.floor((preyCount / maxPrey) * 50));
-    const visualPredatorCount = Math.min(20, Math.floor((predatorCount / maxPredator) * 20));
-
-    // Create prey
-    for (let i = 0; i < visualPreyCount; i++) {
-      newCreatures.push({
-        x: Math.random() * dimensions.width,
-        y: Math.random() * dimensions.height,
-        vx: (Math.random() - 0.5) * 2,
-        vy: (Math.random() - 0.5) * 2,
-        size: 8 + Math.random() * 4,
-        type: 'prey',
-        angle: Math.random() * Math.PI * 2,
-      });
-    }
-
-    // Create predators
-    for (let i = 0; i < visualPredatorCount; i++) {
-      newCreatures.push({
-        x: Math.random() * dimensions.width,
-        y: Math.random() * dimensions.height,
-        vx: (Math.random() - 0.5) * 1.5,
-        vy: (Math.random() - 0.5) * 1.5,
-        size: 12 + Math.random() * 6,
-        type: 'predator',
-        angle: Math.random() * Math.PI * 2,
-      });
-    }
+    groups.forEach(group => {
+      const isBasal = group.role === 'basal';
+      
+      // Scale creature counts for visualization (max 50 basal and 20 consumers per species for performance)
+      const limit = isBasal ? 50 : 20;
+      const visualCount = Math.min(limit, Math.floor((group.count / group.max) * limit));
+      
+      for (let i = 0; i < visualCount; i++) {
+        const speed = isBasal ? 2 : 1.5;
+        newCreatures.push({
+          x: Math.random() * dimensions.width,
+          y: Math.random() * dimensions.height,
+          vx: (Math.random() - 0.5) * speed,
+          vy: (Math.random() - 0.5) * speed,
+          size: isBasal ? 8 + Math.random() * 4 : 12 + Math.random() * 6,
+          type: isBasal ? 'prey' : 'predator',
+          color: group.color,
+          angle: Math.random() * Math.PI * 2,
+        });
+      }
+    });
 
     setCreatures(newCreatures);
-  }, [preyCount, predatorCount, maxPrey, maxPredator, dimensions]);
+  }, [groups, dimensions]);
 
   // Animation loop
   useEffect(() => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
+    if (!canvas || showSnapshot) return;
 
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
@@ -141,7 +160,7 @@ const EcosystemCanvas: React.FC<EcosystemCanvasProps> = ({
 
           if (creature.type === 'prey') {
             // Draw prey as fish-like shape
-            ctx.fillStyle = '#3b82f6';
+            ctx.fillStyle = creature.color;
             ctx.beginPath();
             ctx.ellipse(0, 0, creature.size, creature.size * 0.5, 0, 0, Math.PI * 2);
             ctx.fill();
@@ -153,16 +172,18 @@ const EcosystemCanvas: React.FC<EcosystemCanvasProps> = ({
             ctx.fill();
             
             // Tail
-            ctx.fillStyle = '#60a5fa';
+            ctx.fillStyle = creature.color;
+            ctx.globalAlpha = 0.7;
             ctx.beginPath();
             ctx.moveTo(-creature.size, 0);
             ctx.lineTo(-creature.size * 1.5, -creature.size * 0.3);
             ctx.lineTo(-creature.size * 1.5, creature.size * 0.3);
             ctx.closePath();
             ctx.fill();
+            ctx.globalAlpha = 1;
           } else {
             // Draw predator as shark-like shape
-            ctx.fillStyle = '#ef4444';
+            ctx.fillStyle = creature.color;
             ctx.beginPath();
             ctx.ellipse(0, 0, creature.size, creature.size * 0.6, 0, 0, Math.PI * 2);
             ctx.fill();
@@ -216,7 +237,65 @@ const EcosystemCanvas: React.FC<EcosystemCanvasProps> = ({
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [dimensions, resourceLevel]);
+  }, [dimensions, resourceLevel, showSnapshot]);
+
+  // Density heatmap: prey shade cells blue, predators red, both fading to
+  // white where the cell is empty
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || !grid) return;
+
+    const cellWidth = dimensions.width / grid.width;
+    const cellHeight = dimensions.height / grid.height;
+    const maxPrey = grid.max.prey || 1;
+    const maxPredator = grid.max.predator || 1;
+
+    ctx.clearRect(0, 0, dimensions.width, dimensions.height);
+    for (let y = 0; y < grid.height; y++) {
+      for (let x = 0; x < grid.width; x++) {
+        const c = y * grid.width + x;
+        const prey = grid.prey[c] / maxPrey;
+        const predator = grid.predator[c] / maxPredator;
+        const red = Math.round(255 - 196 * prey * (1 - predator));
+        const green = Math.round(255 - 125 * prey - 187 * predator);
+        const blue = Math.round(255 - 187 * predator * (1 - prey) - 9 * prey);
+        ctx.fillStyle = `rgb(${red}, ${Math.max(0, green)}, ${blue})`;
+        // Overlap by a pixel so no seams show between cells
+        ctx.fillRect(x * cellWidth, y * cellHeight, cellWidth + 1, cellHeight + 1);
+      }
+    }
+  }, [grid, dimensions]);
+
+  // Agent positions in the square world, scaled to fit the canvas and
+  // centred, over the resource-shaded background
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || !agents) return;
+
+    const side = Math.min(dimensions.width, dimensions.height);
+    const left = (dimensions.width - side) / 2;
+    const top = (dimensions.height - side) / 2;
+    const scale = side / agents.size;
+    const greenIntensity = Math.floor(100 + resourceLevel * 100);
+
+    ctx.clearRect(0, 0, dimensions.width, dimensions.height);
+    ctx.fillStyle = `rgb(${255 - greenIntensity}, 255, ${255 - greenIntensity})`;
+    ctx.fillRect(left, top, side, side);
+
+    const draw = (positions: number[], color: string, radius: number) => {
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      for (let i = 0; i < positions.length; i += 2) {
+        const x = left + positions[i] * scale;
+        const y = top + positions[i + 1] * scale;
+        ctx.moveTo(x + radius, y);
+        ctx.arc(x, y, radius, 0, Math.PI * 2);
+      }
+      ctx.fill();
+    };
+    draw(agents.prey, groups[0].color, 2);
+    draw(agents.predator, groups[1].color, 3.5);
+  }, [agents, groups, resourceLevel, dimensions]);
 
   // Handle resize
   useEffect(() => {
@@ -243,17 +322,28 @@ const EcosystemCanvas: React.FC<EcosystemCanvasProps> = ({
         className="w-full rounded-lg border border-gray-200 shadow-inner"
       />
       
+      {grid && (
+        <div className="absolute bottom-4 right-4 bg-white/90 backdrop-blur-sm rounded-lg px-3 py-1 shadow-lg text-xs text-gray-600">
+          {grid.width} × {grid.height} grid · t = {grid.time.toFixed(1)}
+        </div>
+      )}
+
+      {agents && (
+        <div className="absolute bottom-4 right-4 bg-white/90 backdrop-blur-sm rounded-lg px-3 py-1 shadow-lg text-xs text-gray-600">
+          {agents.counts.prey + agents.counts.predator} agents
+          {agents.scale !== 1 && ` × ${agents.scale}`} · t = {agents.time.toFixed(1)}
+        </div>
+      )}
+
       {/* Overlay Stats */}
       <div className="absolute top-4 left-4 bg-white/90 backdrop-blur-sm rounded-lg px-3 py-2 shadow-lg">
         <div className="flex items-center space-x-4 text-sm">
-          <div className="flex items-center space-x-1">
-            <div className="w-3 h-3 bg-prey rounded-full" />
-            <span className="font-medium">{Math.round(preyCount)}</span>
-          </div>
-          <div className="flex items-center space-x-1">
-            <div className="w-3 h-3 bg-predator rounded-full" />
-            <span className="font-medium">{Math.round(predatorCount)}</span>
-          </div>
+          {groups.map(group => (
+            <div key={group.id} className="flex items-center space-x-1" title={group.name}>
+              <div className="w-3 h-3 rounded-full" style={{ backgroundColor: group.color }} />
+              <span className="font-medium">{Math.round(group.count)}</span>
+            </div>
+          ))}
           <div className="flex items-center space-x-1">
             <span className="text-green-600">🌱</span>
             <span className="font-medium">{Math.round(resourceLevel * 100)}%</span>
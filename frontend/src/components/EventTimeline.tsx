@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { FaCalendarAlt, FaPlus, FaTrash } from 'react-icons/fa';
+import { SimulationParameters, SimulationEvent, SimulationEventType, EventTypeDefinition } from '../types';
+import { simulationApi } from '../services/api';
+
+interface EventTimelineProps {
+  parameters: SimulationParameters;
+  onChange: (params: Partial<SimulationParameters>) => void;
+}
+
+// How much a harvest or cull takes: a share, a count, or a per-capita rate over a window
+type Quantity = 'fraction' | 'amount' | 'rate';
+
+// Starting values of the editor for every event type
+const DRAFTS: Record<SimulationEventType, SimulationEvent> = {
+  harvest: { type: 'harvest', target: 'prey', time: 10, fraction: 0.2 },
+  cull: { type: 'cull', target: 'predator', time: 10, amount: 20 },
+  reintroduce: { type: 'reintroduce', target: 'predator', time: 50, amount: 10 },
+  drought: { type: 'drought', from: 30, to: 40, factor: 0.3 },
+  disaster: { type: 'disaster', time: 50, fraction: 0.5 },
+};
+
+const isContinuous = (event: SimulationEvent) =>
+  event.type === 'drought' || (event.type === 'harvest' && event.rate !== undefined);
+
+const describe = (event: SimulationEvent, speciesName: (id?: string) => string) => {
+  const when = isContinuous(event)
+    ? `t ${event.from}–${event.to}`
+    : `t ${event.time}${event.every ? `, every ${event.every}${event.until !== undefined ? ` until ${event.until}` : ''}` : ''}`;
+  const what = event.rate !== undefined
+    ? `rate ${event.rate}`
+    : event.factor !== undefined
+      ? `resources ×${event.factor}`
+      : event.fraction !== undefined
+        ? `${Math.round(event.fraction * 100)}%`
+        : `${event.amount}`;
+  return `${event.label ?? event.type} · ${speciesName(event.target)} · ${what} · ${when}`;
+};
+
+const EventTimeline: React.FC<EventTimelineProps> = ({ parameters, onChange }) => {
+  const [eventTypes, setEventTypes] = useState<EventTypeDefinition[]>([]);
+  const [draft, setDraft] = useState<SimulationEvent>(DRAFTS.harvest);
+  const [quantity, setQuantity] = useState<Quantity>('fraction');
+
+  React.useEffect(() => {
+    simulationApi.getEventTypes()
+      .then(setEventTypes)
+      .catch(error => console.error('Failed to load event types:', error));
+  }, []);
+
+  const events = parameters.events ?? [];
+  const species = parameters.foodWeb
+    ? parameters.foodWeb.species.map(s => ({ id: s.id, name: s.name ?? s.id }))
+    : [{ id: 'prey', name: 'Prey' }, { id: 'predator', name: 'Predator' }];
+  const speciesName = (id?: string) => id === undefined ? 'All species' : species.find(s => s.id === id)?.name ?? id;
+
+  const selectType = (type: SimulationEventType) => {
+    const { target } = DRAFTS[type];
+    // Food webs may not have the default target species
+    setDraft({
+      ...DRAFTS[type],
+      target: target && (species.some(s => s.id === target) ? target : species[0].id),
+    });
+    setQuantity(type === 'cull' || type === 'reintroduce' ? 'amount' : 'fraction');
+  };
+
+  const setField = (field: keyof SimulationEvent, value: string) => {
+    setDraft(prev => ({ ...prev, [field]: value === '' ? undefined : Number(value) }));
+  };
+
+  // Keep only the fields that belong to the chosen quantity
+  const changeQuantity = (next: Quantity) => {
+    setQuantity(next);
+    setDraft(prev => {
+      const { time = 10, from = 10, to = 20, every, until, ...rest } = prev;
+      const base = { type: rest.type, target: rest.target };
+      return next === 'rate'
+        ? { ...base, from, to, rate: 0.1 }
+        : { ...base, time, every, until, [next]: next === 'fraction' ? 0.2 : 20 };
+    });
+  };
+
+  const addEvent = () => {
+    // Drop empty fields so the saved scenario only carries what was set
+    const event = Object.fromEntries(
+      Object.entries(draft).filter(([, value]) => value !== undefined && value !== '')
+    ) as unknown as SimulationEvent;
+    onChange({ events: [...events, event].sort((a, b) => (a.time ?? a.from ?? 0) - (b.time ?? b.from ?? 0)) });
+  };
+
+  const removeEvent = (index: number) => {
+    const remaining = events.filter((_, i) => i !== index);
+    onChange({ events: remaining.length > 0 ? remaining : undefined });
+  };
+
+  const numberInput = (field: keyof SimulationEvent, label: string, step = 1) => (
+    <label className="text-xs text-gray-600">
+      {label}
+      <input
+        type="number"
+        step={step}
+        min={0}
+        value={(draft[field] as number | undefined) ?? ''}
+        onChange={(e) => setField(field, e.target.value)}
+        className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-lg text-sm"
+      />
+    </label>
+  );
+
+  const continuous = draft.type === 'drought' || (draft.type === 'harvest' && quantity === 'rate');
+  // Repeats need an end
+  const missingUntil = !continuous && draft.every !== undefined && draft.until === undefined;
+  const canTargetAll = draft.type === 'disaster';
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <h2 className="text-lg font-semibold text-gray-800 mb-4 flex items-center space-x-2">
+        <FaCalendarAlt className="text-gray-500" />
+        <span>Events Timeline</span>
+      </h2>
+
+      {events.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">No events scheduled.</p>
+      ) : (
+        <ul className="space-y-2 mb-4">
+          {events.map((event, index) => (
+            <li key={index} className="flex items-center justify-between text-sm bg-gray-50 rounded-lg px-3 py-2">
+              <span className="text-gray-700 capitalize">{describe(event, speciesName)}</span>
+              <button
+                onClick={() => removeEvent(index)}
+                className="text-gray-400 hover:text-red-500"
+                title="Remove event"
+              >
+                <FaTrash />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          value={draft.type}
+          onChange={(e) => selectType(e.target.value as SimulationEventType)}
+          title={eventTypes.find(t => t.id === draft.type)?.description}
+          className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+        >
+          {(eventTypes.length > 0 ? eventTypes : Object.keys(DRAFTS).map(id => ({ id, name: id }))).map(type => (
+            <option key={type.id} value={type.id}>{type.name}</option>
+          ))}
+        </select>
+
+        {draft.type !== 'drought' && (
+          <select
+            value={draft.target ?? ''}
+            onChange={(e) => setDraft(prev => ({ ...prev, target: e.target.value || undefined }))}
+            className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+          >
+            {canTargetAll && <option value="">All species</option>}
+            {species.map(s => (
+              <option key={s.id} value={s.id}>{s.name}</option>
+            ))}
+          </select>
+        )}
+
+        {(draft.type === 'harvest' || draft.type === 'cull') && (
+          <select
+            value={quantity}
+            onChange={(e) => changeQuantity(e.target.value as Quantity)}
+            className="col-span-2 px-2 py-1 border border-gray-300 rounded-lg text-sm"
+          >
+            <option value="fraction">Share of the population</option>
+            <option value="amount">Number of individuals</option>
+            {draft.type === 'harvest' && <option value="rate">Continuous rate over a window</option>}
+          </select>
+        )}
+
+        {continuous ? (
+          <>
+            {numberInput('from', 'From')}
+            {numberInput('to', 'To')}
+            {draft.type === 'drought'
+              ? numberInput('factor', 'Resource factor', 0.05)
+              : numberInput('rate', 'Harvest rate', 0.01)}
+          </>
+        ) : (
+          <>
+            {numberInput('time', 'Time')}
+            {quantity === 'fraction'
+              ? numberInput('fraction', 'Fraction', 0.05)
+              : numberInput('amount', 'Amount')}
+            {numberInput('every', 'Repeat every')}
+            {numberInput('until', 'Until')}
+          </>
+        )}
+      </div>
+
+      <button
+        onClick={addEvent}
+        disabled={missingUntil}
+        title={missingUntil ? 'Set when a repeating event ends' : undefined}
+        className="mt-3 w-full flex items-center justify-center space-x-2 px-4 py-2 rounded-lg font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 text-sm disabled:opacity-50"
+      >
+        <FaPlus />
+        <span>Add Event</span>
+      </button>
+    </div>
+  );
+};
+
+export default EventTimeline;
@@ -0,0 +1,281 @@
+import React, { useEffect, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { FaWaveSquare, FaPlus, FaTrash, FaUpload } from 'react-icons/fa';
+import {
+  SimulationParameters,
+  EnvironmentForcing,
+  ForcingHarmonic,
+  ForcingPreview,
+  NoiseType,
+} from '../types';
+import { simulationApi } from '../services/api';
+
+interface ForcingPanelProps {
+  parameters: SimulationParameters;
+  onChange: (params: Partial<SimulationParameters>) => void;
+}
+
+const PREVIEW_DELAY = 400; // ms to wait for further edits before previewing
+
+// Drop unset settings so scenarios without forcing stay unchanged
+const compact = (forcing: EnvironmentForcing): EnvironmentForcing | undefined => {
+  const entries = Object.entries(forcing).filter(([, value]) =>
+    value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0));
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+const parseNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+const ForcingPanel: React.FC<ForcingPanelProps> = ({ parameters, onChange }) => {
+  const [preview, setPreview] = useState<ForcingPreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  const { environment } = parameters;
+  const forcing = environment.forcing ?? {};
+
+  // Refresh the preview shortly after the environment stops changing; only
+  // the environment shapes the forcing
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      simulationApi.previewForcing(parameters)
+        .then(data => {
+          setPreview(data);
+          setPreviewError(null);
+        })
+        .catch((error: any) => setPreviewError(error.response?.data?.error ?? error.message));
+    }, PREVIEW_DELAY);
+    return () => clearTimeout(timer);
+  }, [environment]);
+
+  const update = (changes: Partial<EnvironmentForcing>) => {
+    onChange({ environment: { ...environment, forcing: compact({ ...forcing, ...changes }) } });
+  };
+
+  const harmonics = forcing.harmonics ?? [];
+  const updateHarmonic = (index: number, changes: Partial<ForcingHarmonic>) => {
+    update({ harmonics: harmonics.map((h, i) => (i === index ? { ...h, ...changes } : h)) });
+  };
+
+  const setNoiseType = (type: NoiseType | '') => {
+    update({ noise: type === '' ? undefined : { amplitude: 0.05, ...forcing.noise, type } });
+  };
+
+  const uploadSeries = (file: File | undefined) => {
+    file?.text().then(text => update({ series: text }));
+  };
+
+  const chartData = preview?.times.map((time, i) => ({
+    time: time.toFixed(1),
+    resources: Math.round(preview.resourceLevel[i] * 100),
+    mortality: Number(preview.predatorDeathFactor[i].toFixed(2)),
+  })) ?? [];
+
+  const inputClass = 'mt-1 w-full px-2 py-1 border border-gray-300 rounded-lg text-sm';
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <h2 className="text-lg font-semibold text-gray-800 mb-4 flex items-center space-x-2">
+        <FaWaveSquare className="text-gray-500" />
+        <span>Environmental Forcing</span>
+      </h2>
+
+      {/* Harmonics */}
+      <div className="mb-4">
+        <p className="text-sm font-medium text-gray-700 mb-1">Harmonics</p>
+        {harmonics.map((harmonic, index) => (
+          <div key={index} className="grid grid-cols-7 gap-2 items-end mb-2">
+            {(['amplitude', 'period', 'phase'] as const).map(field => (
+              <label key={field} className="col-span-2 text-xs text-gray-600 capitalize">
+                {field}
+                <input
+                  type="number"
+                  step={field === 'period' ? 1 : 0.05}
+                  value={harmonic[field] ?? ''}
+                  onChange={(e) => updateHarmonic(index, { [field]: parseNumber(e.target.value) })}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+            <button
+              onClick={() => update({ harmonics: harmonics.filter((_, i) => i !== index) })}
+              className="pb-2 text-gray-400 hover:text-red-500"
+              title="Remove harmonic"
+            >
+              <FaTrash />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => update({ harmonics: [...harmonics, { amplitude: 0.1, period: 12, phase: 0 }] })}
+          className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700"
+        >
+          <FaPlus />
+          <span>Add harmonic</span>
+        </button>
+      </div>
+
+      {/* Trend and predator response */}
+      <div className="grid grid-cols-3 gap-2 mb-4">
+        <label className="text-xs text-gray-600">
+          Trend per time unit
+          <input
+            type="number"
+            step={0.001}
+            value={forcing.trend?.rate ?? ''}
+            onChange={(e) => {
+              const rate = parseNumber(e.target.value);
+              update({ trend: rate === undefined ? undefined : { ...forcing.trend, rate } });
+            }}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-xs text-gray-600">
+          Trend starts at
+          <input
+            type="number"
+            min={0}
+            value={forcing.trend?.from ?? ''}
+            disabled={!forcing.trend}
+            onChange={(e) => forcing.trend && update({ trend: { ...forcing.trend, from: parseNumber(e.target.value) } })}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-xs text-gray-600" title="How much a resource shortfall raises predator death rates">
+          Predator mortality
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={forcing.predatorMortality ?? ''}
+            onChange={(e) => update({ predatorMortality: parseNumber(e.target.value) })}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      {/* Noise */}
+      <div className="grid grid-cols-4 gap-2 mb-4">
+        <label className="text-xs text-gray-600">
+          Noise
+          <select
+            value={forcing.noise?.type ?? ''}
+            onChange={(e) => setNoiseType(e.target.value as NoiseType | '')}
+            className={inputClass}
+          >
+            <option value="">None</option>
+            <option value="white">White</option>
+            <option value="red">Red</option>
+          </select>
+        </label>
+        {forcing.noise && (
+          <>
+            <label className="text-xs text-gray-600">
+              Amplitude
+              <input
+                type="number"
+                min={0}
+                max={1}
+                step={0.01}
+                value={forcing.noise.amplitude}
+                onChange={(e) => update({ noise: { ...forcing.noise!, amplitude: Number(e.target.value) } })}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              Correlation time
+              <input
+                type="number"
+                min={0}
+                value={forcing.noise.correlationTime ?? ''}
+                disabled={forcing.noise.type !== 'red'}
+                onChange={(e) => update({ noise: { ...forcing.noise!, correlationTime: parseNumber(e.target.value) } })}
+                className={inputClass}
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              Seed
+              <input
+                type="number"
+                value={forcing.noise.seed ?? ''}
+                onChange={(e) => update({ noise: { ...forcing.noise!, seed: parseNumber(e.target.value) } })}
+                className={inputClass}
+              />
+            </label>
+          </>
+        )}
+      </div>
+
+      {/* Resource curve */}
+      <div className="mb-4">
+        <div className="flex items-center justify-between mb-1">
+          <p className="text-sm font-medium text-gray-700">Resource curve</p>
+          <label className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700 cursor-pointer">
+            <FaUpload />
+            <span>Upload CSV</span>
+            <input
+              type="file"
+              accept=".csv,text/csv,text/plain"
+              className="hidden"
+              onChange={(e) => uploadSeries(e.target.files?.[0])}
+            />
+          </label>
+        </div>
+        <textarea
+          value={typeof forcing.series === 'string'
+            ? forcing.series
+            : forcing.series?.map(p => `${p.time},${p.value}`).join('\n') ?? ''}
+          onChange={(e) => update({ series: e.target.value.trim() === '' ? undefined : e.target.value })}
+          placeholder={'time,resources\n0,0.8\n50,0.6\n100,0.4'}
+          rows={3}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono"
+        />
+        <label className="flex items-center space-x-2 text-xs text-gray-600 mt-1">
+          <input
+            type="checkbox"
+            checked={forcing.repeat ?? false}
+            onChange={(e) => update({ repeat: e.target.checked || undefined })}
+          />
+          <span>Repeat the curve</span>
+        </label>
+      </div>
+
+      {/* Preview */}
+      {previewError ? (
+        <p className="text-sm text-red-600">{previewError}</p>
+      ) : preview && (
+        <ResponsiveContainer width="100%" height={180}>
+          <LineChart data={chartData} margin={{ top: 5, right: 5, left: -20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="time" stroke="#6b7280" minTickGap={30} />
+            <YAxis domain={[0, 100]} stroke="#6b7280" />
+            <YAxis yAxisId="mortality" orientation="right" hide />
+            <Tooltip />
+            <Legend />
+            <Line dataKey="resources" name="Resources (%)" stroke="#22c55e" dot={false} isAnimationActive={false} />
+            {forcing.predatorMortality ? (
+              <Line
+                yAxisId="mortality"
+                dataKey="mortality"
+                name="Predator death ×"
+                stroke="#ef4444"
+                dot={false}
+                isAnimationActive={false}
+              />
+            ) : null}
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+    </div>
+  );
+};
+
+export default ForcingPanel;
@@ -0,0 +1,104 @@
+import React from 'react';
+import { FaBroadcastTower, FaPlay, FaPause, FaStepForward, FaStop, FaPlus } from 'react-icons/fa';
+import { SimulationParameters, RunOptions } from '../types';
+import { useSimulationStore } from '../store/simulationStore';
+
+interface LiveSessionPanelProps {
+  parameters: SimulationParameters;
+  runOptions: RunOptions;
+}
+
+const STATUS_LABELS = {
+  idle: 'Ready',
+  running: 'Running',
+  paused: 'Paused',
+  finished: 'Finished',
+};
+
+const LiveSessionPanel: React.FC<LiveSessionPanelProps> = ({ parameters, runOptions }) => {
+  const { isConnected, session, createSession, controlSession, setSessionSpeed } = useSimulationStore();
+
+  const active = session !== null && session.status !== 'finished';
+  const buttonClass = 'flex items-center justify-center px-3 py-2 rounded-lg bg-gray-100 hover:bg-gray-200 ' +
+    'text-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <h2 className="text-lg font-semibold text-gray-800 mb-4 flex items-center space-x-2">
+        <FaBroadcastTower className="text-gray-500" />
+        <span>Live Run</span>
+      </h2>
+
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={() => createSession(parameters, runOptions)}
+          disabled={!isConnected || active}
+          title="Create a live session from the current parameters"
+          className={buttonClass}
+        >
+          <FaPlus />
+        </button>
+        {session?.status === 'running' ? (
+          <button onClick={() => controlSession('pause')} title="Pause" className={buttonClass}>
+            <FaPause />
+          </button>
+        ) : (
+          <button
+            onClick={() => controlSession(session?.status === 'paused' ? 'resume' : 'start')}
+            disabled={!active}
+            title={session?.status === 'paused' ? 'Resume' : 'Start'}
+            className={buttonClass}
+          >
+            <FaPlay />
+          </button>
+        )}
+        <button
+          onClick={() => controlSession('step')}
+          disabled={!active || session?.status === 'running'}
+          title="Advance one step"
+          className={buttonClass}
+        >
+          <FaStepForward />
+        </button>
+        <button
+          onClick={() => controlSession('stop')}
+          disabled={!active}
+          title="End the run and keep its results"
+          className={buttonClass}
+        >
+          <FaStop />
+        </button>
+
+        {session && (
+          <span className="text-sm text-gray-600 ml-2">
+            {STATUS_LABELS[session.status]} · t = {session.time.toFixed(1)}
+          </span>
+        )}
+      </div>
+
+      {active && (
+        <div className="mt-4">
+          <div className="flex items-center justify-between mb-1">
+            <label className="text-sm font-medium text-gray-700">Speed</label>
+            <span className="text-sm font-mono text-gray-600">{session.speed} steps/update</span>
+          </div>
+          <input
+            type="range"
+            min={1}
+            max={200}
+            step={1}
+            value={session.speed}
+            onChange={(e) => setSessionSpeed(Number(e.target.value))}
+            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+          />
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500 mt-4">
+        Parameter edits reach a live run at its next step. Species and events stay as the run began.
+      </p>
+    </div>
+  );
+};
+
+export default LiveSessionPanel;
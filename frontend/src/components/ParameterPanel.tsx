@@ -1,7 +1,20 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { FaPlay, FaRedo, FaSave, FaQuestionCircle } from 'react-icons/fa';
-import { SimulationParameters } from '../types';
+import { FaPlay, FaRedo, FaSave, FaQuestionCircle, FaLayerGroup } from 'react-icons/fa';
+import {
+  SimulationParameters,
+  InteractionModelDefinition,
+  InteractionModelType,
+  SolverDefinition,
+  SolverMethod,
+  RunOptions,
+  SimulationMode,
+  StochasticMethod,
+  SpatialOptions,
+  BoundaryCondition,
+  InitialPattern,
+  AgentOptions,
+} from '../types';
 import { simulationApi } from '../services/api';
 import toast from 'react-hot-toast';
 
@@ -9,21 +22,53 @@ interface ParameterPanelProps {
   parameters: SimulationParameters;
   onChange: (params: Partial<SimulationParameters>) => void;
   onRun: () => void;
+  onRunEnsemble?: () => void;
   isSimulating: boolean;
+  runOptions: RunOptions;
+  onRunOptionsChange: (options: RunOptions) => void;
 }
 
+const TOLERANCE_OPTIONS = [1e-3, 1e-4, 1e-6, 1e-8];
+
+const STOCHASTIC_METHODS: { id: StochasticMethod; name: string }[] = [
+  { id: 'auto', name: 'Automatic (exact when populations are small)' },
+  { id: 'ssa', name: 'Exact Gillespie algorithm' },
+  { id: 'tauLeap', name: 'Tau-leaping' },
+];
+
+const GRID_SIZES = [20, 40, 60, 80];
+
+const BOUNDARY_CONDITIONS: { id: BoundaryCondition; name: string }[] = [
+  { id: 'periodic', name: 'Periodic (wrap around)' },
+  { id: 'reflecting', name: 'Reflecting (closed edges)' },
+  { id: 'absorbing', name: 'Absorbing (lethal edges)' },
+];
+
+const INITIAL_PATTERNS: { id: InitialPattern; name: string }[] = [
+  { id: 'spot', name: 'Predators released at the centre' },
+  { id: 'uniform', name: 'Uniform with small noise' },
+  { id: 'random', name: 'Random densities' },
+];
+
 const ParameterPanel: React.FC<ParameterPanelProps> = ({
   parameters,
   onChange,
   onRun,
+  onRunEnsemble,
   isSimulating,
+  runOptions,
+  onRunOptionsChange,
 }) => {
   const [showHelp, setShowHelp] = useState<string | null>(null);
   const [presets, setPresets] = useState<any[]>([]);
   const [showPresets, setShowPresets] = useState(false);
+  const [models, setModels] = useState<InteractionModelDefinition[]>([]);
+  const [solvers, setSolvers] = useState<SolverDefinition[]>([]);
 
   React.useEffect(() => {
     loadPresets();
+    loadModels();
+    loadSolvers();
   }, []);
 
   const loadPresets = async () => {
@@ -35,8 +80,27 @@ const ParameterPanel: React.FC<ParameterPanelProps> = ({
     }
   };
 
+  const loadModels = async () => {
+    try {
+      const data = await simulationApi.getModels();
+      setModels(data);
+    } catch (error) {
+      console.error('Failed to load interaction models:', error);
+    }
+  };
+
+  const loadSolvers = async () => {
+    try {
+      const data = await simulationApi.getSolvers();
+      setSolvers(data);
+    } catch (error) {
+      console.error('Failed to load solvers:', error);
+    }
+  };
+
   const handlePresetSelect = (preset: any) => {
-    onChange(preset.parameters);
+    // Presets without a food web go back to the two-species model
+    onChange({ foodWeb: undefined, ...preset.parameters });
     toast.success(`Loaded preset: ${preset.name}`);
     setShowPresets(false);
   };
@@ -108,6 +172,15 @@ const ParameterPanel: React.FC<ParameterPanelProps> = ({
           value: parameters.predator.deathRate,
           help: 'Natural death rate of predators',
         },
+        {
+          key: 'predator.conversionEfficiency',
+          label: 'Conversion Efficiency',
+          min: 0,
+          max: 1,
+          step: 0.05,
+          value: parameters.predator.conversionEfficiency ?? 0.5,
+          help: 'Fraction of consumed prey converted into new predators',
+        },
       ],
     },
     {
@@ -149,6 +222,71 @@ const ParameterPanel: React.FC<ParameterPanelProps> = ({
     onChange(newParams);
   };
 
+  const handleSpeciesPopulationChange = (index: number, value: number) => {
+    if (!parameters.foodWeb) return;
+
+    const species = parameters.foodWeb.species.map((s, i) =>
+      i === index ? { ...s, initialPopulation: value } : s
+    );
+    onChange({ foodWeb: { ...parameters.foodWeb, species } });
+  };
+
+  // Prey and predator sliders do not apply while a food web is active
+  const visibleGroups = parameters.foodWeb
+    ? parameterGroups.filter(group => group.title === 'Environment')
+    : parameterGroups;
+
+  const modelType: InteractionModelType = parameters.model?.type ?? 'holling1';
+  const selectedModel = models.find(model => model.id === modelType);
+
+  const handleModelSelect = (type: InteractionModelType) => {
+    const definition = models.find(model => model.id === type);
+    const defaults = Object.fromEntries(
+      (definition?.parameters ?? []).map(param => [param.key, param.default])
+    );
+    onChange({ model: { type, parameters: defaults } });
+  };
+
+  const solver = runOptions.solver ?? { method: 'rk4' };
+  const selectedSolver = solvers.find(definition => definition.id === solver.method);
+  const isStochastic = runOptions.mode === 'stochastic';
+  const isSpatial = runOptions.mode === 'spatial';
+  const spatial = runOptions.spatial ?? {};
+  const isAgent = runOptions.mode === 'agent';
+  const agent = runOptions.agent ?? {};
+  const hasStages = parameters.foodWeb
+    ? parameters.foodWeb.species.some(s => s.stages)
+    : Boolean(parameters.prey.stages || parameters.predator.stages);
+
+  const handleSpatialChange = (changes: SpatialOptions) => {
+    onRunOptionsChange({ ...runOptions, spatial: { ...spatial, ...changes } });
+  };
+
+  const handleAgentChange = (changes: AgentOptions) => {
+    onRunOptionsChange({ ...runOptions, agent: { ...agent, ...changes } });
+  };
+
+  const handleToleranceChange = (tolerance: number) => {
+    onRunOptionsChange({
+      ...runOptions,
+      solver: { ...solver, absoluteTolerance: tolerance, relativeTolerance: tolerance },
+    });
+  };
+
+  const handleSeedChange = (value: string) => {
+    const seed = parseInt(value, 10);
+    onRunOptionsChange({ ...runOptions, seed: Number.isNaN(seed) ? undefined : seed });
+  };
+
+  const handleModelParameterChange = (key: string, value: number) => {
+    onChange({
+      model: {
+        type: modelType,
+        parameters: { ...parameters.model?.parameters, [key]: value },
+      },
+    });
+  };
+
   return (
     <div className="space-y-4">
       {/* Header */}
@@ -184,8 +322,52 @@ const ParameterPanel: React.FC<ParameterPanelProps> = ({
           )}
         </div>
 
+        {/* Food Web Species */}
+        {parameters.foodWeb && (
+          <div className="mb-6">
+            <div className="flex items-center justify-between mb-3">
+              <div className="flex items-center space-x-2">
+                <span className="text-2xl">🕸️</span>
+                <h3 className="font-semibold text-orange-600">
+                  Food Web ({parameters.foodWeb.species.length} species)
+                </h3>
+              </div>
+              <button
+                onClick={() => onChange({ foodWeb: undefined })}
+                className="text-xs text-gray-500 hover:text-gray-700 underline"
+              >
+                Use prey/predator
+              </button>
+            </div>
+
+            <div className="space-y-3">
+              {parameters.foodWeb.species.map((species, index) => (
+                <div key={species.id}>
+                  <div className="flex items-center justify-between mb-1">
+                    <label className="text-sm font-medium text-gray-700">
+                      {species.name ?? species.id}
+                    </label>
+                    <span className="text-sm font-mono text-gray-600">
+                      {species.initialPopulation.toFixed(0)}
+                    </span>
+                  </div>
+                  <input
+                    type="range"
+                    min={0}
+                    max={10000}
+                    step={10}
+                    value={species.initialPopulation}
+                    onChange={(e) => handleSpeciesPopulationChange(index, parseFloat(e.target.value))}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider-orange"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Parameter Groups */}
-        {parameterGroups.map((group, groupIdx) => (
+        {visibleGroups.map((group, groupIdx) => (
           <motion.div
             key={group.title}
             initial={{ opacity: 0, x: -20 }}
@@ -269,6 +451,331 @@ const ParameterPanel: React.FC<ParameterPanelProps> = ({
           </motion.div>
         ))}
 
+        {/* Interaction Model */}
+        <div className="mb-6">
+          <div className="flex items-center space-x-2 mb-3">
+            <span className="text-2xl">🎯</span>
+            <h3 className="font-semibold text-purple-600">Interaction Model</h3>
+          </div>
+
+          <select
+            value={modelType}
+            onChange={(e) => handleModelSelect(e.target.value as InteractionModelType)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+          >
+            {models.map(model => (
+              <option key={model.id} value={model.id}>
+                {model.name}
+              </option>
+            ))}
+          </select>
+
+          {selectedModel && (
+            <p className="text-xs text-gray-500 mt-1">{selectedModel.description}</p>
+          )}
+
+          <div className="space-y-3 mt-3">
+            {selectedModel?.parameters.map((param) => {
+              const value = parameters.model?.parameters?.[param.key] ?? param.default;
+              const helpKey = `model.${param.key}`;
+
+              return (
+                <div key={param.key} className="relative">
+                  <div className="flex items-center justify-between mb-1">
+                    <label className="text-sm font-medium text-gray-700">
+                      {param.label}
+                    </label>
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm font-mono text-gray-600">
+                        {value.toFixed(param.step < 0.01 ? 3 : 2)}
+                      </span>
+                      <button
+                        onMouseEnter={() => setShowHelp(helpKey)}
+                        onMouseLeave={() => setShowHelp(null)}
+                        className="text-gray-400 hover:text-gray-600"
+                      >
+                        <FaQuestionCircle size={14} />
+                      </button>
+                    </div>
+                  </div>
+
+                  <input
+                    type="range"
+                    min={param.min}
+                    max={param.max}
+                    step={param.step}
+                    value={value}
+                    onChange={(e) => handleModelParameterChange(param.key, parseFloat(e.target.value))}
+                    className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider-purple"
+                  />
+
+                  {showHelp === helpKey && (
+                    <motion.div
+                      initial={{ opacity: 0, y: -5 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      className="absolute z-10 top-0 right-0 transform translate-x-2 -translate-y-full
+                        bg-gray-800 text-white text-xs rounded-lg p-2 max-w-xs"
+                    >
+                      {param.help}
+                    </motion.div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Simulation Engine */}
+        <div className="mb-6">
+          <div className="flex items-center space-x-2 mb-3">
+            <span className="text-2xl">🧮</span>
+            <h3 className="font-semibold text-gray-600">Simulation Engine</h3>
+          </div>
+
+          <div className="flex bg-gray-100 rounded-lg p-1 mb-3">
+            {(['deterministic', 'stochastic', 'spatial', 'agent'] as SimulationMode[]).map(mode => (
+              <button
+                key={mode}
+                onClick={() => onRunOptionsChange({ ...runOptions, mode })}
+                // The grid and the agents only model the prey/predator pair,
+                // and only the ODE model has stage structure
+                disabled={((mode === 'spatial' || mode === 'agent') && !!parameters.foodWeb) ||
+                  (mode !== 'deterministic' && hasStages)}
+                className={`flex-1 px-3 py-1 rounded text-sm capitalize disabled:opacity-40 ${
+                  (runOptions.mode ?? 'deterministic') === mode
+                    ? 'bg-white shadow-sm text-blue-600'
+                    : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {mode}
+              </button>
+            ))}
+          </div>
+
+          {isStochastic ? (
+            <div className="space-y-3">
+              <select
+                value={runOptions.stochastic?.method ?? 'auto'}
+                onChange={(e) => onRunOptionsChange({
+                  ...runOptions,
+                  stochastic: { ...runOptions.stochastic, method: e.target.value as StochasticMethod },
+                })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-gray-500"
+              >
+                {STOCHASTIC_METHODS.map(method => (
+                  <option key={method.id} value={method.id}>
+                    {method.name}
+                  </option>
+                ))}
+              </select>
+
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium text-gray-700">Random Seed</label>
+                <input
+                  type="number"
+                  value={runOptions.seed ?? ''}
+                  onChange={(e) => handleSeedChange(e.target.value)}
+                  placeholder="random"
+                  className="w-32 px-2 py-1 border border-gray-300 rounded-lg text-sm font-mono"
+                />
+              </div>
+            </div>
+          ) : isSpatial ? (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-2">
+                <label className="text-xs text-gray-600">
+                  Grid size
+                  <select
+                    value={spatial.width ?? 40}
+                    onChange={(e) => {
+                      const size = Number(e.target.value);
+                      handleSpatialChange({ width: size, height: size });
+                    }}
+                    className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                  >
+                    {GRID_SIZES.map(size => (
+                      <option key={size} value={size}>{size} × {size}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-xs text-gray-600">
+                  Edges
+                  <select
+                    value={spatial.boundary ?? 'periodic'}
+                    onChange={(e) => handleSpatialChange({ boundary: e.target.value as BoundaryCondition })}
+                    className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                  >
+                    {BOUNDARY_CONDITIONS.map(boundary => (
+                      <option key={boundary.id} value={boundary.id}>{boundary.name}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-xs text-gray-600">
+                  Prey diffusion
+                  <input
+                    type="number"
+                    min={0}
+                    max={5}
+                    step={0.05}
+                    value={spatial.preyDiffusion ?? 0.2}
+                    onChange={(e) => handleSpatialChange({ preyDiffusion: parseFloat(e.target.value) || 0 })}
+                    className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                  />
+                </label>
+                <label className="text-xs text-gray-600">
+                  Predator diffusion
+                  <input
+                    type="number"
+                    min={0}
+                    max={5}
+                    step={0.05}
+                    value={spatial.predatorDiffusion ?? 0.1}
+                    onChange={(e) => handleSpatialChange({ predatorDiffusion: parseFloat(e.target.value) || 0 })}
+                    className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                  />
+                </label>
+              </div>
+
+              <select
+                value={spatial.initial ?? 'spot'}
+                onChange={(e) => handleSpatialChange({ initial: e.target.value as InitialPattern })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-gray-500"
+              >
+                {INITIAL_PATTERNS.map(pattern => (
+                  <option key={pattern.id} value={pattern.id}>{pattern.name}</option>
+                ))}
+              </select>
+
+              <p className="text-xs text-gray-500">
+                The run streams the grid to the ecosystem view as it goes.
+              </p>
+            </div>
+          ) : isAgent ? (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-2">
+                <label className="text-xs text-gray-600">
+                  World size
+                  <input
+                    type="number"
+                    min={10}
+                    step={10}
+                    value={agent.size ?? 100}
+                    onChange={(e) => handleAgentChange({ size: parseFloat(e.target.value) || 100 })}
+                    className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                  />
+                </label>
+                <label className="text-xs text-gray-600">
+                  Hunt radius
+                  <input
+                    type="number"
+                    min={0.5}
+                    step={0.5}
+                    value={agent.huntRadius ?? 2}
+                    onChange={(e) => handleAgentChange({ huntRadius: parseFloat(e.target.value) || 2 })}
+                    className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                  />
+                </label>
+                <label className="text-xs text-gray-600">
+                  Prey speed
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={agent.preySpeed ?? 1}
+                    onChange={(e) => handleAgentChange({ preySpeed: parseFloat(e.target.value) || 0 })}
+                    className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                  />
+                </label>
+                <label className="text-xs text-gray-600">
+                  Predator speed
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={agent.predatorSpeed ?? 2}
+                    onChange={(e) => handleAgentChange({ predatorSpeed: parseFloat(e.target.value) || 0 })}
+                    className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                  />
+                </label>
+                <label className="text-xs text-gray-600" title="Time a predator survives without a catch">
+                  Starvation time
+                  <input
+                    type="number"
+                    min={1}
+                    value={agent.starvationTime ?? 10}
+                    onChange={(e) => handleAgentChange({ starvationTime: parseFloat(e.target.value) || 10 })}
+                    className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                  />
+                </label>
+                <label className="text-xs text-gray-600" title="Individuals represented by every agent">
+                  Individuals per agent
+                  <input
+                    type="number"
+                    min={1}
+                    value={agent.scale ?? 1}
+                    onChange={(e) => handleAgentChange({ scale: parseFloat(e.target.value) || 1 })}
+                    className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                  />
+                </label>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium text-gray-700">Random Seed</label>
+                <input
+                  type="number"
+                  value={runOptions.seed ?? ''}
+                  onChange={(e) => handleSeedChange(e.target.value)}
+                  placeholder="random"
+                  className="w-32 px-2 py-1 border border-gray-300 rounded-lg text-sm font-mono"
+                />
+              </div>
+
+              <p className="text-xs text-gray-500">
+                The run streams the agents to the ecosystem view, and the chart compares their
+                counts with the ODE model.
+              </p>
+            </div>
+          ) : (
+            <>
+              <select
+                value={solver.method}
+                onChange={(e) => onRunOptionsChange({
+                  ...runOptions,
+                  solver: { method: e.target.value as SolverMethod },
+                })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-gray-500"
+              >
+                {solvers.map(definition => (
+                  <option key={definition.id} value={definition.id}>
+                    {definition.name}
+                  </option>
+                ))}
+              </select>
+
+              {selectedSolver && (
+                <p className="text-xs text-gray-500 mt-1">{selectedSolver.description}</p>
+              )}
+
+              {selectedSolver?.adaptive && (
+                <div className="flex items-center justify-between mt-3">
+                  <label className="text-sm font-medium text-gray-700">Error Tolerance</label>
+                  <select
+                    value={solver.relativeTolerance ?? 1e-6}
+                    onChange={(e) => handleToleranceChange(parseFloat(e.target.value))}
+                    className="px-2 py-1 border border-gray-300 rounded-lg text-sm font-mono"
+                  >
+                    {TOLERANCE_OPTIONS.map(tolerance => (
+                      <option key={tolerance} value={tolerance}>
+                        {tolerance.toExponential(0)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
         {/* Action Buttons */}
         <div className="flex space-x-3 pt-4 border-t">
           <button
@@ -283,6 +790,17 @@ const ParameterPanel: React.FC<ParameterPanelProps> = ({
             <FaPlay />
             <span>{isSimulating ? 'Simulating...' : 'Run Simulation'}</span>
           </button>
+
+          {onRunEnsemble && (
+            <button
+              onClick={onRunEnsemble}
+              disabled={isSimulating}
+              title="Run a Monte Carlo ensemble"
+              className="px-4 py-3 bg-gray-100 hover:bg-gray-200 rounded-lg font-medium text-gray-700 transition-colors disabled:opacity-50"
+            >
+              <FaLayerGroup />
+            </button>
+          )}
           
           <button
             onClick={() => onChange(parameters)}
@@ -320,6 +838,24 @@ const ParameterPanel: React.FC<ParameterPanelProps> = ({
           border-radius: 50%;
           cursor: pointer;
         }
+        
+        input[type="range"].slider-orange::-webkit-slider-thumb {
+          appearance: none;
+          width: 16px;
+          height: 16px;
+          background: #f97316;
+          border-radius: 50%;
+          cursor: pointer;
+        }
+        
+        input[type="range"].slider-purple::-webkit-slider-thumb {
+          appearance: none;
+          width: 16px;
+          height: 16px;
+          background: #a855f7;
+          border-radius: 50%;
+          cursor: pointer;
+        }
       `}</style>
     </div>
   );
@@ -0,0 +1,282 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import toast from 'react-hot-toast';
+import {
+  SimulationParameters,
+  SimulationResults,
+  RunOptions,
+  PhasePlane,
+  PhasePlaneBounds,
+  PhasePoint,
+} from '../types';
+import { simulationApi } from '../services/api';
+
+interface PhasePortraitProps {
+  parameters: SimulationParameters;
+  runOptions: RunOptions;
+  results: SimulationResults | null;
+}
+
+const WIDTH = 600;
+const HEIGHT = 400;
+const MARGIN = { top: 10, right: 15, bottom: 35, left: 55 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom;
+const RESOLUTION = 15;
+const MAX_LAUNCHED = 5;
+const TICKS = [0, 0.25, 0.5, 0.75, 1];
+
+interface LaunchedTrajectory {
+  id: number;
+  points: PhasePoint[];
+}
+
+const polylinePoints = (points: PhasePoint[], toScreen: (p: PhasePoint) => [number, number]) =>
+  points.map(point => toScreen(point).join(',')).join(' ');
+
+const PhasePortrait: React.FC<PhasePortraitProps> = ({ parameters, runOptions, results }) => {
+  const [plane, setPlane] = useState<PhasePlane | null>(null);
+  const [launched, setLaunched] = useState<LaunchedTrajectory[]>([]);
+  const [isLaunching, setIsLaunching] = useState(false);
+
+  // Widen the window to the simulated trajectory so cycles stay in view
+  const requestedBounds = useMemo<PhasePlaneBounds | undefined>(() => {
+    if (!results) return undefined;
+    return {
+      preyMax: Math.max(results.summary.maxPrey, parameters.prey.carryingCapacity) * 1.1,
+      predatorMax: Math.max(results.summary.maxPredator, parameters.predator.initialPopulation) * 1.1,
+    };
+  }, [results, parameters.prey.carryingCapacity, parameters.predator.initialPopulation]);
+
+  useEffect(() => {
+    if (parameters.foodWeb) return;
+
+    // Wait for slider movements to settle before recomputing
+    const timeout = setTimeout(() => {
+      simulationApi.getPhaseSpace(parameters, RESOLUTION, requestedBounds)
+        .then(setPlane)
+        .catch(error => console.error('Phase plane failed:', error));
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [parameters, requestedBounds]);
+
+  // Launched trajectories belong to the parameters they were run with
+  useEffect(() => {
+    setLaunched([]);
+  }, [parameters]);
+
+  if (parameters.foodWeb) {
+    return (
+      <p className="text-sm text-gray-600">
+        The phase portrait is available for two-species prey/predator parameters.
+      </p>
+    );
+  }
+
+  if (!plane) {
+    return <div className="h-64 flex items-center justify-center text-gray-400">Loading phase plane...</div>;
+  }
+
+  const { preyMax, predatorMax } = plane.bounds;
+  const toScreen = ({ x, y }: PhasePoint): [number, number] => [
+    MARGIN.left + (x / preyMax) * PLOT_WIDTH,
+    MARGIN.top + PLOT_HEIGHT - (y / predatorMax) * PLOT_HEIGHT,
+  ];
+
+  // Arrows show direction only; opacity grows with the logarithm of the speed
+  const arrowLength = Math.min(PLOT_WIDTH, PLOT_HEIGHT) / plane.resolution * 0.7;
+  const speeds = plane.phaseSpace.map(v => Math.hypot(v.dx / preyMax, v.dy / predatorMax));
+  const maxLogSpeed = Math.log1p(Math.max(...speeds) * 1000) || 1;
+
+  const launchTrajectory = async (event: React.MouseEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - rect.left) / rect.width) * WIDTH - MARGIN.left;
+    const y = MARGIN.top + PLOT_HEIGHT - ((event.clientY - rect.top) / rect.height) * HEIGHT;
+    if (x < 0 || x > PLOT_WIDTH || y < 0 || y > PLOT_HEIGHT || isLaunching) return;
+
+    const prey = Math.round((x / PLOT_WIDTH) * preyMax);
+    const predator = Math.round((y / PLOT_HEIGHT) * predatorMax);
+
+    setIsLaunching(true);
+    try {
+      const response = await simulationApi.runSimulation({
+        ...parameters,
+        prey: { ...parameters.prey, initialPopulation: prey },
+        predator: { ...parameters.predator, initialPopulation: predator },
+      }, runOptions);
+      const points = (response.results as SimulationResults).timeSteps.map(step => ({
+        x: step.preyPopulation,
+        y: step.predatorPopulation,
+      }));
+      setLaunched(previous => [...previous, { id: Date.now(), points }].slice(-MAX_LAUNCHED));
+    } catch (error) {
+      toast.error('Could not launch trajectory');
+    } finally {
+      setIsLaunching(false);
+    }
+  };
+
+  const simulated = results?.timeSteps.map(step => ({ x: step.preyPopulation, y: step.predatorPopulation }));
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className={`w-full ${isLaunching ? 'cursor-wait' : 'cursor-crosshair'}`}
+        onClick={launchTrajectory}
+      >
+        <defs>
+          <clipPath id="phase-plot-area">
+            <rect x={MARGIN.left} y={MARGIN.top} width={PLOT_WIDTH} height={PLOT_HEIGHT} />
+          </clipPath>
+          <marker id="phase-arrow" viewBox="0 0 6 6" refX="5" refY="3" markerWidth="4" markerHeight="4" orient="auto">
+            <path d="M0,0 L6,3 L0,6 z" fill="#6b7280" />
+          </marker>
+        </defs>
+
+        {/* Axes */}
+        <rect x={MARGIN.left} y={MARGIN.top} width={PLOT_WIDTH} height={PLOT_HEIGHT} fill="#f9fafb" stroke="#e5e7eb" />
+        {TICKS.map(tick => (
+          <g key={tick} className="text-gray-500" fontSize="10" fill="currentColor">
+            <text x={MARGIN.left + tick * PLOT_WIDTH} y={HEIGHT - MARGIN.bottom + 14} textAnchor="middle">
+              {Math.round(tick * preyMax).toLocaleString()}
+            </text>
+            <text x={MARGIN.left - 6} y={MARGIN.top + PLOT_HEIGHT - tick * PLOT_HEIGHT + 3} textAnchor="end">
+              {Math.round(tick * predatorMax).toLocaleString()}
+            </text>
+          </g>
+        ))}
+        <text x={MARGIN.left + PLOT_WIDTH / 2} y={HEIGHT - 4} textAnchor="middle" fontSize="11" fill="#374151">
+          Prey
+        </text>
+        <text
+          x={14}
+          y={MARGIN.top + PLOT_HEIGHT / 2}
+          textAnchor="middle"
+          fontSize="11"
+          fill="#374151"
+          transform={`rotate(-90 14 ${MARGIN.top + PLOT_HEIGHT / 2})`}
+        >
+          Predator
+        </text>
+
+        <g clipPath="url(#phase-plot-area)">
+          {/* Vector field */}
+          {plane.phaseSpace.map((vector, index) => {
+            const [sx, sy] = toScreen(vector);
+            const dx = vector.dx / preyMax;
+            const dy = -vector.dy / predatorMax;
+            const norm = Math.hypot(dx, dy);
+            if (norm === 0) return null;
+
+            return (
+              <line
+                key={index}
+                x1={sx - (dx / norm) * arrowLength / 2}
+                y1={sy - (dy / norm) * arrowLength / 2}
+                x2={sx + (dx / norm) * arrowLength / 2}
+                y2={sy + (dy / norm) * arrowLength / 2}
+                stroke="#6b7280"
+                strokeWidth={1}
+                strokeOpacity={0.25 + 0.75 * Math.log1p(speeds[index] * 1000) / maxLogSpeed}
+                markerEnd="url(#phase-arrow)"
+              />
+            );
+          })}
+
+          {/* Nullclines */}
+          {plane.nullclines.prey.map((line, index) => (
+            <polyline
+              key={`prey-${index}`}
+              points={polylinePoints(line, toScreen)}
+              fill="none"
+              stroke="#3b82f6"
+              strokeWidth={2}
+              strokeDasharray="6 4"
+            />
+          ))}
+          {plane.nullclines.predator.map((line, index) => (
+            <polyline
+              key={`predator-${index}`}
+              points={polylinePoints(line, toScreen)}
+              fill="none"
+              stroke="#ef4444"
+              strokeWidth={2}
+              strokeDasharray="6 4"
+            />
+          ))}
+
+          {/* Trajectories */}
+          {simulated && (
+            <polyline points={polylinePoints(simulated, toScreen)} fill="none" stroke="#1f2937" strokeWidth={1.5} />
+          )}
+          {launched.map(trajectory => (
+            <g key={trajectory.id}>
+              <polyline
+                points={polylinePoints(trajectory.points, toScreen)}
+                fill="none"
+                stroke="#a855f7"
+                strokeWidth={1.5}
+              />
+              <circle cx={toScreen(trajectory.points[0])[0]} cy={toScreen(trajectory.points[0])[1]} r={3} fill="#a855f7" />
+            </g>
+          ))}
+
+          {/* Fixed points: filled when stable */}
+          {plane.fixedPoints.map(point => {
+            const [cx, cy] = toScreen({ x: point.prey, y: point.predator });
+            return (
+              <circle
+                key={`${point.type}-${point.prey}`}
+                cx={cx}
+                cy={cy}
+                r={6}
+                fill={point.stable ? '#22c55e' : '#ffffff'}
+                stroke={point.stable ? '#15803d' : '#1f2937'}
+                strokeWidth={2}
+              >
+                <title>
+                  {`${point.type}: ${point.classification} (${Math.round(point.prey)}, ${Math.round(point.predator)})`}
+                </title>
+              </circle>
+            );
+          })}
+        </g>
+      </svg>
+
+      <div className="flex flex-wrap items-center justify-between gap-3 mt-2 text-xs text-gray-600">
+        <div className="flex flex-wrap items-center gap-4">
+          <span className="flex items-center space-x-1">
+            <span className="w-4 border-t-2 border-dashed border-blue-500 inline-block" />
+            <span>Prey nullcline</span>
+          </span>
+          <span className="flex items-center space-x-1">
+            <span className="w-4 border-t-2 border-dashed border-red-500 inline-block" />
+            <span>Predator nullcline</span>
+          </span>
+          <span className="flex items-center space-x-1">
+            <span className="w-4 border-t-2 border-gray-800 inline-block" />
+            <span>Simulated</span>
+          </span>
+          <span className="flex items-center space-x-1">
+            <span className="w-3 h-3 rounded-full bg-green-500 inline-block" />
+            <span>Stable</span>
+          </span>
+          <span className="flex items-center space-x-1">
+            <span className="w-3 h-3 rounded-full border-2 border-gray-800 inline-block" />
+            <span>Unstable fixed point</span>
+          </span>
+        </div>
+        {launched.length > 0 ? (
+          <button onClick={() => setLaunched([])} className="text-purple-600 hover:text-purple-800">
+            Clear launched trajectories
+          </button>
+        ) : (
+          <span>Click the plane to launch a trajectory</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PhasePortrait;
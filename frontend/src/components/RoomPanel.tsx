@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { FaUsers, FaLock, FaLockOpen, FaSignOutAlt } from 'react-icons/fa';
+import { SimulationParameters, RunOptions, RoomRole } from '../types';
+import { useSimulationStore } from '../store/simulationStore';
+
+interface RoomPanelProps {
+  parameters: SimulationParameters;
+  runOptions: RunOptions;
+}
+
+const ROLE_LABELS: Record<RoomRole, string> = {
+  facilitator: 'Facilitator',
+  participant: 'Participant',
+  viewer: 'Viewer',
+};
+
+const RoomPanel: React.FC<RoomPanelProps> = ({ parameters, runOptions }) => {
+  const {
+    isConnected,
+    room,
+    createRoom,
+    joinRoom,
+    leaveRoom,
+    closeRoom,
+    setEditLock,
+    setMemberRole,
+  } = useSimulationStore();
+  const [displayName, setDisplayName] = useState('');
+  const [roomName, setRoomName] = useState('');
+  const [code, setCode] = useState('');
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm';
+  const buttonClass = 'px-3 py-2 rounded-lg bg-gray-100 hover:bg-gray-200 text-sm font-medium text-gray-700 ' +
+    'transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+  if (!room) {
+    return (
+      <div className="bg-white rounded-xl shadow-lg p-6">
+        <h2 className="text-lg font-semibold text-gray-800 mb-4 flex items-center space-x-2">
+          <FaUsers className="text-gray-500" />
+          <span>Shared Room</span>
+        </h2>
+
+        <div className="space-y-3">
+          <input
+            type="text"
+            placeholder="Your name"
+            maxLength={60}
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            className={inputClass}
+          />
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              placeholder="Room name"
+              maxLength={60}
+              value={roomName}
+              onChange={(e) => setRoomName(e.target.value)}
+              className={inputClass}
+            />
+            <button
+              onClick={() => createRoom(roomName, displayName, parameters, runOptions)}
+              disabled={!isConnected}
+              className={`${buttonClass} whitespace-nowrap`}
+            >
+              Open room
+            </button>
+          </div>
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              placeholder="Room code"
+              maxLength={6}
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase())}
+              className={`${inputClass} font-mono tracking-widest`}
+            />
+            <button
+              onClick={() => joinRoom(code.trim(), displayName)}
+              disabled={!isConnected || code.trim().length === 0}
+              className={buttonClass}
+            >
+              Join
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const { state, participantId } = room;
+  const me = state.members.find(m => m.id === participantId);
+  const isFacilitator = me?.role === 'facilitator';
+  const holdsLock = state.lock === participantId;
+  const editor = state.members.find(m => m.id === state.lock);
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <h2 className="text-lg font-semibold text-gray-800 mb-4 flex items-center space-x-2">
+        <FaUsers className="text-gray-500" />
+        <span>{state.name}</span>
+        <span className="ml-auto font-mono text-base tracking-widest text-blue-600" title="Room code">
+          {state.code}
+        </span>
+      </h2>
+
+      <ul className="space-y-2 mb-4">
+        {state.members.map(member => (
+          <li key={member.id} className="flex items-center space-x-2 text-sm">
+            <span
+              className={`w-2 h-2 rounded-full ${member.online ? 'bg-green-500' : 'bg-gray-300'}`}
+              title={member.online ? 'Online' : 'Offline'}
+            />
+            <span className={member.online ? 'text-gray-800' : 'text-gray-400'}>
+              {member.name}{member.id === participantId && ' (you)'}
+            </span>
+            {member.id === state.lock && <FaLock className="text-amber-500" title="Editing" />}
+            {isFacilitator && member.id !== participantId ? (
+              <select
+                value={member.role}
+                onChange={(e) => setMemberRole(member.id, e.target.value as RoomRole)}
+                className="ml-auto px-2 py-1 border border-gray-300 rounded text-xs"
+              >
+                {Object.entries(ROLE_LABELS).map(([role, label]) => (
+                  <option key={role} value={role}>{label}</option>
+                ))}
+              </select>
+            ) : (
+              <span className="ml-auto text-xs text-gray-500">{ROLE_LABELS[member.role]}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex flex-wrap gap-2">
+        {me?.role !== 'viewer' && (
+          <button onClick={() => setEditLock(!holdsLock)} className={`${buttonClass} flex items-center space-x-2`}>
+            {holdsLock ? <FaLockOpen /> : <FaLock />}
+            <span>{holdsLock ? 'Release edit lock' : 'Take edit lock'}</span>
+          </button>
+        )}
+        <button onClick={leaveRoom} className={`${buttonClass} flex items-center space-x-2`}>
+          <FaSignOutAlt />
+          <span>Leave</span>
+        </button>
+        {isFacilitator && (
+          <button onClick={closeRoom} className={`${buttonClass} text-red-600`}>
+            Close room
+          </button>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500 mt-4">
+        {holdsLock
+          ? 'Your edits are shared with everyone in the room.'
+          : `${editor ? `${editor.name} is editing.` : 'Nobody is editing.'} Parameters follow the room.`}
+      </p>
+    </div>
+  );
+};
+
+export default RoomPanel;
@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { FaFileExport, FaFileImport, FaTimes } from 'react-icons/fa';
+import { Scenario, BundleFormat, BundleImportReport, ImportConflictStrategy } from '../types';
+import { scenarioApi } from '../services/api';
+import { downloadFile } from '../utils/download';
+import toast from 'react-hot-toast';
+
+interface ScenarioBundleModalProps {
+  scenarios: Scenario[];
+  author: string;
+  onImported: () => void;
+  onClose: () => void;
+}
+
+const CONFLICT_LABELS: Record<ImportConflictStrategy, string> = {
+  skip: 'Skip them',
+  rename: 'Import as copies',
+  replace: 'Replace the stored ones',
+};
+
+const ACTION_CLASSES: Record<string, string> = {
+  created: 'text-green-600',
+  renamed: 'text-blue-600',
+  replaced: 'text-amber-600',
+  skipped: 'text-gray-500',
+  invalid: 'text-red-600',
+};
+
+const ScenarioBundleModal: React.FC<ScenarioBundleModalProps> = ({
+  scenarios,
+  author,
+  onImported,
+  onClose,
+}) => {
+  const [format, setFormat] = useState<BundleFormat>('json');
+  const [includeResults, setIncludeResults] = useState(false);
+  const [bundle, setBundle] = useState<{ name: string; text: string } | null>(null);
+  const [onConflict, setOnConflict] = useState<ImportConflictStrategy>('skip');
+  const [report, setReport] = useState<BundleImportReport | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    try {
+      const { content, filename } = await scenarioApi.exportScenarios(
+        scenarios.map(s => s._id),
+        { format, includeResults }
+      );
+      downloadFile(content, filename, format === 'yaml' ? 'application/yaml' : 'application/json');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error ?? 'Failed to export scenarios');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const chooseFile = (file: File | undefined) => {
+    setReport(null);
+    file?.text().then(text => setBundle({ name: file.name, text }));
+  };
+
+  const handleImport = async (dryRun: boolean) => {
+    if (!bundle) return;
+    setIsBusy(true);
+    try {
+      const result = await scenarioApi.importScenarios(bundle.text, { onConflict, dryRun, author });
+      setReport(result);
+      if (!dryRun) {
+        const imported = result.results.filter(r => r.action !== 'skipped').length;
+        toast.success(`Imported ${imported} of ${result.results.length} scenarios`);
+        onImported();
+      }
+    } catch (error: any) {
+      const data = error.response?.data;
+      if (data?.results) setReport(data);
+      toast.error(data?.error ?? 'Failed to import scenarios');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const selectClass = 'px-2 py-1 border border-gray-300 rounded text-sm';
+  const buttonClass = 'flex items-center justify-center space-x-2 px-4 py-2 rounded-lg transition-colors disabled:opacity-50';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="bg-white rounded-xl p-6 max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto space-y-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-bold text-gray-800">Import / Export</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close">
+            <FaTimes />
+          </button>
+        </div>
+
+        {/* Export */}
+        <div className="space-y-3">
+          <h4 className="font-medium text-gray-700">Export the {scenarios.length} listed scenarios</h4>
+          <div className="flex items-center space-x-4 text-sm text-gray-700">
+            <select value={format} onChange={(e) => setFormat(e.target.value as BundleFormat)} className={selectClass}>
+              <option value="json">JSON</option>
+              <option value="yaml">YAML</option>
+            </select>
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={includeResults}
+                onChange={(e) => setIncludeResults(e.target.checked)}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span>Include saved results</span>
+            </label>
+          </div>
+          <button
+            onClick={handleExport}
+            disabled={isBusy || scenarios.length === 0}
+            className={`${buttonClass} w-full bg-blue-500 text-white hover:bg-blue-600`}
+          >
+            <FaFileExport />
+            <span>Download bundle</span>
+          </button>
+        </div>
+
+        {/* Import */}
+        <div className="space-y-3 pt-4 border-t border-gray-200">
+          <h4 className="font-medium text-gray-700">Import a bundle</h4>
+          <input
+            type="file"
+            accept=".json,.yaml,.yml,application/json,application/yaml"
+            onChange={(e) => chooseFile(e.target.files?.[0])}
+            className="block w-full text-sm text-gray-600"
+          />
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <span>Scenarios that already exist:</span>
+            <select
+              value={onConflict}
+              onChange={(e) => {
+                setOnConflict(e.target.value as ImportConflictStrategy);
+                setReport(null);
+              }}
+              className={selectClass}
+            >
+              {Object.entries(CONFLICT_LABELS).map(([strategy, label]) => (
+                <option key={strategy} value={strategy}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <div className="flex space-x-3">
+            <button
+              onClick={() => handleImport(true)}
+              disabled={isBusy || !bundle}
+              className={`${buttonClass} flex-1 bg-gray-200 text-gray-700 hover:bg-gray-300`}
+            >
+              <span>Check</span>
+            </button>
+            <button
+              onClick={() => handleImport(false)}
+              disabled={isBusy || !bundle}
+              className={`${buttonClass} flex-1 bg-blue-500 text-white hover:bg-blue-600`}
+            >
+              <FaFileImport />
+              <span>Import</span>
+            </button>
+          </div>
+
+          {report && (
+            <div className="text-sm space-y-2">
+              <p className="text-gray-600">
+                {report.dryRun ? 'Would import' : 'Imported'} from {bundle?.name}
+                {report.migratedFrom < report.version && ` (migrated from version ${report.migratedFrom})`}
+              </p>
+              <ul className="space-y-1">
+                {report.results.map(result => (
+                  <li key={result.index} className="border border-gray-200 rounded p-2">
+                    <div className="flex justify-between">
+                      <span className="text-gray-800">{result.name ?? `Scenario ${result.index + 1}`}</span>
+                      <span className={`capitalize ${ACTION_CLASSES[result.action]}`}>{result.action}</span>
+                    </div>
+                    {result.conflict && (
+                      <p className="text-xs text-gray-500">
+                        {result.conflict.by === 'uid' ? 'Already stored as' : 'Same name as stored'} “{result.conflict.name}”
+                      </p>
+                    )}
+                    {result.fields && Object.entries(result.fields).map(([field, message]) => (
+                      <p key={field} className="text-xs text-red-600">
+                        <span className="font-mono">{field}</span> {message}
+                      </p>
+                    ))}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default ScenarioBundleModal;
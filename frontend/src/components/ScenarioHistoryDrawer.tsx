@@ -0,0 +1,292 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { FaHistory, FaTimes, FaUndo, FaSave } from 'react-icons/fa';
+import {
+  SimulationParameters,
+  Scenario,
+  ScenarioRevisionSummary,
+  ScenarioDiff,
+  RevisionChange,
+  OutcomeMetrics,
+} from '../types';
+import { scenarioApi } from '../services/api';
+import toast from 'react-hot-toast';
+
+interface ScenarioHistoryDrawerProps {
+  scenario: Scenario;
+  author: string;
+  currentParameters: SimulationParameters;
+  onLoadParameters: (params: SimulationParameters) => void;
+  onChanged: () => void;
+  onClose: () => void;
+}
+
+const OUTCOME_LABELS: Record<keyof OutcomeMetrics, string> = {
+  equilibriumReached: 'Equilibrium reached',
+  extinctionOccurred: 'Extinction',
+  duration: 'Duration',
+  finalPrey: 'Final prey',
+  finalPredator: 'Final predators',
+  peakPrey: 'Peak prey',
+  peakPredator: 'Peak predators',
+  meanPrey: 'Mean prey',
+  meanPredator: 'Mean predators',
+  equilibriumPrey: 'Equilibrium prey',
+  equilibriumPredator: 'Equilibrium predators',
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '—';
+  if (typeof value === 'number') return value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+  if (typeof value === 'string' || typeof value === 'boolean') return String(value);
+  return JSON.stringify(value);
+};
+
+const ChangeList: React.FC<{ changes: RevisionChange[] }> = ({ changes }) => (
+  <ul className="space-y-1 text-xs">
+    {changes.map(change => (
+      <li key={change.path} className="flex justify-between space-x-2">
+        <span className="font-mono text-gray-600 truncate" title={change.path}>{change.path}</span>
+        <span className="whitespace-nowrap">
+          {change.change === 'added' && <span className="text-green-600">+ {formatValue(change.to)}</span>}
+          {change.change === 'removed' && <span className="text-red-600 line-through">{formatValue(change.from)}</span>}
+          {change.change === 'changed' && (
+            <>
+              <span className="text-gray-400">{formatValue(change.from)}</span>
+              <span className="mx-1">→</span>
+              <span className="text-gray-800">{formatValue(change.to)}</span>
+            </>
+          )}
+        </span>
+      </li>
+    ))}
+  </ul>
+);
+
+const ScenarioHistoryDrawer: React.FC<ScenarioHistoryDrawerProps> = ({
+  scenario,
+  author,
+  currentParameters,
+  onLoadParameters,
+  onChanged,
+  onClose,
+}) => {
+  const [revisions, setRevisions] = useState<ScenarioRevisionSummary[]>([]);
+  const [current, setCurrent] = useState(1);
+  const [message, setMessage] = useState('');
+  const [compare, setCompare] = useState<{ from: number; to: number } | null>(null);
+  const [diff, setDiff] = useState<ScenarioDiff | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const loadRevisions = async () => {
+    try {
+      const data = await scenarioApi.getRevisions(scenario._id);
+      setRevisions(data.revisions);
+      setCurrent(data.current);
+      setCompare({ from: Math.max(1, data.current - 1), to: data.current });
+    } catch (error: any) {
+      toast.error(error.response?.data?.error ?? 'Failed to load history');
+    }
+  };
+
+  useEffect(() => {
+    loadRevisions();
+  }, [scenario._id]);
+
+  useEffect(() => {
+    if (!compare || compare.from === compare.to) {
+      setDiff(null);
+      return;
+    }
+    scenarioApi.diffRevisions(scenario._id, compare.from, compare.to)
+      .then(setDiff)
+      .catch((error: any) => toast.error(error.response?.data?.error ?? 'Failed to compare revisions'));
+  }, [scenario._id, compare?.from, compare?.to]);
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+      toast.success(success);
+      await loadRevisions();
+      onChanged();
+    } catch (error: any) {
+      toast.error(error.response?.data?.error ?? 'Failed to update scenario');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSaveRevision = () => run(async () => {
+    await scenarioApi.updateScenario(scenario._id, { parameters: currentParameters, author, message });
+    setMessage('');
+  }, 'Saved as a new revision');
+
+  const handleRestore = (revision: number) => run(
+    () => scenarioApi.restoreRevision(scenario._id, revision, { author }),
+    `Restored revision ${revision}`
+  );
+
+  const handleLoad = async (revision: number) => {
+    try {
+      const data = await scenarioApi.getRevision(scenario._id, revision);
+      onLoadParameters(data.snapshot.parameters);
+      toast.success(`Loaded revision ${revision}`);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error ?? 'Failed to load revision');
+    }
+  };
+
+  const outcomeChanges = diff?.outcome.changes
+    ? (Object.keys(diff.outcome.changes) as (keyof OutcomeMetrics)[])
+    : [];
+  const selectClass = 'px-2 py-1 border border-gray-300 rounded text-sm';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 z-50 flex justify-end"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ x: '100%' }}
+        animate={{ x: 0 }}
+        exit={{ x: '100%' }}
+        transition={{ type: 'tween', duration: 0.2 }}
+        className="bg-white h-full w-full max-w-md shadow-2xl overflow-y-auto p-6 space-y-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-bold text-gray-800 flex items-center space-x-2">
+            <FaHistory className="text-gray-500" />
+            <span>{scenario.name}</span>
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close">
+            <FaTimes />
+          </button>
+        </div>
+
+        {/* New revision */}
+        <div className="space-y-2">
+          <input
+            type="text"
+            placeholder="What changed?"
+            maxLength={500}
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <button
+            onClick={handleSaveRevision}
+            disabled={isBusy}
+            className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50"
+          >
+            <FaSave />
+            <span>Save current parameters as revision {current + 1}</span>
+          </button>
+        </div>
+
+        {/* Revisions */}
+        <ol className="space-y-2">
+          {revisions.map(revision => (
+            <li key={revision.number} className="border border-gray-200 rounded-lg p-3 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="font-semibold text-gray-800">
+                  #{revision.number}{revision.number === current && ' (current)'}
+                </span>
+                <span className="text-xs text-gray-500">{new Date(revision.createdAt).toLocaleString()}</span>
+              </div>
+              <p className="text-gray-600">{revision.message || <em className="text-gray-400">No message</em>}</p>
+              <div className="flex items-center justify-between mt-2">
+                <span className="text-xs text-gray-500">By {revision.author}</span>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => handleLoad(revision.number)}
+                    className="text-xs px-2 py-1 bg-blue-100 text-blue-600 rounded hover:bg-blue-200 transition-colors"
+                  >
+                    Load
+                  </button>
+                  {revision.number !== current && (
+                    <button
+                      onClick={() => handleRestore(revision.number)}
+                      disabled={isBusy}
+                      className="text-xs px-2 py-1 bg-gray-100 text-gray-600 rounded hover:bg-gray-200 transition-colors disabled:opacity-50"
+                    >
+                      <FaUndo className="inline mr-1" /> Restore
+                    </button>
+                  )}
+                </div>
+              </div>
+            </li>
+          ))}
+        </ol>
+
+        {/* Comparison */}
+        {compare && revisions.length > 1 && (
+          <div className="space-y-3">
+            <div className="flex items-center space-x-2 text-sm text-gray-700">
+              <span>Compare</span>
+              <select
+                value={compare.from}
+                onChange={(e) => setCompare({ ...compare, from: Number(e.target.value) })}
+                className={selectClass}
+              >
+                {revisions.map(r => <option key={r.number} value={r.number}>#{r.number}</option>)}
+              </select>
+              <span>with</span>
+              <select
+                value={compare.to}
+                onChange={(e) => setCompare({ ...compare, to: Number(e.target.value) })}
+                className={selectClass}
+              >
+                {revisions.map(r => <option key={r.number} value={r.number}>#{r.number}</option>)}
+              </select>
+            </div>
+
+            {diff && (
+              <>
+                <div>
+                  <h4 className="text-sm font-medium text-gray-700 mb-1">Parameters</h4>
+                  {diff.parameters.length + diff.fields.length === 0
+                    ? <p className="text-xs text-gray-500">No changes</p>
+                    : <ChangeList changes={[...diff.fields, ...diff.parameters]} />}
+                </div>
+                <div>
+                  <h4 className="text-sm font-medium text-gray-700 mb-1">Outcome</h4>
+                  {!diff.outcome.changes ? (
+                    <p className="text-xs text-gray-500">Both revisions need saved results to compare outcomes</p>
+                  ) : outcomeChanges.length === 0 ? (
+                    <p className="text-xs text-gray-500">Same outcome</p>
+                  ) : (
+                    <ul className="space-y-1 text-xs">
+                      {outcomeChanges.map(metric => {
+                        const change = diff.outcome.changes![metric]!;
+                        return (
+                          <li key={metric} className="flex justify-between">
+                            <span className="text-gray-600">{OUTCOME_LABELS[metric]}</span>
+                            <span>
+                              {formatValue(change.from)} → {formatValue(change.to)}
+                              {change.difference !== undefined && (
+                                <span className={change.difference > 0 ? 'text-green-600 ml-1' : 'text-red-600 ml-1'}>
+                                  ({change.difference > 0 ? '+' : ''}{formatValue(change.difference)})
+                                </span>
+                              )}
+                            </span>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default ScenarioHistoryDrawer;
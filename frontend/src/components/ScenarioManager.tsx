@@ -11,9 +11,13 @@ import {
   FaSearch,
   FaEye,
   FaTags,
+  FaHistory,
+  FaExchangeAlt,
 } from 'react-icons/fa';
 import { SimulationParameters, Scenario } from '../types';
 import { scenarioApi } from '../services/api';
+import ScenarioHistoryDrawer from './ScenarioHistoryDrawer';
+import ScenarioBundleModal from './ScenarioBundleModal';
 import toast from 'react-hot-toast';
 
 interface ScenarioManagerProps {
@@ -31,6 +35,8 @@ const ScenarioManager: React.FC<ScenarioManagerProps> = ({
   const [searchQuery, setSearchQuery] = useState('');
   const [filter, setFilter] = useState<'all' | 'public' | 'mine'>('all');
   const [selectedScenario, setSelectedScenario] = useState<Scenario | null>(null);
+  const [historyScenario, setHistoryScenario] = useState<Scenario | null>(null);
+  const [showBundleModal, setShowBundleModal] = useState(false);
   
   const [saveForm, setSaveForm] = useState({
     name: '',
@@ -87,8 +93,8 @@ const ScenarioManager: React.FC<ScenarioManagerProps> = ({
       
       // Save username for future use
       localStorage.setItem('username', saveForm.createdBy);
-    } catch (error) {
-      toast.error('Failed to save scenario');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error ?? 'Failed to save scenario');
     }
   };
 
@@ -140,13 +146,22 @@ const ScenarioManager: React.FC<ScenarioManagerProps> = ({
       <div className="bg-white rounded-xl shadow-lg p-6">
         <div className="flex items-center justify-between mb-6">
           <h2 className="text-2xl font-bold text-gray-800">Scenario Library</h2>
-          <button
-            onClick={() => setShowSaveModal(true)}
-            className="flex items-center space-x-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
-          >
-            <FaSave />
-            <span>Save Current</span>
-          </button>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => setShowBundleModal(true)}
+              className="flex items-center space-x-2 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+            >
+              <FaExchangeAlt />
+              <span>Import / Export</span>
+            </button>
+            <button
+              onClick={() => setShowSaveModal(true)}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+            >
+              <FaSave />
+              <span>Save Current</span>
+            </button>
+          </div>
         </div>
 
         {/* Search and Filter */}
@@ -268,6 +283,15 @@ const ScenarioManager: React.FC<ScenarioManagerProps> = ({
                     >
                       <FaCopy className="inline mr-1" /> Copy
                     </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setHistoryScenario(scenario);
+                      }}
+                      className="flex-1 text-xs px-2 py-1 bg-gray-100 text-gray-600 rounded hover:bg-gray-200 transition-colors"
+                    >
+                      <FaHistory className="inline mr-1" /> History
+                    </button>
                     {scenario.metadata.createdBy === saveForm.createdBy && (
                       <button
                         onClick={(e) => {
@@ -287,6 +311,32 @@ const ScenarioManager: React.FC<ScenarioManagerProps> = ({
         )}
       </div>
 
+      {/* History Drawer */}
+      <AnimatePresence>
+        {historyScenario && (
+          <ScenarioHistoryDrawer
+            scenario={historyScenario}
+            author={saveForm.createdBy}
+            currentParameters={currentParameters}
+            onLoadParameters={onLoadScenario}
+            onChanged={loadScenarios}
+            onClose={() => setHistoryScenario(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Import / Export Modal */}
+      <AnimatePresence>
+        {showBundleModal && (
+          <ScenarioBundleModal
+            scenarios={filteredScenarios}
+            author={saveForm.createdBy}
+            onImported={loadScenarios}
+            onClose={() => setShowBundleModal(false)}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Save Modal */}
       <AnimatePresence>
         {showSaveModal && (
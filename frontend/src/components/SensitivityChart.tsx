@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import {
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import { FaSlidersH } from 'react-icons/fa';
+import toast from 'react-hot-toast';
+import {
+  SimulationParameters,
+  RunOptions,
+  SensitivityMethod,
+  SensitivityResults,
+} from '../types';
+import { jobApi } from '../services/api';
+import { SWEEP_PARAMETERS } from './SweepHeatmap';
+
+interface SensitivityChartProps {
+  parameters: SimulationParameters;
+  runOptions: RunOptions;
+}
+
+// Output metrics as paths into the simulation results
+const METRICS = [
+  { path: 'summary.minPrey', label: 'Minimum prey' },
+  { path: 'summary.minPredator', label: 'Minimum predators' },
+  { path: 'summary.maxPrey', label: 'Peak prey' },
+  { path: 'summary.maxPredator', label: 'Peak predators' },
+  { path: 'summary.finalPrey', label: 'Final prey' },
+  { path: 'summary.finalPredator', label: 'Final predators' },
+  { path: 'equilibriumPoint.timeToReach', label: 'Time to equilibrium' },
+  { path: 'extinctionOccurred', label: 'Extinction (0/1)' },
+];
+
+const METHODS: { id: SensitivityMethod; label: string }[] = [
+  { id: 'morris', label: 'Morris screening (fast)' },
+  { id: 'sobol', label: 'Sobol indices (thorough)' },
+];
+
+const labelFor = (path: string) =>
+  SWEEP_PARAMETERS.find(param => param.path === path)?.label ?? path;
+
+const formatNumber = (value: number) =>
+  Math.abs(value) >= 100 ? Math.round(value).toLocaleString() : Number(value.toPrecision(3)).toString();
+
+const SensitivityChart: React.FC<SensitivityChartProps> = ({ parameters, runOptions }) => {
+  const [method, setMethod] = useState<SensitivityMethod>('morris');
+  const [metric, setMetric] = useState(METRICS[0].path);
+  const [sensitivity, setSensitivity] = useState<SensitivityResults | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+
+  const runSensitivity = async () => {
+    setProgress(0);
+    try {
+      // Sample within the slider ranges, which sit inside the scenario schema ranges
+      const job = await jobApi.submitJob('sensitivity', {
+        parameters,
+        method,
+        metric,
+        factors: SWEEP_PARAMETERS.map(({ path, min, max }) => ({ path, min, max })),
+        ...(method === 'morris' ? { trajectories: 20 } : { samples: 64 }),
+        ...runOptions,
+      });
+      setJobId(job.id);
+      setSensitivity(await jobApi.waitForJob<SensitivityResults>(job.id, setProgress));
+    } catch (error: any) {
+      toast.error(error.response?.data?.error ?? error.message ?? 'Sensitivity analysis failed');
+    } finally {
+      setJobId(null);
+    }
+  };
+
+  const cancel = () => {
+    if (jobId) jobApi.cancelJob(jobId).catch(() => undefined);
+  };
+
+  // Most influential parameter on top
+  const data = sensitivity?.ranking.map(path => {
+    const factor = sensitivity.factors.find(f => f.path === path)!;
+    return {
+      label: labelFor(path),
+      mu: factor.mu,
+      sigma: factor.sigma,
+      firstOrder: factor.firstOrder,
+      totalOrder: factor.totalOrder,
+    };
+  }) ?? [];
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <h2 className="text-lg font-semibold text-gray-800 mb-4 flex items-center space-x-2">
+        <FaSlidersH className="text-gray-500" />
+        <span>Sensitivity Analysis</span>
+      </h2>
+
+      {parameters.foodWeb ? (
+        <p className="text-sm text-gray-600">
+          Sensitivity analysis from the UI is available for prey/predator parameters.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4">
+            <select
+              value={method}
+              onChange={(e) => setMethod(e.target.value as SensitivityMethod)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              {METHODS.map(({ id, label }) => (
+                <option key={id} value={id}>{label}</option>
+              ))}
+            </select>
+            <select
+              value={metric}
+              onChange={(e) => setMetric(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              {METRICS.map(({ path, label }) => (
+                <option key={path} value={path}>{label}</option>
+              ))}
+            </select>
+            {jobId ? (
+              <button
+                onClick={cancel}
+                className="px-4 py-2 rounded-lg font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+              >
+                Cancel ({Math.round(progress * 100)}%)
+              </button>
+            ) : (
+              <button
+                onClick={runSensitivity}
+                className="px-4 py-2 rounded-lg font-medium bg-blue-500 text-white hover:bg-blue-600"
+              >
+                Analyse
+              </button>
+            )}
+          </div>
+
+          {sensitivity && (
+            <>
+              <ResponsiveContainer width="100%" height={60 + data.length * 40}>
+                <BarChart data={data} layout="vertical" margin={{ top: 5, right: 30, left: 40, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis type="number" stroke="#6b7280" tickFormatter={formatNumber} />
+                  <YAxis type="category" dataKey="label" stroke="#6b7280" width={140} />
+                  <Tooltip
+                    formatter={(value: number) => formatNumber(value)}
+                    contentStyle={{
+                      backgroundColor: 'rgba(255, 255, 255, 0.95)',
+                      border: '1px solid #e5e7eb',
+                      borderRadius: '8px',
+                    }}
+                  />
+                  <Legend />
+                  <ReferenceLine x={0} stroke="#374151" />
+                  {sensitivity.method === 'morris' ? (
+                    <>
+                      {/* Tornado: mean effect over the full range, signed */}
+                      <Bar dataKey="mu" name="Mean effect (μ)">
+                        {data.map(entry => (
+                          <Cell key={entry.label} fill={(entry.mu ?? 0) >= 0 ? '#3b82f6' : '#ef4444'} />
+                        ))}
+                      </Bar>
+                      <Bar dataKey="sigma" name="Interactions / nonlinearity (σ)" fill="#d1d5db" />
+                    </>
+                  ) : (
+                    <>
+                      <Bar dataKey="firstOrder" name="First-order index" fill="#3b82f6" />
+                      <Bar dataKey="totalOrder" name="Total index" fill="#a855f7" />
+                    </>
+                  )}
+                </BarChart>
+              </ResponsiveContainer>
+
+              <p className="mt-3 text-sm text-gray-600">
+                {sensitivity.runs.toLocaleString()} runs.{' '}
+                {sensitivity.method === 'morris'
+                  ? 'Bars show how much the metric changes across each parameter\'s range; a large σ means the effect depends on the other parameters.'
+                  : 'Indices are shares of the metric\'s variance; a total index well above the first-order one points to interactions.'}
+                {' '}{METRICS.find(m => m.path === sensitivity.metric)?.label ?? sensitivity.metric} ranged from
+                {' '}{formatNumber(sensitivity.output.min)} to {formatNumber(sensitivity.output.max)}.
+              </p>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SensitivityChart;
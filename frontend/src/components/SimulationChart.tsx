@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   LineChart,
   Line,
@@ -11,31 +11,198 @@ import {
   Area,
   AreaChart,
   ComposedChart,
+  ReferenceLine,
+  ReferenceArea,
 } from 'recharts';
-import { TimeStep } from '../types';
+import { FaDownload } from 'react-icons/fa';
+import { TimeStep, SpeciesInfo, EnsembleResults, CalibrationObservation, EventPeriod, TableFormat } from '../types';
+import { formatTable, TableValue } from '../utils/table';
+import { downloadFile } from '../utils/download';
 
 interface SimulationChartProps {
   data: TimeStep[];
+  species?: SpeciesInfo[];
+  // When given, percentile bands of the ensemble are drawn instead of a single run
+  ensemble?: EnsembleResults;
+  // Observed counts drawn as dots over the simulated lines, on the same time axis
+  observations?: CalibrationObservation[];
+  // Windows of continuous events, shaded behind the lines
+  eventPeriods?: EventPeriod[];
+  // A second run of the same scenario, drawn dashed for comparison
+  reference?: TimeStep[];
+  referenceLabel?: string;
 }
 
-const SimulationChart: React.FC<SimulationChartProps> = ({ data }) => {
+const PERIOD_COLORS: Record<string, string> = {
+  drought: '#f59e0b',
+  harvest: '#ef4444',
+};
+
+// Median line with 25-75 and 5-95 percentile bands for every ensemble species
+const ensembleChartData = (ensemble: EnsembleResults) =>
+  ensemble.times.map((time, t) => {
+    const point: Record<string, string | number | number[]> = {
+      time: time.toFixed(1),
+      extinction: Math.round(ensemble.extinctionProbability[t] * 100),
+    };
+
+    ensemble.species.forEach(s => {
+      const band = ensemble.bands[s.id];
+      point[`outer_${s.id}`] = [Math.round(band.p5[t]), Math.round(band.p95[t])];
+      point[`inner_${s.id}`] = [Math.round(band.p25[t]), Math.round(band.p75[t])];
+      point[`median_${s.id}`] = Math.round(band.p50[t]);
+    });
+
+    return point;
+  });
+
+const SimulationChart: React.FC<SimulationChartProps> = ({
+  data,
+  species,
+  ensemble,
+  observations,
+  eventPeriods,
+  reference,
+  referenceLabel = 'ODE',
+}) => {
+  const [showStages, setShowStages] = useState(false);
+  const [downloadFormat, setDownloadFormat] = useState<TableFormat>('csv');
+
+  // Plot every species of a food web when per-species populations are available
+  const speciesSeries = species && data[0]?.populations ? species : null;
+
+  // Stage-structured species can be drawn as stacked juvenile and adult areas
+  const stagedSpecies = ensemble ? [] : Object.keys(data[0]?.stages ?? {}).map(id =>
+    speciesSeries?.find(s => s.id === id) ??
+      { id, name: id === 'prey' ? 'Prey' : 'Predator', color: id === 'prey' ? '#3b82f6' : '#ef4444' });
+  const stacked = showStages ? new Set(stagedSpecies.map(s => s.id)) : new Set<string>();
+
   // Prepare data for the chart
-  const chartData = data.map(step => ({
-    time: step.time.toFixed(1),
-    prey: Math.round(step.preyPopulation),
-    predator: Math.round(step.predatorPopulation),
-    resources: Math.round(step.resourceLevel * 100),
+  const chartData = ensemble ? ensembleChartData(ensemble) : data.map(step => {
+    const point: Record<string, string | number> = {
+      time: step.time.toFixed(1),
+      prey: Math.round(step.preyPopulation),
+      predator: Math.round(step.predatorPopulation),
+      resources: Math.round(step.resourceLevel * 100),
+    };
+
+    speciesSeries?.forEach(s => {
+      point[`species_${s.id}`] = Math.round(step.populations?.[s.id] ?? 0);
+    });
+
+    Object.entries(step.stages ?? {}).forEach(([id, stage]) => {
+      point[`juvenile_${id}`] = Math.round(stage.juvenile);
+      point[`adult_${id}`] = Math.round(stage.adult);
+    });
+
+    if (step.events) point.events = step.events.join(', ');
+
+    return point;
+  });
+
+  const nearestStep = (time: number) => data.reduce((best, step, i) =>
+    Math.abs(step.time - time) < Math.abs(data[best].time - time) ? i : best, 0);
+
+  // Events applied during the run, marked where the simulator recorded them
+  const eventMarks = ensemble ? [] : data.filter(step => step.events).map(step => step.time.toFixed(1));
+  const periods = ensemble || data.length === 0 ? [] : (eventPeriods ?? []).map(period => ({
+    ...period,
+    x1: data[nearestStep(period.from)].time.toFixed(1),
+    x2: data[nearestStep(period.to)].time.toFixed(1),
   }));
 
+  // Attach the reference run to the chart points it covers; both runs are
+  // recorded in time order, so one pass finds the closest reference step
+  const referenceSeries: Pick<SpeciesInfo, 'id' | 'name' | 'color'>[] = ensemble || !reference?.length
+    ? []
+    : speciesSeries ?? [
+      { id: 'prey', name: 'Prey', color: '#3b82f6' },
+      { id: 'predator', name: 'Predator', color: '#ef4444' },
+    ];
+  if (referenceSeries.length > 0 && reference) {
+    let r = 0;
+    data.forEach((step, index) => {
+      while (r + 1 < reference.length &&
+        Math.abs(reference[r + 1].time - step.time) <= Math.abs(reference[r].time - step.time)) {
+        r++;
+      }
+      if (Math.abs(reference[r].time - step.time) > 0.1) return;
+      referenceSeries.forEach(s => {
+        const value = reference[r].populations?.[s.id] ??
+          (s.id === 'prey' ? reference[r].preyPopulation : reference[r].predatorPopulation);
+        chartData[index][`reference_${s.id}`] = Math.round(value);
+      });
+    });
+  }
+
+  // Attach every observation to the closest recorded time step
+  const observedSpecies = observations
+    ? (species ?? []).filter(s => observations.some(o => o.values[s.id] != null))
+    : [];
+  observations?.forEach(observation => {
+    const index = nearestStep(observation.time);
+    observedSpecies.forEach(s => {
+      const value = observation.values[s.id];
+      if (value != null && chartData[index]) chartData[index][`observed_${s.id}`] = Math.round(value);
+    });
+  });
+
+  // Columns of the series drawn below, for "Download data"; a band is split
+  // into its low and high edge
+  const lineSeries = speciesSeries
+    ? speciesSeries.map(s => ({ id: s.id, name: s.name, key: `species_${s.id}` }))
+    : [{ id: 'prey', name: 'Prey', key: 'prey' }, { id: 'predator', name: 'Predator', key: 'predator' }];
+  const dataColumns: { name: string; key: string; edge?: number }[] = [
+    { name: 'Time', key: 'time' },
+    ...(ensemble ? [
+      ...ensemble.species.flatMap(s => [
+        { name: `${s.name} 5%`, key: `outer_${s.id}`, edge: 0 },
+        { name: `${s.name} 25%`, key: `inner_${s.id}`, edge: 0 },
+        { name: `${s.name} (median)`, key: `median_${s.id}` },
+        { name: `${s.name} 75%`, key: `inner_${s.id}`, edge: 1 },
+        { name: `${s.name} 95%`, key: `outer_${s.id}`, edge: 1 },
+      ]),
+      { name: 'Extinction probability (%)', key: 'extinction' },
+    ] : [
+      { name: 'Resources (%)', key: 'resources' },
+      ...stagedSpecies.filter(s => stacked.has(s.id)).flatMap(s => [
+        { name: `${s.name} adults`, key: `adult_${s.id}` },
+        { name: `${s.name} juveniles`, key: `juvenile_${s.id}` },
+      ]),
+      ...lineSeries.filter(s => !stacked.has(s.id)).map(({ name, key }) => ({ name, key })),
+    ]),
+    ...referenceSeries.map(s => ({ name: `${s.name} (${referenceLabel})`, key: `reference_${s.id}` })),
+    ...observedSpecies.map(s => ({ name: `${s.name} (observed)`, key: `observed_${s.id}` })),
+    ...(eventMarks.length > 0 ? [{ name: 'Events', key: 'events' }] : []),
+  ];
+
+  const handleDownload = () => {
+    const rows = chartData.map(point => dataColumns.map(({ key, edge }): TableValue => {
+      const value = point[key];
+      return Array.isArray(value) ? value[edge ?? 0] : value;
+    }));
+    const content = formatTable(dataColumns.map(c => c.name), rows, downloadFormat);
+    downloadFile(
+      content,
+      `simulation-data.${downloadFormat}`,
+      downloadFormat === 'csv' ? 'text/csv' : 'application/x-ndjson'
+    );
+  };
+
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
       return (
         <div className="bg-white p-3 rounded-lg shadow-lg border border-gray-200">
           <p className="font-semibold text-gray-700 mb-1">Time: {label}</p>
+          {payload[0].payload.events && (
+            <p className="text-sm text-purple-600 mb-1">{payload[0].payload.events}</p>
+          )}
           {payload.map((entry: any, index: number) => (
             <p key={index} style={{ color: entry.color }} className="text-sm">
-              {entry.name}: {entry.value.toLocaleString()}
-              {entry.name === 'Resources' && '%'}
+              {entry.name}: {Array.isArray(entry.value)
+                ? entry.value.map((v: number) => v.toLocaleString()).join(' – ')
+                : entry.value.toLocaleString()}
+              {(entry.name === 'Resources' || entry.name === 'Extinction probability') && '%'}
             </p>
           ))}
         </div>
@@ -45,67 +212,244 @@ const SimulationChart: React.FC<SimulationChartProps> = ({ data }) => {
   };
 
   return (
-    <div className="w-full h-80">
-      <ResponsiveContainer width="100%" height="100%">
-        <ComposedChart
-          data={chartData}
-          margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
-        >
-          <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
-          <XAxis 
-            dataKey="time" 
-            label={{ value: 'Time', position: 'insideBottom', offset: -5 }}
-            stroke="#666"
-          />
-          <YAxis 
-            label={{ value: 'Population', angle: -90, position: 'insideLeft' }}
-            stroke="#666"
-          />
-          <YAxis 
-            yAxisId="resources"
-            orientation="right"
-            label={{ value: 'Resources (%)', angle: 90, position: 'insideRight' }}
-            stroke="#666"
-            domain={[0, 100]}
-          />
-          <Tooltip content={<CustomTooltip />} />
-          <Legend 
-            wrapperStyle={{ paddingTop: '20px' }}
-            iconType="line"
-          />
-          
-          <Area
-            yAxisId="resources"
-            type="monotone"
-            dataKey="resources"
-            stroke="none"
-            fill="#22c55e"
-            fillOpacity={0.1}
-            name="Resources"
-          />
+    <div className="w-full">
+      {chartData.length > 0 && (
+        <div className="flex items-center justify-between mb-2">
+          <div className="flex items-center space-x-2 text-sm">
+            <select
+              value={downloadFormat}
+              onChange={(e) => setDownloadFormat(e.target.value as TableFormat)}
+              className="px-2 py-1 border border-gray-300 rounded text-gray-600"
+            >
+              <option value="csv">CSV</option>
+              <option value="ndjson">JSON Lines</option>
+            </select>
+            <button
+              onClick={handleDownload}
+              className="flex items-center space-x-1 px-2 py-1 text-gray-600 bg-gray-100 rounded hover:bg-gray-200 transition-colors"
+              title="Download the series shown on the chart"
+            >
+              <FaDownload />
+              <span>Download data</span>
+            </button>
+          </div>
+          {stagedSpecies.length > 0 && (
+            <label className="flex items-center space-x-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={showStages}
+                onChange={(e) => setShowStages(e.target.checked)}
+              />
+              <span>Stack juveniles and adults</span>
+            </label>
+          )}
+        </div>
+      )}
+      <div className="w-full h-80">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart
+            data={chartData}
+            margin={{ top: eventMarks.length > 0 ? 20 : 5, right: 30, left: 20, bottom: 5 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+            <XAxis 
+              dataKey="time" 
+              label={{ value: 'Time', position: 'insideBottom', offset: -5 }}
+              stroke="#666"
+            />
+            <YAxis 
+              label={{ value: 'Population', angle: -90, position: 'insideLeft' }}
+              stroke="#666"
+            />
+            <YAxis 
+              yAxisId="resources"
+              orientation="right"
+              label={{
+                value: ensemble ? 'Extinction probability (%)' : 'Resources (%)',
+                angle: 90,
+                position: 'insideRight'
+              }}
+              stroke="#666"
+              domain={[0, 100]}
+            />
+            <Tooltip content={<CustomTooltip />} />
+            <Legend 
+              wrapperStyle={{ paddingTop: '20px' }}
+              iconType="line"
+            />
+
+            {periods.map((period, index) => (
+              <ReferenceArea
+                key={`period_${index}`}
+                x1={period.x1}
+                x2={period.x2}
+                fill={PERIOD_COLORS[period.type] ?? '#6b7280'}
+                fillOpacity={0.08}
+                label={{ value: period.label, position: 'insideTop', fontSize: 11, fill: '#6b7280' }}
+              />
+            ))}
+            {eventMarks.map(time => (
+              <ReferenceLine
+                key={`event_${time}`}
+                x={time}
+                stroke="#a855f7"
+                strokeDasharray="4 4"
+                label={{ value: '▼', position: 'top', fontSize: 10, fill: '#a855f7' }}
+              />
+            ))}
           
-          <Line
-            type="monotone"
-            dataKey="prey"
-            stroke="#3b82f6"
-            strokeWidth={2}
-            dot={false}
-            name="Prey"
-            animationDuration={1000}
-          />
+            {ensemble ? (
+              <>
+                {ensemble.species.map(s => (
+                  <React.Fragment key={s.id}>
+                    <Area
+                      type="monotone"
+                      dataKey={`outer_${s.id}`}
+                      stroke="none"
+                      fill={s.color}
+                      fillOpacity={0.12}
+                      name={`${s.name} 5–95%`}
+                      legendType="none"
+                    />
+                    <Area
+                      type="monotone"
+                      dataKey={`inner_${s.id}`}
+                      stroke="none"
+                      fill={s.color}
+                      fillOpacity={0.25}
+                      name={`${s.name} 25–75%`}
+                      legendType="none"
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey={`median_${s.id}`}
+                      stroke={s.color}
+                      strokeWidth={2}
+                      dot={false}
+                      name={`${s.name} (median)`}
+                      animationDuration={1000}
+                    />
+                  </React.Fragment>
+                ))}
+                <Line
+                  yAxisId="resources"
+                  type="stepAfter"
+                  dataKey="extinction"
+                  stroke="#6b7280"
+                  strokeDasharray="5 5"
+                  dot={false}
+                  name="Extinction probability"
+                />
+              </>
+            ) : (
+              <Area
+                yAxisId="resources"
+                type="monotone"
+                dataKey="resources"
+                stroke="none"
+                fill="#22c55e"
+                fillOpacity={0.1}
+                name="Resources"
+              />
+            )}
           
-          <Line
-            type="monotone"
-            dataKey="predator"
-            stroke="#ef4444"
-            strokeWidth={2}
-            dot={false}
-            name="Predator"
-            animationDuration={1000}
-            animationBegin={200}
-          />
-        </ComposedChart>
-      </ResponsiveContainer>
+            {stagedSpecies.filter(s => stacked.has(s.id)).map(s => (
+              <React.Fragment key={`stages_${s.id}`}>
+                <Area
+                  type="monotone"
+                  dataKey={`adult_${s.id}`}
+                  stackId={s.id}
+                  stroke={s.color}
+                  fill={s.color}
+                  fillOpacity={0.6}
+                  name={`${s.name} adults`}
+                  isAnimationActive={false}
+                />
+                <Area
+                  type="monotone"
+                  dataKey={`juvenile_${s.id}`}
+                  stackId={s.id}
+                  stroke={s.color}
+                  strokeDasharray="3 3"
+                  fill={s.color}
+                  fillOpacity={0.2}
+                  name={`${s.name} juveniles`}
+                  isAnimationActive={false}
+                />
+              </React.Fragment>
+            ))}
+
+            {ensemble ? null : speciesSeries ? (
+              speciesSeries.filter(s => !stacked.has(s.id)).map((s, index) => (
+                <Line
+                  key={s.id}
+                  type="monotone"
+                  dataKey={`species_${s.id}`}
+                  stroke={s.color}
+                  strokeWidth={2}
+                  dot={false}
+                  name={s.name}
+                  animationDuration={1000}
+                  animationBegin={index * 200}
+                />
+              ))
+            ) : (
+              <>
+                {!stacked.has('prey') && (
+                  <Line
+                    type="monotone"
+                    dataKey="prey"
+                    stroke="#3b82f6"
+                    strokeWidth={2}
+                    dot={false}
+                    name="Prey"
+                    animationDuration={1000}
+                  />
+                )}
+              
+                {!stacked.has('predator') && (
+                  <Line
+                    type="monotone"
+                    dataKey="predator"
+                    stroke="#ef4444"
+                    strokeWidth={2}
+                    dot={false}
+                    name="Predator"
+                    animationDuration={1000}
+                    animationBegin={200}
+                  />
+                )}
+              </>
+            )}
+
+            {referenceSeries.map(s => (
+              <Line
+                key={`reference_${s.id}`}
+                type="monotone"
+                dataKey={`reference_${s.id}`}
+                stroke={s.color}
+                strokeWidth={1.5}
+                strokeDasharray="5 4"
+                dot={false}
+                name={`${s.name} (${referenceLabel})`}
+                isAnimationActive={false}
+              />
+            ))}
+
+            {observedSpecies.map(s => (
+              <Line
+                key={`observed_${s.id}`}
+                dataKey={`observed_${s.id}`}
+                stroke="none"
+                dot={{ r: 4, fill: s.color, stroke: '#ffffff', strokeWidth: 1 }}
+                name={`${s.name} (observed)`}
+                legendType="circle"
+                isAnimationActive={false}
+              />
+            ))}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
     </div>
   );
 };
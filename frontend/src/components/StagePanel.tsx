@@ -0,0 +1,166 @@
+import React from 'react';
+import { FaSeedling } from 'react-icons/fa';
+import { SimulationParameters, StageStructure, SpeciesRole } from '../types';
+
+interface StagePanelProps {
+  parameters: SimulationParameters;
+  onChange: (params: Partial<SimulationParameters>) => void;
+}
+
+interface StagedSpecies {
+  id: string;
+  name: string;
+  role: SpeciesRole;
+  stages?: StageStructure;
+}
+
+const DEFAULT_STAGES: StageStructure = { maturationTime: 2, delayStages: 1 };
+
+const parseNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+const StagePanel: React.FC<StagePanelProps> = ({ parameters, onChange }) => {
+  const { foodWeb } = parameters;
+
+  const species: StagedSpecies[] = foodWeb
+    ? foodWeb.species.map((s, i) => ({
+      id: s.id,
+      name: s.name ?? s.id,
+      role: foodWeb.interactions[i]?.some(value => value > 0) ? 'consumer' : 'basal',
+      stages: s.stages,
+    }))
+    : [
+      { id: 'prey', name: 'Prey', role: 'basal', stages: parameters.prey.stages },
+      { id: 'predator', name: 'Predator', role: 'consumer', stages: parameters.predator.stages },
+    ];
+
+  const setStages = (id: string, stages: StageStructure | undefined) => {
+    if (foodWeb) {
+      onChange({
+        foodWeb: {
+          ...foodWeb,
+          species: foodWeb.species.map(s => (s.id === id ? { ...s, stages } : s)),
+        },
+      });
+    } else if (id === 'prey') {
+      onChange({ prey: { ...parameters.prey, stages } });
+    } else {
+      onChange({ predator: { ...parameters.predator, stages } });
+    }
+  };
+
+  const inputClass = 'mt-1 w-full px-2 py-1 border border-gray-300 rounded-lg text-sm';
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <h2 className="text-lg font-semibold text-gray-800 mb-4 flex items-center space-x-2">
+        <FaSeedling className="text-gray-500" />
+        <span>Life Stages</span>
+      </h2>
+
+      <div className="space-y-4">
+        {species.map(s => {
+          const stages = s.stages;
+          const update = (changes: Partial<StageStructure>) => stages && setStages(s.id, { ...stages, ...changes });
+
+          return (
+            <div key={s.id}>
+              <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={stages !== undefined}
+                  onChange={(e) => setStages(s.id, e.target.checked ? DEFAULT_STAGES : undefined)}
+                />
+                <span>{s.name}: juveniles and adults</span>
+              </label>
+
+              {stages && (
+                <div className="grid grid-cols-3 gap-2 mt-2">
+                  <label className="text-xs text-gray-600" title="Mean time from birth to adulthood">
+                    Maturation time
+                    <input
+                      type="number"
+                      min={0.1}
+                      step={0.5}
+                      value={stages.maturationTime}
+                      onChange={(e) => update({ maturationTime: Number(e.target.value) })}
+                      className={inputClass}
+                    />
+                  </label>
+                  <label
+                    className="text-xs text-gray-600"
+                    title="Juvenile compartments in the chain; more make maturation closer to a fixed delay"
+                  >
+                    Delay stages
+                    <input
+                      type="number"
+                      min={1}
+                      max={20}
+                      step={1}
+                      value={stages.delayStages ?? 1}
+                      onChange={(e) => update({ delayStages: Math.round(Number(e.target.value)) || 1 })}
+                      className={inputClass}
+                    />
+                  </label>
+                  <label className="text-xs text-gray-600" title="Share of the initial population that is juvenile">
+                    Initial juveniles (%)
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      step={5}
+                      value={Math.round((stages.initialJuveniles ?? 0) * 100)}
+                      onChange={(e) => update({ initialJuveniles: Number(e.target.value) / 100 })}
+                      className={inputClass}
+                    />
+                  </label>
+                  <label className="text-xs text-gray-600" title="Leave empty to use the adult death rate">
+                    Juvenile mortality
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.05}
+                      value={stages.juvenileMortality ?? ''}
+                      onChange={(e) => update({ juvenileMortality: parseNumber(e.target.value) })}
+                      className={inputClass}
+                    />
+                  </label>
+                  <label className="text-xs text-gray-600" title="Predation on a juvenile relative to an adult">
+                    Vulnerability
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      value={stages.juvenileVulnerability ?? 1}
+                      onChange={(e) => update({ juvenileVulnerability: Number(e.target.value) })}
+                      className={inputClass}
+                    />
+                  </label>
+                  {s.role === 'consumer' && (
+                    <label className="text-xs text-gray-600" title="Consumption by a juvenile relative to an adult">
+                      Juvenile feeding
+                      <input
+                        type="number"
+                        min={0}
+                        max={1}
+                        step={0.1}
+                        value={stages.juvenileFeeding ?? 0}
+                        onChange={(e) => update({ juvenileFeeding: Number(e.target.value) })}
+                        className={inputClass}
+                      />
+                    </label>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="text-xs text-gray-500 mt-4">
+        Only adults reproduce. Stage structure needs the deterministic engine.
+      </p>
+    </div>
+  );
+};
+
+export default StagePanel;
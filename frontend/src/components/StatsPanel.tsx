@@ -7,16 +7,29 @@ import {
   FaClock,
   FaArrowUp,
   FaArrowDown,
-  FaEquals
+  FaEquals,
+  FaCalculator
 } from 'react-icons/fa';
-import { SimulationResults } from '../types';
+import { SimulationResults, StabilityAnalysis, Eigenvalue, SweepOutcome } from '../types';
 
 interface StatsPanelProps {
   results: SimulationResults;
+  analysis?: StabilityAnalysis | null;
 }
 
-const StatsPanel: React.FC<StatsPanelProps> = ({ results }) => {
-  const { summary, equilibriumReached, equilibriumPoint, extinctionOccurred } = results;
+const OUTCOME_LABELS: Record<SweepOutcome, string> = {
+  equilibrium: 'Equilibrium',
+  oscillation: 'Sustained oscillations',
+  extinction: 'Extinction',
+};
+
+const formatEigenvalues = ([first, second]: Eigenvalue[]) =>
+  first.imag !== 0
+    ? `${first.real.toFixed(3)} ± ${Math.abs(first.imag).toFixed(3)}i`
+    : `${first.real.toFixed(3)}, ${second.real.toFixed(3)}`;
+
+const StatsPanel: React.FC<StatsPanelProps> = ({ results, analysis }) => {
+  const { summary, equilibriumReached, equilibriumPoint, extinctionOccurred, solver, stochastic } = results;
 
   const getStatusColor = () => {
     if (extinctionOccurred) return 'red';
@@ -93,6 +106,33 @@ const StatsPanel: React.FC<StatsPanelProps> = ({ results }) => {
     },
   ];
 
+  if (solver) {
+    stats.push({
+      label: 'Solver Steps',
+      value: `${solver.steps.toLocaleString()} (${solver.rejectedSteps} rejected)`,
+      icon: <FaCalculator className="text-gray-500" />,
+      color: 'gray',
+    });
+
+    if (solver.estimatedError !== null) {
+      stats.push({
+        label: 'Estimated Error',
+        value: solver.estimatedError.toExponential(2),
+        icon: <FaCalculator className="text-gray-500" />,
+        color: 'gray',
+      });
+    }
+  }
+
+  if (stochastic) {
+    stats.push({
+      label: 'Random Events',
+      value: `${stochastic.events.toLocaleString()} (seed ${stochastic.seed})`,
+      icon: <FaCalculator className="text-gray-500" />,
+      color: 'gray',
+    });
+  }
+
   return (
     <div className="bg-white rounded-xl shadow-lg p-6">
       <h2 className="text-lg font-semibold text-gray-800 mb-4">Simulation Statistics</h2>
@@ -154,6 +194,45 @@ const StatsPanel: React.FC<StatsPanelProps> = ({ results }) => {
         ))}
       </div>
 
+      {/* Predicted Equilibria */}
+      {analysis && (
+        <div className="mt-6 pt-4 border-t border-gray-200">
+          <div className="flex items-baseline justify-between mb-2">
+            <h4 className="text-sm font-semibold text-gray-700">Predicted Equilibria</h4>
+            <span className="text-xs text-gray-600">
+              Predicted: {OUTCOME_LABELS[analysis.prediction.outcome]} · Simulated: {getStatusText()}
+            </span>
+          </div>
+          <table className="w-full text-xs text-gray-700">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-1 font-medium">Fixed point</th>
+                <th className="py-1 font-medium">Prey</th>
+                <th className="py-1 font-medium">Predator</th>
+                <th className="py-1 font-medium">Type</th>
+                <th className="py-1 font-medium">Eigenvalues</th>
+                <th className="py-1 font-medium">Period</th>
+              </tr>
+            </thead>
+            <tbody>
+              {analysis.fixedPoints.map(point => (
+                <tr key={`${point.type}-${point.prey}`} className="border-t border-gray-100">
+                  <td className="py-1 capitalize">{point.type}</td>
+                  <td className="py-1">{Math.round(point.prey).toLocaleString()}</td>
+                  <td className="py-1">{Math.round(point.predator).toLocaleString()}</td>
+                  <td className={`py-1 ${point.stable ? 'text-green-600 font-semibold' : ''}`}>
+                    {point.classification}
+                  </td>
+                  <td className="py-1 font-mono">{formatEigenvalues(point.eigenvalues)}</td>
+                  <td className="py-1">{point.period !== null ? point.period.toFixed(1) : '–'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-2 text-xs text-gray-600">{analysis.explanation}</p>
+        </div>
+      )}
+
       {/* Insights */}
       <div className="mt-6 pt-4 border-t border-gray-200">
         <h4 className="text-sm font-semibold text-gray-700 mb-2">Key Insights</h4>
@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { FaTh } from 'react-icons/fa';
+import toast from 'react-hot-toast';
+import {
+  SimulationParameters,
+  RunOptions,
+  SweepResults,
+  SweepCell,
+  SweepOutcome,
+} from '../types';
+import { jobApi } from '../services/api';
+
+interface SweepHeatmapProps {
+  parameters: SimulationParameters;
+  runOptions: RunOptions;
+  onSelectCell: (parameters: SimulationParameters) => void;
+}
+
+// Sweepable parameters with the same ranges as the parameter sliders
+export const SWEEP_PARAMETERS = [
+  { path: 'prey.birthRate', label: 'Prey Birth Rate', min: 0.1, max: 5 },
+  { path: 'prey.carryingCapacity', label: 'Carrying Capacity', min: 100, max: 50000 },
+  { path: 'predator.huntingEfficiency', label: 'Hunting Efficiency', min: 0.001, max: 0.1 },
+  { path: 'predator.deathRate', label: 'Predator Death Rate', min: 0.1, max: 2 },
+  { path: 'predator.conversionEfficiency', label: 'Conversion Efficiency', min: 0.05, max: 1 },
+  { path: 'environment.resourceAvailability', label: 'Resource Availability', min: 0.05, max: 1 },
+];
+
+const RESOLUTIONS = [5, 10, 15, 20];
+
+export const OUTCOME_STYLES: Record<SweepOutcome, { label: string; color: string }> = {
+  equilibrium: { label: 'Equilibrium', color: '#22c55e' },
+  oscillation: { label: 'Oscillation', color: '#eab308' },
+  extinction: { label: 'Extinction', color: '#ef4444' },
+};
+
+const labelFor = (path: string) =>
+  SWEEP_PARAMETERS.find(param => param.path === path)?.label ?? path;
+
+const formatValue = (value: number) =>
+  Math.abs(value) >= 100 ? Math.round(value).toLocaleString() : Number(value.toPrecision(3)).toString();
+
+// Copy the parameters with the swept values of a cell applied
+const applyCellValues = (parameters: SimulationParameters, values: Record<string, number>) => {
+  const next: any = structuredClone(parameters);
+  Object.entries(values).forEach(([path, value]) => {
+    const [group, key] = path.split('.');
+    next[group] = { ...next[group], [key]: value };
+  });
+  return next as SimulationParameters;
+};
+
+const SweepHeatmap: React.FC<SweepHeatmapProps> = ({ parameters, runOptions, onSelectCell }) => {
+  const [xPath, setXPath] = useState('predator.huntingEfficiency');
+  const [yPath, setYPath] = useState('prey.birthRate');
+  const [resolution, setResolution] = useState(10);
+  const [sweep, setSweep] = useState<SweepResults | null>(null);
+  const [hovered, setHovered] = useState<SweepCell | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+
+  const runSweep = async () => {
+    const axes = [xPath, yPath]
+      .filter(path => path !== '')
+      .map(path => {
+        const { min, max } = SWEEP_PARAMETERS.find(param => param.path === path)!;
+        return { path, min, max, resolution };
+      });
+
+    // Sweeps can take a while, so they run as a background job
+    setIsRunning(true);
+    setProgress(0);
+    try {
+      const job = await jobApi.submitJob('sweep', { parameters, axes, ...runOptions });
+      setSweep(await jobApi.waitForJob<SweepResults>(job.id, setProgress));
+      setHovered(null);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error ?? error.message ?? 'Sweep failed');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const columns = sweep?.axes[0].values.length ?? 0;
+  const rows = sweep?.axes[1]?.values.length ?? 1;
+
+  // Highest y values first so the y axis grows upwards
+  const orderedCells = sweep
+    ? [...sweep.cells].sort((a, b) => b.y - a.y || a.x - b.x)
+    : [];
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6">
+      <h2 className="text-lg font-semibold text-gray-800 mb-4 flex items-center space-x-2">
+        <FaTh className="text-gray-500" />
+        <span>Stability Map</span>
+      </h2>
+
+      {parameters.foodWeb ? (
+        <p className="text-sm text-gray-600">
+          Parameter sweeps from the UI are available for prey/predator parameters.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 mb-4">
+            <select
+              value={xPath}
+              onChange={(e) => setXPath(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              {SWEEP_PARAMETERS.map(param => (
+                <option key={param.path} value={param.path} disabled={param.path === yPath}>
+                  X: {param.label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={yPath}
+              onChange={(e) => setYPath(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              <option value="">Y: none (1D sweep)</option>
+              {SWEEP_PARAMETERS.map(param => (
+                <option key={param.path} value={param.path} disabled={param.path === xPath}>
+                  Y: {param.label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={resolution}
+              onChange={(e) => setResolution(parseInt(e.target.value, 10))}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              {RESOLUTIONS.map(value => (
+                <option key={value} value={value}>{value} steps per axis</option>
+              ))}
+            </select>
+            <button
+              onClick={runSweep}
+              disabled={isRunning}
+              className="px-4 py-2 rounded-lg font-medium bg-blue-500 text-white hover:bg-blue-600 disabled:bg-gray-300 disabled:text-gray-500"
+            >
+              {isRunning ? `Sweeping... ${Math.round(progress * 100)}%` : 'Run Sweep'}
+            </button>
+          </div>
+
+          {sweep && (
+            <>
+              <div className="flex">
+                <div className="flex flex-col justify-between text-xs text-gray-500 pr-2 w-16 text-right">
+                  {sweep.axes[1] && (
+                    <>
+                      <span>{formatValue(sweep.axes[1].values[rows - 1])}</span>
+                      <span className="[writing-mode:vertical-rl] rotate-180 self-end">
+                        {labelFor(sweep.axes[1].path)}
+                      </span>
+                      <span>{formatValue(sweep.axes[1].values[0])}</span>
+                    </>
+                  )}
+                </div>
+                <div
+                  className="flex-1 grid gap-px bg-gray-200 border border-gray-200"
+                  style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+                  onMouseLeave={() => setHovered(null)}
+                >
+                  {orderedCells.map(cell => (
+                    <button
+                      key={`${cell.x}-${cell.y}`}
+                      onMouseEnter={() => setHovered(cell)}
+                      onClick={() => onSelectCell(applyCellValues(parameters, cell.values))}
+                      className="aspect-square hover:opacity-75 transition-opacity"
+                      style={{ backgroundColor: OUTCOME_STYLES[cell.outcome].color }}
+                      title={OUTCOME_STYLES[cell.outcome].label}
+                    />
+                  ))}
+                </div>
+              </div>
+              <div className="flex justify-between text-xs text-gray-500 mt-1 pl-16">
+                <span>{formatValue(sweep.axes[0].values[0])}</span>
+                <span>{labelFor(sweep.axes[0].path)}</span>
+                <span>{formatValue(sweep.axes[0].values[columns - 1])}</span>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-4 mt-4 text-sm">
+                {(Object.keys(OUTCOME_STYLES) as SweepOutcome[]).map(outcome => (
+                  <div key={outcome} className="flex items-center space-x-2">
+                    <span
+                      className="w-3 h-3 rounded-sm inline-block"
+                      style={{ backgroundColor: OUTCOME_STYLES[outcome].color }}
+                    />
+                    <span className="text-gray-700">
+                      {OUTCOME_STYLES[outcome].label} ({sweep.counts[outcome]})
+                    </span>
+                  </div>
+                ))}
+              </div>
+
+              <div className="mt-3 text-sm text-gray-600 min-h-[2.5rem]">
+                {hovered ? (
+                  <>
+                    {Object.entries(hovered.values)
+                      .map(([path, value]) => `${labelFor(path)} ${formatValue(value)}`)
+                      .join(' · ')}
+                    <br />
+                    {OUTCOME_STYLES[hovered.outcome].label} after {hovered.metrics.duration.toFixed(1)} time units ·
+                    final prey {Math.round(hovered.metrics.finalPrey).toLocaleString()} ·
+                    final predators {Math.round(hovered.metrics.finalPredator).toLocaleString()}
+                  </>
+                ) : (
+                  'Hover a cell for details, click it to load its parameters.'
+                )}
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SweepHeatmap;
@@ -3,8 +3,38 @@ import {
   SimulationParameters, 
   SimulationResults, 
   Scenario,
-  LiveSimulationUpdate 
+  ScenarioRevision,
+  ScenarioRevisionList,
+  ScenarioDiff,
+  BundleFormat,
+  BundleImportReport,
+  ImportConflictStrategy,
+  LiveSimulationUpdate,
+  InteractionModelDefinition,
+  SolverDefinition,
+  EventTypeDefinition,
+  ForcingPreview,
+  RunOptions,
+  EnsembleOptions,
+  EnsembleResults,
+  SweepAxis,
+  SweepResults,
+  BifurcationOptions,
+  BifurcationResults,
+  SensitivityOptions,
+  SensitivityResults,
+  CalibrationOptions,
+  CalibrationResults,
+  Job,
+  JobType,
+  StabilityAnalysis,
+  PhasePlane,
+  PhasePlaneBounds,
+  ClientMessage,
+  ServerMessage,
+  LiveChannel
 } from '../types';
+import { filenameFromDisposition } from '../utils/download';
 
 const API_BASE_URL = '/api';
 
@@ -15,65 +45,234 @@ const api = axios.create({
   },
 });
 
+// Large analyses are answered with a queued job (202) instead of the result;
+// wait for the job in that case
+async function resultOrJob<Result>(
+  response: { status: number; data: Record<string, unknown> },
+  key: string
+): Promise<Result> {
+  if (response.status === 202) {
+    return jobApi.waitForJob<Result>(response.data.id as string);
+  }
+  return response.data[key] as Result;
+}
+
 export const simulationApi = {
   // Run a simulation
-  async runSimulation(parameters: SimulationParameters, saveResults = false, scenarioId?: string) {
+  async runSimulation(
+    parameters: SimulationParameters,
+    options: RunOptions = {},
+    saveResults = false,
+    scenarioId?: string
+  ) {
     const response = await api.post('/simulation/run', {
       parameters,
+      ...options,
       saveResults,
       scenarioId,
     });
     return response.data;
   },
 
+  // Run a Monte Carlo ensemble of replicates
+  async runEnsemble(
+    parameters: SimulationParameters,
+    options: EnsembleOptions = {}
+  ): Promise<EnsembleResults> {
+    const response = await api.post('/simulation/ensemble', {
+      parameters,
+      ...options,
+    });
+    return resultOrJob<EnsembleResults>(response, 'ensemble');
+  },
+
+  // Sweep one or two parameters over a grid
+  async runSweep(
+    parameters: SimulationParameters,
+    axes: SweepAxis[],
+    options: RunOptions = {}
+  ): Promise<SweepResults> {
+    const response = await api.post('/simulation/sweep', {
+      parameters,
+      axes,
+      ...options,
+    });
+    return resultOrJob<SweepResults>(response, 'sweep');
+  },
+
+  // Sweep one parameter and record the attractor at every value
+  async runBifurcation(
+    parameters: SimulationParameters,
+    options: BifurcationOptions,
+    runOptions: RunOptions = {}
+  ): Promise<BifurcationResults> {
+    const response = await api.post('/simulation/bifurcation', {
+      parameters,
+      ...options,
+      ...runOptions,
+    });
+    return resultOrJob<BifurcationResults>(response, 'bifurcation');
+  },
+
+  // Rank parameters by how much they drive an output metric
+  async runSensitivity(
+    parameters: SimulationParameters,
+    options: SensitivityOptions,
+    runOptions: RunOptions = {}
+  ): Promise<SensitivityResults> {
+    const response = await api.post('/simulation/sensitivity', {
+      parameters,
+      ...options,
+      ...runOptions,
+    });
+    return resultOrJob<SensitivityResults>(response, 'sensitivity');
+  },
+
+  // Fit parameters to an observed time series
+  async calibrate(
+    parameters: SimulationParameters,
+    options: CalibrationOptions,
+    runOptions: RunOptions = {}
+  ): Promise<CalibrationResults> {
+    const response = await api.post('/simulation/calibrate', {
+      parameters,
+      ...options,
+      ...runOptions,
+    });
+    return resultOrJob<CalibrationResults>(response, 'calibration');
+  },
+
   // Get simulation presets
   async getPresets() {
     const response = await api.get('/simulation/presets');
     return response.data;
   },
 
+  // Get available interaction models
+  async getModels(): Promise<InteractionModelDefinition[]> {
+    const response = await api.get('/simulation/models');
+    return response.data;
+  },
+
+  // Get available ODE solvers
+  async getSolvers(): Promise<SolverDefinition[]> {
+    const response = await api.get('/simulation/solvers');
+    return response.data;
+  },
+
+  // Preview the resource level and predator mortality the forcing produces
+  async previewForcing(parameters: SimulationParameters, duration = 100): Promise<ForcingPreview> {
+    const response = await api.post('/simulation/forcing/preview', { parameters, duration, interval: 0.5 });
+    return response.data;
+  },
+
+  // Get scheduled event types
+  async getEventTypes(): Promise<EventTypeDefinition[]> {
+    const response = await api.get('/simulation/event-types');
+    return response.data;
+  },
+
   // Predict equilibrium
   async predictEquilibrium(parameters: SimulationParameters) {
     const response = await api.post('/simulation/predict', { parameters });
     return response.data;
   },
 
-  // Get phase space data
-  async getPhaseSpace(parameters: SimulationParameters, resolution = 15) {
+  // Find the fixed points of the model and classify their stability
+  async analyzeStability(parameters: SimulationParameters): Promise<StabilityAnalysis> {
+    const response = await api.post('/simulation/stability', { parameters });
+    return response.data;
+  },
+
+  // Get the phase plane: vector field, nullclines and fixed points
+  async getPhaseSpace(
+    parameters: SimulationParameters,
+    resolution = 15,
+    bounds?: PhasePlaneBounds
+  ): Promise<PhasePlane> {
     const response = await api.post('/simulation/phase-space', { 
       parameters, 
-      resolution 
+      resolution,
+      bounds,
     });
     return response.data;
   },
 
-  // Stream simulation updates
-  streamSimulation(
-    parameters: SimulationParameters, 
-    onUpdate: (update: LiveSimulationUpdate) => void,
-    onComplete: () => void
-  ) {
-    const eventSource = new EventSource('/api/simulation/stream');
-    
-    eventSource.onmessage = (event) => {
-      const data = JSON.parse(event.data);
-      if (data.type === 'complete') {
-        onComplete();
-        eventSource.close();
-      } else {
-        onUpdate(data);
+  // Run a simulation on the server, receiving its progress as server-sent
+  // events; resolves with the final results
+  async streamSimulation(
+    parameters: SimulationParameters,
+    options: RunOptions = {},
+    onUpdate?: (update: LiveSimulationUpdate) => void
+  ): Promise<SimulationResults> {
+    const response = await fetch(`${API_BASE_URL}/simulation/stream`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ parameters, ...options }),
+    });
+    if (!response.ok || !response.body) {
+      const body = await response.json().catch(() => ({}));
+      throw new Error(body.error ?? 'Streaming simulation failed');
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      // Events are separated by blank lines; keep any partial event for the next chunk
+      buffer += value;
+      const events = buffer.split('\n\n');
+      buffer = events.pop() ?? '';
+      for (const event of events) {
+        const data: LiveSimulationUpdate = JSON.parse(event.replace(/^data: /, ''));
+        if (data.type === 'complete' && data.results) {
+          return data.results;
+        }
+        onUpdate?.(data);
       }
-    };
+    }
+    throw new Error('The stream ended before the simulation completed');
+  },
+};
 
-    eventSource.onerror = () => {
-      eventSource.close();
-      onComplete();
-    };
+export const jobApi = {
+  // Submit a job to the background worker pool
+  async submitJob(type: JobType, payload: Record<string, unknown>): Promise<Job> {
+    const response = await api.post('/jobs', { type, payload });
+    return response.data;
+  },
+
+  // Get job status, progress and result
+  async getJob<Result>(id: string): Promise<Job<Result>> {
+    const response = await api.get(`/jobs/${id}`);
+    return response.data;
+  },
+
+  // Cancel a queued or running job
+  async cancelJob(id: string): Promise<Job> {
+    const response = await api.post(`/jobs/${id}/cancel`);
+    return response.data;
+  },
+
+  // Poll a job until it finishes and resolve with its result
+  async waitForJob<Result>(
+    id: string,
+    onProgress?: (progress: number) => void,
+    pollInterval = 500
+  ): Promise<Result> {
+    for (;;) {
+      const job = await jobApi.getJob<Result>(id);
+      onProgress?.(job.progress);
 
-    // Send parameters to start streaming
-    api.post('/simulation/stream', { parameters });
+      if (job.status === 'completed') return job.result as Result;
+      if (job.status === 'failed' || job.status === 'cancelled') {
+        throw new Error(job.error ?? `Job ${job.status}`);
+      }
 
-    return eventSource;
+      await new Promise(resolve => setTimeout(resolve, pollInterval));
+    }
   },
 };
 
@@ -110,8 +309,8 @@ export const scenarioApi = {
     return response.data;
   },
 
-  // Update scenario
-  async updateScenario(id: string, updates: Partial<Scenario>) {
+  // Update scenario; the change is recorded as a revision by author with message
+  async updateScenario(id: string, updates: Partial<Scenario> & { author?: string; message?: string }) {
     const response = await api.put(`/scenarios/${id}`, updates);
     return response.data;
   },
@@ -133,17 +332,79 @@ export const scenarioApi = {
     const response = await api.post(`/scenarios/${id}/duplicate`, { createdBy });
     return response.data;
   },
+
+  // Revisions of a scenario, newest first
+  async getRevisions(id: string): Promise<ScenarioRevisionList> {
+    const response = await api.get(`/scenarios/${id}/revisions`);
+    return response.data;
+  },
+
+  // One revision with its snapshot
+  async getRevision(id: string, revision: number): Promise<ScenarioRevision> {
+    const response = await api.get(`/scenarios/${id}/revisions/${revision}`);
+    return response.data;
+  },
+
+  // Parameter and outcome changes between two revisions
+  async diffRevisions(id: string, from: number, to: number): Promise<ScenarioDiff> {
+    const response = await api.get(`/scenarios/${id}/revisions/diff`, { params: { from, to } });
+    return response.data;
+  },
+
+  // Bundle of the given scenarios (all when no ids) as file content and name
+  async exportScenarios(
+    ids: string[] | null,
+    options: { format?: BundleFormat; includeResults?: boolean } = {}
+  ): Promise<{ content: string; filename: string }> {
+    const { format = 'json', includeResults = false } = options;
+    const response = await api.get('/scenarios/export', {
+      params: { ids: ids?.join(','), format, results: includeResults || undefined },
+      responseType: 'text',
+    });
+    return {
+      content: response.data,
+      filename: filenameFromDisposition(response.headers['content-disposition'], `scenarios.${format}`),
+    };
+  },
+
+  // Import a JSON or YAML bundle; a dry run only reports what would happen
+  async importScenarios(
+    bundle: string,
+    options: { onConflict?: ImportConflictStrategy; dryRun?: boolean; author?: string } = {}
+  ): Promise<BundleImportReport> {
+    const response = await api.post('/scenarios/import', bundle, {
+      params: { onConflict: options.onConflict, dryRun: options.dryRun || undefined, author: options.author },
+      headers: { 'Content-Type': 'application/yaml' },
+    });
+    return response.data;
+  },
+
+  // Bring back an old revision as the newest one
+  async restoreRevision(id: string, revision: number, options: { author?: string; message?: string } = {}): Promise<Scenario> {
+    const response = await api.post(`/scenarios/${id}/revisions/${revision}/restore`, options);
+    return response.data;
+  },
 };
 
-// WebSocket connection for real-time updates
+// Version of the /api/live protocol this client speaks
+const LIVE_PROTOCOL_VERSION = 3;
+const HEARTBEAT_INTERVAL = 25000;
+
+// WebSocket connection for real-time updates. After a reconnect it takes
+// back its previous client id, so its subscriptions and live sessions carry
+// on; if the server has forgotten it, the subscriptions are renewed.
 export class SimulationWebSocket {
   private ws: WebSocket | null = null;
   private reconnectTimeout: NodeJS.Timeout | null = null;
+  private heartbeat: NodeJS.Timeout | null = null;
+  private awaitingPong = false;
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
+  private clientId: string | null = null;
+  private channels = new Set<LiveChannel>();
   
   constructor(
-    private onMessage: (data: any) => void,
+    private onMessage: (data: ServerMessage) => void,
     private onConnect: () => void,
     private onDisconnect: () => void
   ) {}
@@ -157,12 +418,14 @@ export class SimulationWebSocket {
     this.ws.onopen = () => {
       console.log('WebSocket connected');
       this.reconnectAttempts = 0;
+      this.startHeartbeat();
       this.onConnect();
     };
 
     this.ws.onmessage = (event) => {
       try {
-        const data = JSON.parse(event.data);
+        const data: ServerMessage = JSON.parse(event.data);
+        this.handleProtocol(data);
         this.onMessage(data);
       } catch (error) {
         console.error('Failed to parse WebSocket message:', error);
@@ -171,6 +434,7 @@ export class SimulationWebSocket {
 
     this.ws.onclose = () => {
       console.log('WebSocket disconnected');
+      this.stopHeartbeat();
       this.onDisconnect();
       this.attemptReconnect();
     };
@@ -180,6 +444,52 @@ export class SimulationWebSocket {
     };
   }
 
+  // Connection bookkeeping the rest of the app does not need to see
+  private handleProtocol(data: ServerMessage) {
+    switch (data.type) {
+      case 'connected':
+        if (data.protocolVersion !== LIVE_PROTOCOL_VERSION) {
+          console.warn(`Server speaks live protocol ${data.protocolVersion}, expected ${LIVE_PROTOCOL_VERSION}`);
+        }
+        if (this.clientId) {
+          this.send({ type: 'reconnect', clientId: this.clientId });
+        } else {
+          this.clientId = data.clientId;
+        }
+        break;
+      case 'reconnected':
+        this.clientId = data.clientId;
+        break;
+      case 'reconnect_failed':
+        this.clientId = data.clientId;
+        this.channels.forEach(channel => this.send({ type: 'subscribe', channel }));
+        break;
+      case 'pong':
+        this.awaitingPong = false;
+        break;
+    }
+  }
+
+  // A connection that misses a pong is closed, which starts a reconnect
+  private startHeartbeat() {
+    this.awaitingPong = false;
+    this.heartbeat = setInterval(() => {
+      if (this.awaitingPong) {
+        this.ws?.close();
+        return;
+      }
+      this.awaitingPong = true;
+      this.send({ type: 'ping' });
+    }, HEARTBEAT_INTERVAL);
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
+
   private attemptReconnect() {
     if (this.reconnectAttempts >= this.maxReconnectAttempts) {
       console.log('Max reconnection attempts reached');
@@ -201,14 +511,29 @@ export class SimulationWebSocket {
       clearTimeout(this.reconnectTimeout);
       this.reconnectTimeout = null;
     }
+    this.stopHeartbeat();
     
     if (this.ws) {
+      // Closing on purpose neither reconnects nor resumes later
+      this.ws.onclose = null;
       this.ws.close();
       this.ws = null;
     }
+    this.clientId = null;
+    this.channels.clear();
+  }
+
+  subscribe(channel: LiveChannel) {
+    this.channels.add(channel);
+    this.send({ type: 'subscribe', channel });
+  }
+
+  unsubscribe(channel: LiveChannel) {
+    this.channels.delete(channel);
+    this.send({ type: 'unsubscribe', channel });
   }
 
-  send(data: any) {
+  send(data: ClientMessage) {
     if (this.ws && this.ws.readyState === WebSocket.OPEN) {
       this.ws.send(JSON.stringify(data));
     } else {
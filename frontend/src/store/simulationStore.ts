@@ -1,20 +1,80 @@
 import { create } from 'zustand';
+import toast from 'react-hot-toast';
 import { SimulationWebSocket } from '../services/api';
-import { WebSocketMessage, LiveSimulationUpdate } from '../types';
+import {
+  WebSocketMessage,
+  ClientMessage,
+  LiveChannel,
+  LiveSimulationUpdate,
+  LiveSession,
+  LiveSessionCommand,
+  LiveSessionSettings,
+  RunOptions,
+  SimulationParameters,
+  SimulationResults,
+  TimeStep,
+  RoomState,
+  RoomRole,
+} from '../types';
+
+type SessionControl = 'start' | 'pause' | 'resume' | 'step' | 'stop';
+
+// Membership of a shared room. The token lets this browser rejoin as the
+// same member after a reload or a server restart.
+interface RoomMembership {
+  code: string;
+  participantId: string;
+  token: string;
+  state: RoomState;
+}
+
+const ROOM_STORAGE_KEY = 'ecosystem-room';
+
+const savedRoom = (): { code: string; token: string } | null => {
+  try {
+    return JSON.parse(localStorage.getItem(ROOM_STORAGE_KEY) ?? 'null');
+  } catch {
+    return null;
+  }
+};
 
 interface SimulationStore {
   isConnected: boolean;
   liveData: LiveSimulationUpdate | null;
   wsConnection: SimulationWebSocket | null;
+  // Live session driven from this client, its history so far and, once it
+  // finishes, its results
+  session: LiveSession | null;
+  sessionHistory: TimeStep[];
+  sessionResults: SimulationResults | null;
+  room: RoomMembership | null;
   connectWebSocket: () => void;
   disconnectWebSocket: () => void;
-  sendMessage: (message: any) => void;
+  sendMessage: (message: ClientMessage) => void;
+  subscribe: (channel: LiveChannel) => void;
+  unsubscribe: (channel: LiveChannel) => void;
+  setLiveData: (update: LiveSimulationUpdate) => void;
+  createSession: (parameters: SimulationParameters, options: RunOptions, settings?: LiveSessionSettings) => void;
+  controlSession: (command: SessionControl) => void;
+  setSessionSpeed: (speed: number) => void;
+  updateSessionParameters: (parameters: SimulationParameters) => void;
+  createRoom: (name: string, displayName: string, parameters: SimulationParameters, runOptions: RunOptions) => void;
+  joinRoom: (code: string, displayName: string) => void;
+  leaveRoom: () => void;
+  closeRoom: () => void;
+  setEditLock: (locked: boolean) => void;
+  setMemberRole: (participantId: string, role: RoomRole) => void;
+  updateRoomParameters: (parameters: SimulationParameters, runOptions: RunOptions) => void;
 }
 
 export const useSimulationStore = create<SimulationStore>((set, get) => ({
   isConnected: false,
   liveData: null,
   wsConnection: null,
+  session: null,
+  sessionHistory: [],
+  sessionResults: null,
+  room: null,
 
   connectWebSocket: () => {
     const { wsConnection } = get();
@@ -26,8 +86,92 @@ export const useSimulationStore = create<SimulationStore>((set, get) => ({
     const ws = new SimulationWebSocket(
       // onMessage
       (data: WebSocketMessage) => {
-        if (data.type === 'simulation_update' || data.type === 'simulation_state') {
-          set({ liveData: data.data });
+        // Messages of an earlier session can still arrive after a new one is created
+        const { session, room } = get();
+        const isCurrent = (sessionId?: string) => session !== null && session.sessionId === sessionId;
+
+        // Rejoin the room of an earlier visit, or of a connection the server forgot
+        const rejoin = () => {
+          const saved = savedRoom();
+          if (saved) get().sendMessage({ type: 'join_room', code: saved.code, payload: { token: saved.token } });
+        };
+
+        switch (data.type) {
+          case 'connected':
+            if (!room) rejoin();
+            break;
+          case 'room_joined':
+            localStorage.setItem(ROOM_STORAGE_KEY, JSON.stringify({ code: data.code, token: data.data.token }));
+            set({
+              room: { code: data.code, participantId: data.data.participantId, token: data.data.token, state: data.data.room },
+              session: data.data.room.session,
+              sessionHistory: [],
+            });
+            break;
+          case 'room_state':
+            if (room?.code === data.code) set({ room: { ...room, state: data.data } });
+            break;
+          case 'room_parameters':
+            if (room?.code === data.code) set({ room: { ...room, state: { ...room.state, ...data.data } } });
+            break;
+          case 'room_closed':
+            if (room?.code === data.code) {
+              localStorage.removeItem(ROOM_STORAGE_KEY);
+              set({ room: null });
+              toast('The room was closed');
+            }
+            break;
+          case 'room_error':
+            // A saved room that no longer exists is forgotten
+            if (!room && data.code === savedRoom()?.code) {
+              localStorage.removeItem(ROOM_STORAGE_KEY);
+            } else {
+              toast.error(data.error);
+            }
+            break;
+          case 'simulation_update':
+            set({ liveData: data.data });
+            break;
+          case 'session_created':
+            set({ session: data.data, sessionHistory: [], sessionResults: null });
+            break;
+          case 'session_status':
+            if (isCurrent(data.sessionId)) set({ session: data.data });
+            break;
+          case 'session_update':
+            if (session && isCurrent(data.sessionId)) {
+              set(state => ({
+                liveData: data.data,
+                session: { ...session, time: data.data.time ?? session.time, status: data.data.status ?? session.status },
+                sessionHistory: [...state.sessionHistory, ...(data.data.timeSteps ?? [])],
+              }));
+            }
+            break;
+          case 'session_complete':
+            if (isCurrent(data.sessionId)) {
+              const { results, ...finished } = data.data;
+              set({ session: finished, sessionResults: results });
+            }
+            break;
+          case 'session_resumed':
+            // The server paused the session while we were away and sends its whole history
+            if (isCurrent(data.sessionId)) {
+              const { timeSteps, ...resumed } = data.data;
+              set({ session: resumed, sessionHistory: timeSteps });
+            }
+            break;
+          case 'reconnect_failed':
+            // Sessions end with the connection the server has forgotten
+            if (session && session.status !== 'finished') set({ session: null });
+            if (room) {
+              set({ room: null });
+              rejoin();
+            }
+            break;
+          case 'session_error':
+          case 'error':
+            toast.error(data.error);
+            break;
         }
       },
       // onConnect
@@ -53,11 +197,108 @@ export const useSimulationStore = create<SimulationStore>((set, get) => ({
     }
   },
 
-  sendMessage: (message: any) => {
+  sendMessage: (message: ClientMessage) => {
     const { wsConnection } = get();
     
     if (wsConnection) {
       wsConnection.send(message);
     }
   },
+
+  // Only messages on subscribed channels reach this client
+  subscribe: (channel: LiveChannel) => {
+    get().wsConnection?.subscribe(channel);
+  },
+
+  unsubscribe: (channel: LiveChannel) => {
+    get().wsConnection?.unsubscribe(channel);
+  },
+
+  // Progress of a run this client streams itself
+  setLiveData: (update: LiveSimulationUpdate) => {
+    set({ liveData: update });
+  },
+
+  // In a room, the run commands steer the room's shared run
+  createSession: (parameters, options, settings) => {
+    const { room, sendMessage } = get();
+    if (room) {
+      sendMessage({ type: 'room_session', code: room.code, payload: { command: 'create_session', settings } });
+    } else {
+      const command: LiveSessionCommand = { type: 'create_session', payload: { parameters, ...options, settings } };
+      sendMessage(command);
+    }
+  },
+
+  controlSession: (type) => {
+    const { session, room, sendMessage } = get();
+    if (room) {
+      sendMessage({ type: 'room_session', code: room.code, payload: { command: type } });
+    } else if (session) {
+      const command: LiveSessionCommand = { type, sessionId: session.sessionId };
+      sendMessage(command);
+    }
+  },
+
+  setSessionSpeed: (speed) => {
+    const { session, room, sendMessage } = get();
+    if (room) {
+      sendMessage({ type: 'room_session', code: room.code, payload: { command: 'set_speed', speed } });
+    } else if (session) {
+      const command: LiveSessionCommand = { type: 'set_speed', sessionId: session.sessionId, payload: { speed } };
+      sendMessage(command);
+    }
+  },
+
+  // Edits reach the run at its next step. A room's run follows the room's
+  // parameters instead.
+  updateSessionParameters: (parameters) => {
+    const { session, room, sendMessage } = get();
+    if (!room && session && session.status !== 'finished') {
+      const command: LiveSessionCommand = { type: 'update_parameters', sessionId: session.sessionId, payload: { parameters } };
+      sendMessage(command);
+    }
+  },
+
+  createRoom: (name, displayName, parameters, runOptions) => {
+    get().sendMessage({ type: 'create_room', payload: { name, displayName, parameters, runOptions } });
+  },
+
+  joinRoom: (code, displayName) => {
+    const saved = savedRoom();
+    const token = saved?.code === code ? saved.token : undefined;
+    get().sendMessage({ type: 'join_room', code, payload: { displayName, token } });
+  },
+
+  leaveRoom: () => {
+    const { room, sendMessage } = get();
+    if (room) {
+      sendMessage({ type: 'leave_room', code: room.code });
+      localStorage.removeItem(ROOM_STORAGE_KEY);
+      set({ room: null, session: null });
+    }
+  },
+
+  closeRoom: () => {
+    const { room, sendMessage } = get();
+    if (room) sendMessage({ type: 'close_room', code: room.code });
+  },
+
+  setEditLock: (locked) => {
+    const { room, sendMessage } = get();
+    if (room) sendMessage({ type: locked ? 'acquire_lock' : 'release_lock', code: room.code });
+  },
+
+  setMemberRole: (participantId, role) => {
+    const { room, sendMessage } = get();
+    if (room) sendMessage({ type: 'set_role', code: room.code, payload: { participantId, role } });
+  },
+
+  // Only the holder of the edit lock can change the room's parameters
+  updateRoomParameters: (parameters, runOptions) => {
+    const { room, sendMessage } = get();
+    if (room && room.state.lock === room.participantId) {
+      sendMessage({ type: 'update_room_parameters', code: room.code, payload: { parameters, runOptions } });
+    }
+  },
 }));
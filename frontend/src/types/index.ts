@@ -1,38 +1,220 @@
+// Juvenile and adult compartments. Newborns pass through `delayStages`
+// juvenile compartments (the linear chain trick), maturing after
+// `maturationTime` on average; only adults reproduce.
+export interface StageStructure {
+  maturationTime: number;
+  delayStages?: number;
+  // Fraction of the initial population that is juvenile
+  initialJuveniles?: number;
+  // Defaults to the species' death rate
+  juvenileMortality?: number;
+  // Predation on a juvenile relative to an adult
+  juvenileVulnerability?: number;
+  // Consumption by a juvenile relative to an adult
+  juvenileFeeding?: number;
+}
+
+export interface StagePopulations {
+  juvenile: number;
+  adult: number;
+}
+
 export interface PreyParameters {
   initialPopulation: number;
   birthRate: number;
   carryingCapacity: number;
+  stages?: StageStructure;
 }
 
 export interface PredatorParameters {
   initialPopulation: number;
   huntingEfficiency: number;
   deathRate: number;
+  conversionEfficiency?: number;
+  stages?: StageStructure;
+}
+
+export type NoiseType = 'white' | 'red';
+
+export interface ForcingHarmonic {
+  amplitude: number;
+  period: number;
+  // Radians
+  phase?: number;
+}
+
+export interface SeriesPoint {
+  time: number;
+  value: number;
+}
+
+// Resource level over time: a baseline (or series) plus harmonics, a linear
+// trend and noise, clamped to 0-1
+export interface EnvironmentForcing {
+  harmonics?: ForcingHarmonic[];
+  // Piecewise-linear points, or CSV text with time and value columns
+  series?: SeriesPoint[] | string;
+  repeat?: boolean;
+  trend?: { rate: number; from?: number; to?: number };
+  noise?: {
+    type: NoiseType;
+    amplitude: number;
+    correlationTime?: number;
+    interval?: number;
+    seed?: number | string;
+  };
+  // How strongly a resource shortfall below baseline raises predator death rates
+  predatorMortality?: number;
 }
 
 export interface EnvironmentParameters {
   resourceAvailability: number;
   seasonalVariation: boolean;
   seasonalAmplitude: number;
+  forcing?: EnvironmentForcing;
+}
+
+export interface ForcingPreview {
+  times: number[];
+  resourceLevel: number[];
+  predatorDeathFactor: number[];
+  seed: number | string | null;
+}
+
+export type InteractionModelType =
+  | 'holling1'
+  | 'holling2'
+  | 'holling3'
+  | 'beddingtonDeAngelis'
+  | 'ratioDependent';
+
+export interface InteractionModelConfig {
+  type: InteractionModelType;
+  parameters?: Record<string, number>;
+}
+
+export interface ModelParameterDefinition {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+  help: string;
+}
+
+export interface InteractionModelDefinition {
+  id: InteractionModelType;
+  name: string;
+  description: string;
+  parameters: ModelParameterDefinition[];
+}
+
+export type SpeciesRole = 'basal' | 'consumer';
+
+export interface FoodWebSpecies {
+  id: string;
+  name?: string;
+  initialPopulation: number;
+  growthRate?: number;
+  carryingCapacity?: number;
+  deathRate?: number;
+  conversionEfficiency?: number;
+  color?: string;
+  stages?: StageStructure;
+}
+
+export interface FoodWebParameters {
+  species: FoodWebSpecies[];
+  // interactions[i][j] > 0: attack rate of species i on species j,
+  // interactions[i][j] < 0: competitive effect of species j on species i
+  interactions: number[][];
+}
+
+export type SimulationEventType = 'harvest' | 'cull' | 'reintroduce' | 'drought' | 'disaster';
+
+// Scheduled intervention. Discrete events happen at `time`, optionally every
+// `every` until `until`; continuous ones (drought, harvest at a rate) cover
+// the window from `from` to `to`.
+export interface SimulationEvent {
+  type: SimulationEventType;
+  target?: string;
+  label?: string;
+  time?: number;
+  every?: number;
+  until?: number;
+  amount?: number;
+  fraction?: number;
+  from?: number;
+  to?: number;
+  rate?: number;
+  factor?: number;
+}
+
+export interface EventTypeDefinition {
+  id: SimulationEventType;
+  name: string;
+  description: string;
+  kinds: ('discrete' | 'continuous')[];
 }
 
 export interface SimulationParameters {
   prey: PreyParameters;
   predator: PredatorParameters;
   environment: EnvironmentParameters;
+  model?: InteractionModelConfig;
+  foodWeb?: FoodWebParameters;
+  events?: SimulationEvent[];
+}
+
+export interface SpeciesInfo {
+  id: string;
+  name: string;
+  role: SpeciesRole;
+  color: string;
 }
 
 export interface TimeStep {
   time: number;
+  // Totals of basal and consumer species; the two populations in a prey/predator run
   preyPopulation: number;
   predatorPopulation: number;
   resourceLevel: number;
+  populations?: Record<string, number>;
+  // Juvenile and adult totals of stage-structured species
+  stages?: Record<string, StagePopulations>;
+  // Labels of the events applied since the previous time step
+  events?: string[];
+}
+
+export interface AppliedEvent {
+  time: number;
+  type: SimulationEventType;
+  target: string | null;
+  label: string;
+  // Population change of every affected species
+  changes: Record<string, number>;
+}
+
+export interface EventPeriod {
+  type: SimulationEventType;
+  target: string | null;
+  label: string;
+  from: number;
+  to: number;
 }
 
 export interface EquilibriumPoint {
   prey: number;
   predator: number;
   timeToReach: number;
+  populations?: Record<string, number>;
+}
+
+export interface SpeciesSummary {
+  max: number;
+  min: number;
+  final: number;
 }
 
 export interface SimulationSummary {
@@ -44,18 +226,472 @@ export interface SimulationSummary {
   finalPrey: number;
   finalPredator: number;
   averageResourceLevel: number;
+  species?: Record<string, SpeciesSummary>;
+}
+
+export type SolverMethod = 'euler' | 'rk4' | 'rk45' | 'implicit';
+
+export interface SolverOptions {
+  method: SolverMethod;
+  absoluteTolerance?: number;
+  relativeTolerance?: number;
+  initialStep?: number;
+  minStep?: number;
+  maxStep?: number;
+}
+
+export interface SolverDefinition {
+  id: SolverMethod;
+  name: string;
+  description: string;
+  adaptive: boolean;
+}
+
+export interface SolverStatistics {
+  method: SolverMethod;
+  absoluteTolerance?: number;
+  relativeTolerance?: number;
+  steps: number;
+  rejectedSteps: number;
+  functionEvaluations: number;
+  // Sum and maximum of local error estimates; null for fixed-step solvers
+  estimatedError: number | null;
+  maxLocalError: number | null;
+}
+
+export type SimulationMode = 'deterministic' | 'stochastic' | 'spatial' | 'agent';
+
+export type StochasticMethod = 'auto' | 'ssa' | 'tauLeap';
+
+export interface StochasticOptions {
+  method?: StochasticMethod;
+  tau?: number;
+  criticalPopulation?: number;
+}
+
+export interface StochasticStatistics {
+  method: StochasticMethod;
+  seed: number | string;
+  tau: number;
+  criticalPopulation: number;
+  events: number;
+  exactSteps: number;
+  leaps: number;
+}
+
+export type BoundaryCondition = 'periodic' | 'reflecting' | 'absorbing';
+
+export type InitialPattern = 'spot' | 'uniform' | 'random';
+
+export interface SpatialOptions {
+  width?: number;
+  height?: number;
+  // Cells² per unit of time
+  preyDiffusion?: number;
+  predatorDiffusion?: number;
+  boundary?: BoundaryCondition;
+  initial?: InitialPattern;
+  dt?: number;
+}
+
+// Densities of every grid cell, row by row
+export interface SpatialSnapshot {
+  time: number;
+  width: number;
+  height: number;
+  prey: number[];
+  predator: number[];
+  max: { prey: number; predator: number };
+}
+
+export interface SpatialStatistics extends Required<SpatialOptions> {
+  steps: number;
+  grid: SpatialSnapshot;
+}
+
+export interface AgentOptions {
+  // Width and height of the wrapping world
+  size?: number;
+  huntRadius?: number;
+  // Distance per unit of time
+  preySpeed?: number;
+  predatorSpeed?: number;
+  preyMaxAge?: number | null;
+  predatorMaxAge?: number | null;
+  starvationTime?: number;
+  // Individuals represented by every agent
+  scale?: number;
+  dt?: number;
+}
+
+// Agent positions as flat [x0, y0, x1, y1, ...] arrays, sampled down for large runs
+export interface AgentSnapshot {
+  time: number;
+  size: number;
+  scale: number;
+  counts: { prey: number; predator: number };
+  prey: number[];
+  predator: number[];
+}
+
+export interface AgentStatistics extends Required<AgentOptions> {
+  seed: number | string;
+  steps: number;
+  births: number;
+  deaths: number;
+  kills: number;
+  starvations: number;
+  // Whether births were suppressed by the agent limit
+  capped: boolean;
+  agents: AgentSnapshot;
+}
+
+export interface RunOptions {
+  mode?: SimulationMode;
+  seed?: number | string;
+  solver?: SolverOptions;
+  stochastic?: StochasticOptions;
+  spatial?: SpatialOptions;
+  agent?: AgentOptions;
 }
 
 export interface SimulationResults {
   timeSteps: TimeStep[];
+  species?: SpeciesInfo[];
   equilibriumReached: boolean;
   equilibriumPoint: EquilibriumPoint | null;
   extinctionOccurred: boolean;
+  events?: AppliedEvent[];
+  eventPeriods?: EventPeriod[];
+  mode?: SimulationMode;
+  solver?: SolverStatistics;
+  stochastic?: StochasticStatistics;
+  spatial?: SpatialStatistics;
+  agent?: AgentStatistics;
   summary: SimulationSummary;
 }
 
+// Text formats of downloaded chart data; the API also serves a binary columnar one
+export type TableFormat = 'csv' | 'ndjson';
+
+export interface EnsembleOptions extends RunOptions {
+  replicates?: number;
+  interval?: number;
+  // Relative log-normal spread, for the core rates or per parameter path
+  perturbation?: number | Record<string, number>;
+}
+
+export interface PercentileBand {
+  p5: number[];
+  p25: number[];
+  p50: number[];
+  p75: number[];
+  p95: number[];
+}
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+export interface TimeToExtinction {
+  count: number;
+  probability: number;
+  mean: number | null;
+  median: number | null;
+  min: number | null;
+  max: number | null;
+  histogram: HistogramBin[];
+  bySpecies: Record<string, number>;
+}
+
+export interface EnsembleResults {
+  replicates: number;
+  mode: SimulationMode;
+  seed: number | string;
+  perturbation: Record<string, number>;
+  species: SpeciesInfo[];
+  percentiles: number[];
+  times: number[];
+  bands: Record<string, PercentileBand>;
+  extinctionProbability: number[];
+  timeToExtinction: TimeToExtinction;
+}
+
+export type SweepOutcome = 'equilibrium' | 'oscillation' | 'extinction';
+
+export interface SweepAxis {
+  path: string;
+  min: number;
+  max: number;
+  resolution?: number;
+}
+
+export interface SweepCellMetrics {
+  duration: number;
+  finalPrey: number;
+  finalPredator: number;
+  minPrey: number;
+  maxPrey: number;
+  minPredator: number;
+  maxPredator: number;
+  preyAmplitude: number;
+  predatorAmplitude: number;
+}
+
+export interface SweepCell {
+  x: number;
+  y: number;
+  values: Record<string, number>;
+  outcome: SweepOutcome;
+  metrics: SweepCellMetrics;
+}
+
+export interface SweepResults {
+  axes: { path: string; values: number[] }[];
+  cells: SweepCell[];
+  counts: Record<SweepOutcome, number>;
+}
+
+export interface BifurcationOptions {
+  path: string;
+  min: number;
+  max: number;
+  resolution?: number;
+  transient?: number;
+  duration?: number;
+}
+
+export interface AttractorSummary {
+  settled: boolean;
+  extinct: boolean;
+  level: number | null;
+  final: number;
+  min: number;
+  max: number;
+  minima: number[];
+  maxima: number[];
+}
+
+export interface BifurcationPoint {
+  value: number;
+  outcome: SweepOutcome;
+  attractor: Record<string, AttractorSummary>;
+}
+
+export interface BifurcationResults {
+  path: string;
+  transient: number;
+  duration: number;
+  species: SpeciesInfo[];
+  points: BifurcationPoint[];
+  counts: Record<SweepOutcome, number>;
+}
+
+export type SensitivityMethod = 'morris' | 'sobol';
+
+export interface SensitivityRange {
+  path: string;
+  min?: number;
+  max?: number;
+}
+
+export interface SensitivityOptions {
+  method?: SensitivityMethod;
+  metric?: string;
+  factors?: (string | SensitivityRange)[];
+  trajectories?: number;
+  levels?: number;
+  samples?: number;
+  seed?: number | string;
+}
+
+export interface SensitivityFactor {
+  path: string;
+  min: number;
+  max: number;
+  // Morris elementary effects
+  mu?: number;
+  muStar?: number;
+  sigma?: number;
+  // Sobol indices with 95% bootstrap intervals
+  firstOrder?: number;
+  totalOrder?: number;
+  firstOrderConfidence?: [number, number];
+  totalOrderConfidence?: [number, number];
+}
+
+export interface SensitivityResults {
+  method: SensitivityMethod;
+  metric: string;
+  seed: number | string;
+  runs: number;
+  trajectories?: number;
+  levels?: number;
+  delta?: number;
+  samples?: number;
+  factors: SensitivityFactor[];
+  ranking: string[];
+  output: { mean: number; variance: number; min: number; max: number };
+}
+
+export interface CalibrationRange {
+  path: string;
+  min?: number;
+  max?: number;
+}
+
+export interface CalibrationOptions {
+  // CSV text with a time column, or rows such as { time, prey, predator }
+  data: string | Record<string, number | null>[];
+  columns?: Record<string, string>;
+  fit?: (string | CalibrationRange)[];
+  initialFromData?: boolean;
+  maxIterations?: number;
+  tolerance?: number;
+}
+
+export interface CalibrationObservation {
+  time: number;
+  values: Record<string, number | null>;
+}
+
+export interface FittedParameter {
+  path: string;
+  min: number;
+  max: number;
+  initial: number | null;
+  value: number;
+}
+
+export interface CalibrationResidual {
+  time: number;
+  species: string;
+  observed: number;
+  simulated: number;
+  residual: number;
+}
+
+export interface SpeciesFit {
+  count: number;
+  sse: number;
+  rmse: number;
+  rSquared: number | null;
+}
+
+export interface CalibrationResults {
+  parameters: SimulationParameters;
+  fitted: FittedParameter[];
+  iterations: number;
+  converged: boolean;
+  timeOffset: number;
+  observations: CalibrationObservation[];
+  residuals: CalibrationResidual[];
+  goodness: {
+    objective: number;
+    aic: number;
+    species: Record<string, SpeciesFit>;
+  };
+  simulation: SimulationResults;
+}
+
+export type JobType =
+  | 'simulation'
+  | 'ensemble'
+  | 'sweep'
+  | 'bifurcation'
+  | 'sensitivity'
+  | 'calibration'
+  | 'phaseSpace';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface Job<Result = unknown> {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  progress: number;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  error: string | null;
+  result?: Result | null;
+}
+
+export type FixedPointType = 'trivial' | 'prey-only' | 'coexistence';
+
+export type FixedPointClassification =
+  | 'stable node'
+  | 'stable focus'
+  | 'saddle'
+  | 'center'
+  | 'unstable node'
+  | 'unstable focus'
+  | 'degenerate';
+
+export interface Eigenvalue {
+  real: number;
+  imag: number;
+}
+
+export interface FixedPoint {
+  type: FixedPointType;
+  prey: number;
+  predator: number;
+  jacobian: number[][];
+  eigenvalues: Eigenvalue[];
+  classification: FixedPointClassification;
+  stable: boolean;
+  period: number | null;
+}
+
+export interface StabilityPrediction {
+  outcome: SweepOutcome;
+  prey: number;
+  predator: number;
+  isStable: boolean;
+  classification: FixedPointClassification | null;
+  period: number | null;
+}
+
+export interface StabilityAnalysis {
+  resourceLevel: number;
+  fixedPoints: FixedPoint[];
+  prediction: StabilityPrediction;
+  explanation: string;
+}
+
+export interface PhasePoint {
+  x: number;
+  y: number;
+}
+
+export interface PhaseVector extends PhasePoint {
+  dx: number;
+  dy: number;
+}
+
+export interface PhasePlaneBounds {
+  preyMax: number;
+  predatorMax: number;
+}
+
+export interface PhasePlane {
+  phaseSpace: PhaseVector[];
+  resolution: number;
+  bounds: PhasePlaneBounds;
+  nullclines: {
+    prey: PhasePoint[][];
+    predator: PhasePoint[][];
+  };
+  fixedPoints: FixedPoint[];
+}
+
 export interface Scenario {
   _id: string;
+  // Same in every sandbox the scenario is exported to
+  uid?: string;
   name: string;
   description?: string;
   parameters: SimulationParameters;
@@ -67,10 +703,98 @@ export interface Scenario {
     views: number;
     likes: number;
   };
+  // Number of the latest revision
+  revision?: number;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface ScenarioRevisionSummary {
+  scenarioId: string;
+  number: number;
+  author: string;
+  message: string;
+  createdAt: string;
+}
+
+// A scenario as it was after one of its changes
+export interface ScenarioRevision extends ScenarioRevisionSummary {
+  snapshot: {
+    name: string;
+    description?: string;
+    parameters: SimulationParameters;
+    simulationResults?: SimulationResults;
+    metadata: {
+      tags: string[];
+      isPublic: boolean;
+    };
+  };
+}
+
+export interface ScenarioRevisionList {
+  current: number;
+  revisions: ScenarioRevisionSummary[];
+}
+
+// One changed value, by dotted path such as "prey.birthRate"
+export interface RevisionChange {
+  path: string;
+  change: 'added' | 'removed' | 'changed';
+  from?: unknown;
+  to?: unknown;
+}
+
+export interface OutcomeMetrics {
+  equilibriumReached: boolean;
+  extinctionOccurred: boolean;
+  duration: number;
+  finalPrey: number;
+  finalPredator: number;
+  peakPrey: number;
+  peakPredator: number;
+  meanPrey: number;
+  meanPredator: number;
+  equilibriumPrey: number | null;
+  equilibriumPredator: number | null;
+}
+
+export interface ScenarioDiff {
+  from: ScenarioRevisionSummary;
+  to: ScenarioRevisionSummary;
+  fields: RevisionChange[];
+  parameters: RevisionChange[];
+  // Metrics of each revision's stored results; changes is null unless both have results
+  outcome: {
+    from: OutcomeMetrics | null;
+    to: OutcomeMetrics | null;
+    changes: Partial<Record<keyof OutcomeMetrics, { from: unknown; to: unknown; difference?: number }>> | null;
+  };
+}
+
+export type BundleFormat = 'json' | 'yaml';
+export type ImportConflictStrategy = 'skip' | 'rename' | 'replace';
+
+// What an import did, or would do in a dry run, with one scenario of a bundle
+export interface BundleImportResult {
+  index: number;
+  name?: string;
+  sourceId?: string;
+  id?: string;
+  action: 'created' | 'renamed' | 'replaced' | 'skipped' | 'invalid';
+  conflict?: { by: 'uid' | 'name'; id: string; name: string };
+  fields?: Record<string, string>;
+}
+
+export interface BundleImportReport {
+  version: number;
+  migratedFrom: number;
+  dryRun: boolean;
+  onConflict: ImportConflictStrategy;
+  results: BundleImportResult[];
+  summary?: Record<'created' | 'renamed' | 'replaced' | 'skipped', number>;
+  error?: string;
+}
+
 export interface LiveSimulationUpdate {
   type: 'update' | 'complete';
   step?: number;
@@ -79,12 +803,139 @@ export interface LiveSimulationUpdate {
     prey: number;
     predator: number;
   };
+  speciesPopulations?: Record<string, number>;
   resourceLevel?: number;
+  // Cell densities of a spatial run
+  grid?: SpatialSnapshot;
+  // Agent positions of an agent-based run
+  agents?: AgentSnapshot;
   results?: SimulationResults;
+  // Live sessions also report their status and the history recorded since
+  // the previous update
+  status?: LiveSessionStatus;
+  timeSteps?: TimeStep[];
+}
+
+export type LiveSessionStatus = 'idle' | 'running' | 'paused' | 'finished';
+
+export interface LiveSessionSettings {
+  speed?: number; // Simulation steps per update
+  updateInterval?: number; // Milliseconds between updates
+  duration?: number; // Simulated time before the run ends
 }
 
-export interface WebSocketMessage {
-  type: 'connected' | 'simulation_update' | 'simulation_complete' | 'simulation_state';
-  message?: string;
-  data?: any;
+export interface LiveSession extends Required<LiveSessionSettings> {
+  sessionId: string;
+  status: LiveSessionStatus;
+  mode: SimulationMode;
+  time: number;
+  species: SpeciesInfo[];
 }
+
+// Protocol of /api/live, mirroring backend/src/live/protocol.js (version 3)
+
+// Messages reach the subscribers of a channel: a live session, a run or
+// shared scenario named in a request, one background job or all of them
+export type LiveChannel =
+  | `session:${string}`
+  | `room:${string}`
+  | `run:${string}`
+  | `scenario:${string}`
+  | `job:${string}`
+  | 'jobs';
+
+// Commands a client sends on /api/live to drive its sessions
+export type LiveSessionCommand =
+  | {
+    type: 'create_session';
+    payload: RunOptions & { parameters: SimulationParameters; settings?: LiveSessionSettings };
+  }
+  | { type: 'start' | 'pause' | 'resume' | 'step' | 'stop'; sessionId: string }
+  | { type: 'set_speed'; sessionId: string; payload: { speed: number } }
+  | { type: 'update_parameters'; sessionId: string; payload: { parameters: SimulationParameters } };
+
+export type RoomRole = 'facilitator' | 'participant' | 'viewer';
+
+export interface RoomMember {
+  id: string;
+  name: string;
+  role: RoomRole;
+  online: boolean;
+}
+
+// A shared room as its members see it
+export interface RoomState {
+  code: string;
+  name: string;
+  parameters: SimulationParameters;
+  runOptions: RunOptions;
+  revision: number; // Counts parameter edits
+  members: RoomMember[];
+  lock: string | null; // Id of the member holding the edit lock
+  session: LiveSession | null; // The room's live run
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type RoomSessionCommand = Exclude<LiveSessionCommand['type'], 'update_parameters'>;
+
+export type RoomCommand =
+  | {
+    type: 'create_room';
+    payload: { name?: string; displayName?: string; parameters: SimulationParameters; runOptions?: RunOptions };
+  }
+  // A token from an earlier visit rejoins as the same member with the same role
+  | { type: 'join_room'; code: string; payload: { displayName?: string; token?: string } }
+  | { type: 'leave_room' | 'acquire_lock' | 'release_lock' | 'close_room'; code: string }
+  | { type: 'set_role'; code: string; payload: { participantId: string; role: RoomRole } }
+  | { type: 'update_room_parameters'; code: string; payload: { parameters: SimulationParameters; runOptions?: RunOptions } }
+  | {
+    type: 'room_session';
+    code: string;
+    payload: { command: RoomSessionCommand; speed?: number; settings?: LiveSessionSettings };
+  };
+
+export type ClientMessage =
+  | LiveSessionCommand
+  | RoomCommand
+  | { type: 'ping' }
+  // Take back the id, subscriptions and sessions of a dropped connection
+  | { type: 'reconnect'; clientId: string }
+  | { type: 'subscribe' | 'unsubscribe'; channel: LiveChannel }
+  // Relayed as simulation_state to the other subscribers of a run or scenario channel
+  | { type: 'simulation_update'; channel: `run:${string}` | `scenario:${string}`; payload: unknown };
+
+export type ServerMessage =
+  | { type: 'connected'; clientId: string; protocolVersion: number; message: string }
+  | { type: 'reconnected'; clientId: string; channels: LiveChannel[] }
+  | { type: 'reconnect_failed'; clientId: string }
+  | { type: 'pong'; time: number }
+  | { type: 'subscribed' | 'unsubscribed'; channel: LiveChannel }
+  | { type: 'error'; error: string }
+  | { type: 'simulation_update'; channel: LiveChannel; data: LiveSimulationUpdate }
+  | { type: 'simulation_complete'; channel: LiveChannel; data: { parameters: SimulationParameters; results: SimulationResults } }
+  | { type: 'simulation_state'; channel: LiveChannel; data: unknown }
+  | { type: 'job_complete' | 'job_failed' | 'job_cancelled'; channel: LiveChannel; data: Job }
+  | { type: 'session_created' | 'session_status'; channel: LiveChannel; sessionId: string; data: LiveSession }
+  | { type: 'session_update'; channel: LiveChannel; sessionId: string; data: LiveSimulationUpdate }
+  | {
+    type: 'session_complete';
+    channel: LiveChannel;
+    sessionId: string;
+    data: LiveSession & { results: SimulationResults };
+  }
+  // Sent to an owner that reconnects, with the session's whole history
+  | { type: 'session_resumed'; sessionId: string; data: LiveSession & { timeSteps: TimeStep[] } }
+  | { type: 'session_error'; sessionId?: string; error: string }
+  | { type: 'room_joined'; code: string; data: { participantId: string; token: string; room: RoomState } }
+  | { type: 'room_state'; channel: LiveChannel; code: string; data: RoomState }
+  | {
+    type: 'room_parameters';
+    channel: LiveChannel;
+    code: string;
+    data: { parameters: SimulationParameters; runOptions: RunOptions; revision: number; editedBy: string };
+  }
+  | { type: 'room_closed'; channel: LiveChannel; code: string }
+  | { type: 'room_error'; code?: string; error: string };
+
+export type WebSocketMessage = ServerMessage;
@@ -0,0 +1,14 @@
+// Save generated content as a file through the browser
+export function downloadFile(content: BlobPart, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// File name sent by the server in a Content-Disposition header
+export function filenameFromDisposition(disposition: string | undefined, fallback: string) {
+  return disposition?.match(/filename="([^"]+)"/)?.[1] ?? fallback;
+}
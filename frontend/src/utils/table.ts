@@ -0,0 +1,16 @@
+import { TableFormat } from '../types';
+
+export type TableValue = string | number | undefined;
+
+const csvField = (value: TableValue) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// A table as CSV with a header row, or as JSON Lines with one object per row
+export function formatTable(columns: string[], rows: TableValue[][], format: TableFormat) {
+  const lines = format === 'csv'
+    ? [columns, ...rows].map(row => row.map(csvField).join(','))
+    : rows.map(row => JSON.stringify(Object.fromEntries(columns.map((c, i) => [c, row[i] ?? null]))));
+  return lines.join('\n') + '\n';
+}